@@ -1,12 +1,24 @@
+import { useEffect } from 'react';
+import { Alert } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import RootNavigator from '@/navigation/RootNavigator';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { subscribeToNotifications } from '@/services/notificationsService';
 
 /**
  * App is the main entry point for the Revolt EV Charging Station app.
- * It sets up the navigation structure and global providers.
+ * It sets up the navigation structure and global providers, and shows
+ * in-app notifications (charging complete, idle fees) as they arrive.
  */
 export default function App() {
+  useEffect(
+    () =>
+      subscribeToNotifications(notification => {
+        Alert.alert(notification.title, notification.body);
+      }),
+    []
+  );
+
   return (
     <SafeAreaProvider>
       <RootNavigator />
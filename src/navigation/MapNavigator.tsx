@@ -10,6 +10,7 @@ import PlanTripScreen from '@/screens/Map/PlanTripScreen';
 import TripRouteScreen from '@/screens/Map/TripRouteScreen';
 import ReservationDetailsScreen from '@/screens/Map/ReservationDetailsScreen';
 import ScanQRScreen from '@/screens/Map/ScanQRScreen';
+import ChargingSessionScreen from '@/screens/Map/ChargingSessionScreen';
 import RatingScreen from '@/screens/Map/RatingScreen';
 
 const Stack = createNativeStackNavigator<MapStackParamList>();
@@ -20,6 +21,7 @@ const Stack = createNativeStackNavigator<MapStackParamList>();
  * - Planning trips and routes
  * - Making reservations
  * - Scanning QR codes for charging
+ * - Monitoring the charging session
  * - Rating stations after use
  */
 
@@ -67,6 +69,11 @@ export default function MapNavigator() {
         options={{ title: 'Your Reservation' }}
       />
       <Stack.Screen name="ScanQR" component={ScanQRScreen} options={{ title: 'Scan QR Code' }} />
+      <Stack.Screen
+        name="ChargingSession"
+        component={ChargingSessionScreen}
+        options={{ title: 'Charging' }}
+      />
       <Stack.Screen
         name="Rating"
         component={RatingScreen}
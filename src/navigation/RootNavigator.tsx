@@ -1,8 +1,15 @@
+import { useEffect, useState } from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { RootStackParamList } from '@/types/navigation';
+import { AuthUser } from '@/types/auth';
+import { initializeAuth, subscribeToAuth } from '@/services/authService';
+import { loadVehicleData } from '@/services/deviceStore';
 
 import RegistrationScreen from '@/screens/Auth/RegistrationScreen';
+import SignInScreen from '@/screens/Auth/SignInScreen';
+import SignUpScreen from '@/screens/Auth/SignUpScreen';
+import PhoneSignInScreen from '@/screens/Auth/PhoneSignInScreen';
 import AddVehicleScreen from '@/screens/Auth/AddVehicleScreen';
 import MainTabsNavigator from './MainTabsNavigator';
 import AdminDashboard from '@/screens/Admin/AdminDashboard';
@@ -10,31 +17,76 @@ import PrivacyScreen from '@/screens/Profile/PrivacyScreen';
 import HelpSupportScreen from '@/screens/Profile/HelpSupportScreen';
 import AddPaymentScreen from '@/screens/Profile/AddPaymentScreen';
 import NotificationsScreen from '@/screens/Profile/NotificationsScreen';
+import SessionReceiptScreen from '@/screens/Reservations/SessionReceiptScreen';
+import ExportSessionsScreen from '@/screens/Reservations/ExportSessionsScreen';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
+interface AuthState {
+  user: AuthUser | null;
+  hasVehicle: boolean; // Signed-in drivers without a vehicle start at AddVehicle
+}
+
 /**
  * RootNavigator manages the top-level navigation flow including:
- * - Initial registration/authentication
- * - Vehicle setup
+ * - Welcome and sign-in screens while signed out
+ * - Vehicle setup for accounts without a vehicle
  * - Main app navigation via tabs
+ * Signing in or out swaps the screens; nothing renders until the saved session is restored.
  */
 export default function RootNavigator() {
+  const [auth, setAuth] = useState<AuthState | undefined>();
+
+  useEffect(() => {
+    const handleUser = async (user: AuthUser | null) => {
+      let hasVehicle = false;
+      try {
+        hasVehicle = user ? !!(await loadVehicleData()) : false;
+      } catch (error) {
+        console.warn('⚠️ Could not load the saved vehicle:', error);
+      }
+      setAuth({ user, hasVehicle });
+    };
+    initializeAuth()
+      .then(handleUser)
+      .catch(error => {
+        console.warn('⚠️ Could not restore the session:', error);
+        handleUser(null);
+      });
+    return subscribeToAuth(handleUser);
+  }, []);
+
+  if (!auth) return null;
+
   return (
     <NavigationContainer>
       <Stack.Navigator
+        key={auth.user ? auth.user.id : 'signed-out'}
+        initialRouteName={auth.user && auth.hasVehicle ? 'MainTabs' : undefined}
         screenOptions={{
           headerShown: false,
         }}
       >
-        <Stack.Screen name="Registration" component={RegistrationScreen} />
-        <Stack.Screen name="AddVehicle" component={AddVehicleScreen} />
-        <Stack.Screen name="AddPayment" component={AddPaymentScreen} />
-  <Stack.Screen name="Notifications" component={NotificationsScreen} />
-        <Stack.Screen name="Privacy" component={PrivacyScreen} />
-        <Stack.Screen name="HelpSupport" component={HelpSupportScreen} />
-        <Stack.Screen name="MainTabs" component={MainTabsNavigator} />
-        <Stack.Screen name="AdminDashboard" component={AdminDashboard} />
+        {auth.user ? (
+          <>
+            <Stack.Screen name="AddVehicle" component={AddVehicleScreen} />
+            <Stack.Screen name="MainTabs" component={MainTabsNavigator} />
+            <Stack.Screen name="AddPayment" component={AddPaymentScreen} />
+            <Stack.Screen name="Notifications" component={NotificationsScreen} />
+            <Stack.Screen name="SessionReceipt" component={SessionReceiptScreen} />
+            <Stack.Screen name="ExportSessions" component={ExportSessionsScreen} />
+            <Stack.Screen name="Privacy" component={PrivacyScreen} />
+            <Stack.Screen name="HelpSupport" component={HelpSupportScreen} />
+            <Stack.Screen name="AdminDashboard" component={AdminDashboard} />
+          </>
+        ) : (
+          <>
+            <Stack.Screen name="Registration" component={RegistrationScreen} />
+            <Stack.Screen name="SignIn" component={SignInScreen} />
+            <Stack.Screen name="SignUp" component={SignUpScreen} />
+            <Stack.Screen name="PhoneSignIn" component={PhoneSignInScreen} />
+          </>
+        )}
       </Stack.Navigator>
     </NavigationContainer>
   );
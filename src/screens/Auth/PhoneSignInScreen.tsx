@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import BackArrow from '@/components/BackArrow';
+import { RootStackParamList } from '@/types/navigation';
+import { OtpChallenge } from '@/types/auth';
+import { requestSmsCode, signInWithSmsCode } from '@/services/authService';
+import { OTP_LENGTH } from '@/services/authValidation';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'PhoneSignIn'>;
+
+/**
+ * PhoneSignInScreen signs in with a one-time code sent by SMS.
+ * A number signing in for the first time gets a new account.
+ */
+export default function PhoneSignInScreen({ navigation }: Props) {
+  const [phone, setPhone] = useState('');
+  const [code, setCode] = useState('');
+  const [challenge, setChallenge] = useState<OtpChallenge | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick while a code is pending, for the resend countdown
+  useEffect(() => {
+    if (!challenge) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [challenge]);
+
+  const resendIn = challenge
+    ? Math.max(0, Math.ceil((Date.parse(challenge.resendAfter) - now) / 1000))
+    : 0;
+
+  const handleSendCode = async () => {
+    setSubmitting(true);
+    try {
+      setChallenge(await requestSmsCode(phone));
+      setCode('');
+      setNow(Date.now());
+    } catch (e) {
+      Alert.alert('Could not send code', e instanceof Error ? e.message : String(e));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    if (!challenge) return;
+    setSubmitting(true);
+    try {
+      await signInWithSmsCode(challenge.phone, code);
+    } catch (e) {
+      Alert.alert('Could not sign in', e instanceof Error ? e.message : String(e));
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['top', 'left', 'right', 'bottom']}>
+      <View style={styles.container}>
+        <View style={styles.headerRow}>
+          <Text style={styles.title}>Sign in with mobile</Text>
+          <BackArrow onPress={() => navigation.goBack()} />
+        </View>
+
+        {!challenge ? (
+          <>
+            <Text style={styles.subtitle}>We’ll text you a {OTP_LENGTH}-digit sign-in code.</Text>
+            <TextInput
+              value={phone}
+              onChangeText={setPhone}
+              placeholder="Mobile number (09XX XXX XXXX)"
+              placeholderTextColor="#6B7280"
+              keyboardType="phone-pad"
+              autoComplete="tel"
+              style={styles.input}
+            />
+            <TouchableOpacity
+              style={[styles.submitBtn, submitting && styles.submitBtnDisabled]}
+              onPress={handleSendCode}
+              disabled={submitting}
+            >
+              <Text style={styles.submitText}>{submitting ? 'Sending…' : 'Send code'}</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <Text style={styles.subtitle}>Enter the code sent to {challenge.phone}.</Text>
+            {challenge.testCode && (
+              <View style={styles.testCodeCard}>
+                <Text style={styles.testCodeLabel}>Test mode: no SMS is sent. Your code is</Text>
+                <Text style={styles.testCode}>{challenge.testCode}</Text>
+              </View>
+            )}
+            <TextInput
+              value={code}
+              onChangeText={setCode}
+              placeholder={`${OTP_LENGTH}-digit code`}
+              placeholderTextColor="#6B7280"
+              keyboardType="number-pad"
+              autoComplete="sms-otp"
+              textContentType="oneTimeCode"
+              maxLength={OTP_LENGTH}
+              style={styles.input}
+            />
+            <TouchableOpacity
+              style={[styles.submitBtn, submitting && styles.submitBtnDisabled]}
+              onPress={handleVerify}
+              disabled={submitting}
+            >
+              <Text style={styles.submitText}>{submitting ? 'Verifying…' : 'Verify'}</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.linkBtn}
+              onPress={handleSendCode}
+              disabled={submitting || resendIn > 0}
+            >
+              <Text style={[styles.linkText, resendIn === 0 && styles.linkAccent]}>
+                {resendIn > 0 ? `Resend code in ${resendIn} s` : 'Resend code'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.linkBtn} onPress={() => setChallenge(null)}>
+              <Text style={styles.linkText}>Use a different number</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1, backgroundColor: '#050816' },
+  container: { padding: 20 },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: { fontSize: 20, fontWeight: '700', color: '#F9FAFB' },
+  subtitle: { color: '#9CA3AF', fontSize: 13, marginTop: 4, marginBottom: 16 },
+  input: {
+    backgroundColor: '#0B1020',
+    padding: 12,
+    borderRadius: 8,
+    color: '#fff',
+    marginBottom: 12,
+  },
+  testCodeCard: {
+    backgroundColor: 'rgba(0,244,112,0.08)',
+    borderColor: 'rgba(0,244,112,0.3)',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  testCodeLabel: { color: '#9CA3AF', fontSize: 12 },
+  testCode: { color: '#00F470', fontSize: 20, fontWeight: '700', letterSpacing: 4, marginTop: 4 },
+  submitBtn: { backgroundColor: '#00F470', padding: 12, borderRadius: 8, alignItems: 'center' },
+  submitBtnDisabled: { opacity: 0.6 },
+  submitText: { color: '#02110A', fontWeight: '700' },
+  linkBtn: { alignItems: 'center', paddingVertical: 10 },
+  linkText: { color: '#9CA3AF' },
+  linkAccent: { color: '#00F470', fontWeight: '700' },
+});
@@ -1,7 +1,8 @@
 import React from 'react';
-import { StyleSheet, Image, Pressable, View } from 'react-native';
+import { StyleSheet, Image, Text, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
 import { RootStackParamList } from '@/types/navigation';
 
 // eslint-disable-next-line @typescript-eslint/no-require-imports
@@ -9,18 +10,34 @@ const welcomeLogo = require('../../../assets/welcomelogo.png');
 
 type Props = NativeStackScreenProps<RootStackParamList, 'Registration'>;
 
+/**
+ * RegistrationScreen welcomes signed-out drivers and offers the ways to sign in:
+ * email and password, or a code sent by SMS.
+ */
 export default function RegistrationScreen({ navigation }: Props) {
-  const handleGetStarted = () => {
-    navigation.navigate('AddVehicle');
-  };
-
   return (
-    <SafeAreaView style={styles.container} edges={['top','left','right','bottom']}>
-      <Pressable style={styles.container} onPress={handleGetStarted}>
-        <View>
-          <Image source={welcomeLogo} style={styles.logo} resizeMode="contain" />
-        </View>
-      </Pressable>
+    <SafeAreaView style={styles.container} edges={['top', 'left', 'right', 'bottom']}>
+      <View style={styles.logoWrap}>
+        <Image source={welcomeLogo} style={styles.logo} resizeMode="contain" />
+      </View>
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.primaryBtn} onPress={() => navigation.navigate('SignUp')}>
+          <Text style={styles.primaryText}>Create account</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.secondaryBtn}
+          onPress={() => navigation.navigate('PhoneSignIn')}
+        >
+          <Ionicons name="chatbubble-ellipses-outline" size={18} color="#E5E7EB" />
+          <Text style={styles.secondaryText}>Continue with mobile number</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.linkBtn} onPress={() => navigation.navigate('SignIn')}>
+          <Text style={styles.linkText}>
+            Already have an account? <Text style={styles.linkAccent}>Sign in</Text>
+          </Text>
+        </TouchableOpacity>
+      </View>
     </SafeAreaView>
   );
 }
@@ -29,15 +46,9 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: '#000000',
-    justifyContent: 'center',
-    alignItems: 'center',
   },
-  innerFrame: {
-    width: '90%',
-    height: '90%',
-    borderWidth: 3,
-    borderRadius: 16,
-    borderColor: '#A855F7', // light purple border like the sample
+  logoWrap: {
+    flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
   },
@@ -46,4 +57,21 @@ const styles = StyleSheet.create({
     height: undefined,
     aspectRatio: 3, // tweak if needed to match your actual image
   },
+  actions: { paddingHorizontal: 24, paddingBottom: 24, gap: 12 },
+  primaryBtn: { backgroundColor: '#00F470', padding: 14, borderRadius: 8, alignItems: 'center' },
+  primaryText: { color: '#02110A', fontWeight: '700', fontSize: 15 },
+  secondaryBtn: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    padding: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#1F2937',
+  },
+  secondaryText: { color: '#E5E7EB', fontWeight: '600', fontSize: 15 },
+  linkBtn: { alignItems: 'center', paddingVertical: 8 },
+  linkText: { color: '#9CA3AF' },
+  linkAccent: { color: '#00F470', fontWeight: '700' },
 });
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import BackArrow from '@/components/BackArrow';
+import { RootStackParamList } from '@/types/navigation';
+import { signInWithEmail } from '@/services/authService';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'SignIn'>;
+
+/**
+ * SignInScreen signs in with email and password.
+ * RootNavigator switches to the app once the driver is signed in.
+ */
+export default function SignInScreen({ navigation }: Props) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSignIn = async () => {
+    setSubmitting(true);
+    try {
+      await signInWithEmail(email, password);
+    } catch (e) {
+      Alert.alert('Could not sign in', e instanceof Error ? e.message : String(e));
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['top', 'left', 'right', 'bottom']}>
+      <View style={styles.container}>
+        <View style={styles.headerRow}>
+          <Text style={styles.title}>Sign in</Text>
+          <BackArrow onPress={() => navigation.goBack()} />
+        </View>
+        <Text style={styles.subtitle}>
+          Your vehicles, bookings and receipts are in your account.
+        </Text>
+
+        <TextInput
+          value={email}
+          onChangeText={setEmail}
+          placeholder="Email"
+          placeholderTextColor="#6B7280"
+          keyboardType="email-address"
+          autoCapitalize="none"
+          autoComplete="email"
+          style={styles.input}
+        />
+        <TextInput
+          value={password}
+          onChangeText={setPassword}
+          placeholder="Password"
+          placeholderTextColor="#6B7280"
+          secureTextEntry
+          autoComplete="password"
+          style={styles.input}
+        />
+
+        <TouchableOpacity
+          style={[styles.submitBtn, submitting && styles.submitBtnDisabled]}
+          onPress={handleSignIn}
+          disabled={submitting}
+        >
+          <Text style={styles.submitText}>{submitting ? 'Signing in…' : 'Sign in'}</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.linkBtn} onPress={() => navigation.replace('PhoneSignIn')}>
+          <Text style={styles.linkText}>Use a code sent to your mobile number instead</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.linkBtn} onPress={() => navigation.replace('SignUp')}>
+          <Text style={styles.linkText}>
+            New to Revolt? <Text style={styles.linkAccent}>Create an account</Text>
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1, backgroundColor: '#050816' },
+  container: { padding: 20 },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: { fontSize: 20, fontWeight: '700', color: '#F9FAFB' },
+  subtitle: { color: '#9CA3AF', fontSize: 13, marginTop: 4, marginBottom: 16 },
+  input: {
+    backgroundColor: '#0B1020',
+    padding: 12,
+    borderRadius: 8,
+    color: '#fff',
+    marginBottom: 12,
+  },
+  submitBtn: { backgroundColor: '#00F470', padding: 12, borderRadius: 8, alignItems: 'center' },
+  submitBtnDisabled: { opacity: 0.6 },
+  submitText: { color: '#02110A', fontWeight: '700' },
+  linkBtn: { alignItems: 'center', paddingVertical: 10 },
+  linkText: { color: '#9CA3AF' },
+  linkAccent: { color: '#00F470', fontWeight: '700' },
+});
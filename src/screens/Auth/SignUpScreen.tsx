@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import BackArrow from '@/components/BackArrow';
+import { RootStackParamList } from '@/types/navigation';
+import { signUpWithEmail } from '@/services/authService';
+import { MIN_PASSWORD_LENGTH } from '@/services/authValidation';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'SignUp'>;
+
+/**
+ * SignUpScreen creates an email account and signs in to it.
+ * Anything already saved on this device (vehicle, bookings) moves into the new account.
+ */
+export default function SignUpScreen({ navigation }: Props) {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSignUp = async () => {
+    if (password !== confirm) {
+      Alert.alert('Could not create account', 'The passwords don’t match');
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await signUpWithEmail(name, email, password);
+    } catch (e) {
+      Alert.alert('Could not create account', e instanceof Error ? e.message : String(e));
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['top', 'left', 'right', 'bottom']}>
+      <View style={styles.container}>
+        <View style={styles.headerRow}>
+          <Text style={styles.title}>Create account</Text>
+          <BackArrow onPress={() => navigation.goBack()} />
+        </View>
+        <Text style={styles.subtitle}>
+          Sign in with it on any phone to pick up your vehicles, bookings and receipts.
+        </Text>
+
+        <TextInput
+          value={name}
+          onChangeText={setName}
+          placeholder="Full name"
+          placeholderTextColor="#6B7280"
+          autoComplete="name"
+          style={styles.input}
+        />
+        <TextInput
+          value={email}
+          onChangeText={setEmail}
+          placeholder="Email"
+          placeholderTextColor="#6B7280"
+          keyboardType="email-address"
+          autoCapitalize="none"
+          autoComplete="email"
+          style={styles.input}
+        />
+        <TextInput
+          value={password}
+          onChangeText={setPassword}
+          placeholder={`Password (at least ${MIN_PASSWORD_LENGTH} characters)`}
+          placeholderTextColor="#6B7280"
+          secureTextEntry
+          autoComplete="new-password"
+          style={styles.input}
+        />
+        <TextInput
+          value={confirm}
+          onChangeText={setConfirm}
+          placeholder="Confirm password"
+          placeholderTextColor="#6B7280"
+          secureTextEntry
+          autoComplete="new-password"
+          style={styles.input}
+        />
+
+        <TouchableOpacity
+          style={[styles.submitBtn, submitting && styles.submitBtnDisabled]}
+          onPress={handleSignUp}
+          disabled={submitting}
+        >
+          <Text style={styles.submitText}>
+            {submitting ? 'Creating account…' : 'Create account'}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.linkBtn} onPress={() => navigation.replace('SignIn')}>
+          <Text style={styles.linkText}>
+            Already have an account? <Text style={styles.linkAccent}>Sign in</Text>
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1, backgroundColor: '#050816' },
+  container: { padding: 20 },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: { fontSize: 20, fontWeight: '700', color: '#F9FAFB' },
+  subtitle: { color: '#9CA3AF', fontSize: 13, marginTop: 4, marginBottom: 16 },
+  input: {
+    backgroundColor: '#0B1020',
+    padding: 12,
+    borderRadius: 8,
+    color: '#fff',
+    marginBottom: 12,
+  },
+  submitBtn: { backgroundColor: '#00F470', padding: 12, borderRadius: 8, alignItems: 'center' },
+  submitBtnDisabled: { opacity: 0.6 },
+  submitText: { color: '#02110A', fontWeight: '700' },
+  linkBtn: { alignItems: 'center', paddingVertical: 10 },
+  linkText: { color: '#9CA3AF' },
+  linkAccent: { color: '#00F470', fontWeight: '700' },
+});
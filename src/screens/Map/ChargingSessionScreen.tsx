@@ -0,0 +1,499 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
+import { MapStackParamList } from '@/types/navigation';
+import { ChargingSession } from '@/types/chargingSession';
+import {
+  getChargingSession,
+  getSessionCost,
+  getSessionProgress,
+  stopChargingSession,
+  subscribeToChargingSessions,
+} from '@/services/chargingSessionService';
+import { loadActiveVehicleProfile } from '@/services/vehicleProfileService';
+import {
+  CHARGING_TARGET_PERCENT,
+  PRICING,
+  STANDARD_VEHICLE,
+  StandardVehicle,
+} from '@/services/standardVehicleModel';
+
+type Props = NativeStackScreenProps<MapStackParamList, 'ChargingSession'>;
+
+const ACCENT_GREEN = '#00F470';
+const IDLE_AMBER = '#FBBF24';
+
+const formatDuration = (minutes: number) => {
+  const totalSeconds = Math.floor(minutes * 60);
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  return hours > 0
+    ? `${hours}h ${String(mins).padStart(2, '0')}m`
+    : `${mins}m ${String(secs).padStart(2, '0')}s`;
+};
+
+/**
+ * ChargingSessionScreen monitors a charging session while the car is plugged in:
+ * metered energy, current power, elapsed time, estimated battery level and the running cost
+ * (including idle fees once the battery is full). Stopping charging ends the OCPP transaction
+ * and moves on to the rating screen.
+ */
+export default function ChargingSessionScreen({ navigation, route }: Props) {
+  const { sessionId } = route.params;
+  const [session, setSession] = useState<ChargingSession | null | undefined>();
+  const [vehicle, setVehicle] = useState<StandardVehicle>(STANDARD_VEHICLE);
+  const [now, setNow] = useState(new Date());
+  const [stopping, setStopping] = useState(false);
+
+  useEffect(() => {
+    getChargingSession(sessionId)
+      .then(found => setSession(found ?? null))
+      .catch(error => {
+        console.error('Error loading charging session:', error);
+        setSession(null);
+      });
+    loadActiveVehicleProfile().then(setVehicle);
+    return subscribeToChargingSessions(updated => {
+      if (updated.id === sessionId) setSession(updated);
+    });
+  }, [sessionId]);
+
+  // Tick the clock between meter readings so elapsed time and idle fees stay current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleStop = () => {
+    Alert.alert('Stop charging?', 'The charger will stop and unlock the cable.', [
+      { text: 'Keep charging', style: 'cancel' },
+      {
+        text: 'Stop',
+        style: 'destructive',
+        onPress: async () => {
+          if (!session) return;
+          setStopping(true);
+          try {
+            await stopChargingSession(session.id);
+            navigation.navigate('Rating', {
+              stationId: session.stationId,
+              reservationId: session.reservationId,
+            });
+          } catch (error) {
+            console.error('Error stopping charging session:', error);
+            Alert.alert('Cannot stop charging', 'The charger did not respond. Please try again.');
+          } finally {
+            setStopping(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  if (session === null) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.loading}>
+          <Text style={styles.label}>This charging session could not be found.</Text>
+          <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+            <Text style={styles.primaryButtonText}>Go back</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!session) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.loading}>
+          <Text style={styles.label}>Loading charging session…</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const isCharging = session.status === 'charging';
+  const progress = getSessionProgress(session, vehicle, now);
+  const cost = getSessionCost(session, now);
+  const isIdle = isCharging && !!session.idleSince;
+  const graceLeft = Math.max(0, PRICING.idleFeeGracePeriod - cost.idleMinutes);
+  const isOverstaying =
+    isCharging && !!session.reservedUntil && now.getTime() > Date.parse(session.reservedUntil);
+  const socShown = Math.floor(progress.socPercent);
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        {/* Status pill */}
+        <View style={styles.statusWrapper}>
+          <View style={[styles.statusBadge, isIdle && styles.statusBadgeIdle]}>
+            <Ionicons
+              name={isIdle ? 'pause-circle-outline' : 'flash-outline'}
+              size={16}
+              color={isIdle ? IDLE_AMBER : ACCENT_GREEN}
+            />
+            <Text style={[styles.statusText, isIdle && { color: IDLE_AMBER }]}>
+              {!isCharging ? 'Charging complete' : isIdle ? 'Battery full' : 'Charging'}
+            </Text>
+          </View>
+          <Text style={styles.stationName}>{session.stationName}</Text>
+          <Text style={styles.statusSubtext}>
+            Connector {session.connectorId} • Transaction #{session.transactionId}
+          </Text>
+        </View>
+
+        {/* Battery */}
+        <View style={styles.sectionCard}>
+          <View style={styles.socRow}>
+            <Text style={styles.socValue}>{socShown}%</Text>
+            <Text style={styles.socLabel}>
+              {progress.minutesToTarget > 0
+                ? `~${formatDuration(progress.minutesToTarget)} to ${CHARGING_TARGET_PERCENT}%`
+                : `Above ${CHARGING_TARGET_PERCENT}%`}
+            </Text>
+          </View>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${Math.min(socShown, 100)}%` }]} />
+            <View style={[styles.targetMarker, { left: `${CHARGING_TARGET_PERCENT}%` }]} />
+          </View>
+          <Text style={styles.hint}>
+            Estimated from energy delivered and the {vehicle.name} charge curve
+          </Text>
+        </View>
+
+        {/* Meter */}
+        <View style={styles.statsRow}>
+          <View style={styles.statCard}>
+            <MaterialCommunityIcons name="lightning-bolt" size={18} color={ACCENT_GREEN} />
+            <Text style={styles.statValue}>{session.energyKwh.toFixed(2)}</Text>
+            <Text style={styles.statLabel}>kWh delivered</Text>
+          </View>
+          <View style={styles.statCard}>
+            <MaterialCommunityIcons name="speedometer" size={18} color={ACCENT_GREEN} />
+            <Text style={styles.statValue}>
+              {isCharging ? session.latest.powerKW.toFixed(1) : '0.0'}
+            </Text>
+            <Text style={styles.statLabel}>kW now</Text>
+          </View>
+          <View style={styles.statCard}>
+            <Ionicons name="time-outline" size={18} color={ACCENT_GREEN} />
+            <Text style={styles.statValue}>{formatDuration(progress.elapsedMinutes)}</Text>
+            <Text style={styles.statLabel}>Elapsed</Text>
+          </View>
+        </View>
+
+        {/* Idle notice */}
+        {isIdle && session.hasIdleFee && (
+          <View style={styles.idleCard}>
+            <Ionicons name="alert-circle-outline" size={18} color={IDLE_AMBER} />
+            <Text style={styles.idleText}>
+              {graceLeft > 0
+                ? `Battery full. Unplug within ${graceLeft} min to avoid idle fees of ₱${PRICING.idleFeePerMinute.toFixed(2)}/min.`
+                : `Idle fees apply: ₱${PRICING.idleFeePerMinute.toFixed(2)}/min until you unplug.`}
+            </Text>
+          </View>
+        )}
+
+        {/* Overstay notice */}
+        {isOverstaying && session.reservedUntil && (
+          <View style={styles.idleCard}>
+            <Ionicons name="time-outline" size={18} color={IDLE_AMBER} />
+            <Text style={styles.idleText}>
+              {`Your reserved time ended at ${new Date(session.reservedUntil).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}. Please stop charging and unplug so the next driver can charge.`}
+            </Text>
+          </View>
+        )}
+
+        {/* Running cost */}
+        <View style={styles.sectionCard}>
+          <View style={styles.sectionTitleRow}>
+            <Ionicons name="wallet-outline" size={18} color={ACCENT_GREEN} />
+            <Text style={styles.sectionTitle}>Running cost</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.label}>
+              Energy ({session.energyKwh.toFixed(2)} kWh × ₱{session.pricePerKwh.toFixed(2)})
+            </Text>
+            <Text style={styles.value}>₱{cost.energyCost.toFixed(2)}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.label}>Connection fee</Text>
+            <Text style={styles.value}>₱{cost.connectionFee.toFixed(2)}</Text>
+          </View>
+          {cost.idleMinutes > 0 && (
+            <View style={styles.detailRow}>
+              <Text style={styles.label}>Idle fee ({cost.idleMinutes} min idle)</Text>
+              <Text style={styles.value}>₱{cost.idleFee.toFixed(2)}</Text>
+            </View>
+          )}
+          <View style={styles.dividerThin} />
+          <View style={styles.detailRow}>
+            <Text style={styles.totalLabel}>Total so far</Text>
+            <Text style={styles.totalValue}>₱{cost.total.toFixed(2)}</Text>
+          </View>
+        </View>
+
+        {/* Actions */}
+        <View style={styles.buttonContainer}>
+          {isCharging ? (
+            <TouchableOpacity
+              style={[styles.stopButton, stopping && styles.buttonDisabled]}
+              onPress={handleStop}
+              disabled={stopping}
+            >
+              <Ionicons name="stop-circle-outline" size={18} color="#F9FAFB" />
+              <Text style={styles.stopButtonText}>{stopping ? 'Stopping…' : 'Stop charging'}</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={() =>
+                navigation.navigate('Rating', {
+                  stationId: session.stationId,
+                  reservationId: session.reservationId,
+                })
+              }
+            >
+              <Ionicons name="star-outline" size={18} color="#050816" />
+              <Text style={styles.primaryButtonText}>Rate this session</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#050816',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#050816',
+  },
+  contentContainer: {
+    paddingBottom: 32,
+  },
+  loading: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  statusWrapper: {
+    paddingHorizontal: 20,
+    paddingTop: 24,
+    paddingBottom: 4,
+  },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    backgroundColor: 'rgba(0,244,112,0.08)',
+    borderWidth: 1,
+    borderColor: 'rgba(0,244,112,0.5)',
+    marginBottom: 10,
+  },
+  statusBadgeIdle: {
+    backgroundColor: 'rgba(251,191,36,0.08)',
+    borderColor: 'rgba(251,191,36,0.5)',
+  },
+  statusText: {
+    color: ACCENT_GREEN,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  stationName: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#F9FAFB',
+    marginBottom: 4,
+  },
+  statusSubtext: {
+    color: '#9CA3AF',
+    fontSize: 12,
+  },
+  sectionCard: {
+    marginHorizontal: 20,
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 16,
+    backgroundColor: '#0B1020',
+    borderWidth: 1,
+    borderColor: 'rgba(148,163,184,0.35)',
+  },
+  sectionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#F9FAFB',
+  },
+  socRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  socValue: {
+    fontSize: 44,
+    fontWeight: '800',
+    color: '#F9FAFB',
+  },
+  socLabel: {
+    fontSize: 13,
+    color: '#9CA3AF',
+  },
+  progressTrack: {
+    height: 12,
+    borderRadius: 999,
+    backgroundColor: '#111827',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 999,
+    backgroundColor: ACCENT_GREEN,
+  },
+  targetMarker: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    backgroundColor: '#F9FAFB',
+  },
+  hint: {
+    marginTop: 8,
+    fontSize: 11,
+    color: '#6B7280',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginHorizontal: 20,
+    marginTop: 16,
+  },
+  statCard: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 16,
+    backgroundColor: '#0B1020',
+    borderWidth: 1,
+    borderColor: 'rgba(148,163,184,0.35)',
+  },
+  statValue: {
+    marginTop: 6,
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#F9FAFB',
+  },
+  statLabel: {
+    marginTop: 2,
+    fontSize: 11,
+    color: '#9CA3AF',
+  },
+  idleCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    marginHorizontal: 20,
+    marginTop: 16,
+    padding: 14,
+    borderRadius: 16,
+    backgroundColor: 'rgba(251,191,36,0.08)',
+    borderWidth: 1,
+    borderColor: 'rgba(251,191,36,0.5)',
+  },
+  idleText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#FDE68A',
+    lineHeight: 18,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  label: {
+    fontSize: 13,
+    color: '#9CA3AF',
+    flexShrink: 1,
+  },
+  value: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#E5E7EB',
+  },
+  dividerThin: {
+    height: 1,
+    backgroundColor: 'rgba(31,41,55,0.9)',
+    marginVertical: 10,
+  },
+  totalLabel: {
+    fontSize: 14,
+    color: '#F9FAFB',
+    fontWeight: '700',
+  },
+  totalValue: {
+    fontSize: 16,
+    color: ACCENT_GREEN,
+    fontWeight: '700',
+  },
+  buttonContainer: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  stopButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: '#DC2626',
+    paddingVertical: 14,
+    borderRadius: 999,
+  },
+  stopButtonText: {
+    color: '#F9FAFB',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: ACCENT_GREEN,
+    paddingVertical: 14,
+    borderRadius: 999,
+  },
+  primaryButtonText: {
+    color: '#050816',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  backButton: {
+    marginTop: 16,
+    backgroundColor: ACCENT_GREEN,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 999,
+  },
+});
@@ -1,15 +1,34 @@
-import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { Ionicons } from '@expo/vector-icons';
 import { MapStackParamList } from '@/types/navigation';
+import {
+  confirmReservation,
+  confirmTripReservations,
+  getBookedStation,
+  getReservation,
+  getTripReservations,
+} from '@/services/reservationsStore';
+import {
+  getPaymentMethods,
+  subscribeToPaymentMethods,
+  WALLET_LABELS,
+} from '@/services/paymentMethodsService';
+import { voidPayment } from '@/services/paymentService';
+import { estimateBookingCost, placePaymentHold } from '@/services/billingService';
+import { PRICING } from '@/services/standardVehicleModel';
+import { formatManilaDate, formatManilaTime } from '@/services/manilaTime';
+import { describeCancellationPolicy, getCancellationPolicy } from '@/services/cancellationPolicy';
+import { PaymentMethod } from '@/types/payment';
+import { Reservation } from '@/types/reservation';
 
 type Props = NativeStackScreenProps<MapStackParamList, 'ConfirmPayment'>;
 
 /**
  * ConfirmPaymentScreen shows the final reservation details
- * and handles payment processing (mock for MVP).
+ * and pays for them with one of the driver's saved payment methods.
  */
 
 const ACCENT_GREEN = '#00F470';
@@ -17,36 +36,110 @@ const ACCENT_BG = '#0B1020';
 
 export default function ConfirmPaymentScreen({ navigation, route }: Props) {
   const { reservationDetails } = route.params;
+  const [submitting, setSubmitting] = useState(false);
+  const [methods, setMethods] = useState<PaymentMethod[]>([]);
+  const [selectedMethodId, setSelectedMethodId] = useState<string | undefined>();
+  const [booking, setBooking] = useState<Reservation[]>([]);
 
-  const handleConfirmPayment = () => {
-    // Create a mock EnrichedStation since we only have stationId
-    const mockStation = {
-      id: reservationDetails.stationId,
-      title: 'Charging Station',
-      address: 'Address not available',
-      latitude: 0,
-      longitude: 0,
-      totalPlugs: 4,
-      plugsInUse: 1,
-      availablePlugs: 3,
-      plugTypes: ['Type 2', 'CCS'],
-      powerKW: 50,
-      distanceKm: 0,
-      driveMinutes: 0,
-      rating: 4.5,
-      pricePerKWh: reservationDetails.estimatedCost / reservationDetails.duration / 20,
-      amenities: {
-        wifi: true,
-        bathroom: true,
-        pwdFriendly: true,
-        waitingLounge: true,
-      },
-      state: '',
+  useEffect(() => {
+    getPaymentMethods()
+      .then(setMethods)
+      .catch(error => {
+        console.error('Error loading payment methods:', error);
+        Alert.alert('Could not load payment methods', 'Please try again.');
+      });
+    return subscribeToPaymentMethods(setMethods);
+  }, []);
+
+  // Reservations being paid for: one, or every stop of a trip
+  useEffect(() => {
+    const loadBooking = async () => {
+      const { reservationId, tripId } = reservationDetails;
+      try {
+        let reservations: Reservation[];
+        if (tripId) {
+          reservations = await getTripReservations(tripId);
+        } else {
+          const reservation = await getReservation(reservationId);
+          reservations = reservation ? [reservation] : [];
+        }
+        if (reservations.length === 0) {
+          throw new Error('Reservation not found');
+        }
+        setBooking(reservations);
+      } catch (error) {
+        console.error('Error loading reservation:', error);
+        Alert.alert('Could not load your reservation', 'Please pick a time slot again.', [
+          { text: 'OK', onPress: () => navigation.goBack() },
+        ]);
+      }
     };
-    navigation.navigate('ReservationDetails', {
-      routeId: 'mock-route-id',
-      stations: [mockStation],
-    });
+    loadBooking();
+  }, [reservationDetails, navigation]);
+
+  const estimate = booking.length > 0 ? estimateBookingCost(booking) : undefined;
+  // Trip stops can be booked under different policies
+  const policies = [...new Set(booking.map(r => r.cancellationPolicy))].map(getCancellationPolicy);
+
+  // Default method (listed first) until the driver picks another
+  const selectedMethod = methods.find(m => m.id === selectedMethodId) || methods[0];
+
+  const handleAddPaymentMethod = () => {
+    // AddPayment lives in the root stack
+    navigation.getParent()?.navigate('AddPayment');
+  };
+
+  const handleConfirmPayment = async () => {
+    if (booking.length === 0) return;
+    if (!selectedMethod) {
+      Alert.alert('Add a payment method', 'Add a card or e-wallet to pay for your reservation.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Add', onPress: handleAddPaymentMethod },
+      ]);
+      return;
+    }
+
+    setSubmitting(true);
+    const { reservationId, tripId } = reservationDetails;
+    let paymentId: string;
+    try {
+      // Hold the estimate; the metered amount is captured after charging (see billingService)
+      const payment = await placePaymentHold(booking, selectedMethod.id);
+      paymentId = payment.id;
+    } catch (error) {
+      // The slot is still held, so the driver can try another method
+      Alert.alert('Payment failed', error instanceof Error ? error.message : String(error));
+      setSubmitting(false);
+      return;
+    }
+
+    try {
+      const confirmed = tripId
+        ? await confirmTripReservations(tripId, paymentId)
+        : [await confirmReservation(reservationId, paymentId)];
+
+      const stations = confirmed.map(getBookedStation);
+      navigation.navigate('ReservationDetails', {
+        routeId: tripId || confirmed[0].id,
+        stations,
+        reservationId: confirmed[0].id,
+        tripId,
+      });
+    } catch (error) {
+      console.error('Error confirming reservation:', error);
+      // Nothing was booked, so release the hold
+      voidPayment(paymentId).catch(voidError => {
+        console.warn('⚠️ Could not release payment hold:', voidError);
+      });
+      Alert.alert(
+        'Reservation expired',
+        reservationDetails.tripId
+          ? 'Your trip chargers were released. Please reserve the trip again.'
+          : 'Please pick a time slot again.'
+      );
+    } finally {
+      setSubmitting(false);
+    }
   };
 
   return (
@@ -79,7 +172,7 @@ export default function ConfirmPaymentScreen({ navigation, route }: Props) {
 
           <View style={styles.detailRow}>
             <Text style={styles.label}>Date</Text>
-            <Text style={styles.value}>{new Date().toLocaleDateString()}</Text>
+            <Text style={styles.value}>{formatManilaDate(reservationDetails.date)}</Text>
           </View>
           <View style={styles.detailRow}>
             <Text style={styles.label}>Time</Text>
@@ -89,6 +182,12 @@ export default function ConfirmPaymentScreen({ navigation, route }: Props) {
             <Text style={styles.label}>Duration</Text>
             <Text style={styles.value}>{reservationDetails.duration} hour(s)</Text>
           </View>
+          {reservationDetails.stopCount != null && (
+            <View style={styles.detailRow}>
+              <Text style={styles.label}>Charging stops</Text>
+              <Text style={styles.value}>{reservationDetails.stopCount}</Text>
+            </View>
+          )}
         </View>
 
         {/* Payment method */}
@@ -100,28 +199,81 @@ export default function ConfirmPaymentScreen({ navigation, route }: Props) {
             </View>
           </View>
 
-          <View style={styles.paymentMethod}>
-            <View style={styles.paymentLeft}>
-              <View style={styles.cardIconCircle}>
-                <Ionicons name="card-outline" size={18} color="#050816" />
-              </View>
-              <Text style={styles.paymentText}>•••• 4242</Text>
-            </View>
-            <TouchableOpacity activeOpacity={0.8}>
-              <Text style={styles.changeText}>Change</Text>
-            </TouchableOpacity>
-          </View>
+          {methods.map(method => {
+            const selected = method.id === selectedMethod?.id;
+            return (
+              <TouchableOpacity
+                key={method.id}
+                style={styles.paymentMethod}
+                onPress={() => setSelectedMethodId(method.id)}
+                activeOpacity={0.8}
+              >
+                <View style={styles.paymentLeft}>
+                  <View style={styles.cardIconCircle}>
+                    <Ionicons
+                      name={method.type === 'card' ? 'card-outline' : 'wallet-outline'}
+                      size={18}
+                      color="#050816"
+                    />
+                  </View>
+                  <View>
+                    <Text style={styles.paymentText}>{method.label}</Text>
+                    <Text style={styles.paymentHint}>
+                      {method.type === 'card'
+                        ? `Expires ${String(method.expMonth).padStart(2, '0')}/${String(method.expYear).slice(-2)}`
+                        : `${WALLET_LABELS[method.type]} e-wallet`}
+                    </Text>
+                  </View>
+                </View>
+                <Ionicons
+                  name={selected ? 'radio-button-on' : 'radio-button-off'}
+                  size={20}
+                  color={selected ? ACCENT_GREEN : '#4B5563'}
+                />
+              </TouchableOpacity>
+            );
+          })}
+          <TouchableOpacity onPress={handleAddPaymentMethod} activeOpacity={0.8}>
+            <Text style={styles.changeText}>
+              {methods.length === 0 ? '+ Add a card or e-wallet' : '+ Add payment method'}
+            </Text>
+          </TouchableOpacity>
         </View>
 
         {/* Total */}
         <View style={styles.totalCard}>
+          {estimate && (
+            <>
+              <View style={styles.detailRow}>
+                <Text style={styles.label}>Estimated charging</Text>
+                <Text style={styles.value}>₱{estimate.chargingCost.toFixed(2)}</Text>
+              </View>
+              <View style={styles.detailRow}>
+                <Text style={styles.label}>Booking fee</Text>
+                <Text style={styles.value}>₱{estimate.bookingFee.toFixed(2)}</Text>
+              </View>
+              <View style={styles.detailRow}>
+                <Text style={styles.label}>
+                  Commission ({Math.round(PRICING.commissionFeeRate * 100)}%)
+                </Text>
+                <Text style={styles.value}>₱{estimate.commissionFee.toFixed(2)}</Text>
+              </View>
+              {estimate.serviceFee > 0 && (
+                <View style={styles.detailRow}>
+                  <Text style={styles.label}>Service fee</Text>
+                  <Text style={styles.value}>₱{estimate.serviceFee.toFixed(2)}</Text>
+                </View>
+              )}
+              <View style={styles.dividerThin} />
+            </>
+          )}
           <View style={styles.totalRow}>
             <View>
-              <Text style={styles.totalLabel}>Total</Text>
+              <Text style={styles.totalLabel}>Hold</Text>
               <Text style={styles.totalHint}>Charged after session based on usage</Text>
             </View>
             <Text style={styles.totalAmount}>
-              ₱{reservationDetails.estimatedCost.toFixed(2)}
+              ₱{(estimate ? estimate.totalCost : reservationDetails.estimatedCost).toFixed(2)}
             </Text>
           </View>
         </View>
@@ -130,6 +282,7 @@ export default function ConfirmPaymentScreen({ navigation, route }: Props) {
         <TouchableOpacity
           style={styles.confirmButton}
           onPress={handleConfirmPayment}
+          disabled={submitting}
           activeOpacity={0.9}
         >
           <Ionicons
@@ -138,13 +291,26 @@ export default function ConfirmPaymentScreen({ navigation, route }: Props) {
             color="#050816"
             style={{ marginRight: 8 }}
           />
-          <Text style={styles.confirmButtonText}>Confirm & pay</Text>
+          <Text style={styles.confirmButtonText}>
+            {submitting ? 'Processing…' : 'Confirm & pay'}
+          </Text>
         </TouchableOpacity>
 
+        {reservationDetails.holdExpiresAt && (
+          <Text style={styles.disclaimer}>
+            Your charger is held until {formatManilaTime(reservationDetails.holdExpiresAt)}. Pay
+            before then to keep the slot.
+          </Text>
+        )}
         <Text style={styles.disclaimer}>
-          You will be charged only for the actual energy consumed. The estimated amount is used as a
-          reservation hold and may differ from the final charge.
+          The amount above is held on your payment method, not charged. After charging you pay for
+          the energy delivered plus fees (and any idle fees), and the rest of the hold is released.
         </Text>
+        {policies.map(policy => (
+          <Text key={policy.id} style={styles.disclaimer}>
+            {policy.label} cancellation policy: {describeCancellationPolicy(policy).join('. ')}.
+          </Text>
+        ))}
       </ScrollView>
     </SafeAreaView>
   );
@@ -256,10 +422,16 @@ const styles = StyleSheet.create({
     color: '#E5E7EB',
     fontWeight: '500',
   },
+  paymentHint: {
+    fontSize: 11,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
   changeText: {
     fontSize: 13,
     color: ACCENT_GREEN,
     fontWeight: '600',
+    marginTop: 8,
   },
   totalCard: {
     marginTop: 18,
@@ -269,6 +441,11 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(148,163,184,0.35)',
   },
+  dividerThin: {
+    height: 1,
+    backgroundColor: 'rgba(148,163,184,0.25)',
+    marginVertical: 10,
+  },
   totalRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
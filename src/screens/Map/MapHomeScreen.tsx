@@ -2,24 +2,26 @@ import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Image, Animated, Modal } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import MapView, { Marker, PROVIDER_GOOGLE } from 'react-native-maps';
-import { MapStackParamList, EnrichedStation } from '@/types/navigation';
+import { MapStackParamList } from '@/types/navigation';
+import { Station } from '@/types/station';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { OPENCHARGEMAP_API_KEY } from '@env';
 import mapDarkStyle from './mapDarkStyle.json';
- import { generateFakePOIs } from '@/services/openChargeMapService';
+import { getStationsInBoundingBox } from '@/services/openChargeMapService';
+import { watchAvailability } from '@/services/availabilityService';
 
 type Props = NativeStackScreenProps<MapStackParamList, 'MapHome'>;
 
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const EVCarIcon = require('../../../assets/evcaricon.png');
 
+const USER_LOCATION = { latitude: 14.59144955737441, longitude: 121.06729986080205 };
+
 export default function MapHomeScreen({ navigation }: Props) {
-  // Raw POIs & enriched stations
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const [rawPOIs, setRawPOIs] = useState<any[]>([]);
-  const [enrichedStations, setEnrichedStations] = useState<EnrichedStation[]>([]);
-  const [selectedStation, setSelectedStation] = useState<EnrichedStation | null>(null);
+  // Normalized stations
+  const [stations, setStations] = useState<Station[]>([]);
+  const [liveStations, setLiveStations] = useState<Station[]>([]);
+  const [selectedStation, setSelectedStation] = useState<Station | null>(null);
   const [showModal, setShowModal] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -30,7 +32,6 @@ export default function MapHomeScreen({ navigation }: Props) {
     latitudeDelta: 0.15,
     longitudeDelta: 0.15,
   });
-  const userLocation = { latitude: 14.59144955737441, longitude: 121.06729986080205 };
 
   // Pulsing user marker animation
   const pulseScale = useRef(new Animated.Value(0)).current;
@@ -47,7 +48,7 @@ export default function MapHomeScreen({ navigation }: Props) {
     loop();
   }, [pulseScale, pulseOpacity]);
 
-  // Load & enrich POIs
+  // Load stations
   useEffect(() => {
     async function loadPOIs() {
       setLoading(true);
@@ -61,85 +62,10 @@ export default function MapHomeScreen({ navigation }: Props) {
         const maxLat = Math.max(topLeftLat, bottomRightLat);
         const minLng = Math.min(topLeftLng, bottomRightLng);
         const maxLng = Math.max(topLeftLng, bottomRightLng);
-        const url = `https://api.openchargemap.io/v3/poi?key=${OPENCHARGEMAP_API_KEY}&boundingbox=(${minLat},${minLng}),(${maxLat},${maxLng})&maxresults=500`;
-        const resp = await fetch(url);
-        if (!resp.ok) throw new Error(`OpenChargeMap request failed: ${resp.status}`);
-        const data = await resp.json();
-        // Append fake POIs so the main map shows extra coverage in Central/South Luzon for demo
-        try {
-          const central = generateFakePOIs('central-luzon', 20);
-          const south = generateFakePOIs('south-luzon', 20);
-          data.push(...central, ...south);
-        } catch (e) {
-          // ignore if fake generation fails
-        }
-        setRawPOIs(data);
-
-        // Enrich stations once
-        const userLat = userLocation.latitude;
-        const userLng = userLocation.longitude;
-        const enriched: EnrichedStation[] = (data || [])
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          .map((poi: any) => {
-            const a = poi?.AddressInfo;
-            if (!a) return null;
-            const lat = a.Latitude;
-            const lng = a.Longitude;
-            if (lat == null || lng == null) return null;
-            const connections = poi?.Connections || [];
-            const totalPlugs = connections.length || 1;
-            const plugsInUse = Math.floor(Math.random() * totalPlugs);
-            const availablePlugs = Math.max(totalPlugs - plugsInUse, 0);
-            const plugTypes = connections
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              .map((c: any) => c.ConnectionType?.Title)
-              .filter(Boolean);
-            const powerKW =
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              connections.reduce((sum: number, c: any) => sum + (c.PowerKW || 0), 0) || 0;
-            // Haversine distance
-            const R = 6371; // km
-            const dLat = ((lat - userLat) * Math.PI) / 180;
-            const dLng = ((lng - userLng) * Math.PI) / 180;
-            const aHarv =
-              Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-              Math.cos((userLat * Math.PI) / 180) *
-                Math.cos((lat * Math.PI) / 180) *
-                Math.sin(dLng / 2) *
-                Math.sin(dLng / 2);
-            const cHarv = 2 * Math.atan2(Math.sqrt(aHarv), Math.sqrt(1 - aHarv));
-            const distanceKm = R * cHarv;
-            const avgSpeedKmh = 30;
-            const driveMinutes = (distanceKm / avgSpeedKmh) * 60;
-            const rating = +(Math.random() * 1.5 + 3.5).toFixed(1);
-            const pricePerKWh = +(Math.random() * 10 + 15).toFixed(2);
-            const amenities = {
-              wifi: Math.random() > 0.5,
-              bathroom: Math.random() > 0.4,
-              pwdFriendly: Math.random() > 0.6,
-              waitingLounge: Math.random() > 0.3,
-            };
-            return {
-              id: String(poi.ID || poi.id || Math.random()),
-              title: a.Title || a.AddressLine1 || 'Charging Site',
-              address: [a.AddressLine1, a.Town, a.StateOrProvince].filter(Boolean).join(', '),
-              latitude: lat,
-              longitude: lng,
-              totalPlugs,
-              plugsInUse,
-              availablePlugs,
-              plugTypes,
-              powerKW,
-              distanceKm,
-              driveMinutes,
-              rating,
-              pricePerKWh,
-              amenities,
-              state: a.StateOrProvince || '',
-            } as EnrichedStation;
-          })
-          .filter(Boolean) as EnrichedStation[];
-        setEnrichedStations(enriched);
+        // Served from the offline station cache; only stale or missing tiles hit the API.
+        // Includes the demo stations in Central/South Luzon.
+        const bbox = { minLat, minLng, maxLat, maxLng };
+        setStations(await getStationsInBoundingBox(bbox, USER_LOCATION));
       } catch (err: unknown) {
         setError(err instanceof Error ? err.message : String(err));
       } finally {
@@ -149,8 +75,11 @@ export default function MapHomeScreen({ navigation }: Props) {
     loadPOIs();
   }, []);
 
+  // Live charger counts (see availabilityService)
+  useEffect(() => watchAvailability(stations, setLiveStations), [stations]);
+
   // All stations (search moved to NearbyStations screen)
-  const allStations = enrichedStations;
+  const allStations = liveStations;
   const styles = StyleSheet.create({
     screen: { flex: 1, backgroundColor: '#050A10' },
     mapArea: { flex: 1.3, backgroundColor: '#050A10' },
@@ -269,7 +198,7 @@ export default function MapHomeScreen({ navigation }: Props) {
           showsMyLocationButton
         >
           <Marker
-            coordinate={userLocation}
+            coordinate={USER_LOCATION}
             anchor={{ x: 0.5, y: 0.5 }}
             tracksViewChanges={false}
             zIndex={999}
@@ -298,7 +227,7 @@ export default function MapHomeScreen({ navigation }: Props) {
             <Marker
               key={`station-${s.id}`}
               coordinate={{ latitude: s.latitude, longitude: s.longitude }}
-              title={s.title}
+              title={s.name}
               description={s.address}
               pinColor="wheat"
               onPress={() => {
@@ -336,7 +265,9 @@ export default function MapHomeScreen({ navigation }: Props) {
           <TouchableOpacity
             style={styles.primaryButton}
             onPress={() => {
-              const nearest = [...enrichedStations].sort((a, b) => a.distanceKm - b.distanceKm);
+              const nearest = [...liveStations].sort(
+                (a, b) => (a.distanceKm ?? 0) - (b.distanceKm ?? 0)
+              );
               navigation.navigate('NearbyStations', { stations: nearest });
             }}
           >
@@ -367,18 +298,18 @@ export default function MapHomeScreen({ navigation }: Props) {
           <View style={styles.modalCard}>
             {selectedStation ? (
               <>
-                <Text style={styles.modalTitle}>{selectedStation.title}</Text>
+                <Text style={styles.modalTitle}>{selectedStation.name}</Text>
                 <Text style={styles.modalAddress}>{selectedStation.address}</Text>
                 <Text style={styles.modalInfo}>
-                  ⭐ {selectedStation.rating.toFixed(1)} • {selectedStation.availablePlugs} /{' '}
-                  {selectedStation.totalPlugs} free
+                  ⭐ {selectedStation.rating.toFixed(1)} • {selectedStation.availableChargers} /{' '}
+                  {selectedStation.totalChargers} free
                 </Text>
                 <Text style={styles.modalInfo}>
-                  Distance {selectedStation.distanceKm.toFixed(1)} km •{' '}
-                  {selectedStation.driveMinutes.toFixed(0)} min
+                  Distance {(selectedStation.distanceKm ?? 0).toFixed(1)} km •{' '}
+                  {(selectedStation.driveMinutes ?? 0).toFixed(0)} min
                 </Text>
                 <Text style={styles.modalInfo}>
-                  ₱{selectedStation.pricePerKWh.toFixed(2)}/kWh • Power{' '}
+                  ₱{selectedStation.pricePerKwh.toFixed(2)}/kWh • Power{' '}
                   {selectedStation.powerKW.toFixed(0)} kW
                 </Text>
                 <View style={styles.modalButtons}>
@@ -1,9 +1,12 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { View, Text, StyleSheet, FlatList, TouchableOpacity, TextInput, Pressable } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Feather, Ionicons } from '@expo/vector-icons';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
-import { MapStackParamList, EnrichedStation } from '@/types/navigation';
+import { MapStackParamList } from '@/types/navigation';
+import { Station } from '@/types/station';
+import { ChargingPlug } from '@/services/standardVehicleModel';
+import { watchAvailability } from '@/services/availabilityService';
 
 type Props = NativeStackScreenProps<MapStackParamList, 'NearbyStations'>;
 
@@ -11,8 +14,11 @@ const formatDistance = (km: number) =>
   km < 1 ? `${(km * 1000).toFixed(0)} m` : `${km.toFixed(1)} km`;
 
 export default function NearbyStationsScreen({ navigation, route }: Props) {
-  const { stations } = route.params;
+  const [stations, setStations] = useState<Station[]>(route.params.stations);
   const [searchQuery, setSearchQuery] = useState('');
+
+  // Keep charger counts live while the list is open
+  useEffect(() => watchAvailability(route.params.stations, setStations), [route.params.stations]);
   const [sortKey, setSortKey] = React.useState<'distance'|'rating'|'availability'>('distance');
   const sortLabels: Record<'distance'|'rating'|'availability', string> = {
     distance: 'Distance',
@@ -20,7 +26,7 @@ export default function NearbyStationsScreen({ navigation, route }: Props) {
     availability: 'Availability',
   };
   const [showAvailableOnly, setShowAvailableOnly] = React.useState(false);
-  const [plugFilter, setPlugFilter] = React.useState<string | null>(null);
+  const [plugFilter, setPlugFilter] = React.useState<ChargingPlug | null>(null);
   const [showFiltersOpen, setShowFiltersOpen] = React.useState(false);
   const [showSortOpen, setShowSortOpen] = React.useState(false);
   const [showRangeOpen, setShowRangeOpen] = React.useState(false);
@@ -32,12 +38,12 @@ export default function NearbyStationsScreen({ navigation, route }: Props) {
     if (!searchQuery.trim()) return stations;
     const q = searchQuery.toLowerCase();
     return stations.filter(
-      s => s.title.toLowerCase().includes(q) || s.address.toLowerCase().includes(q)
+      s => s.name.toLowerCase().includes(q) || s.address.toLowerCase().includes(q)
     );
   }, [searchQuery, stations]);
 
   const filtered = searchFiltered.filter(s => {
-    if (showAvailableOnly && s.availablePlugs <= 0) return false;
+    if (showAvailableOnly && s.availableChargers <= 0) return false;
     if (plugFilter && !s.plugTypes.includes(plugFilter)) return false;
     // respect the selected range: only include stations within rangeKm
     if (typeof s.distanceKm === 'number' && s.distanceKm > rangeKm) return false;
@@ -49,22 +55,24 @@ export default function NearbyStationsScreen({ navigation, route }: Props) {
       case 'rating':
         return b.rating - a.rating;
       case 'availability':
-        return b.availablePlugs / b.totalPlugs - a.availablePlugs / a.totalPlugs;
+        return b.availableChargers / b.totalChargers - a.availableChargers / a.totalChargers;
       default:
-        return a.distanceKm - b.distanceKm;
+        return (a.distanceKm ?? 0) - (b.distanceKm ?? 0);
     }
   });
 
   const distinctPlugTypes = Array.from(new Set(searchFiltered.flatMap(s => s.plugTypes))).slice(0, 6);
 
-  const renderStation = ({ item }: { item: EnrichedStation }) => (
+  const renderStation = ({ item }: { item: Station }) => (
     <TouchableOpacity
       style={styles.stationCard}
       onPress={() => navigation.navigate('StationProfile', { station: item })}
     >
       <View style={styles.stationInfo}>
-        <Text style={styles.stationName}>{item.title}</Text>
-        <Text style={styles.stationDistance}>{formatDistance(item.distanceKm)} • {item.driveMinutes.toFixed(0)} min drive</Text>
+        <Text style={styles.stationName}>{item.name}</Text>
+        <Text style={styles.stationDistance}>
+          {formatDistance(item.distanceKm ?? 0)} • {(item.driveMinutes ?? 0).toFixed(0)} min drive
+        </Text>
         <View style={{marginTop:6}}>
           {item.plugTypes.length >= 2 ? (
             // show up to two details on separate lines
@@ -89,8 +97,8 @@ export default function NearbyStationsScreen({ navigation, route }: Props) {
         </View>
       </View>
       <View style={styles.availabilityInfo}>
-        <Text style={[styles.availableText, item.availablePlugs === 0 && { color: '#d32f2f' }]}>
-          {item.availablePlugs}/{item.totalPlugs}
+        <Text style={[styles.availableText, item.availableChargers === 0 && { color: '#d32f2f' }]}>
+          {item.availableChargers}/{item.totalChargers}
         </Text>
         <Text style={styles.availableLabel}>Available</Text>
         <Text style={styles.rating}>⭐ {item.rating.toFixed(1)}</Text>
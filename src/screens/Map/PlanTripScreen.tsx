@@ -21,14 +21,51 @@ import mapDarkStyle from './mapDarkStyle.json';
 import { searchPlaces, formatDisplayName, GeocodingResult } from '@/services/geocodingService';
 import * as Location from 'expo-location';
 import { getNearbyChargingStations } from '@/services/routeService';
-import { Station } from '@/types/navigation';
+import { Station } from '@/types/station';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import BackArrow from '@/components/BackArrow';
 import { calculateDetailedRoute } from '@/services/routeCalculationEngine';
+import { getTrafficLevel, getTrafficMultiplier } from '@/services/trafficModel';
 import DateTimePicker from '@react-native-community/datetimepicker';
+import { PlannerObjective, PlannerType } from '@/types/route-calculation';
+import {
+  CONSUMPTION_PROFILES,
+  ConsumptionProfile,
+  DEFAULT_CONSUMPTION_PROFILE,
+} from '@/services/standardVehicleModel';
 
 type Props = NativeStackScreenProps<MapStackParamList, 'PlanTrip'>;
 
+// Planner choices: the strategy-driven optimizer or a full search for the fastest/cheapest plan
+const PLANNER_OPTIONS: {
+  label: string;
+  planner: PlannerType;
+  objective: PlannerObjective;
+  hint: string;
+}[] = [
+  {
+    label: 'Standard',
+    planner: 'greedy',
+    objective: 'time',
+    hint: '🗺️ Picks stops one at a time using your charging strategy',
+  },
+  {
+    label: 'Fastest',
+    planner: 'graph',
+    objective: 'time',
+    hint: '⏱️ Searches every stop combination for the shortest trip',
+  },
+  {
+    label: 'Cheapest',
+    planner: 'graph',
+    objective: 'cost',
+    hint: '💸 Searches every stop combination for the lowest charging cost',
+  },
+];
+
+// Driving styles shown in the selector, least to most energy hungry
+const DRIVING_STYLES: ConsumptionProfile[] = ['eco', 'realistic', 'aggressive', 'demo'];
+
 /**
  * PlanTripScreen allows users to input their origin and destination
  * to get a suggested route with charging stations along the way.
@@ -57,6 +94,19 @@ export default function PlanTripScreen({ navigation }: Props) {
   // Charging strategy: 0 = Few long stops, 1 = Balanced, 2 = Many short stops
   const [chargingStrategy, setChargingStrategy] = useState<number>(1);
 
+  // Driving style used for consumption estimates
+  const [consumptionProfile, setConsumptionProfile] = useState<ConsumptionProfile>(
+    DEFAULT_CONSUMPTION_PROFILE
+  );
+
+  // Charging stop planner (see PLANNER_OPTIONS)
+  const [planner, setPlanner] = useState<PlannerType>('greedy');
+  const [plannerObjective, setPlannerObjective] = useState<PlannerObjective>('time');
+  const selectedPlannerOption =
+    PLANNER_OPTIONS.find(
+      option => option.planner === planner && option.objective === plannerObjective
+    ) || PLANNER_OPTIONS[0];
+
   // Map region - will update to user's location
   const [region, setRegion] = useState({
     latitude: 14.5995,
@@ -167,26 +217,6 @@ export default function PlanTripScreen({ navigation }: Props) {
     }
   };
 
-  // Get traffic prediction based on departure time
-  const getTrafficMultiplier = (date: Date): number => {
-    const hour = date.getHours();
-    const day = date.getDay(); // 0 = Sunday, 6 = Saturday
-
-    // Weekend traffic (lighter)
-    if (day === 0 || day === 6) {
-      if (hour >= 10 && hour <= 20) return 1.1; // Moderate
-      return 1.0; // Light
-    }
-
-    // Weekday traffic patterns
-    if ((hour >= 7 && hour <= 9) || (hour >= 17 && hour <= 19)) {
-      return 1.3; // Heavy rush hour
-    } else if ((hour >= 10 && hour <= 16) || (hour >= 20 && hour <= 22)) {
-      return 1.15; // Moderate
-    }
-    return 1.0; // Light traffic (late night/early morning)
-  };
-
   // Format departure time display
   const formatDepartureTime = (): string => {
     if (departureTime === 'now') return 'Leave now';
@@ -217,16 +247,17 @@ export default function PlanTripScreen({ navigation }: Props) {
 
       try {
         // Pre-validate the route to check if it's possible (silently)
-        const trafficMultiplier =
-          departureTime === 'custom' ? getTrafficMultiplier(selectedDateTime) : 1.0;
-
+        // The engine applies time-of-day traffic from the departure time, same as TripRoute
         const result = await calculateDetailedRoute({
           from,
           to,
           currentBatteryPercent: batteryPercent,
           minimumArrivalBattery: minArrivalBattery,
           chargingStrategy,
-          trafficMultiplier,
+          planner,
+          plannerObjective,
+          consumptionProfile,
+          departureTime: departureTime === 'custom' ? selectedDateTime : undefined,
         });
 
         // Check if route calculation failed
@@ -240,6 +271,7 @@ export default function PlanTripScreen({ navigation }: Props) {
         }
 
         const detailedRoute = result.route;
+        const warningInfo = result.warnings?.length ? `\n\n${result.warnings.join('\n')}` : '';
 
         // Check if the trip is impossible
         // Impossible conditions:
@@ -250,7 +282,7 @@ export default function PlanTripScreen({ navigation }: Props) {
           Alert.alert(
             '⚠️ Impossible Trip',
             `This trip cannot be completed with your current battery (${batteryPercent}%).\n\n` +
-              `Even with available charging stations, your battery would reach 0% at the destination.\n\n` +
+              `Even with available charging stations, your battery would reach 0% at the destination.${warningInfo}\n\n` +
               `💡 Suggestions:\n` +
               `• Start with a higher battery percentage\n` +
               `• Choose a closer destination\n` +
@@ -278,7 +310,7 @@ export default function PlanTripScreen({ navigation }: Props) {
 
           Alert.alert(
             '⚠️ Impossible Trip',
-            `Your EV would run out of battery during this trip.${segmentInfo}\n\n` +
+            `Your EV would run out of battery during this trip.${segmentInfo}${warningInfo}\n\n` +
               `The distance is too far and there are insufficient charging stations along the route.\n\n` +
               `💡 Suggestions:\n` +
               `• Start with a higher battery percentage (currently ${batteryPercent}%)\n` +
@@ -296,6 +328,9 @@ export default function PlanTripScreen({ navigation }: Props) {
           currentBatteryPercent: batteryPercent,
           minimumArrivalBattery: minArrivalBattery,
           chargingStrategy,
+          planner,
+          plannerObjective,
+          consumptionProfile,
           departureTime: departureTime === 'custom' ? selectedDateTime.toISOString() : undefined,
         });
       } catch (error: any) {
@@ -344,7 +379,7 @@ export default function PlanTripScreen({ navigation }: Props) {
                 longitude: station.longitude,
               }}
               title={station.name}
-              description={`${station.chargingSpeed} • ${station.availableChargers}/${station.totalChargers} available`}
+              description={`${station.chargingSpeed} (${station.powerKW}kW) • ${station.availableChargers}/${station.totalChargers} available`}
               pinColor="#00F470"
             />
           ))}
@@ -623,9 +658,9 @@ export default function PlanTripScreen({ navigation }: Props) {
                   {departureTime === 'custom' && (
                     <Text style={styles.trafficHint}>
                       {(() => {
-                        const multiplier = getTrafficMultiplier(selectedDateTime);
-                        if (multiplier >= 1.25) return '🔴 Heavy traffic expected';
-                        if (multiplier >= 1.1) return '🟡 Moderate traffic';
+                        const level = getTrafficLevel(getTrafficMultiplier(selectedDateTime));
+                        if (level === 'heavy') return '🔴 Heavy traffic expected';
+                        if (level === 'moderate') return '🟡 Moderate traffic';
                         return '🟢 Light traffic';
                       })()}
                     </Text>
@@ -701,6 +736,79 @@ export default function PlanTripScreen({ navigation }: Props) {
                   </Text>
                 </View>
 
+                {/* Driving Style Selector - consumption profile for energy estimates */}
+                <View style={styles.strategySection}>
+                  <View style={styles.strategyHeader}>
+                    <Ionicons name="speedometer-outline" size={16} color="#9CA3AF" />
+                    <Text style={styles.strategyLabel}>Driving style</Text>
+                  </View>
+
+                  <View style={styles.strategySliderContainer}>
+                    <View style={styles.strategyOptions}>
+                      {DRIVING_STYLES.map(profile => {
+                        const isActive = profile === consumptionProfile;
+                        return (
+                          <TouchableOpacity
+                            key={profile}
+                            style={[styles.strategyOption, isActive && styles.strategyOptionActive]}
+                            onPress={() => setConsumptionProfile(profile)}
+                          >
+                            <Text
+                              style={[
+                                styles.strategyOptionText,
+                                isActive && styles.strategyOptionTextActive,
+                              ]}
+                            >
+                              {CONSUMPTION_PROFILES[profile].label}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  </View>
+
+                  <Text style={styles.strategyHint}>
+                    {CONSUMPTION_PROFILES[consumptionProfile].description}
+                  </Text>
+                </View>
+
+                {/* Planner Selector - compare the standard optimizer with a full search */}
+                <View style={styles.strategySection}>
+                  <View style={styles.strategyHeader}>
+                    <Ionicons name="git-network-outline" size={16} color="#9CA3AF" />
+                    <Text style={styles.strategyLabel}>Planner</Text>
+                  </View>
+
+                  <View style={styles.strategySliderContainer}>
+                    <View style={styles.strategyOptions}>
+                      {PLANNER_OPTIONS.map(option => {
+                        const isActive = option === selectedPlannerOption;
+                        return (
+                          <TouchableOpacity
+                            key={option.label}
+                            style={[styles.strategyOption, isActive && styles.strategyOptionActive]}
+                            onPress={() => {
+                              setPlanner(option.planner);
+                              setPlannerObjective(option.objective);
+                            }}
+                          >
+                            <Text
+                              style={[
+                                styles.strategyOptionText,
+                                isActive && styles.strategyOptionTextActive,
+                              ]}
+                            >
+                              {option.label}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  </View>
+
+                  <Text style={styles.strategyHint}>{selectedPlannerOption.hint}</Text>
+                </View>
+
                 {/* DateTime Picker - Compact for both platforms */}
                 {showDateTimePicker && (
                   <DateTimePicker
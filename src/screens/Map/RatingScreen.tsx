@@ -4,6 +4,9 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { Ionicons } from '@expo/vector-icons';
 import { MapStackParamList } from '@/types/navigation';
+import { completeReservation, getReservation, rateReservation } from '@/services/reservationsStore';
+import { settleReservationPayment } from '@/services/billingService';
+import { completeEndedSessions } from '@/services/chargingSessionService';
 
 type Props = NativeStackScreenProps<MapStackParamList, 'Rating'>;
 
@@ -12,16 +15,42 @@ const ACCENT_GREEN = '#00F470';
 /**
  * RatingScreen allows users to rate their charging experience
  * and provide feedback after completing a charging session.
+ * Charging has already stopped (ChargingSessionScreen); submitting records the rating on the
+ * completed reservation.
  */
-export default function RatingScreen({ navigation }: Props) {
+export default function RatingScreen({ navigation, route }: Props) {
+  const { reservationId } = route.params;
   const [rating, setRating] = useState(0);
   const [comment, setComment] = useState('');
 
-  const handleSubmit = () => {
-    // In a real app, send rating + comment to backend before navigating
+  const finishSession = async (sessionRating?: number) => {
+    try {
+      // Bill a metered session whose reservation didn't complete when charging stopped
+      await completeEndedSessions();
+      const reservation = await getReservation(reservationId);
+      if (reservation?.status === 'in_progress' && !reservation.sessionId) {
+        // Started before sessions were metered; bill the booking estimate
+        await completeReservation(reservationId, undefined, sessionRating);
+        await settleReservationPayment(reservationId);
+      } else if (sessionRating) {
+        await rateReservation(reservationId, sessionRating);
+      }
+    } catch (error) {
+      // Already completed or rated (e.g. navigated back here); nothing to record
+      console.warn('Could not complete reservation:', error);
+    }
     navigation.navigate('MapHome');
   };
 
+  const handleSubmit = () => {
+    // In a real app, also send the comment to the backend
+    finishSession(rating);
+  };
+
+  const handleSkip = () => {
+    finishSession();
+  };
+
   return (
     <SafeAreaView style={styles.safeArea}>
       <KeyboardAvoidingView
@@ -84,7 +113,7 @@ export default function RatingScreen({ navigation }: Props) {
           </TouchableOpacity>
 
           {/* Skip */}
-          <TouchableOpacity style={styles.skipButton} onPress={handleSubmit}>
+          <TouchableOpacity style={styles.skipButton} onPress={handleSkip}>
             <Text style={styles.skipText}>Skip for now</Text>
           </TouchableOpacity>
         </View>
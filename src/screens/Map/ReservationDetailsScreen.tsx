@@ -1,37 +1,151 @@
-import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { MapStackParamList } from '@/types/navigation';
+import { Reservation } from '@/types/reservation';
+import { Payment } from '@/types/payment';
+import {
+  cancelReservation,
+  cancelTripReservations,
+  canTransition,
+  getReservation,
+  getTripReservations,
+  RESERVATION_STATUS_LABELS,
+} from '@/services/reservationsStore';
+import { settleReservationPayment } from '@/services/billingService';
+import {
+  describeCancellationPolicy,
+  describeCancellationTerms,
+  getBookingCancellationTerms,
+  getCancellationPolicy,
+} from '@/services/cancellationPolicy';
+import { getPayment } from '@/services/paymentService';
+import { PRICING } from '@/services/standardVehicleModel';
 
 type Props = NativeStackScreenProps<MapStackParamList, 'ReservationDetails'>;
 
 const ACCENT_GREEN = '#00F470';
 
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
 /**
  * ReservationDetailsScreen displays the active or upcoming reservation
  * with options to scan QR code, cancel, or report issues.
  */
 export default function ReservationDetailsScreen({ navigation, route }: Props) {
-  const { stations } = route.params;
+  const { stations, reservationId, tripId } = route.params;
+  const [reservation, setReservation] = useState<Reservation | undefined>();
+  const [tripReservations, setTripReservations] = useState<Reservation[]>([]);
+  const [payment, setPayment] = useState<Payment | undefined>();
+
+  useEffect(() => {
+    const loadReservation = async () => {
+      try {
+        let found: Reservation | undefined;
+        if (tripId) {
+          const trip = await getTripReservations(tripId);
+          setTripReservations(trip);
+          // The stop to scan next: charging now, else the earliest confirmed one
+          found =
+            trip.find(r => r.status === 'in_progress') ||
+            trip.find(r => r.status === 'confirmed') ||
+            trip[0];
+        } else if (reservationId) {
+          found = await getReservation(reservationId);
+        } else {
+          return;
+        }
+        if (!found) {
+          throw new Error('Reservation not found');
+        }
+        setReservation(found);
+      } catch (error) {
+        console.error('Error loading reservation:', error);
+        Alert.alert('Reservation not found', 'This reservation could not be loaded.', [
+          { text: 'OK', onPress: () => navigation.goBack() },
+        ]);
+      }
+    };
+    loadReservation();
+  }, [reservationId, tripId, navigation]);
+
+  useEffect(() => {
+    if (reservation?.paymentId) {
+      getPayment(reservation.paymentId)
+        .then(setPayment)
+        .catch(error => {
+          console.warn('⚠️ Could not load the payment:', error);
+        });
+    }
+  }, [reservation?.paymentId, reservation?.status]);
+
+  // Receipt once captured, otherwise the estimate the hold was placed for
+  const billed = payment?.breakdown || payment?.estimate;
 
   // Synthetic assumption: each stop consumes 20 kWh.
   const energyPerStopKWh = 20;
-  const stationCosts = stations.map(s => ({
+  const stationCosts = stations.map((s, index) => ({
     id: s.id,
-    cost: s.pricePerKWh * energyPerStopKWh,
+    cost: tripReservations[index]?.estimatedCost ?? s.pricePerKwh * energyPerStopKWh,
   }));
   const totalCost = stationCosts.reduce((sum, c) => sum + c.cost, 0);
 
   const handleScanQR = () => {
-    navigation.navigate('ScanQR', { reservationId: 'res-123' });
+    if (!reservation) return;
+    navigation.navigate('ScanQR', { reservationId: reservation.id });
+  };
+
+  const cancelBooking = async (current: Reservation) => {
+    try {
+      if (tripId) {
+        await cancelTripReservations(tripId);
+      } else {
+        await cancelReservation(current.id);
+      }
+      // Charges any cancellation fees and releases the rest of the payment hold
+      await settleReservationPayment(current.id).catch(error => {
+        console.warn('⚠️ Could not settle payment after cancelling:', error);
+      });
+      navigation.navigate('MapHome');
+    } catch (error) {
+      console.error('Error cancelling reservation:', error);
+      Alert.alert('Error', 'This reservation can no longer be cancelled.');
+    }
   };
 
   const handleCancel = () => {
-    navigation.goBack();
+    if (!reservation) {
+      navigation.goBack();
+      return;
+    }
+    const cancellable = tripId
+      ? tripReservations.filter(r => canTransition(r, 'cancelled'))
+      : [reservation];
+    const terms = getBookingCancellationTerms(cancellable);
+    Alert.alert(tripId ? 'Cancel trip?' : 'Cancel reservation?', describeCancellationTerms(terms), [
+      { text: 'Keep', style: 'cancel' },
+      { text: 'Cancel booking', style: 'destructive', onPress: () => cancelBooking(reservation) },
+    ]);
   };
 
+  const scheduledStart = reservation ? new Date(reservation.scheduledStart) : new Date();
+  const durationHours = reservation
+    ? Math.round(
+        (Date.parse(reservation.scheduledEnd) - Date.parse(reservation.scheduledStart)) / 360_000
+      ) / 10
+    : 1;
+  const canScan = reservation ? canTransition(reservation, 'in_progress') : false;
+  const chargingSessionId =
+    reservation?.status === 'in_progress' ? reservation.sessionId : undefined;
+  const policy = reservation && getCancellationPolicy(reservation.cancellationPolicy);
+  const freeUntil =
+    reservation && canTransition(reservation, 'cancelled')
+      ? getBookingCancellationTerms([reservation]).freeUntil
+      : undefined;
+
   return (
     <SafeAreaView style={styles.safeArea}>
       <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
@@ -39,7 +153,9 @@ export default function ReservationDetailsScreen({ navigation, route }: Props) {
         <View style={styles.statusWrapper}>
           <View style={styles.statusBadge}>
             <Ionicons name="flash-outline" size={16} color={ACCENT_GREEN} />
-            <Text style={styles.statusText}>Active reservation</Text>
+            <Text style={styles.statusText}>
+              {reservation ? RESERVATION_STATUS_LABELS[reservation.status] : 'Active reservation'}
+            </Text>
           </View>
           <Text style={styles.statusSubtext}>
             Your chargers are reserved along this trip. Scan the QR upon arrival.
@@ -56,15 +172,17 @@ export default function ReservationDetailsScreen({ navigation, route }: Props) {
           </View>
           <View style={styles.detailRow}>
             <Text style={styles.label}>Date</Text>
-            <Text style={styles.value}>{new Date().toLocaleDateString()}</Text>
+            <Text style={styles.value}>{scheduledStart.toLocaleDateString()}</Text>
           </View>
           <View style={styles.detailRow}>
             <Text style={styles.label}>Time</Text>
-            <Text style={styles.value}>10:00 AM</Text>
+            <Text style={styles.value}>
+              {scheduledStart.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+            </Text>
           </View>
           <View style={styles.detailRow}>
             <Text style={styles.label}>Duration</Text>
-            <Text style={styles.value}>1 hour</Text>
+            <Text style={styles.value}>{durationHours} hour(s)</Text>
           </View>
           <View style={styles.detailRow}>
             <Text style={styles.label}>Stations</Text>
@@ -72,6 +190,28 @@ export default function ReservationDetailsScreen({ navigation, route }: Props) {
           </View>
         </View>
 
+        {/* Cancellation policy */}
+        {policy && (
+          <View style={styles.sectionCard}>
+            <View style={styles.sectionHeaderRow}>
+              <View style={styles.sectionTitleRow}>
+                <Ionicons name="shield-checkmark-outline" size={18} color={ACCENT_GREEN} />
+                <Text style={styles.sectionTitle}>{policy.label} cancellation policy</Text>
+              </View>
+            </View>
+            {describeCancellationPolicy(policy).map(line => (
+              <Text key={line} style={styles.policyText}>
+                • {line}
+              </Text>
+            ))}
+            {freeUntil && Date.parse(freeUntil) > Date.now() && (
+              <Text style={styles.policyHighlight}>
+                Free cancellation until {new Date(freeUntil).toLocaleString()}
+              </Text>
+            )}
+          </View>
+        )}
+
         {/* Trip stations */}
         <View style={styles.sectionCard}>
           <View style={styles.sectionHeaderRow}>
@@ -81,15 +221,15 @@ export default function ReservationDetailsScreen({ navigation, route }: Props) {
             </View>
           </View>
 
-          {stations.map(station => (
-            <View key={station.id} style={styles.stationCard}>
+          {stations.map((station, index) => (
+            <View key={`${station.id}-${index}`} style={styles.stationCard}>
               <View style={styles.stationHeaderRow}>
                 <View style={styles.stationTitleWrap}>
                   <View style={styles.stationIcon}>
                     <MaterialCommunityIcons name="ev-station" size={18} color="#050816" />
                   </View>
                   <View style={{ flex: 1 }}>
-                    <Text style={styles.stationName}>{station.title}</Text>
+                    <Text style={styles.stationName}>{station.name}</Text>
                     <Text style={styles.stationAddress}>{station.address}</Text>
                   </View>
                 </View>
@@ -99,18 +239,22 @@ export default function ReservationDetailsScreen({ navigation, route }: Props) {
                 </View>
               </View>
 
-              <View style={styles.stationInfoRow}>
-                <Ionicons name="car-outline" size={14} color="#9CA3AF" />
-                <Text style={styles.stationInfo}>
-                  {station.distanceKm.toFixed(1)} km • {station.driveMinutes.toFixed(0)} min drive
-                </Text>
-              </View>
+              {station.distanceKm != null && (
+                <View style={styles.stationInfoRow}>
+                  <Ionicons name="car-outline" size={14} color="#9CA3AF" />
+                  <Text style={styles.stationInfo}>
+                    {station.distanceKm.toFixed(1)} km
+                    {station.driveMinutes != null &&
+                      ` • ${station.driveMinutes.toFixed(0)} min drive`}
+                  </Text>
+                </View>
+              )}
 
               <View style={styles.stationInfoRow}>
                 <MaterialCommunityIcons name="power-plug-outline" size={14} color="#9CA3AF" />
                 <Text style={styles.stationInfo}>
-                  Plugs: {station.availablePlugs}/{station.totalPlugs} available (In use:{' '}
-                  {station.plugsInUse})
+                  Plugs: {station.availableChargers}/{station.totalChargers} available (In use:{' '}
+                  {station.totalChargers - station.availableChargers})
                 </Text>
               </View>
 
@@ -124,7 +268,7 @@ export default function ReservationDetailsScreen({ navigation, route }: Props) {
               <View style={styles.stationInfoRow}>
                 <Ionicons name="pricetag-outline" size={14} color="#9CA3AF" />
                 <Text style={styles.stationInfo}>
-                  Est. stop cost: ₱{(station.pricePerKWh * energyPerStopKWh).toFixed(2)}
+                  Est. stop cost: ₱{stationCosts[index].cost.toFixed(2)}
                 </Text>
               </View>
 
@@ -147,24 +291,34 @@ export default function ReservationDetailsScreen({ navigation, route }: Props) {
               </View>
 
               <View style={styles.stationFooterRow}>
-                <TouchableOpacity
-                  style={[
-                    styles.reserveBtn,
-                    station.availablePlugs === 0 && styles.reserveBtnDisabled,
-                  ]}
-                  disabled={station.availablePlugs === 0}
-                  onPress={() => navigation.navigate('ReserveStation', { stationId: station.id })}
-                >
-                  <Ionicons
-                    name={station.availablePlugs === 0 ? 'close-circle-outline' : 'flash-outline'}
-                    size={16}
-                    color={station.availablePlugs === 0 ? '#9CA3AF' : '#050816'}
-                    style={{ marginRight: 4 }}
-                  />
-                  <Text style={styles.reserveBtnText}>
-                    {station.availablePlugs === 0 ? 'Full' : 'Reserve'}
+                {tripReservations[index] ? (
+                  <Text style={styles.reservedWindowText}>
+                    {RESERVATION_STATUS_LABELS[tripReservations[index].status]} •{' '}
+                    {formatTime(tripReservations[index].scheduledStart)} –{' '}
+                    {formatTime(tripReservations[index].scheduledEnd)}
                   </Text>
-                </TouchableOpacity>
+                ) : (
+                  <TouchableOpacity
+                    style={[
+                      styles.reserveBtn,
+                      station.availableChargers === 0 && styles.reserveBtnDisabled,
+                    ]}
+                    disabled={station.availableChargers === 0}
+                    onPress={() => navigation.navigate('ReserveStation', { stationId: station.id })}
+                  >
+                    <Ionicons
+                      name={
+                        station.availableChargers === 0 ? 'close-circle-outline' : 'flash-outline'
+                      }
+                      size={16}
+                      color={station.availableChargers === 0 ? '#9CA3AF' : '#050816'}
+                      style={{ marginRight: 4 }}
+                    />
+                    <Text style={styles.reserveBtnText}>
+                      {station.availableChargers === 0 ? 'Full' : 'Reserve'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
               </View>
             </View>
           ))}
@@ -188,16 +342,103 @@ export default function ReservationDetailsScreen({ navigation, route }: Props) {
           <View style={styles.dividerThin} />
           <View style={styles.detailRow}>
             <Text style={styles.totalLabel}>Total estimated</Text>
-            <Text style={styles.totalValue}>₱{totalCost.toFixed(2)}</Text>
+            <Text style={styles.totalValue}>
+              ₱{(reservation && !tripId ? reservation.estimatedCost : totalCost).toFixed(2)}
+            </Text>
           </View>
         </View>
 
+        {/* Payment */}
+        {payment && billed && (
+          <View style={styles.sectionCard}>
+            <View style={styles.sectionHeaderRow}>
+              <View style={styles.sectionTitleRow}>
+                <Ionicons name="receipt-outline" size={18} color={ACCENT_GREEN} />
+                <Text style={styles.sectionTitle}>
+                  {payment.breakdown ? 'Receipt' : 'Payment hold'}
+                </Text>
+              </View>
+            </View>
+
+            <View style={styles.detailRow}>
+              <Text style={styles.label}>Charging (energy + connection)</Text>
+              <Text style={styles.value}>₱{billed.chargingCost.toFixed(2)}</Text>
+            </View>
+            {billed.idleFees > 0 && (
+              <View style={styles.detailRow}>
+                <Text style={styles.label}>Idle fees</Text>
+                <Text style={styles.value}>₱{billed.idleFees.toFixed(2)}</Text>
+              </View>
+            )}
+            <View style={styles.detailRow}>
+              <Text style={styles.label}>Booking fee</Text>
+              <Text style={styles.value}>₱{billed.bookingFee.toFixed(2)}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.label}>
+                Commission ({Math.round(PRICING.commissionFeeRate * 100)}%)
+              </Text>
+              <Text style={styles.value}>₱{billed.commissionFee.toFixed(2)}</Text>
+            </View>
+            {billed.serviceFee > 0 && (
+              <View style={styles.detailRow}>
+                <Text style={styles.label}>Service fee</Text>
+                <Text style={styles.value}>₱{billed.serviceFee.toFixed(2)}</Text>
+              </View>
+            )}
+            {billed.cancellationFees > 0 && (
+              <View style={styles.detailRow}>
+                <Text style={styles.label}>
+                  {reservation?.cancellation === 'no_show' ? 'No-show fee' : 'Cancellation fees'}
+                </Text>
+                <Text style={styles.value}>₱{billed.cancellationFees.toFixed(2)}</Text>
+              </View>
+            )}
+            <View style={styles.dividerThin} />
+            <View style={styles.detailRow}>
+              <Text style={styles.totalLabel}>{payment.breakdown ? 'Total paid' : 'Held'}</Text>
+              <Text style={styles.totalValue}>₱{billed.totalCost.toFixed(2)}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.label}>{payment.paymentMethodLabel}</Text>
+              <Text style={styles.value}>
+                {payment.status === 'authorized'
+                  ? 'Charged after your session'
+                  : payment.status === 'voided'
+                    ? 'Hold released'
+                    : payment.refundedAmount > 0
+                      ? `₱${payment.refundedAmount.toFixed(2)} refunded`
+                      : `₱${Math.max(0, payment.authorizedAmount - payment.capturedAmount).toFixed(2)} of hold released`}
+              </Text>
+            </View>
+          </View>
+        )}
+
         {/* Actions */}
         <View style={styles.buttonContainer}>
-          <TouchableOpacity style={styles.primaryButton} onPress={handleScanQR}>
-            <Ionicons name="qr-code-outline" size={18} color="#050816" style={{ marginRight: 6 }} />
-            <Text style={styles.primaryButtonText}>Scan QR code</Text>
-          </TouchableOpacity>
+          {canScan && (
+            <TouchableOpacity style={styles.primaryButton} onPress={handleScanQR}>
+              <Ionicons
+                name="qr-code-outline"
+                size={18}
+                color="#050816"
+                style={{ marginRight: 6 }}
+              />
+              <Text style={styles.primaryButtonText}>Scan QR code</Text>
+            </TouchableOpacity>
+          )}
+
+          {chargingSessionId && (
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={() =>
+                navigation.navigate('ChargingSession', { sessionId: chargingSessionId })
+              }
+            >
+              <Ionicons name="flash-outline" size={18} color="#050816" style={{ marginRight: 6 }} />
+              <Text style={styles.primaryButtonText}>View charging session</Text>
+            </TouchableOpacity>
+          )}
 
           <TouchableOpacity style={styles.secondaryButton} onPress={handleCancel}>
             <Ionicons name="close-outline" size={18} color="#E5E7EB" style={{ marginRight: 6 }} />
@@ -385,6 +626,11 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#4B5563',
   },
+  reservedWindowText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: ACCENT_GREEN,
+  },
   reserveBtnText: {
     fontSize: 12,
     fontWeight: '600',
@@ -444,4 +690,15 @@ const styles = StyleSheet.create({
     marginTop: 10,
     marginBottom: 10,
   },
+  policyText: {
+    fontSize: 13,
+    color: '#9CA3AF',
+    marginBottom: 4,
+  },
+  policyHighlight: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: ACCENT_GREEN,
+    marginTop: 6,
+  },
 });
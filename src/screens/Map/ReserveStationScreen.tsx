@@ -1,60 +1,110 @@
-import React, { useState } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { Ionicons } from '@expo/vector-icons';
 import { MapStackParamList } from '@/types/navigation';
+import { getKnownStation } from '@/services/openChargeMapService';
+import { createPlaceholderStation } from '@/services/stationNormalizer';
+import {
+  createReservation,
+  estimateReservationCost,
+  getStationSlots,
+  isSlotTakenError,
+} from '@/services/reservationsStore';
+import { ReservationSlot } from '@/services/slotAvailability';
+import { loadActiveVehicleProfile } from '@/services/vehicleProfileService';
+import { STANDARD_VEHICLE, StandardVehicle } from '@/services/standardVehicleModel';
+import { formatManilaTime, isSameManilaDay } from '@/services/manilaTime';
 
 type Props = NativeStackScreenProps<MapStackParamList, 'ReserveStation'>;
 
 /**
  * ReserveStationScreen allows users to select a time slot and duration
  * for their charging session before proceeding to payment confirmation.
+ * Only slots with a free charger for the whole duration are offered.
  */
 const ACCENT_GREEN = '#00F470';
 
+const MAX_SLOTS_SHOWN = 12;
+
+/**
+ * Slot label in Manila time: '10:00 AM' today, 'Tue 10:00 AM' on later days
+ */
+function formatSlot(start: Date): string {
+  return formatManilaTime(start, !isSameManilaDay(start, new Date()));
+}
+
 export default function ReserveStationScreen({ navigation, route }: Props) {
   const { stationId } = route.params;
-  const [selectedTime, setSelectedTime] = useState('10:00 AM');
+  const [slots, setSlots] = useState<ReservationSlot[]>([]);
+  const [selectedSlot, setSelectedSlot] = useState<ReservationSlot | null>(null);
   const [duration, setDuration] = useState(1);
+  const [vehicle, setVehicle] = useState<StandardVehicle>(STANDARD_VEHICLE);
+  const [submitting, setSubmitting] = useState(false);
 
-  const handleConfirm = () => {
-    const reservationDetails = {
-      stationId,
-      date: new Date().toISOString(),
-      time: selectedTime,
-      duration,
-      estimatedCost: duration * 12.5,
-    };
-    // Navigate directly to ReservationDetails with a mock EnrichedStation (keeps behaviour like before)
-    const mockStation = {
-      id: stationId,
-      title: 'Charging Station',
-      address: 'Address not available',
-      latitude: 0,
-      longitude: 0,
-      totalPlugs: 4,
-      plugsInUse: 1,
-      availablePlugs: 3,
-      plugTypes: ['Type 2', 'CCS'],
-      powerKW: 50,
-      distanceKm: 0,
-      driveMinutes: 0,
-      rating: 4.5,
-      pricePerKWh: reservationDetails.estimatedCost / reservationDetails.duration / 20,
-      amenities: {
-        wifi: true,
-        bathroom: true,
-        pwdFriendly: true,
-        waitingLounge: true,
-      },
-      state: '',
-    };
+  // The station from the last search, or a placeholder if it was never loaded
+  const station = useMemo(
+    () => getKnownStation(stationId) || createPlaceholderStation(stationId),
+    [stationId]
+  );
 
-    navigation.navigate('ReservationDetails', { routeId: 'res-' + Date.now(), stations: [mockStation] });
-  };
+  useEffect(() => {
+    loadActiveVehicleProfile().then(setVehicle);
+  }, []);
+
+  const loadSlots = useCallback(async () => {
+    const free = (await getStationSlots(station, vehicle, duration * 60)).slice(0, MAX_SLOTS_SHOWN);
+    setSlots(free);
+    // Keep the selection if it is still free, otherwise preselect the earliest slot
+    setSelectedSlot(
+      current =>
+        free.find(slot => slot.start.getTime() === current?.start.getTime()) || free[0] || null
+    );
+  }, [station, vehicle, duration]);
+
+  useEffect(() => {
+    loadSlots();
+  }, [loadSlots]);
 
-  const estimatedCost = duration * 12.5;
+  const estimatedCost = estimateReservationCost(station, vehicle, duration * 60);
+
+  const handleConfirm = async () => {
+    if (!selectedSlot) return;
+    setSubmitting(true);
+    try {
+      const reservation = await createReservation({
+        station,
+        scheduledStart: selectedSlot.start,
+        durationMinutes: duration * 60,
+        estimatedCost,
+      });
+      navigation.navigate('ConfirmPayment', {
+        stationId,
+        reservationDetails: {
+          reservationId: reservation.id,
+          stationId,
+          date: reservation.scheduledStart,
+          time: formatSlot(selectedSlot.start),
+          duration,
+          estimatedCost,
+          holdExpiresAt: reservation.holdExpiresAt,
+        },
+      });
+    } catch (error) {
+      console.error('Error creating reservation:', error);
+      if (isSlotTakenError(error)) {
+        // Someone else took the slot since the list was loaded
+        Alert.alert('Slot unavailable', 'That time was just taken. Please pick another slot.');
+        loadSlots();
+      } else {
+        const message = error instanceof Error ? error.message : String(error);
+        Alert.alert('Could not reserve', message);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
 
   return (
     <SafeAreaView style={styles.safeArea}>
@@ -84,24 +134,27 @@ export default function ReserveStationScreen({ navigation, route }: Props) {
             </View>
           </View>
           <View style={styles.timeSlots}>
-            {['9:00 AM', '10:00 AM', '11:00 AM', '12:00 PM', '1:00 PM'].map(time => {
-              const selected = selectedTime === time;
+            {slots.map(slot => {
+              const selected = selectedSlot?.start.getTime() === slot.start.getTime();
               return (
                 <TouchableOpacity
-                  key={time}
+                  key={slot.start.toISOString()}
                   style={[styles.timeSlot, selected && styles.selectedTimeSlot]}
-                  onPress={() => setSelectedTime(time)}
+                  onPress={() => setSelectedSlot(slot)}
                   activeOpacity={0.85}
                 >
-                  <Text
-                    style={[styles.timeText, selected && styles.selectedTimeText]}
-                  >
-                    {time}
+                  <Text style={[styles.timeText, selected && styles.selectedTimeText]}>
+                    {formatSlot(slot.start)}
                   </Text>
                 </TouchableOpacity>
               );
             })}
           </View>
+          {slots.length === 0 && (
+            <Text style={styles.noSlotsText}>
+              No charger is free for {duration}h in the next two days. Try a shorter duration.
+            </Text>
+          )}
         </View>
 
         {/* Duration selection */}
@@ -144,11 +197,13 @@ export default function ReserveStationScreen({ navigation, route }: Props) {
 
           <View style={styles.summaryRow}>
             <Text style={styles.summaryLabel}>Station</Text>
-            <Text style={styles.summaryValue}>Downtown Charging Hub</Text>
+            <Text style={styles.summaryValue}>{station.name}</Text>
           </View>
           <View style={styles.summaryRow}>
             <Text style={styles.summaryLabel}>Time</Text>
-            <Text style={styles.summaryValue}>{selectedTime}</Text>
+            <Text style={styles.summaryValue}>
+              {selectedSlot ? formatSlot(selectedSlot.start) : '—'}
+            </Text>
           </View>
           <View style={styles.summaryRow}>
             <Text style={styles.summaryLabel}>Duration</Text>
@@ -163,7 +218,12 @@ export default function ReserveStationScreen({ navigation, route }: Props) {
         </View>
 
         {/* CTA */}
-        <TouchableOpacity style={styles.confirmButton} onPress={handleConfirm} activeOpacity={0.9}>
+        <TouchableOpacity
+          style={styles.confirmButton}
+          onPress={handleConfirm}
+          disabled={submitting || !selectedSlot}
+          activeOpacity={0.9}
+        >
           <Ionicons
             name="arrow-forward-circle-outline"
             size={20}
@@ -264,6 +324,11 @@ const styles = StyleSheet.create({
     backgroundColor: ACCENT_GREEN,
     borderColor: ACCENT_GREEN,
   },
+  noSlotsText: {
+    color: '#9CA3AF',
+    fontSize: 13,
+    marginTop: 4,
+  },
   timeText: {
     fontSize: 14,
     color: '#E5E7EB',
@@ -1,9 +1,17 @@
-import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, TextInput } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { Ionicons } from '@expo/vector-icons';
 import { MapStackParamList } from '@/types/navigation';
+import { startChargingSession } from '@/services/chargingSessionService';
+import { getBookedStation, getReservation } from '@/services/reservationsStore';
+import { CHARGING_ARRIVAL_MIN } from '@/services/standardVehicleModel';
+import {
+  createStationQrPayload,
+  parseStationQrPayload,
+  validateQrForReservation,
+} from '@/services/stationQrCode';
 
 type Props = NativeStackScreenProps<MapStackParamList, 'ScanQR'>;
 
@@ -12,18 +20,62 @@ const ACCENT_GREEN = '#00F470';
 /**
  * ScanQRScreen simulates QR code scanning to initiate charging.
  * In production, this would use the device camera to scan the charger's QR code.
- * After successful scan, navigates to the rating screen.
+ * The scanned code must be for the reserved charger (see stationQrCode). A valid scan authorizes
+ * the driver and starts an OCPP transaction for the reservation (see chargingSessionService),
+ * then opens the live charging session. The session starts from the battery level the driver
+ * enters, prefilled with the planned arrival battery of a trip stop.
  */
 export default function ScanQRScreen({ navigation, route }: Props) {
   const { reservationId } = route.params;
+  const [starting, setStarting] = useState(false);
+  const [batteryText, setBatteryText] = useState('');
 
-  const handleSimulateScan = () => {
-    setTimeout(() => {
-      navigation.navigate('Rating', {
-        stationId: 'station-123',
-        reservationId,
+  useEffect(() => {
+    getReservation(reservationId)
+      .then(reservation => {
+        if (reservation?.arrivalSocPercent !== undefined) {
+          setBatteryText(String(reservation.arrivalSocPercent));
+        }
+      })
+      .catch(error => {
+        // The driver can still enter their battery level
+        console.warn('⚠️ Could not prefill the arrival battery:', error);
       });
-    }, 1500);
+  }, [reservationId]);
+
+  /**
+   * Start charging from scanned QR text
+   */
+  const handleScan = async (data: string) => {
+    setStarting(true);
+    try {
+      const reservation = await getReservation(reservationId);
+      if (!reservation) {
+        throw new Error('This reservation no longer exists');
+      }
+      const payload = parseStationQrPayload(data);
+      validateQrForReservation(payload, reservation);
+
+      const startSoc = batteryText.trim() ? Number(batteryText) : undefined;
+      const session = await startChargingSession(reservationId, payload.connectorId, startSoc);
+      navigation.replace('ChargingSession', { sessionId: session.id });
+    } catch (error) {
+      console.error('Error starting charging session:', error);
+      const message = error instanceof Error ? error.message : 'The charger did not respond.';
+      Alert.alert('Cannot start charging', message);
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  // Stands in for the camera: scans the code printed on the reserved charger
+  const handleSimulateScan = async () => {
+    const reservation = await getReservation(reservationId);
+    if (!reservation) {
+      Alert.alert('Cannot start charging', 'This reservation no longer exists');
+      return;
+    }
+    handleScan(createStationQrPayload(getBookedStation(reservation), reservation.chargerIndex + 1));
   };
 
   const handleCancel = () => {
@@ -63,14 +115,31 @@ export default function ScanQRScreen({ navigation, route }: Props) {
             Point your camera at the QR code on the charging station to start your session.
           </Text>
 
-          <TouchableOpacity style={styles.simulateButton} onPress={handleSimulateScan}>
+          <Text style={styles.batteryLabel}>Battery now (%)</Text>
+          <TextInput
+            value={batteryText}
+            onChangeText={setBatteryText}
+            placeholder={String(CHARGING_ARRIVAL_MIN)}
+            placeholderTextColor="#6B7280"
+            keyboardType="number-pad"
+            maxLength={3}
+            style={styles.batteryInput}
+          />
+
+          <TouchableOpacity
+            style={[styles.simulateButton, starting && styles.simulateButtonDisabled]}
+            onPress={handleSimulateScan}
+            disabled={starting}
+          >
             <Ionicons
               name="flash-outline"
               size={18}
               color="#050816"
               style={{ marginRight: 6 }}
             />
-            <Text style={styles.simulateButtonText}>Simulate scan (MVP)</Text>
+            <Text style={styles.simulateButtonText}>
+              {starting ? 'Starting charging…' : 'Simulate scan (MVP)'}
+            </Text>
           </TouchableOpacity>
 
           <TouchableOpacity style={styles.cancelButton} onPress={handleCancel}>
@@ -196,6 +265,19 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     marginBottom: 20,
   },
+  batteryLabel: {
+    fontSize: 13,
+    color: '#E5E7EB',
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  batteryInput: {
+    backgroundColor: '#0B1020',
+    padding: 12,
+    borderRadius: 8,
+    color: '#fff',
+    marginBottom: 16,
+  },
   simulateButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -205,6 +287,9 @@ const styles = StyleSheet.create({
     borderRadius: 999,
     marginBottom: 10,
   },
+  simulateButtonDisabled: {
+    opacity: 0.6,
+  },
   simulateButtonText: {
     color: '#050816',
     fontSize: 16,
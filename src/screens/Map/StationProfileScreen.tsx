@@ -3,9 +3,10 @@ import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-nati
 import MapView, { Marker, PROVIDER_GOOGLE } from 'react-native-maps';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
-import { MapStackParamList, EnrichedStation } from '@/types/navigation';
+import { MapStackParamList } from '@/types/navigation';
+import { StationAmenities } from '@/types/station';
+import { formatOpeningHours, STATION_ACCESS_LABELS } from '@/services/stationAccess';
 import mapDarkStyle from './mapDarkStyle.json';
-import { addActiveReservation } from '@/services/reservationsStore';
 
 type Props = NativeStackScreenProps<MapStackParamList, 'StationProfile'>;
 
@@ -19,16 +20,14 @@ type Props = NativeStackScreenProps<MapStackParamList, 'StationProfile'>;
 export default function StationProfileScreen({ navigation, route }: Props) {
   const { station } = route.params;
 
-  const handleReserve = async () => {
-    // Add active reservation & navigate to Reservations tab so user sees it immediately.
-    await addActiveReservation(station.title, 60);
-    // Navigate to the Reservations tab (parent navigator assumed to have it)
-    const parent = navigation.getParent();
-    if (parent) parent.navigate('Reservations' as never);
+  const handleReserve = () => {
+    // Pick a slot, then pay; the reservation shows up in the Sessions tab
+    navigation.navigate('ReserveStation', { stationId: station.id });
   };
 
-  const isFull = station.availablePlugs <= 0;
-  const amenityList: { label: string; key: keyof EnrichedStation['amenities'] }[] = [
+  const isFull = station.availableChargers <= 0;
+  const chargersInUse = station.totalChargers - station.availableChargers;
+  const amenityList: { label: string; key: keyof StationAmenities }[] = [
     { label: 'WiFi', key: 'wifi' },
     { label: 'Bathroom', key: 'bathroom' },
     { label: 'PWD Friendly', key: 'pwdFriendly' },
@@ -36,94 +35,106 @@ export default function StationProfileScreen({ navigation, route }: Props) {
   ];
 
   return (
-    <SafeAreaView style={styles.container} edges={['top','left','right']}>
+    <SafeAreaView style={styles.container} edges={['top', 'left', 'right']}>
       <ScrollView>
-      <View style={styles.header}>
-        <Text style={styles.stationName}>{station.title}</Text>
-        <Text style={styles.rating}>⭐ {station.rating.toFixed(1)}</Text>
-        <Text style={styles.subHeader}>{station.address}</Text>
-      </View>
+        <View style={styles.header}>
+          <Text style={styles.stationName}>{station.name}</Text>
+          <Text style={styles.rating}>⭐ {station.rating.toFixed(1)}</Text>
+          <Text style={styles.subHeader}>{station.address}</Text>
+        </View>
 
-      {/* Static Map Preview */}
-      <View style={styles.mapPreviewWrapper}>
-        <MapView
-          style={styles.mapPreview}
-          provider={PROVIDER_GOOGLE}
-          pointerEvents="none"
-          initialRegion={{
-            latitude: station.latitude,
-            longitude: station.longitude,
-            latitudeDelta: 0.02,
-            longitudeDelta: 0.02,
-          }}
-          googleMapId="508c49184e5a4073b3a02f38"
-          customMapStyle={mapDarkStyle as any}
-        >
-          <Marker
-            coordinate={{ latitude: station.latitude, longitude: station.longitude }}
-            title={station.title}
-            pinColor="wheat"
-          />
-        </MapView>
-      </View>
+        {/* Static Map Preview */}
+        <View style={styles.mapPreviewWrapper}>
+          <MapView
+            style={styles.mapPreview}
+            provider={PROVIDER_GOOGLE}
+            pointerEvents="none"
+            initialRegion={{
+              latitude: station.latitude,
+              longitude: station.longitude,
+              latitudeDelta: 0.02,
+              longitudeDelta: 0.02,
+            }}
+            googleMapId="508c49184e5a4073b3a02f38"
+            customMapStyle={mapDarkStyle as any}
+          >
+            <Marker
+              coordinate={{ latitude: station.latitude, longitude: station.longitude }}
+              title={station.name}
+              pinColor="wheat"
+            />
+          </MapView>
+        </View>
 
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Availability</Text>
-        <Text style={[styles.availability, isFull && { color: '#d32f2f' }]}>
-          {station.availablePlugs} of {station.totalPlugs} chargers available
-        </Text>
-        <Text style={styles.text}>In use: {station.plugsInUse}</Text>
-      </View>
-
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Address</Text>
-        <Text style={styles.text}>{station.address}</Text>
-        <Text style={styles.text}>{station.state}</Text>
-        <Text style={styles.text}>
-          Distance: {station.distanceKm.toFixed(2)} km • {station.driveMinutes.toFixed(0)} min est.
-          drive
-        </Text>
-      </View>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Availability</Text>
+          <Text style={[styles.availability, isFull && { color: '#d32f2f' }]}>
+            {station.availableChargers} of {station.totalChargers} chargers available
+          </Text>
+          <Text style={styles.text}>In use: {chargersInUse}</Text>
+          <Text style={styles.text}>
+            {STATION_ACCESS_LABELS[station.access]} • {formatOpeningHours(station.openingHours)}
+          </Text>
+        </View>
 
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Pricing</Text>
-        <Text style={styles.text}>₱{station.pricePerKWh.toFixed(2)}/kWh (est.)</Text>
-      </View>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Address</Text>
+          <Text style={styles.text}>{station.address}</Text>
+          <Text style={styles.text}>{station.region}</Text>
+          {station.distanceKm != null && (
+            <Text style={styles.text}>
+              Distance: {station.distanceKm.toFixed(2)} km •{' '}
+              {(station.driveMinutes ?? 0).toFixed(0)} min est. drive
+            </Text>
+          )}
+        </View>
 
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Charging Power</Text>
-        <Text style={styles.text}>{station.powerKW.toFixed(0)} kW aggregate (est.)</Text>
-        {station.plugTypes && station.plugTypes.length > 0 ? (
-          <View>
-            <Text style={styles.text}>Plug Types: {station.plugTypes.slice(0, Math.ceil(station.plugTypes.length / 2)).join(', ')}</Text>
-            {station.plugTypes.length > Math.ceil(station.plugTypes.length / 2) && (
-              <Text style={styles.text}>{station.plugTypes.slice(Math.ceil(station.plugTypes.length / 2)).join(', ')}</Text>
-            )}
-          </View>
-        ) : (
-          <Text style={styles.text}>Plug Types: Unknown</Text>
-        )}
-      </View>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Pricing</Text>
+          <Text style={styles.text}>₱{station.pricePerKwh.toFixed(2)}/kWh</Text>
+        </View>
 
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Amenities</Text>
-        {amenityList.map(a => (
-          <Text key={a.key} style={styles.text}>
-            • {a.label}: {station.amenities[a.key] ? 'Yes' : 'No'}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Charging Power</Text>
+          <Text style={styles.text}>
+            {station.powerKW.toFixed(0)} kW max • {station.chargingSpeed}
           </Text>
-        ))}
-      </View>
+          {station.plugTypes && station.plugTypes.length > 0 ? (
+            <View>
+              <Text style={styles.text}>
+                Plug Types:{' '}
+                {station.plugTypes.slice(0, Math.ceil(station.plugTypes.length / 2)).join(', ')}
+              </Text>
+              {station.plugTypes.length > Math.ceil(station.plugTypes.length / 2) && (
+                <Text style={styles.text}>
+                  {station.plugTypes.slice(Math.ceil(station.plugTypes.length / 2)).join(', ')}
+                </Text>
+              )}
+            </View>
+          ) : (
+            <Text style={styles.text}>Plug Types: Unknown</Text>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Amenities</Text>
+          {amenityList.map(a => (
+            <Text key={a.key} style={styles.text}>
+              • {a.label}: {station.amenities[a.key] ? 'Yes' : 'No'}
+            </Text>
+          ))}
+        </View>
 
-      <View style={styles.buttonContainer}>
-        <TouchableOpacity
-          style={[styles.primaryButton, isFull && { backgroundColor: '#9e9e9e' }]}
-          disabled={isFull}
-          onPress={handleReserve}
-        >
-          <Text style={styles.buttonText}>{isFull ? 'Full / Unavailable' : 'Reserve'}</Text>
-        </TouchableOpacity>
-        {/* Removed Directions and Plan a Trip actions per new UX spec */}
-      </View>
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity
+            style={[styles.primaryButton, isFull && { backgroundColor: '#9e9e9e' }]}
+            disabled={isFull}
+            onPress={handleReserve}
+          >
+            <Text style={styles.buttonText}>{isFull ? 'Full / Unavailable' : 'Reserve'}</Text>
+          </TouchableOpacity>
+          {/* Removed Directions and Plan a Trip actions per new UX spec */}
+        </View>
       </ScrollView>
     </SafeAreaView>
   );
@@ -174,7 +185,7 @@ const styles = StyleSheet.create({
   availability: {
     fontSize: 18,
     fontWeight: '600',
-  color: '#00F470',
+    color: '#00F470',
   },
   buttonContainer: {
     padding: 20,
@@ -195,7 +206,7 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   primaryButton: {
-  backgroundColor: '#00F470',
+    backgroundColor: '#00F470',
     paddingVertical: 12,
     borderRadius: 8,
   },
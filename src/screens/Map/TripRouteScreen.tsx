@@ -6,13 +6,17 @@ import {
   TouchableOpacity,
   ScrollView,
   ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import MapView, { Marker, Polyline, PROVIDER_GOOGLE } from 'react-native-maps';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
-import { MapStackParamList, EnrichedStation } from '@/types/navigation';
+import { MapStackParamList } from '@/types/navigation';
 import { calculateDetailedRoute } from '@/services/routeCalculationEngine';
+import { createTripReservations, getTripStopBookings } from '@/services/reservationsStore';
+import { formatManilaTime, isSameManilaDay } from '@/services/manilaTime';
+import { PRICING } from '@/services/standardVehicleModel';
 import { DetailedRoute, RouteSegment } from '@/types/route-calculation';
 import mapDarkStyle from './mapDarkStyle.json';
 
@@ -41,6 +45,9 @@ export default function TripRouteScreen({ navigation, route }: Props) {
     currentBatteryPercent = 80,
     minimumArrivalBattery = 25,
     chargingStrategy = 1,
+    planner = 'greedy',
+    plannerObjective = 'time',
+    consumptionProfile,
     departureTime,
   } = route.params;
 
@@ -48,6 +55,7 @@ export default function TripRouteScreen({ navigation, route }: Props) {
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [isDetailsCollapsed, setIsDetailsCollapsed] = useState(false);
+  const [reserving, setReserving] = useState(false);
 
   const truncateLocation = (value: string) => {
     if (!value) return '';
@@ -96,7 +104,10 @@ export default function TripRouteScreen({ navigation, route }: Props) {
           maxDetourKm: 5,
           minimumArrivalBattery,
           chargingStrategy,
-          trafficMultiplier: 1.0, // Will be calculated from departureTime if provided
+          planner,
+          plannerObjective,
+          consumptionProfile,
+          departureTime: departureTime ? new Date(departureTime) : undefined,
         });
         if (mounted) {
           if (result.success && result.route) {
@@ -129,39 +140,50 @@ export default function TripRouteScreen({ navigation, route }: Props) {
     return () => {
       mounted = false;
     };
-  }, [from, to, currentBatteryPercent, minimumArrivalBattery]);
+  }, [
+    from,
+    to,
+    currentBatteryPercent,
+    minimumArrivalBattery,
+    planner,
+    plannerObjective,
+    consumptionProfile,
+    departureTime,
+  ]);
 
-  const handleReserveChargers = () => {
+  const handleReserveChargers = async () => {
     if (!detailedRoute || detailedRoute.chargingStops.length === 0) return;
-    const enrichedStations: EnrichedStation[] = detailedRoute.chargingStops.map(stop => ({
-      id: stop.station.id,
-      title: stop.station.name,
-      address: stop.station.address,
-      latitude: stop.station.latitude,
-      longitude: stop.station.longitude,
-      totalPlugs: stop.station.totalChargers,
-      plugsInUse: stop.station.totalChargers - stop.station.availableChargers,
-      availablePlugs: stop.station.availableChargers,
-      plugTypes: stop.station.amenities,
-      powerKW: stop.station.powerKW || 50,
-      distanceKm: stop.distanceFromStart,
-      driveMinutes: 0,
-      rating: stop.station.rating,
-      pricePerKWh: stop.station.pricePerKwh,
-      amenities: {
-        wifi: stop.station.amenities.includes('WiFi'),
-        bathroom:
-          stop.station.amenities.includes('Restroom') ||
-          stop.station.amenities.includes('Bathroom'),
-        pwdFriendly: false,
-        waitingLounge: false,
-      },
-      state: '',
-    }));
-    navigation.navigate('ReservationDetails', {
-      routeId: detailedRoute.id,
-      stations: enrichedStations,
-    });
+    setReserving(true);
+    try {
+      // Every stop is held for its projected arrival; if one is full, none are held
+      const booked = await createTripReservations(getTripStopBookings(detailedRoute));
+      const [first] = booked;
+      const chargingMinutes = detailedRoute.chargingStops.reduce(
+        (sum, stop) => sum + stop.chargingDuration,
+        0
+      );
+
+      navigation.navigate('ConfirmPayment', {
+        stationId: first.stationId,
+        reservationDetails: {
+          reservationId: first.id,
+          stationId: first.stationId,
+          date: first.scheduledStart,
+          time: formatManilaTime(first.scheduledStart),
+          duration: Math.round((chargingMinutes / 60) * 10) / 10,
+          estimatedCost: booked.reduce((sum, reservation) => sum + reservation.estimatedCost, 0),
+          holdExpiresAt: first.holdExpiresAt,
+          tripId: first.tripId,
+          stopCount: booked.length,
+        },
+      });
+    } catch (error) {
+      console.error('Error reserving trip chargers:', error);
+      const message = error instanceof Error ? error.message : 'A charging stop is fully booked.';
+      Alert.alert('Chargers unavailable', `${message}. No chargers were reserved for this trip.`);
+    } finally {
+      setReserving(false);
+    }
   };
 
   if (loading) {
@@ -220,7 +242,7 @@ export default function TripRouteScreen({ navigation, route }: Props) {
               key={`charging-${index}`}
               coordinate={{ latitude: stop.station.latitude, longitude: stop.station.longitude }}
               title={`⚡ Stop ${stopNumber}: ${stop.station.name}`}
-              description={`${stop.arrivalBattery.toFixed(0)}% → ${stop.departureBattery.toFixed(0)}% • ${stop.chargingDuration} min • ${stop.reasonForStop}`}
+              description={`Arrive ${formatManilaTime(stop.arrivalTime)} • ${stop.arrivalBattery.toFixed(0)}% → ${stop.departureBattery.toFixed(0)}% • ${stop.chargingDuration} min • ${stop.reasonForStop}`}
             >
               <View style={styles.chargingMarker}>
                 <Ionicons name="flash" size={16} color="#050816" />
@@ -272,6 +294,9 @@ export default function TripRouteScreen({ navigation, route }: Props) {
                   <Text style={styles.subtitle} numberOfLines={1}>
                     → {toLabel}
                   </Text>
+                  <Text style={styles.subtitle} numberOfLines={1}>
+                    Planned for {detailedRoute.vehicleName}
+                  </Text>
                 </View>
                 <View style={styles.titleIconWrapper}>
                   <Ionicons name="map-outline" size={22} color={ACCENT_GREEN} />
@@ -302,30 +327,58 @@ export default function TripRouteScreen({ navigation, route }: Props) {
                   <Text style={styles.statValue}>{detailedRoute.chargingStops.length}</Text>
                   <Text style={styles.statLabel}>Charging stops</Text>
                 </View>
+                <View style={styles.statItem}>
+                  <Ionicons name="flag-outline" size={18} color={ACCENT_GREEN} />
+                  <Text style={styles.statValue}>
+                    {formatManilaTime(
+                      detailedRoute.arrivalTime,
+                      !isSameManilaDay(detailedRoute.arrivalTime, detailedRoute.departureTime)
+                    )}
+                  </Text>
+                  <Text style={styles.statLabel}>Arrival</Text>
+                </View>
               </View>
 
               {/* Charging Strategy Badge */}
               {detailedRoute.chargingStops.length > 0 && (
                 <View style={styles.strategyBadge}>
                   <MaterialCommunityIcons name="strategy" size={16} color={ACCENT_GREEN} />
-                  <Text style={styles.strategyText}>
-                    Strategy: {STRATEGY_NAMES[chargingStrategy as keyof typeof STRATEGY_NAMES]}
-                  </Text>
-                  <Text style={styles.strategySubtext}>
-                    Optimized for{' '}
-                    {chargingStrategy === 0
-                      ? 'fewer stops'
-                      : chargingStrategy === 1
-                        ? 'balance'
-                        : 'faster charging'}
-                  </Text>
+                  {detailedRoute.planner === 'graph' ? (
+                    <>
+                      <Text style={styles.strategyText}>Planner: Optimal search</Text>
+                      <Text style={styles.strategySubtext}>
+                        Optimized for{' '}
+                        {plannerObjective === 'cost'
+                          ? 'lowest charging cost'
+                          : 'shortest trip time'}
+                      </Text>
+                    </>
+                  ) : (
+                    <>
+                      <Text style={styles.strategyText}>
+                        Strategy: {STRATEGY_NAMES[chargingStrategy as keyof typeof STRATEGY_NAMES]}
+                      </Text>
+                      <Text style={styles.strategySubtext}>
+                        Optimized for{' '}
+                        {chargingStrategy === 0
+                          ? 'fewer stops'
+                          : chargingStrategy === 1
+                            ? 'balance'
+                            : 'faster charging'}
+                      </Text>
+                    </>
+                  )}
                 </View>
               )}
 
               {/* Route Details */}
               <Text style={styles.sectionTitle}>Route details</Text>
               {detailedRoute.segments.map(segment => (
-                <RouteSegmentCard key={segment.id} segment={segment} />
+                <RouteSegmentCard
+                  key={segment.id}
+                  segment={segment}
+                  departureTime={detailedRoute.departureTime}
+                />
               ))}
 
               {/* Cost Summary */}
@@ -375,9 +428,23 @@ export default function TripRouteScreen({ navigation, route }: Props) {
                         ₱{detailedRoute.costBreakdown.totalCost.toFixed(2)}
                       </Text>
                     </View>
+                    {detailedRoute.costBreakdown.idleFeeStops > 0 && (
+                      <Text style={styles.costNote}>
+                        {detailedRoute.costBreakdown.idleFeeStops}{' '}
+                        {detailedRoute.costBreakdown.idleFeeStops === 1
+                          ? 'stop bills'
+                          : 'stops bill'}{' '}
+                        idle time: ₱{PRICING.idleFeePerMinute.toFixed(2)}/min if you stay plugged in
+                        more than {PRICING.idleFeeGracePeriod} min after charging.
+                      </Text>
+                    )}
                   </View>
 
-                  <TouchableOpacity style={styles.reserveButton} onPress={handleReserveChargers}>
+                  <TouchableOpacity
+                    style={styles.reserveButton}
+                    onPress={handleReserveChargers}
+                    disabled={reserving}
+                  >
                     <Ionicons
                       name="flash-outline"
                       size={18}
@@ -413,7 +480,16 @@ export default function TripRouteScreen({ navigation, route }: Props) {
   );
 }
 
-function RouteSegmentCard({ segment }: { segment: RouteSegment }) {
+function RouteSegmentCard({
+  segment,
+  departureTime,
+}: {
+  segment: RouteSegment;
+  departureTime: Date;
+}) {
+  // Planned Manila clock time; adds the weekday once the trip runs past the departure day
+  const eta = (time: string) => formatManilaTime(time, !isSameManilaDay(time, departureTime));
+
   if (segment.type === 'start') {
     return (
       <View style={styles.segmentCard}>
@@ -423,7 +499,9 @@ function RouteSegmentCard({ segment }: { segment: RouteSegment }) {
           </View>
           <View style={styles.segmentInfo}>
             <Text style={styles.segmentTitle}>{segment.location}</Text>
-            <Text style={styles.segmentSubtitle}>Starting point</Text>
+            <Text style={styles.segmentSubtitle}>
+              Starting point • Depart {eta(segment.departureTime || segment.arrivalTime)}
+            </Text>
           </View>
           <Text style={styles.batteryText}>{segment.batteryAtArrival.toFixed(0)}%</Text>
         </View>
@@ -443,7 +521,7 @@ function RouteSegmentCard({ segment }: { segment: RouteSegment }) {
             <Text style={styles.segmentSubtitle}>
               {segment.distanceFromPrevious.toFixed(1)} km •{' '}
               {Math.floor(segment.durationFromPrevious / 60)}h{' '}
-              {Math.round(segment.durationFromPrevious % 60)}m
+              {Math.round(segment.durationFromPrevious % 60)}m • Arrive {eta(segment.arrivalTime)}
             </Text>
           </View>
           <Text style={styles.batteryText}>{segment.batteryAtArrival.toFixed(0)}%</Text>
@@ -478,7 +556,9 @@ function RouteSegmentCard({ segment }: { segment: RouteSegment }) {
           <View style={styles.segmentInfo}>
             <Text style={styles.segmentTitleCharging}>{segment.location}</Text>
             <Text style={styles.segmentSubtitle}>
-              Charge for {segment.chargingDuration} minutes
+              {eta(segment.arrivalTime)}
+              {segment.departureTime ? ` – ${eta(segment.departureTime)}` : ''} • Charge for{' '}
+              {segment.chargingDuration} minutes
             </Text>
             <Text style={styles.chargingCost}>
               Cost: ₱{segment.chargingCost?.toFixed(2)}{' '}
@@ -504,7 +584,9 @@ function RouteSegmentCard({ segment }: { segment: RouteSegment }) {
           </View>
           <View style={styles.segmentInfo}>
             <Text style={styles.segmentTitle}>{segment.location}</Text>
-            <Text style={styles.segmentSubtitle}>Destination</Text>
+            <Text style={styles.segmentSubtitle}>
+              Destination • Arrive {eta(segment.arrivalTime)}
+            </Text>
           </View>
           <Text style={styles.batteryText}>{segment.batteryAtArrival.toFixed(0)}%</Text>
         </View>
@@ -823,6 +905,11 @@ const styles = StyleSheet.create({
     color: ACCENT_GREEN,
     fontWeight: '700',
   },
+  costNote: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 6,
+  },
   reserveButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,44 +1,141 @@
 import React, { useState } from 'react';
 import { View, Text, StyleSheet, TextInput, TouchableOpacity, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { saveForDevice } from '@/services/deviceStore';
 import { useNavigation } from '@react-navigation/native';
 import BackArrow from '@/components/BackArrow';
+import { addCard, addWallet, WALLET_LABELS } from '@/services/paymentMethodsService';
+import { PaymentMethodType } from '@/types/payment';
 
+const METHOD_TYPES: { type: PaymentMethodType; label: string }[] = [
+  { type: 'card', label: 'Card' },
+  { type: 'gcash', label: WALLET_LABELS.gcash },
+  { type: 'maya', label: WALLET_LABELS.maya },
+];
+
+/**
+ * AddPaymentScreen adds a credit/debit card or links a GCash or Maya wallet.
+ * Details are validated and tokenized by the payment gateway; only the token is saved.
+ */
 export default function AddPaymentScreen() {
   const navigation = useNavigation<any>();
+  const [type, setType] = useState<PaymentMethodType>('card');
   const [card, setCard] = useState('');
+  const [expiry, setExpiry] = useState('');
+  const [cvc, setCvc] = useState('');
+  const [mobile, setMobile] = useState('');
   const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Insert the slash as MM/YY is typed
+  const handleExpiryChange = (text: string) => {
+    const digits = text.replace(/\D/g, '').slice(0, 4);
+    setExpiry(digits.length > 2 ? `${digits.slice(0, 2)}/${digits.slice(2)}` : digits);
+  };
 
   const handleSave = async () => {
-    if (!card || !name) return Alert.alert('Please fill card and name');
-    const payment = { id: 'pm-' + Date.now(), card: `•••• ${card.slice(-4)}`, name };
+    setSaving(true);
     try {
-      await saveForDevice('paymentMethods', [payment]);
-      Alert.alert('Saved', 'Payment method saved locally for this device');
+      const method =
+        type === 'card'
+          ? await addCard({
+              number: card,
+              expMonth: Number(expiry.slice(0, 2)),
+              expYear: Number(expiry.slice(3)),
+              cvc,
+              holderName: name,
+            })
+          : await addWallet({ type, mobileNumber: mobile, holderName: name });
+      Alert.alert('Saved', `${method.label} was added to your payment methods.`);
       navigation.goBack();
     } catch (e) {
-      Alert.alert('Error', 'Could not save payment method');
+      Alert.alert('Could not add payment method', e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(false);
     }
   };
 
   return (
-    <SafeAreaView style={styles.safeArea} edges={['top','left','right','bottom']}>
+    <SafeAreaView style={styles.safeArea} edges={['top', 'left', 'right', 'bottom']}>
       <View style={styles.container}>
-        <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
+        <View
+          style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}
+        >
           <Text style={styles.title}>Add Payment Method</Text>
           <BackArrow onPress={() => navigation.goBack()} />
         </View>
-        <TextInput
-          value={card}
-          onChangeText={setCard}
-          placeholder="Card number (enter numbers)"
-          keyboardType="numeric"
-          style={styles.input}
-        />
-        <TextInput value={name} onChangeText={setName} placeholder="Name" style={styles.input} />
-        <TouchableOpacity style={styles.saveBtn} onPress={handleSave}>
-          <Text style={styles.saveText}>Save</Text>
+
+        <View style={styles.typeRow}>
+          {METHOD_TYPES.map(option => (
+            <TouchableOpacity
+              key={option.type}
+              style={[styles.typePill, type === option.type && styles.typePillActive]}
+              onPress={() => setType(option.type)}
+            >
+              <Text style={[styles.typeText, type === option.type && styles.typeTextActive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {type === 'card' ? (
+          <>
+            <TextInput
+              value={card}
+              onChangeText={setCard}
+              placeholder="Card number"
+              keyboardType="numeric"
+              style={styles.input}
+            />
+            <View style={styles.inputRow}>
+              <TextInput
+                value={expiry}
+                onChangeText={handleExpiryChange}
+                placeholder="MM/YY"
+                keyboardType="numeric"
+                style={[styles.input, styles.inputHalf]}
+              />
+              <TextInput
+                value={cvc}
+                onChangeText={setCvc}
+                placeholder="CVC"
+                keyboardType="numeric"
+                secureTextEntry
+                maxLength={4}
+                style={[styles.input, styles.inputHalf]}
+              />
+            </View>
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder="Name on card"
+              style={styles.input}
+            />
+          </>
+        ) : (
+          <>
+            <TextInput
+              value={mobile}
+              onChangeText={setMobile}
+              placeholder={`${WALLET_LABELS[type]} mobile number (09XX XXX XXXX)`}
+              keyboardType="phone-pad"
+              style={styles.input}
+            />
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder="Account name"
+              style={styles.input}
+            />
+          </>
+        )}
+
+        <TouchableOpacity
+          style={[styles.saveBtn, saving && styles.saveBtnDisabled]}
+          onPress={handleSave}
+          disabled={saving}
+        >
+          <Text style={styles.saveText}>{saving ? 'Saving…' : 'Save'}</Text>
         </TouchableOpacity>
       </View>
     </SafeAreaView>
@@ -49,7 +146,27 @@ const styles = StyleSheet.create({
   safeArea: { flex: 1, backgroundColor: '#050816' },
   container: { padding: 20 },
   title: { fontSize: 20, fontWeight: '700', color: '#F9FAFB', marginBottom: 12 },
-  input: { backgroundColor: '#0B1020', padding: 12, borderRadius: 8, color: '#fff', marginBottom: 12 },
+  typeRow: { flexDirection: 'row', gap: 8, marginBottom: 16 },
+  typePill: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#1F2937',
+  },
+  typePillActive: { borderColor: '#00F470', backgroundColor: 'rgba(0,244,112,0.12)' },
+  typeText: { color: '#9CA3AF', fontWeight: '600' },
+  typeTextActive: { color: '#00F470' },
+  input: {
+    backgroundColor: '#0B1020',
+    padding: 12,
+    borderRadius: 8,
+    color: '#fff',
+    marginBottom: 12,
+  },
+  inputRow: { flexDirection: 'row', gap: 12 },
+  inputHalf: { flex: 1 },
   saveBtn: { backgroundColor: '#00F470', padding: 12, borderRadius: 8, alignItems: 'center' },
+  saveBtnDisabled: { opacity: 0.6 },
   saveText: { color: '#02110A', fontWeight: '700' },
 });
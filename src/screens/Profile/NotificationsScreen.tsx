@@ -1,17 +1,43 @@
-import React from 'react';
-import { View, Text, StyleSheet, FlatList, TouchableOpacity } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, FlatList } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import BackArrow from '@/components/BackArrow';
 import { useNavigation } from '@react-navigation/native';
+import { AppNotification } from '@/types/notification';
+import {
+  getNotifications,
+  markAllNotificationsRead,
+  subscribeToNotifications,
+} from '@/services/notificationsService';
 
-const DUMMY = [
-  { id: '1', title: 'Reservation confirmed', body: 'Your reservation at Sta. Rosa is confirmed.' },
-  { id: '2', title: 'Charger offline', body: 'A charger in Pasig is currently offline.' },
-  { id: '3', title: 'Promo', body: 'Get 10% off at partner stations this week.' },
-];
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
 
 export default function NotificationsScreen() {
   const navigation = useNavigation<any>();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  useEffect(() => {
+    getNotifications()
+      .then(list => {
+        setNotifications(list);
+        return markAllNotificationsRead();
+      })
+      .catch(error => {
+        console.error('Error loading notifications:', error);
+        setLoadFailed(true);
+      });
+    return subscribeToNotifications(notification => {
+      setNotifications(current => [notification, ...current]);
+    });
+  }, []);
+
   return (
     <SafeAreaView style={styles.safeArea} edges={['top','left','right','bottom']}>
       <View style={styles.container}>
@@ -21,14 +47,20 @@ export default function NotificationsScreen() {
         </View>
 
         <FlatList
-          data={DUMMY}
+          data={notifications}
           keyExtractor={i => i.id}
           renderItem={({ item }) => (
-            <View style={styles.item}>
+            <View style={[styles.item, !item.read && styles.itemUnread]}>
               <Text style={styles.itemTitle}>{item.title}</Text>
               <Text style={styles.itemBody}>{item.body}</Text>
+              <Text style={styles.itemTime}>{formatTime(item.createdAt)}</Text>
             </View>
           )}
+          ListEmptyComponent={
+            <Text style={styles.empty}>
+              {loadFailed ? 'Could not load notifications.' : 'No notifications yet.'}
+            </Text>
+          }
         />
       </View>
     </SafeAreaView>
@@ -41,6 +73,9 @@ const styles = StyleSheet.create({
   headerRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 },
   title: { fontSize: 20, fontWeight: '700', color: '#F9FAFB' },
   item: { padding: 12, borderRadius: 12, backgroundColor: '#07101a', marginBottom: 10, borderWidth: 1, borderColor: '#111827' },
+  itemUnread: { borderColor: '#00F470' },
   itemTitle: { color: '#E5E7EB', fontWeight: '700', marginBottom: 4 },
   itemBody: { color: '#9CA3AF' },
+  itemTime: { color: '#6B7280', fontSize: 12, marginTop: 6 },
+  empty: { color: '#6B7280', textAlign: 'center', marginTop: 40 },
 });
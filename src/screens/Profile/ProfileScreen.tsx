@@ -1,13 +1,65 @@
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Image } from 'react-native';
+import { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Image, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
+import {
+  getPaymentMethods,
+  removePaymentMethod,
+  setDefaultPaymentMethod,
+  subscribeToPaymentMethods,
+} from '@/services/paymentMethodsService';
+import { getCurrentUser, signOut } from '@/services/authService';
+import { PaymentMethod } from '@/types/payment';
 
 /**
- * ProfileScreen displays user information and app settings.
- * For MVP, this shows placeholder information without full user management.
+ * ProfileScreen displays the signed-in driver, their payment methods and app settings.
+ * Vehicles are still placeholder information.
  */
 export default function ProfileScreen() {
   const navigation = useNavigation<any>();
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const user = getCurrentUser();
+
+  useEffect(() => {
+    const loadPaymentMethods = () =>
+      getPaymentMethods()
+        .then(setPaymentMethods)
+        .catch(error => {
+          console.error('Error loading payment methods:', error);
+          Alert.alert('Could not load payment methods', 'Please try again.');
+        });
+    loadPaymentMethods();
+    return subscribeToPaymentMethods(loadPaymentMethods);
+  }, []);
+
+  const handlePaymentMethodPress = (method: PaymentMethod) => {
+    Alert.alert(method.label, method.holderName, [
+      ...(method.isDefault
+        ? []
+        : [{ text: 'Make default', onPress: () => setDefaultPaymentMethod(method.id) }]),
+      {
+        text: 'Remove',
+        style: 'destructive' as const,
+        onPress: () => removePaymentMethod(method.id),
+      },
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  // RootNavigator returns to the welcome screen once signed out
+  const handleLogOut = () => {
+    Alert.alert('Log out?', 'Your data stays in your account for when you sign back in.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Log Out',
+        style: 'destructive',
+        onPress: () =>
+          signOut().catch(e =>
+            Alert.alert('Could not log out', e instanceof Error ? e.message : String(e))
+          ),
+      },
+    ]);
+  };
 
   return (
     <SafeAreaView style={styles.safeArea}>
@@ -22,8 +74,8 @@ export default function ProfileScreen() {
             source={{ uri: 'https://randomuser.me/api/portraits/men/75.jpg' }}
             style={styles.avatarImage}
           />
-          <Text style={styles.name}>Mark Ilagan</Text>
-          <Text style={styles.email}>milagan@up.edu.ph</Text>
+          <Text style={styles.name}>{user?.name}</Text>
+          <Text style={styles.email}>{user?.email ?? user?.phone}</Text>
         </View>
 
         {/* VEHICLES */}
@@ -46,12 +98,25 @@ export default function ProfileScreen() {
         {/* PAYMENT METHODS */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Payment Methods</Text>
-          <View style={styles.paymentCard}>
-            <Text style={styles.paymentText}>💳 •••• 4242</Text>
-            <View style={styles.defaultBadgePill}>
-              <Text style={styles.defaultBadgeText}>Default</Text>
-            </View>
-          </View>
+          {paymentMethods.length === 0 && (
+            <Text style={styles.emptyText}>No payment methods yet</Text>
+          )}
+          {paymentMethods.map(method => (
+            <TouchableOpacity
+              key={method.id}
+              style={styles.paymentCard}
+              onPress={() => handlePaymentMethodPress(method)}
+            >
+              <Text style={styles.paymentText}>
+                {method.type === 'card' ? '💳' : '📱'} {method.label}
+              </Text>
+              {method.isDefault && (
+                <View style={styles.defaultBadgePill}>
+                  <Text style={styles.defaultBadgeText}>Default</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+          ))}
           <TouchableOpacity style={styles.addButton} onPress={() => navigation.navigate('AddPayment')}>
             <Text style={styles.addButtonText}>+ Add Payment Method</Text>
           </TouchableOpacity>
@@ -76,7 +141,7 @@ export default function ProfileScreen() {
         </View>
 
         {/* LOGOUT */}
-        <TouchableOpacity style={styles.logoutButton} onPress={() => navigation.navigate('Registration')}>
+        <TouchableOpacity style={styles.logoutButton} onPress={handleLogOut}>
           <Text style={styles.logoutText}>Log Out</Text>
         </TouchableOpacity>
       </ScrollView>
@@ -176,6 +241,7 @@ const styles = StyleSheet.create({
   },
   paymentCard: {
     flexDirection: 'row',
+    justifyContent: 'space-between',
     alignItems: 'center',
     padding: 14,
     backgroundColor: '#020617',
@@ -188,6 +254,11 @@ const styles = StyleSheet.create({
     fontSize: 15,
     color: '#F9FAFB',
   },
+  emptyText: {
+    fontSize: 13,
+    color: '#9CA3AF',
+    marginBottom: 8,
+  },
   defaultBadgePill: {
     paddingHorizontal: 10,
     paddingVertical: 4,
@@ -0,0 +1,279 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import BackArrow from '@/components/BackArrow';
+import { RootStackParamList } from '@/types/navigation';
+import { SessionReceipt } from '@/types/receipt';
+import { getSessionReceipts } from '@/services/receiptService';
+import { exportSessionHistory, ReceiptExportFormat } from '@/services/receiptExport';
+import { formatManilaDate, fromManilaDate, getManilaClock } from '@/services/manilaTime';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'ExportSessions'>;
+
+type RangePreset = 'this_month' | 'last_month' | 'last_30_days' | 'this_year' | 'custom';
+
+const PRESETS: { id: RangePreset; label: string }[] = [
+  { id: 'this_month', label: 'This month' },
+  { id: 'last_month', label: 'Last month' },
+  { id: 'last_30_days', label: 'Last 30 days' },
+  { id: 'this_year', label: 'This year' },
+  { id: 'custom', label: 'Custom' },
+];
+
+const FORMATS: { id: ReceiptExportFormat; label: string }[] = [
+  { id: 'pdf', label: 'PDF' },
+  { id: 'csv', label: 'CSV' },
+];
+
+/**
+ * First and last Manila day of a preset range
+ */
+function getPresetRange(preset: Exclude<RangePreset, 'custom'>, now: Date): [Date, Date] {
+  const { year, month, day } = getManilaClock(now);
+  switch (preset) {
+    case 'this_month':
+      return [fromManilaDate(year, month, 1), now];
+    case 'last_month':
+      return [fromManilaDate(year, month - 1, 1), fromManilaDate(year, month, 0)];
+    case 'last_30_days':
+      return [fromManilaDate(year, month, day - 29), now];
+    case 'this_year':
+      return [fromManilaDate(year, 1, 1), now];
+  }
+}
+
+/**
+ * ExportSessionsScreen exports completed sessions of a date range as a PDF statement or a CSV
+ * file (for expense claims), through the share sheet.
+ */
+export default function ExportSessionsScreen({ navigation }: Props) {
+  const [preset, setPreset] = useState<RangePreset>('this_month');
+  const [customFrom, setCustomFrom] = useState(() => new Date());
+  const [customTo, setCustomTo] = useState(() => new Date());
+  const [picking, setPicking] = useState<'from' | 'to' | null>(null);
+  const [format, setFormat] = useState<ReceiptExportFormat>('pdf');
+  const [receipts, setReceipts] = useState<SessionReceipt[]>([]);
+  const [exporting, setExporting] = useState(false);
+
+  const [from, to] = useMemo(
+    () => (preset === 'custom' ? [customFrom, customTo] : getPresetRange(preset, new Date())),
+    [preset, customFrom, customTo]
+  );
+
+  useEffect(() => {
+    getSessionReceipts(from, to)
+      .then(setReceipts)
+      .catch(error => {
+        console.error('Error loading receipts:', error);
+        setReceipts([]);
+        Alert.alert('Could not load receipts', 'Please try again.');
+      });
+  }, [from, to]);
+
+  const totalKwh = receipts.reduce((sum, r) => sum + (r.energyKwh ?? 0), 0);
+  const total = receipts.reduce((sum, r) => sum + r.total, 0);
+  const vat = receipts.reduce((sum, r) => sum + r.vat, 0);
+
+  const handlePresetPress = (id: RangePreset) => {
+    if (id === 'custom' && preset !== 'custom') {
+      // Start the custom range from the range being shown
+      setCustomFrom(from);
+      setCustomTo(to);
+    }
+    setPreset(id);
+  };
+
+  const handleDateChange = (_event: unknown, selected?: Date) => {
+    const field = picking;
+    if (Platform.OS === 'android') {
+      setPicking(null);
+    }
+    if (!selected) return;
+    if (field === 'from') {
+      setCustomFrom(selected);
+      if (selected > customTo) setCustomTo(selected);
+    } else if (field === 'to') {
+      setCustomTo(selected);
+      if (selected < customFrom) setCustomFrom(selected);
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await exportSessionHistory(format, from, to);
+    } catch (e) {
+      Alert.alert('Could not export sessions', e instanceof Error ? e.message : String(e));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['top', 'left', 'right', 'bottom']}>
+      <ScrollView contentContainerStyle={styles.container}>
+        <View style={styles.headerRow}>
+          <Text style={styles.title}>Export sessions</Text>
+          <BackArrow onPress={() => navigation.goBack()} />
+        </View>
+        <Text style={styles.subtitle}>
+          Receipts for your completed sessions, with energy, rates, fees and VAT, and for any
+          late-cancellation or no-show fees, for expense claims.
+        </Text>
+
+        <Text style={styles.sectionTitle}>Date range</Text>
+        <View style={styles.pillRow}>
+          {PRESETS.map(option => (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.pill, preset === option.id && styles.pillActive]}
+              onPress={() => handlePresetPress(option.id)}
+            >
+              <Text style={[styles.pillText, preset === option.id && styles.pillTextActive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {preset === 'custom' ? (
+          <View style={styles.dateRow}>
+            <TouchableOpacity style={styles.dateButton} onPress={() => setPicking('from')}>
+              <Text style={styles.dateLabel}>From</Text>
+              <Text style={styles.dateValue}>{formatManilaDate(from)}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.dateButton} onPress={() => setPicking('to')}>
+              <Text style={styles.dateLabel}>To</Text>
+              <Text style={styles.dateValue}>{formatManilaDate(to)}</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <Text style={styles.rangeText}>
+            {formatManilaDate(from)} to {formatManilaDate(to)}
+          </Text>
+        )}
+
+        {picking && (
+          <DateTimePicker
+            value={picking === 'from' ? customFrom : customTo}
+            mode="date"
+            display={Platform.OS === 'ios' ? 'compact' : 'default'}
+            onChange={handleDateChange}
+            maximumDate={new Date()}
+            themeVariant="dark"
+          />
+        )}
+
+        <Text style={styles.sectionTitle}>Format</Text>
+        <View style={styles.pillRow}>
+          {FORMATS.map(option => (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.pill, format === option.id && styles.pillActive]}
+              onPress={() => setFormat(option.id)}
+            >
+              <Text style={[styles.pillText, format === option.id && styles.pillTextActive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.summaryCard}>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Sessions</Text>
+            <Text style={styles.summaryValue}>{receipts.length}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Energy delivered</Text>
+            <Text style={styles.summaryValue}>{totalKwh.toFixed(2)} kWh</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Total (VAT-inclusive)</Text>
+            <Text style={styles.summaryValue}>₱{total.toFixed(2)}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>VAT included</Text>
+            <Text style={styles.summaryValue}>₱{vat.toFixed(2)}</Text>
+          </View>
+        </View>
+
+        <TouchableOpacity
+          style={[
+            styles.exportButton,
+            (exporting || receipts.length === 0) && styles.exportButtonDisabled,
+          ]}
+          onPress={handleExport}
+          disabled={exporting || receipts.length === 0}
+        >
+          <Ionicons name="download-outline" size={18} color="#02110A" style={{ marginRight: 6 }} />
+          <Text style={styles.exportText}>
+            {exporting ? 'Preparing…' : `Export ${format.toUpperCase()}`}
+          </Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1, backgroundColor: '#050816' },
+  container: { padding: 20, paddingBottom: 32 },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: { fontSize: 20, fontWeight: '700', color: '#F9FAFB' },
+  subtitle: { color: '#9CA3AF', fontSize: 13, marginTop: 4, marginBottom: 16 },
+  sectionTitle: { color: '#E5E7EB', fontWeight: '700', marginTop: 8, marginBottom: 10 },
+  pillRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 12 },
+  pill: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#1F2937',
+  },
+  pillActive: { borderColor: '#00F470', backgroundColor: 'rgba(0,244,112,0.12)' },
+  pillText: { color: '#9CA3AF', fontWeight: '600' },
+  pillTextActive: { color: '#00F470' },
+  rangeText: { color: '#9CA3AF', fontSize: 13, marginBottom: 12 },
+  dateRow: { flexDirection: 'row', gap: 12, marginBottom: 12 },
+  dateButton: { flex: 1, backgroundColor: '#0B1020', padding: 12, borderRadius: 8 },
+  dateLabel: { color: '#6B7280', fontSize: 12 },
+  dateValue: { color: '#F9FAFB', fontWeight: '600', marginTop: 2 },
+  summaryCard: {
+    backgroundColor: '#0B1020',
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 8,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#111827',
+  },
+  summaryRow: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: 6 },
+  summaryLabel: { color: '#9CA3AF', fontSize: 14 },
+  summaryValue: { color: '#E5E7EB', fontSize: 14, fontWeight: '600' },
+  exportButton: {
+    flexDirection: 'row',
+    backgroundColor: '#00F470',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  exportButtonDisabled: { opacity: 0.6 },
+  exportText: { color: '#02110A', fontWeight: '700' },
+});
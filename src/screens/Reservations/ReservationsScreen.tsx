@@ -1,48 +1,103 @@
 import React, { useState } from 'react';
-import { View, Text, StyleSheet, FlatList, TouchableOpacity, Image } from 'react-native';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, Image, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
-import { useFocusEffect } from '@react-navigation/native';
-import { getReservations, ReservationSession } from '@/services/reservationsStore';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
+import { MainTabsParamList } from '@/types/navigation';
+import {
+  cancelReservation,
+  canTransition,
+  getReservations,
+  RESERVATION_STATUS_LABELS,
+} from '@/services/reservationsStore';
+import { settleEndedBookings, settleReservationPayment } from '@/services/billingService';
+import { completeEndedSessions } from '@/services/chargingSessionService';
+import { describeCancellationTerms, getCancellationTerms } from '@/services/cancellationPolicy';
+import { Reservation, ReservationStatus } from '@/types/reservation';
 
 // Use a stock image (electric car charging) from Unsplash CDN instead of generated/AI image
 const CarImageUri = 'https://images.unsplash.com/photo-1542362567-b07e54358753?auto=format&fit=crop&w=1200&q=80';
 
-// Dynamic reservations retrieved from store (first item may be active)
+const STATUS_ICONS: Record<ReservationStatus, keyof typeof Ionicons.glyphMap> = {
+  pending_payment: 'card-outline',
+  confirmed: 'calendar-outline',
+  in_progress: 'time-outline',
+  completed: 'checkmark-circle-outline',
+  cancelled: 'close-circle-outline',
+  expired: 'alert-circle-outline',
+};
 
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
 
 /**
  * ReservationsScreen shows active & past charging sessions
  * styled like the Sessions mock: dark theme + hero image + green pill.
  */
 export default function ReservationsScreen() {
-  const [reservations, setReservations] = useState<ReservationSession[]>([]);
+  const navigation = useNavigation<BottomTabNavigationProp<MainTabsParamList>>();
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+
+  const refresh = React.useCallback(async () => {
+    try {
+      setReservations(await getReservations());
+      // Bill sessions whose reservation didn't complete when charging stopped, and collect
+      // fees for no-shows that expired since the last visit
+      if ((await completeEndedSessions()) > 0) {
+        setReservations(await getReservations());
+      }
+      await settleEndedBookings();
+    } catch (e) {
+      // ignore
+    }
+  }, []);
 
-  // Refresh when screen gains focus (e.g. after creating a reservation on StationProfile)
+  // Refresh when screen gains focus (e.g. after paying for a reservation)
   useFocusEffect(
     React.useCallback(() => {
-      let mounted = true;
-      (async () => {
-        try {
-          const res = await getReservations();
-          if (mounted) setReservations(res);
-        } catch (e) {
-          // ignore
-        }
-      })();
-      return () => {
-        mounted = false;
-      };
-    }, [])
+      refresh();
+    }, [refresh])
   );
-  const renderReservation = ({
-    item,
-    index,
-  }: {
-    item: ReservationSession;
-    index: number;
-  }) => {
-    const isOngoing = index === 0 && item.minutesLeft > 0;
+
+  const openChargingSession = (sessionId: string) => {
+    navigation.navigate('Map', { screen: 'ChargingSession', params: { sessionId } });
+  };
+
+  // Receipts and exports live in the root stack
+  const openReceipt = (reservationId: string) => {
+    navigation.getParent()?.navigate('SessionReceipt', { reservationId });
+  };
+
+  const cancelBooking = async (item: Reservation) => {
+    try {
+      await cancelReservation(item.id);
+      await settleReservationPayment(item.id);
+    } catch (error) {
+      console.warn('Could not cancel reservation:', error);
+    }
+    refresh();
+  };
+
+  const handleCancel = (item: Reservation) => {
+    Alert.alert('Cancel reservation?', describeCancellationTerms(getCancellationTerms(item)), [
+      { text: 'Keep', style: 'cancel' },
+      { text: 'Cancel reservation', style: 'destructive', onPress: () => cancelBooking(item) },
+    ]);
+  };
+
+  const renderReservation = ({ item }: { item: Reservation }) => {
+    const isCharging = item.status === 'in_progress';
+    const sessionId = item.sessionId;
+    const isUpcoming = item.status === 'pending_payment' || item.status === 'confirmed';
+    const minutesLeft = Math.max(
+      Math.ceil((Date.parse(item.scheduledEnd) - Date.now()) / 60_000),
+      0
+    );
+    const cost = item.finalCost ?? item.estimatedCost;
 
     return (
       <TouchableOpacity style={styles.sessionCard} activeOpacity={0.9}>
@@ -54,35 +109,58 @@ export default function ReservationsScreen() {
           {/* Time / status row */}
           <View style={styles.timeRow}>
             <Ionicons
-              name={isOngoing ? 'time-outline' : 'checkmark-circle-outline'}
+              name={STATUS_ICONS[item.status]}
               size={16}
-              color={isOngoing ? '#D0D4FF' : TEXT_MUTED}
+              color={isCharging || isUpcoming ? '#D0D4FF' : TEXT_MUTED}
             />
-            {isOngoing ? (
+            {isCharging ? (
               <Text style={styles.timeText}>
-                <Text style={styles.timeHighlight}>{` ${item.minutesLeft} Mins.`}</Text>
+                <Text style={styles.timeHighlight}>{` ${minutesLeft} Mins.`}</Text>
                 <Text style={styles.timeSuffix}> Left</Text>
               </Text>
+            ) : item.status === 'confirmed' ? (
+              <Text style={styles.timeText}>
+                <Text style={styles.timeSuffix}> Starts </Text>
+                <Text style={styles.timeHighlight}>{formatTime(item.scheduledStart)}</Text>
+              </Text>
             ) : (
-              <Text style={styles.doneText}> Session Done</Text>
+              <Text style={styles.doneText}>
+                {' '}
+                {item.cancellation === 'no_show'
+                  ? 'No-show'
+                  : RESERVATION_STATUS_LABELS[item.status]}
+              </Text>
             )}
           </View>
 
           {/* Station name */}
-          <Text style={styles.stationName}>{item.station}</Text>
+          <Text style={styles.stationName}>{item.stationName}</Text>
 
-          {/* Host & car */}
-          <Text style={styles.vehicleText}>{item.vehicle}</Text>
+          {/* Vehicle & connector */}
+          <Text style={styles.vehicleText}>
+            {item.vehicleName}
+            {item.connector ? ` • ${item.connector}` : ''}
+          </Text>
 
           {/* Date & time */}
           <Text style={styles.dateText}>
-            {item.date}: {item.timeRange}
+            {formatDate(item.scheduledStart)}: {formatTime(item.scheduledStart)} -{' '}
+            {formatTime(item.scheduledEnd)} • ₱{cost.toFixed(2)}
+            {item.finalCost == null ? ' est.' : ''}
+            {item.idleFee ? ` (incl. ₱${item.idleFee.toFixed(2)} idle fee)` : ''}
+            {item.cancellationFee
+              ? ` • ₱${item.cancellationFee.toFixed(2)} ${item.cancellation === 'no_show' ? 'no-show' : 'cancellation'} fee`
+              : ''}
           </Text>
 
-          {/* Only first / ongoing session has the Facilitate Charging pill */}
-          {isOngoing && (
+          {/* Ongoing session has the Facilitate Charging pill */}
+          {isCharging && sessionId && (
             <View style={styles.pillColumn}>
-              <TouchableOpacity style={styles.primaryPill} activeOpacity={0.9}>
+              <TouchableOpacity
+                style={styles.primaryPill}
+                activeOpacity={0.9}
+                onPress={() => openChargingSession(sessionId)}
+              >
                 <MaterialCommunityIcons
                   name="flash-outline"
                   size={14}
@@ -93,6 +171,34 @@ export default function ReservationsScreen() {
               </TouchableOpacity>
             </View>
           )}
+
+          {/* Finished sessions have an itemized receipt, and so do billed cancellations */}
+          {(item.status === 'completed' ||
+            item.cancellation === 'late' ||
+            item.cancellation === 'no_show') && (
+            <View style={styles.pillColumn}>
+              <TouchableOpacity
+                style={styles.secondaryPill}
+                activeOpacity={0.9}
+                onPress={() => openReceipt(item.id)}
+              >
+                <Text style={styles.secondaryPillText}>View receipt</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* Reservations that haven't started can still be cancelled */}
+          {canTransition(item, 'cancelled') && (
+            <View style={styles.pillColumn}>
+              <TouchableOpacity
+                style={styles.secondaryPill}
+                activeOpacity={0.9}
+                onPress={() => handleCancel(item)}
+              >
+                <Text style={styles.secondaryPillText}>Cancel reservation</Text>
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
       </TouchableOpacity>
     );
@@ -102,12 +208,23 @@ export default function ReservationsScreen() {
     <SafeAreaView style={styles.container} edges={['top','left','right']}>
       <FlatList
         data={reservations}
-        // Some reservations may have colliding IDs from legacy/mock data; include index to guarantee uniqueness
-        keyExtractor={(item, index) => `${item.id}-${index}`}
+        keyExtractor={item => item.id}
         renderItem={renderReservation}
         contentContainerStyle={styles.listContent}
         showsVerticalScrollIndicator={false}
-        ListHeaderComponent={<Text style={styles.screenTitle}>Sessions</Text>}
+        ListHeaderComponent={
+          <View style={styles.headerRow}>
+            <Text style={styles.screenTitle}>Sessions</Text>
+            <TouchableOpacity
+              style={styles.exportButton}
+              activeOpacity={0.9}
+              onPress={() => navigation.getParent()?.navigate('ExportSessions')}
+            >
+              <Ionicons name="download-outline" size={16} color={NEON_GREEN} />
+              <Text style={styles.exportButtonText}>Export</Text>
+            </TouchableOpacity>
+          </View>
+        }
         ListEmptyComponent={
           <View style={styles.emptyState}>
             <Text style={styles.emptyText}>No sessions yet</Text>
@@ -138,11 +255,31 @@ const styles = StyleSheet.create({
     paddingTop: 40,
     paddingBottom: 24,
   },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
   screenTitle: {
     fontSize: 28,
     fontWeight: '800',
     color: NEON_GREEN,
-    marginBottom: 24,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: NEON_GREEN,
+  },
+  exportButtonText: {
+    marginLeft: 6,
+    fontSize: 13,
+    fontWeight: '700',
+    color: NEON_GREEN,
   },
   sessionCard: {
     backgroundColor: CARD_BG,
@@ -223,6 +360,20 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#02040A',
   },
+  secondaryPill: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: TEXT_MUTED,
+  },
+  secondaryPillText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: TEXT_MAIN,
+  },
   emptyState: {
     alignItems: 'center',
     paddingVertical: 80,
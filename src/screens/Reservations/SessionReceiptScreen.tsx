@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import BackArrow from '@/components/BackArrow';
+import { RootStackParamList } from '@/types/navigation';
+import { SessionReceipt } from '@/types/receipt';
+import { getSessionReceipt } from '@/services/receiptService';
+import { shareReceiptPdf } from '@/services/receiptExport';
+import { formatManilaDate, formatManilaTime } from '@/services/manilaTime';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'SessionReceipt'>;
+
+/**
+ * SessionReceiptScreen itemizes a completed charging session: energy delivered at the
+ * station's rate, fees, and the VAT included in the total. It can be shared as a PDF.
+ * Cancelled and no-show reservations only list the fees they were billed.
+ */
+export default function SessionReceiptScreen({ navigation, route }: Props) {
+  const { reservationId } = route.params;
+  const [receipt, setReceipt] = useState<SessionReceipt | null | undefined>();
+  const [sharing, setSharing] = useState(false);
+
+  useEffect(() => {
+    getSessionReceipt(reservationId)
+      .then(found => setReceipt(found ?? null))
+      .catch(error => {
+        console.error('Error loading receipt:', error);
+        setReceipt(null);
+      });
+  }, [reservationId]);
+
+  const handleShare = async () => {
+    if (!receipt) return;
+    setSharing(true);
+    try {
+      await shareReceiptPdf(receipt);
+    } catch (e) {
+      Alert.alert('Could not share receipt', e instanceof Error ? e.message : String(e));
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const renderLine = (label: string, amount: number) => (
+    <View style={styles.row} key={label}>
+      <Text style={styles.label}>{label}</Text>
+      <Text style={styles.value}>₱{amount.toFixed(2)}</Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['top', 'left', 'right', 'bottom']}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>Receipt</Text>
+        <BackArrow onPress={() => navigation.goBack()} />
+      </View>
+
+      {receipt === null && <Text style={styles.empty}>This session has no receipt yet.</Text>}
+
+      {receipt && (
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={styles.card}>
+            <Text style={styles.receiptNumber}>{receipt.receiptNumber}</Text>
+            <Text style={styles.stationName}>{receipt.stationName}</Text>
+            <Text style={styles.muted}>{receipt.stationAddress}</Text>
+            <Text style={styles.muted}>
+              {formatManilaDate(receipt.startedAt)} • {formatManilaTime(receipt.startedAt)} –{' '}
+              {formatManilaTime(receipt.endedAt)}
+            </Text>
+            <Text style={styles.muted}>
+              {receipt.vehicleName}
+              {receipt.connector ? ` • ${receipt.connector}` : ''}
+            </Text>
+          </View>
+
+          {!receipt.cancellation && (
+            <View style={styles.card}>
+              <Text style={styles.sectionTitle}>Charging</Text>
+              <View style={styles.row}>
+                <Text style={styles.label}>Energy delivered</Text>
+                <Text style={styles.value}>
+                  {receipt.energyKwh != null ? `${receipt.energyKwh.toFixed(2)} kWh` : '—'}
+                </Text>
+              </View>
+              <View style={styles.row}>
+                <Text style={styles.label}>Rate</Text>
+                <Text style={styles.value}>
+                  {receipt.ratePerKwh != null ? `₱${receipt.ratePerKwh.toFixed(2)}/kWh` : '—'}
+                </Text>
+              </View>
+              {renderLine('Energy', receipt.energyCost)}
+              {renderLine('Connection fee', receipt.connectionFee)}
+              {receipt.idleFee > 0 &&
+                renderLine(`Idle fee (${receipt.idleMinutes} min idle)`, receipt.idleFee)}
+            </View>
+          )}
+
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Fees</Text>
+            {!receipt.cancellation && renderLine('Commission', receipt.commissionFee)}
+            {renderLine('Booking fee', receipt.bookingFee)}
+            {receipt.serviceFee > 0 && renderLine('Service fee', receipt.serviceFee)}
+            {receipt.cancellationFee > 0 &&
+              renderLine(
+                receipt.cancellation === 'no_show' ? 'No-show fee' : 'Late-cancellation fee',
+                receipt.cancellationFee
+              )}
+            <View style={styles.divider} />
+            <View style={styles.row}>
+              <Text style={styles.totalLabel}>Total (VAT-inclusive)</Text>
+              <Text style={styles.totalValue}>₱{receipt.total.toFixed(2)}</Text>
+            </View>
+            {renderLine('VATable sales', receipt.vatableSales)}
+            {renderLine(`VAT (${Math.round(receipt.vatRate * 100)}%)`, receipt.vat)}
+          </View>
+
+          {receipt.paymentMethodLabel && (
+            <View style={styles.card}>
+              <Text style={styles.sectionTitle}>Payment</Text>
+              <Text style={styles.value}>{receipt.paymentMethodLabel}</Text>
+              {receipt.paymentReference && (
+                <Text style={styles.muted}>Ref. {receipt.paymentReference}</Text>
+              )}
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[styles.shareButton, sharing && styles.shareButtonDisabled]}
+            onPress={handleShare}
+            disabled={sharing}
+          >
+            <Ionicons name="share-outline" size={18} color="#02110A" style={{ marginRight: 6 }} />
+            <Text style={styles.shareText}>{sharing ? 'Preparing PDF…' : 'Share PDF'}</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1, backgroundColor: '#050816' },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 8,
+  },
+  title: { fontSize: 20, fontWeight: '700', color: '#F9FAFB' },
+  content: { padding: 20, paddingBottom: 32 },
+  card: {
+    backgroundColor: '#0B1020',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 14,
+    borderWidth: 1,
+    borderColor: '#111827',
+  },
+  receiptNumber: { color: '#00F470', fontWeight: '700', fontSize: 12, marginBottom: 6 },
+  stationName: { color: '#F9FAFB', fontWeight: '700', fontSize: 16, marginBottom: 4 },
+  sectionTitle: { color: '#E5E7EB', fontWeight: '700', marginBottom: 8 },
+  muted: { color: '#9CA3AF', fontSize: 13, marginTop: 2 },
+  row: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: 6 },
+  label: { color: '#9CA3AF', fontSize: 14 },
+  value: { color: '#E5E7EB', fontSize: 14, fontWeight: '600' },
+  divider: { height: 1, backgroundColor: 'rgba(31,41,55,0.7)', marginVertical: 8 },
+  totalLabel: { color: '#F9FAFB', fontSize: 15, fontWeight: '700' },
+  totalValue: { color: '#00F470', fontSize: 15, fontWeight: '700' },
+  empty: { color: '#6B7280', textAlign: 'center', marginTop: 40 },
+  shareButton: {
+    flexDirection: 'row',
+    backgroundColor: '#00F470',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  shareButtonDisabled: { opacity: 0.6 },
+  shareText: { color: '#02110A', fontWeight: '700' },
+});
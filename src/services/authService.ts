@@ -0,0 +1,260 @@
+/**
+ * Auth Service
+ * The signed-in driver and their session. Screens drive it:
+ * - RootNavigator → initializeAuth restores the saved session at launch
+ * - SignInScreen / SignUpScreen → signInWithEmail / signUpWithEmail
+ * - PhoneSignInScreen → requestSmsCode, then signInWithSmsCode
+ * - ProfileScreen → signOut
+ * RootNavigator shows the sign-in screens or the app depending on subscribeToAuth.
+ *
+ * Tokens come from the identity backend and are only kept in the keystore (see
+ * secureSessionStore). The access token is refreshed REFRESH_AHEAD_MS before it expires, and
+ * on demand by getAccessToken; if the backend rejects the refresh token the driver is signed
+ * out. A refresh that fails for any other reason (e.g. offline) is retried, and the app keeps
+ * working from the data cached on the device.
+ *
+ * While signed in, app data is stored in the driver's account (see deviceStore), so it follows
+ * them across devices. Data saved on the device before the first sign-in is moved into the
+ * account.
+ */
+
+import { AUTH_EXPIRED, AuthSession, AuthUser, OtpChallenge } from '@/types/auth';
+import { claimDeviceData, setStorageUser, UserDataRemote } from './deviceStore';
+import { getIdentityBackend } from './identityBackend';
+import { clearAuthSession, loadAuthSession, saveAuthSession } from './secureSessionStore';
+import {
+  validateEmail,
+  validateMobileNumber,
+  validateName,
+  validateOtp,
+  validatePassword,
+} from './authValidation';
+
+const REFRESH_AHEAD_MS = 60 * 1000; // Refresh this long before the access token expires
+const REFRESH_RETRY_MS = 30 * 1000; // Retry a failed refresh (e.g. offline) after this
+
+export type AuthListener = (user: AuthUser | null) => void;
+
+let session: AuthSession | null = null;
+let initialized: Promise<AuthUser | null> | null = null;
+let refreshing: Promise<void> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<AuthListener>();
+
+/**
+ * Account storage for deviceStore, authorized with the current access token
+ */
+const accountStorage: UserDataRemote = {
+  load: async <T>(suffix: string) =>
+    getIdentityBackend().loadUserData<T>(await getAccessToken(), suffix),
+  save: async <T>(suffix: string, value: T) =>
+    getIdentityBackend().saveUserData<T>(await getAccessToken(), suffix, value),
+};
+
+/**
+ * Restore the saved session, once per app launch
+ * @returns The signed-in driver, or null if they need to sign in
+ */
+export function initializeAuth(): Promise<AuthUser | null> {
+  if (!initialized) {
+    initialized = (async () => {
+      const stored = await loadAuthSession();
+      if (!stored || Date.parse(stored.tokens.refreshTokenExpiresAt) <= Date.now()) {
+        await clearAuthSession();
+        return null;
+      }
+      activate(stored);
+      if (Date.parse(stored.tokens.accessTokenExpiresAt) - Date.now() < REFRESH_AHEAD_MS) {
+        // Offline launches keep the session and retry; a revoked one signs out
+        await refreshTokens().catch(() => scheduleRefresh(REFRESH_RETRY_MS));
+      }
+      return session?.user ?? null;
+    })();
+  }
+  return initialized;
+}
+
+/**
+ * Create an email account and sign in
+ * Throws with a message for the driver if the details are invalid or the email is taken.
+ */
+export async function signUpWithEmail(
+  name: string,
+  email: string,
+  password: string
+): Promise<AuthUser> {
+  const invalid = validateName(name) || validateEmail(email) || validatePassword(password);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+  return startSession(await getIdentityBackend().signUp(name, email, password));
+}
+
+export async function signInWithEmail(email: string, password: string): Promise<AuthUser> {
+  const invalid = validateEmail(email) || (password ? null : 'Enter your password');
+  if (invalid) {
+    throw new Error(invalid);
+  }
+  return startSession(await getIdentityBackend().signIn(email, password));
+}
+
+/**
+ * Send a one-time sign-in code by SMS
+ */
+export async function requestSmsCode(phone: string): Promise<OtpChallenge> {
+  const invalid = validateMobileNumber(phone);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+  return getIdentityBackend().requestOtp(phone);
+}
+
+/**
+ * Sign in with the code sent by requestSmsCode; first-time numbers get a new account
+ */
+export async function signInWithSmsCode(phone: string, code: string): Promise<AuthUser> {
+  const invalid = validateOtp(code);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+  return startSession(await getIdentityBackend().verifyOtp(phone, code));
+}
+
+/**
+ * Sign out on this device and revoke the session at the backend
+ */
+export async function signOut(): Promise<void> {
+  const current = session;
+  await endSession();
+  if (current) {
+    await getIdentityBackend()
+      .signOut(current.tokens.refreshToken)
+      .catch(error => console.warn('⚠️ Could not revoke the session:', error));
+  }
+}
+
+export function getCurrentUser(): AuthUser | null {
+  return session?.user ?? null;
+}
+
+/**
+ * Access token for calls to the backend, refreshed first if it is about to expire
+ * Throws if nobody is signed in or the session can't be refreshed.
+ */
+export async function getAccessToken(): Promise<string> {
+  if (!session) {
+    throw new Error('Sign in to continue');
+  }
+  if (Date.parse(session.tokens.accessTokenExpiresAt) - Date.now() < REFRESH_AHEAD_MS) {
+    await refreshTokens();
+  }
+  if (!session) {
+    throw new Error(AUTH_EXPIRED);
+  }
+  return session.tokens.accessToken;
+}
+
+/**
+ * Subscribe to sign-in and sign-out
+ * @returns Unsubscribe function
+ */
+export function subscribeToAuth(listener: AuthListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function startSession(next: AuthSession): Promise<AuthUser> {
+  await saveAuthSession(next);
+  activate(next);
+  try {
+    await claimDeviceData();
+  } catch (error) {
+    // Non-fatal: the device copies stay and are claimed on the next sign-in
+    console.warn('⚠️ Could not move this device’s data to your account:', error);
+  }
+  notify();
+  return next.user;
+}
+
+/**
+ * Use a session: store data in the driver's account and keep the tokens fresh
+ */
+function activate(next: AuthSession): void {
+  session = next;
+  setStorageUser({ userId: next.user.id, remote: accountStorage });
+  scheduleRefresh();
+}
+
+async function endSession(): Promise<void> {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+  const wasSignedIn = session !== null;
+  session = null;
+  setStorageUser(null);
+  await clearAuthSession();
+  if (wasSignedIn) {
+    notify();
+  }
+}
+
+/**
+ * Swap the refresh token for new tokens; concurrent callers share one request
+ * Signs out if the backend no longer accepts the refresh token.
+ */
+function refreshTokens(): Promise<void> {
+  const current = session;
+  if (!current) {
+    return Promise.reject(new Error('Sign in to continue'));
+  }
+  if (!refreshing) {
+    refreshing = (async () => {
+      try {
+        const tokens = await getIdentityBackend().refresh(current.tokens.refreshToken);
+        if (session === current) {
+          session = { ...current, tokens };
+          await saveAuthSession(session);
+          scheduleRefresh();
+        }
+      } catch (error) {
+        if (error instanceof Error && error.message === AUTH_EXPIRED && session === current) {
+          await endSession();
+        }
+        throw error;
+      } finally {
+        refreshing = null;
+      }
+    })();
+  }
+  return refreshing;
+}
+
+/**
+ * Refresh ahead of the access token's expiry, or after a delay
+ */
+function scheduleRefresh(delayMs?: number): void {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+  }
+  if (!session) return;
+  const delay =
+    delayMs ??
+    Math.max(0, Date.parse(session.tokens.accessTokenExpiresAt) - Date.now() - REFRESH_AHEAD_MS);
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    refreshTokens().catch(error => {
+      if (session) {
+        console.warn('⚠️ Could not refresh the session; retrying:', error);
+        scheduleRefresh(REFRESH_RETRY_MS);
+      }
+    });
+  }, delay);
+}
+
+function notify(): void {
+  const user = getCurrentUser();
+  listeners.forEach(listener => listener(user));
+}
@@ -0,0 +1,49 @@
+/**
+ * Auth Validation
+ * Checks sign-up and sign-in details before they are sent to the identity backend. Each
+ * validator returns an error message the driver can act on, or null when the value is valid.
+ * Mobile numbers use the same PH format as e-wallets (see normalizePhMobileNumber).
+ */
+
+import { normalizePhMobileNumber } from './paymentValidation';
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const OTP_LENGTH = 6;
+
+/**
+ * Lower-case and trim an email address as typed
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function validateEmail(email: string): string | null {
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizeEmail(email))) {
+    return 'Enter a valid email address';
+  }
+  return null;
+}
+
+export function validatePassword(password: string): string | null {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Use at least ${MIN_PASSWORD_LENGTH} characters for your password`;
+  }
+  if (!/[A-Za-z]/.test(password) || !/\d/.test(password)) {
+    return 'Use both letters and numbers in your password';
+  }
+  return null;
+}
+
+export function validateName(name: string): string | null {
+  return name.trim() ? null : 'Enter your name';
+}
+
+export function validateMobileNumber(phone: string): string | null {
+  return normalizePhMobileNumber(phone) ? null : 'Enter your mobile number (09XX XXX XXXX)';
+}
+
+export function validateOtp(code: string): string | null {
+  return new RegExp(`^\\d{${OTP_LENGTH}}$`).test(code.trim())
+    ? null
+    : `Enter the ${OTP_LENGTH}-digit code we sent you`;
+}
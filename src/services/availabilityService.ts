@@ -0,0 +1,149 @@
+/**
+ * Availability Service
+ * One shared view of charger availability for the map, the nearby list and the route planner.
+ *
+ * Connector statuses come from a pluggable AvailabilityBackend: the deterministic local
+ * simulator by default (see availabilitySimulator), or a live OCPP/CPO feed once one exists
+ * (setAvailabilityBackend). Statuses are cached in memory; screens subscribe to updates and
+ * overlay them on their stations with withAvailability.
+ */
+
+import { Station } from '@/types/station';
+import { ConnectorStatus, StationAvailability } from '@/types/availability';
+import { simulatedAvailabilityBackend } from './availabilitySimulator';
+
+export const AVAILABILITY_REFRESH_MS = 60 * 1000; // Poll interval while a screen is watching
+
+/**
+ * Source of connector statuses
+ */
+export interface AvailabilityBackend {
+  name: string;
+  /**
+   * Current connector statuses for the given stations
+   * Stations the backend knows nothing about may be left out.
+   */
+  getStatuses(stations: Station[]): Promise<StationAvailability[]>;
+}
+
+/**
+ * Called with the IDs of stations whose availability changed
+ */
+export type AvailabilityListener = (stationIds: string[]) => void;
+
+/**
+ * Statuses that count as a free charger
+ */
+const FREE_STATUSES: ConnectorStatus[] = ['Available'];
+
+let backend: AvailabilityBackend = simulatedAvailabilityBackend;
+const availability = new Map<string, StationAvailability>();
+const listeners = new Set<AvailabilityListener>();
+
+/**
+ * Switch the availability backend (e.g. to a live feed); cached statuses are dropped
+ */
+export function setAvailabilityBackend(next: AvailabilityBackend): void {
+  backend = next;
+  const stationIds = Array.from(availability.keys());
+  availability.clear();
+  notify(stationIds);
+}
+
+export function getAvailabilityBackend(): AvailabilityBackend {
+  return backend;
+}
+
+/**
+ * Fetch fresh statuses for stations and notify subscribers
+ * Backend errors are logged and the previous statuses are kept.
+ */
+export async function refreshAvailability(stations: Station[]): Promise<void> {
+  if (stations.length === 0) return;
+  try {
+    const statuses = await backend.getStatuses(stations);
+    statuses.forEach(status => availability.set(status.stationId, status));
+    notify(statuses.map(status => status.stationId));
+  } catch (error) {
+    console.warn(`⚠️ Availability refresh failed (${backend.name}):`, error);
+  }
+}
+
+/**
+ * Last known connector statuses for a station
+ */
+export function getStationAvailability(stationId: string): StationAvailability | undefined {
+  return availability.get(stationId);
+}
+
+/**
+ * Number of connectors free to start charging
+ */
+export function countAvailableConnectors(status: StationAvailability): number {
+  return status.connectors.filter(connector => FREE_STATUSES.includes(connector.status)).length;
+}
+
+/**
+ * Copy of a station with availableChargers from the latest statuses (unchanged if unknown)
+ */
+export function withAvailability(station: Station): Station {
+  const status = availability.get(station.id);
+  return status ? { ...station, availableChargers: countAvailableConnectors(status) } : station;
+}
+
+/**
+ * Refresh statuses for stations, then return them with live availability
+ * Used by the route planner so it plans with the same state the map shows.
+ */
+export async function getStationsWithAvailability(stations: Station[]): Promise<Station[]> {
+  await refreshAvailability(stations);
+  return stations.map(withAvailability);
+}
+
+/**
+ * Subscribe to availability changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToAvailability(listener: AvailabilityListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Keep a list of stations live while a screen shows it
+ * Calls onChange right away with the cached statuses, then after every refresh (polled every
+ * AVAILABILITY_REFRESH_MS) or change made elsewhere that touches one of the stations.
+ * @returns Cleanup function that stops polling and unsubscribes
+ */
+export function watchAvailability(
+  stations: Station[],
+  onChange: (stations: Station[]) => void
+): () => void {
+  const ids = new Set(stations.map(station => station.id));
+  const update = () => onChange(stations.map(withAvailability));
+
+  update();
+  const unsubscribe = subscribeToAvailability(changedIds => {
+    if (changedIds.some(id => ids.has(id))) update();
+  });
+  refreshAvailability(stations);
+  const timer = setInterval(() => refreshAvailability(stations), AVAILABILITY_REFRESH_MS);
+
+  return () => {
+    clearInterval(timer);
+    unsubscribe();
+  };
+}
+
+function notify(stationIds: string[]): void {
+  if (stationIds.length === 0) return;
+  listeners.forEach(listener => {
+    try {
+      listener(stationIds);
+    } catch (error) {
+      console.warn('Availability listener failed:', error);
+    }
+  });
+}
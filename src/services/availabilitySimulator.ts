@@ -0,0 +1,90 @@
+/**
+ * Availability Simulator
+ * Deterministic stand-in for a live charger feed. Each connector's status is drawn from a
+ * generator seeded by station, connector and a SIM_INTERVAL_MINUTES time bucket, so every
+ * screen sees the same status at the same moment and it only changes between buckets.
+ *
+ * Occupancy follows Manila time of day (busy at rush hours, quiet at night). Stations that
+ * OpenChargeMap lists as not operational report Unavailable, and this device's own
+ * reservations show up as Reserved (confirmed) or Charging (in progress) on their charger.
+ */
+
+import { Station } from '@/types/station';
+import { ConnectorAvailability, ConnectorStatus, StationAvailability } from '@/types/availability';
+import { Reservation } from '@/types/reservation';
+import { AvailabilityBackend } from './availabilityService';
+import { getReservations } from './reservationsStore';
+import { getManilaClock } from './manilaTime';
+import { createSeededRandom, seedFromString } from './seededRandom';
+
+const SIM_INTERVAL_MINUTES = 5; // Statuses change at most this often
+const FAULT_RATE = 0.03; // Share of connectors out of order at any time
+const OUT_OF_SERVICE_STATUSES = ['not operational', 'unavailable', 'planned', 'removed'];
+
+/**
+ * Share of connectors in use by hour of day (Manila)
+ */
+function getOccupancyRate(hour: number): number {
+  if (hour < 6 || hour >= 23) return 0.1; // Overnight
+  if ((hour >= 7 && hour <= 9) || (hour >= 17 && hour <= 19)) return 0.6; // Rush hours
+  return 0.35;
+}
+
+/**
+ * Simulated connector statuses for one station
+ * @param station Station to simulate
+ * @param now Moment to simulate
+ * @param reservations This device's reservations (shown on the charger they hold)
+ */
+export function simulateStationAvailability(
+  station: Station,
+  now: Date,
+  reservations: Reservation[] = []
+): StationAvailability {
+  const bucket = Math.floor(now.getTime() / (SIM_INTERVAL_MINUTES * 60_000));
+  const occupancy = getOccupancyRate(getManilaClock(now).hours);
+  const outOfService = OUT_OF_SERVICE_STATUSES.some(status =>
+    station.status.toLowerCase().includes(status)
+  );
+
+  const connectors: ConnectorAvailability[] = [];
+  for (let index = 0; index < Math.max(station.totalChargers, 1); index++) {
+    const held = reservations.find(
+      reservation =>
+        reservation.stationId === station.id &&
+        reservation.chargerIndex === index &&
+        (reservation.status === 'in_progress' ||
+          (reservation.status === 'confirmed' &&
+            Date.parse(reservation.scheduledStart) <= now.getTime() &&
+            now.getTime() < Date.parse(reservation.scheduledEnd)))
+    );
+    const random = createSeededRandom(seedFromString(`avail:${station.id}:${index}:${bucket}`));
+    const roll = random();
+
+    let status: ConnectorStatus;
+    if (outOfService) status = 'Unavailable';
+    else if (held?.status === 'in_progress') status = 'Charging';
+    else if (held?.status === 'confirmed') status = 'Reserved';
+    else if (roll < FAULT_RATE) status = 'Faulted';
+    else if (roll < FAULT_RATE + occupancy) status = 'Charging';
+    else status = 'Available';
+
+    connectors.push({ connectorId: index + 1, status });
+  }
+
+  return {
+    stationId: station.id,
+    connectors,
+    updatedAt: now.toISOString(),
+    source: simulatedAvailabilityBackend.name,
+  };
+}
+
+export const simulatedAvailabilityBackend: AvailabilityBackend = {
+  name: 'simulator',
+  async getStatuses(stations: Station[]): Promise<StationAvailability[]> {
+    const now = new Date();
+    const reservations = await getReservations();
+    return stations.map(station => simulateStationAvailability(station, now, reservations));
+  },
+};
@@ -0,0 +1,235 @@
+/**
+ * Billing Service
+ * What the driver pays for a booking, itemized as a CostBreakdown (the same fields the trip
+ * planner shows):
+ * - chargingCost: energy at the station's pricePerKwh plus the connection fee, per session
+ * - idleFees: billed idle minutes (see calculateIdleFee)
+ * - commissionFee: PRICING.commissionFeeRate of the charging cost
+ * - bookingFee and serviceFee: flat, once per booking (a trip is one booking)
+ * - cancellationFees: late-cancellation and no-show fees of the booking's reservations
+ * A booking that never charged only pays what its cancellation policy keeps: part or all of the
+ * booking fee, plus those fees (see cancellationPolicy).
+ *
+ * Paying is two steps (see paymentService):
+ * 1. placePaymentHold authorizes the estimate when the booking is confirmed (ConfirmPayment)
+ * 2. settleReservationPayment captures the metered amount once every reservation the payment
+ *    covers has ended, and the rest of the hold is released. A booking that owes nothing (every
+ *    reservation cancelled for free) releases the whole hold; one that cost more than the hold
+ *    is topped up with a second payment on the same method.
+ * Bookings paid in full up front, before holds, are refunded whatever they didn't owe instead.
+ *
+ * No-shows expire on read without a hook into this service, so screens listing reservations
+ * call settleEndedBookings to collect them.
+ */
+
+import { Payment } from '@/types/payment';
+import { Reservation, ReservationStatus } from '@/types/reservation';
+import { CostBreakdown } from '@/types/route-calculation';
+import {
+  authorizePayment,
+  capturePayment,
+  getPayment,
+  getPayments,
+  getReservationPayment,
+  refundPayment,
+  voidPayment,
+} from './paymentService';
+import { getReservation, getReservations } from './reservationsStore';
+import { PRICING } from './standardVehicleModel';
+import { getRetainedBookingFee } from './cancellationPolicy';
+
+/**
+ * Statuses after which a reservation's cost is known
+ */
+const ENDED_STATUSES: ReservationStatus[] = ['completed', 'cancelled', 'expired'];
+
+/**
+ * Itemize a booking's cost
+ * @param chargingCost Energy plus connection fees (PHP)
+ * @param idleFees Idle fees (PHP)
+ * @param idleFeeStops Stops that bill idle time
+ * @param cancellationFees Late-cancellation and no-show fees (PHP)
+ */
+export function buildCostBreakdown(
+  chargingCost: number,
+  idleFees: number = 0,
+  idleFeeStops: number = 0,
+  cancellationFees: number = 0
+): CostBreakdown {
+  const commissionFee = chargingCost * PRICING.commissionFeeRate;
+  const totalCost =
+    chargingCost +
+    idleFees +
+    PRICING.bookingFee +
+    commissionFee +
+    PRICING.serviceFee +
+    cancellationFees;
+
+  return {
+    chargingCost: roundPeso(chargingCost),
+    bookingFee: roundPeso(PRICING.bookingFee),
+    commissionFee: roundPeso(commissionFee),
+    serviceFee: roundPeso(PRICING.serviceFee),
+    idleFees: roundPeso(idleFees),
+    idleFeeStops,
+    cancellationFees: roundPeso(cancellationFees),
+    totalCost: roundPeso(totalCost),
+  };
+}
+
+/**
+ * Estimate for reservations booked together, as held when paying
+ * Each reservation's estimatedCost is its expected energy at the station's pricePerKwh plus
+ * the connection fee; no idle time is expected.
+ */
+export function estimateBookingCost(reservations: Reservation[]): CostBreakdown {
+  return buildCostBreakdown(reservations.reduce((sum, r) => sum + r.estimatedCost, 0));
+}
+
+/**
+ * Metered cost of reservations booked together
+ * Completed reservations are charged for their sessions; cancelled and expired ones only for
+ * their cancellation fees. If nothing was charged, the booking fee is only kept as far as the
+ * cancellation policy says.
+ */
+export function getBookingCost(reservations: Reservation[]): CostBreakdown {
+  const cancellationFees = reservations.reduce((sum, r) => sum + (r.cancellationFee || 0), 0);
+  const completed = reservations.filter(r => r.status === 'completed');
+  if (completed.length === 0) {
+    const bookingFee = Math.max(0, ...reservations.map(getRetainedBookingFee));
+    return {
+      chargingCost: 0,
+      bookingFee,
+      commissionFee: 0,
+      serviceFee: 0,
+      idleFees: 0,
+      idleFeeStops: 0,
+      cancellationFees: roundPeso(cancellationFees),
+      totalCost: roundPeso(bookingFee + cancellationFees),
+    };
+  }
+
+  const idleFees = completed.reduce((sum, r) => sum + (r.idleFee || 0), 0);
+  const chargingCost = completed.reduce(
+    (sum, r) => sum + (r.finalCost ?? r.estimatedCost) - (r.idleFee || 0),
+    0
+  );
+  const idleFeeStops = completed.filter(r => (r.idleFee || 0) > 0).length;
+  return buildCostBreakdown(chargingCost, idleFees, idleFeeStops, cancellationFees);
+}
+
+/**
+ * Hold the estimated cost of a booking on a payment method
+ * Throws with the gateway's reason if the hold is refused.
+ * @param reservations The reservation, or every stop of a trip
+ * @param paymentMethodId Method to hold on (default: the driver's default method)
+ */
+export async function placePaymentHold(
+  reservations: Reservation[],
+  paymentMethodId?: string
+): Promise<Payment> {
+  const estimate = estimateBookingCost(reservations);
+  const description =
+    reservations.length > 1
+      ? `EV charging trip (${reservations.length} stops)`
+      : `EV charging at ${reservations[0]?.stationName}`;
+  return authorizePayment(
+    reservations.map(r => r.id),
+    estimate.totalCost,
+    description,
+    paymentMethodId,
+    estimate
+  );
+}
+
+/**
+ * Settle the payment covering a reservation once its booking has ended
+ * Does nothing while any reservation of the booking is still upcoming or charging, or once the
+ * payment is settled.
+ * @returns The settled payment, or undefined if there was nothing to settle yet
+ */
+export async function settleReservationPayment(
+  reservationId: string
+): Promise<Payment | undefined> {
+  const reservation = await getReservation(reservationId);
+  const payment = reservation?.paymentId
+    ? await getPayment(reservation.paymentId)
+    : await getReservationPayment(reservationId);
+  if (!payment || !needsSettling(payment)) return undefined;
+
+  const all = await getReservations();
+  const booking = all.filter(r => payment.reservationIds.includes(r.id));
+  if (booking.some(r => !ENDED_STATUSES.includes(r.status))) return undefined;
+
+  const breakdown = getBookingCost(booking);
+  if (payment.status === 'captured') {
+    // Paid in full up front: refund what wasn't owed
+    const refund = roundPeso(payment.capturedAmount - breakdown.totalCost);
+    return refund > 0 ? refundPayment(payment.id, refund, breakdown) : undefined;
+  }
+  if (breakdown.totalCost <= 0) {
+    return voidPayment(payment.id);
+  }
+
+  const settled = await capturePayment(
+    payment.id,
+    Math.min(breakdown.totalCost, payment.authorizedAmount),
+    breakdown
+  );
+
+  const shortfall = roundPeso(breakdown.totalCost - payment.authorizedAmount);
+  if (shortfall > 0) {
+    try {
+      const topUp = await authorizePayment(
+        payment.reservationIds,
+        shortfall,
+        `${payment.description} (balance)`,
+        payment.paymentMethodId,
+        undefined,
+        payment.id
+      );
+      // Top-ups aren't settled later, so don't leave a failed one held
+      await capturePayment(topUp.id).catch(async error => {
+        await voidPayment(topUp.id).catch(() => undefined);
+        throw error;
+      });
+    } catch (error) {
+      console.warn(`⚠️ Could not charge the ₱${shortfall.toFixed(2)} balance:`, error);
+    }
+  }
+  return settled;
+}
+
+/**
+ * Settle every payment whose booking has ended
+ * Failures are logged and retried on the next call.
+ * @returns Number of payments settled
+ */
+export async function settleEndedBookings(): Promise<number> {
+  const payments = (await getPayments()).filter(needsSettling);
+  let settled = 0;
+  for (const payment of payments) {
+    try {
+      if (await settleReservationPayment(payment.reservationIds[0])) settled++;
+    } catch (error) {
+      console.warn(`⚠️ Could not settle payment ${payment.id}:`, error);
+    }
+  }
+  return settled;
+}
+
+/**
+ * Holds not yet captured or voided, and up-front payments with no receipt yet
+ * Balance top-ups are captured when they are placed and settled with their booking's payment.
+ */
+function needsSettling(payment: Payment): boolean {
+  if (payment.balanceOf) return false;
+  return (
+    payment.status === 'authorized' ||
+    (payment.status === 'captured' && !payment.breakdown && payment.refundedAmount === 0)
+  );
+}
+
+function roundPeso(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
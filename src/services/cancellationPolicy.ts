@@ -0,0 +1,210 @@
+/**
+ * Cancellation Policy
+ * Rules for reservations that end without charging, the same for drivers and station hosts:
+ * - cancelling up to freeCancellationMinutes before the window opens is free, and so is
+ *   cancelling within BOOKING_GRACE_MINUTES of booking, until the window opens
+ * - cancelling later keeps part of the booking fee, plus any late-cancellation fee
+ * - not scanning the charger within noShowGraceMinutes of the window opening is a no-show: the
+ *   reservation expires, the charger is released and the whole booking fee plus the no-show
+ *   fee is charged
+ * Unpaid reservations can always be dropped for free.
+ *
+ * Hosts pick a policy per station; a reservation keeps the policy it was booked under.
+ * Fees are charged from the booking's payment hold (see billingService).
+ */
+
+import { CancellationPolicy, CancellationPolicyId, CancellationTerms } from '@/types/cancellation';
+import { Reservation } from '@/types/reservation';
+import { Station } from '@/types/station';
+import { PRICING } from './standardVehicleModel';
+
+export const CANCELLATION_POLICIES: Record<CancellationPolicyId, CancellationPolicy> = {
+  flexible: {
+    id: 'flexible',
+    label: 'Flexible',
+    freeCancellationMinutes: 15,
+    bookingFeeRetention: 0,
+    lateCancellationFee: 0,
+    noShowGraceMinutes: 20,
+    noShowFee: 50,
+  },
+  standard: {
+    id: 'standard',
+    label: 'Standard',
+    freeCancellationMinutes: 60,
+    bookingFeeRetention: 0.5,
+    lateCancellationFee: 0,
+    noShowGraceMinutes: 15,
+    noShowFee: 100,
+  },
+  strict: {
+    id: 'strict',
+    label: 'Strict',
+    freeCancellationMinutes: 24 * 60,
+    bookingFeeRetention: 1,
+    lateCancellationFee: 50,
+    noShowGraceMinutes: 10,
+    noShowFee: 150,
+  },
+};
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicyId = 'standard';
+
+// Short bookings are late as soon as they're made; give drivers a moment to change their mind
+const BOOKING_GRACE_MINUTES = 5;
+
+/**
+ * Policy by id (older reservations without one use the default)
+ */
+export function getCancellationPolicy(id?: CancellationPolicyId): CancellationPolicy {
+  return CANCELLATION_POLICIES[id || DEFAULT_CANCELLATION_POLICY];
+}
+
+export function getStationCancellationPolicy(station: Station): CancellationPolicy {
+  return getCancellationPolicy(station.cancellationPolicy);
+}
+
+/**
+ * What cancelling a reservation at a given time costs
+ * @param at Time of cancellation (default: now)
+ */
+export function getCancellationTerms(
+  reservation: Reservation,
+  at: Date = new Date()
+): CancellationTerms {
+  const policy = getCancellationPolicy(reservation.cancellationPolicy);
+  const start = Date.parse(reservation.scheduledStart);
+  const bookedAt = Date.parse(reservation.confirmedAt || reservation.createdAt);
+  const freeUntil = new Date(
+    Math.max(
+      start - policy.freeCancellationMinutes * 60_000,
+      Math.min(bookedAt + BOOKING_GRACE_MINUTES * 60_000, start)
+    )
+  );
+
+  if (reservation.status === 'pending_payment' || at.getTime() <= freeUntil.getTime()) {
+    return { kind: 'free', fee: 0, bookingFeeRetained: 0, freeUntil: freeUntil.toISOString() };
+  }
+  if (at.getTime() < getNoShowDeadline(reservation)) {
+    return {
+      kind: 'late',
+      fee: policy.lateCancellationFee,
+      bookingFeeRetained: roundPeso(PRICING.bookingFee * policy.bookingFeeRetention),
+      freeUntil: freeUntil.toISOString(),
+    };
+  }
+  return {
+    kind: 'no_show',
+    fee: policy.noShowFee,
+    bookingFeeRetained: PRICING.bookingFee,
+    freeUntil: freeUntil.toISOString(),
+  };
+}
+
+/**
+ * What cancelling every given reservation of one booking (a trip's stops) would cost
+ * Fees add up per reservation, but the booking fee is only paid once.
+ */
+export function getBookingCancellationTerms(
+  reservations: Reservation[],
+  at: Date = new Date()
+): CancellationTerms {
+  const terms = reservations.map(reservation => getCancellationTerms(reservation, at));
+  const kind = terms.some(t => t.kind === 'no_show')
+    ? 'no_show'
+    : terms.some(t => t.kind === 'late')
+      ? 'late'
+      : 'free';
+  return {
+    kind,
+    fee: terms.reduce((sum, t) => sum + t.fee, 0),
+    bookingFeeRetained: Math.max(0, ...terms.map(t => t.bookingFeeRetained)),
+    freeUntil: terms.map(t => t.freeUntil).sort()[0] || at.toISOString(),
+  };
+}
+
+/**
+ * Share of the booking fee kept for a reservation that ended without charging
+ * Nothing for free cancellations, part of it for late ones, all of it for no-shows.
+ */
+export function getRetainedBookingFee(reservation: Reservation): number {
+  const policy = getCancellationPolicy(reservation.cancellationPolicy);
+  switch (reservation.cancellation) {
+    case 'late':
+      return roundPeso(PRICING.bookingFee * policy.bookingFeeRetention);
+    case 'no_show':
+      return PRICING.bookingFee;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * When an unscanned reservation becomes a no-show (epoch ms)
+ * At most the end of the window, for windows shorter than the grace period.
+ */
+export function getNoShowDeadline(reservation: Reservation): number {
+  const policy = getCancellationPolicy(reservation.cancellationPolicy);
+  return Math.min(
+    Date.parse(reservation.scheduledStart) + policy.noShowGraceMinutes * 60_000,
+    Date.parse(reservation.scheduledEnd)
+  );
+}
+
+/**
+ * The policy's rules as short lines for the driver
+ */
+export function describeCancellationPolicy(policy: CancellationPolicy): string[] {
+  const lateCharge =
+    policy.bookingFeeRetention === 0 && policy.lateCancellationFee === 0
+      ? 'no charge'
+      : [
+          policy.bookingFeeRetention > 0 &&
+            `₱${(PRICING.bookingFee * policy.bookingFeeRetention).toFixed(2)} of the booking fee`,
+          policy.lateCancellationFee > 0 && `a ₱${policy.lateCancellationFee.toFixed(2)} fee`,
+        ]
+          .filter(Boolean)
+          .join(' plus ');
+
+  return [
+    `Free cancellation until ${formatLeadTime(policy.freeCancellationMinutes)} before your slot, or for ${BOOKING_GRACE_MINUTES} min after booking`,
+    `Later cancellations: ${lateCharge}`,
+    `No-show after ${policy.noShowGraceMinutes} min: booking fee plus ₱${policy.noShowFee.toFixed(2)}`,
+  ];
+}
+
+/**
+ * What cancelling would cost, as one sentence for a confirmation prompt
+ */
+export function describeCancellationTerms(terms: CancellationTerms): string {
+  const charge = [
+    terms.bookingFeeRetained > 0 && `₱${terms.bookingFeeRetained.toFixed(2)} of the booking fee`,
+    terms.fee > 0 && `a ₱${terms.fee.toFixed(2)} fee`,
+  ]
+    .filter(Boolean)
+    .join(' plus ');
+
+  if (terms.kind === 'no_show') {
+    return `This reservation counts as a no-show: you will be charged ${charge}.`;
+  }
+  if (!charge) {
+    return 'You can cancel for free; your payment hold will be released.';
+  }
+  return `It is past the free cancellation time, so ${charge} will be charged and the rest of your payment hold released.`;
+}
+
+function formatLeadTime(minutes: number): string {
+  if (minutes % (24 * 60) === 0) {
+    const days = minutes / (24 * 60);
+    return days === 1 ? '24 hours' : `${days} days`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return hours === 1 ? '1 hour' : `${hours} hours`;
+  }
+  return `${minutes} min`;
+}
+
+function roundPeso(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
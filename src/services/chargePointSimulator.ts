@@ -0,0 +1,167 @@
+/**
+ * Charge Point Simulator
+ * In-process stand-ins for both ends of OCPP while there is no charger or central system to
+ * talk to (development and tests):
+ * - createSimulatedChargePoint meters a session like a real charger: power follows the
+ *   vehicle's charge curve, capped by the station, and tapers to zero at 100%
+ * - createLocalCentralSystem is an OcppTransport that answers OCPP 1.6J calls the way a
+ *   central system would (accepts valid idTags, assigns transaction IDs)
+ */
+
+import { MeterSample } from '@/types/chargingSession';
+import {
+  OcppAction,
+  OcppActions,
+  OcppCall,
+  OcppCallError,
+  OcppCallResult,
+  OcppMessageType,
+} from '@/types/ocpp';
+import { OcppTransport } from './ocppClient';
+import { StandardVehicle, interpolateChargeCurve } from './standardVehicleModel';
+import { createSeededRandom, seedFromString } from './seededRandom';
+
+const METER_STEP_MS = 10 * 1000; // Integration step for the simulated meter
+const LOCAL_LATENCY_MS = 100; // Reply delay of the local central system
+const MAX_ID_TAG_LENGTH = 20; // CiString20 in OCPP 1.6
+
+export interface SimulatedChargePointOptions {
+  powerKW: number; // Most the charger delivers to this vehicle
+  vehicle: StandardVehicle;
+  startSocPercent: number;
+  startedAt: Date;
+}
+
+export interface SimulatedChargePoint {
+  meterStartWh: number; // Energy register when the session started
+  /**
+   * Meter reading at a time (readings only move forward)
+   */
+  readMeter(at: Date): MeterSample;
+}
+
+/**
+ * Simulated meter for one connector of a charge point
+ * The energy register starts from a lifetime total seeded by the charge point and connector,
+ * so a session recreated after an app restart reads the same values.
+ */
+export function createSimulatedChargePoint(
+  chargePointId: string,
+  connectorId: number,
+  options: SimulatedChargePointOptions
+): SimulatedChargePoint {
+  const { powerKW, vehicle, startSocPercent, startedAt } = options;
+  const random = createSeededRandom(seedFromString(`meter:${chargePointId}:${connectorId}`));
+  const meterStartWh = Math.round(1_000_000 + random() * 4_000_000);
+
+  let time = startedAt.getTime();
+  let soc = startSocPercent;
+  let energyWh = meterStartWh;
+  const powerAt = (percent: number) =>
+    percent >= 100 ? 0 : Math.min(powerKW, interpolateChargeCurve(vehicle.chargeCurve, percent));
+
+  return {
+    meterStartWh,
+    readMeter(at) {
+      while (time < at.getTime()) {
+        const stepMs = Math.min(METER_STEP_MS, at.getTime() - time);
+        const stepWh = (powerAt(soc) * 1000 * stepMs) / 3_600_000;
+        energyWh += stepWh;
+        soc = Math.min(100, soc + stepWh / (vehicle.batteryCapacity * 10));
+        time += stepMs;
+      }
+      return {
+        timestamp: at.toISOString(),
+        energyWh: Math.round(energyWh),
+        powerKW: Math.round(powerAt(soc) * 10) / 10,
+        socPercent: Math.floor(soc),
+      };
+    },
+  };
+}
+
+type LocalHandlers = {
+  [A in OcppAction]: (request: OcppActions[A]['request']) => OcppActions[A]['response'];
+};
+
+// Shared by every local connection, like one central system serving many chargers
+const openTransactions = new Map<number, string>(); // transactionId → idTag
+let nextTransactionId = Math.floor(Date.now() / 1000) % 1_000_000;
+
+const isValidIdTag = (idTag: unknown) =>
+  typeof idTag === 'string' && idTag.length > 0 && idTag.length <= MAX_ID_TAG_LENGTH;
+
+const localHandlers: LocalHandlers = {
+  Authorize: request => ({
+    idTagInfo: { status: isValidIdTag(request.idTag) ? 'Accepted' : 'Invalid' },
+  }),
+  StartTransaction: request => {
+    const transactionId = nextTransactionId++;
+    if (!isValidIdTag(request.idTag)) {
+      return { transactionId, idTagInfo: { status: 'Invalid' } };
+    }
+    const busy = Array.from(openTransactions.values()).includes(request.idTag);
+    if (busy) {
+      return { transactionId, idTagInfo: { status: 'ConcurrentTx' } };
+    }
+    openTransactions.set(transactionId, request.idTag);
+    return { transactionId, idTagInfo: { status: 'Accepted' } };
+  },
+  MeterValues: () => ({}),
+  StopTransaction: request => {
+    // Always accepted so the charge point never retries a finished transaction
+    openTransactions.delete(request.transactionId);
+    return { idTagInfo: { status: 'Accepted' } };
+  },
+};
+
+/**
+ * Connection to an in-process central system
+ */
+export function createLocalCentralSystem(): OcppTransport {
+  let handler: ((message: string) => void) | null = null;
+  let closeHandler: (() => void) | null = null;
+  let closed = false;
+
+  const reply = (frame: OcppCallResult | OcppCallError) => {
+    setTimeout(() => {
+      if (!closed) handler?.(JSON.stringify(frame));
+    }, LOCAL_LATENCY_MS);
+  };
+
+  return {
+    send(message) {
+      if (closed) {
+        throw new Error('OCPP connection is closed');
+      }
+      const [type, uniqueId, action, request] = JSON.parse(message) as OcppCall;
+      if (type !== OcppMessageType.CALL) return; // Replies to central system calls (none are made)
+
+      const handle = localHandlers[action] as ((request: object) => object) | undefined;
+      if (!handle) {
+        reply([
+          OcppMessageType.CALLERROR,
+          uniqueId,
+          'NotImplemented',
+          `Unknown action ${action}`,
+          {},
+        ]);
+      } else if (!request || typeof request !== 'object') {
+        reply([OcppMessageType.CALLERROR, uniqueId, 'FormationViolation', 'Missing payload', {}]);
+      } else {
+        reply([OcppMessageType.CALLRESULT, uniqueId, handle(request)]);
+      }
+    },
+    onMessage(next) {
+      handler = next;
+    },
+    onClose(next) {
+      closeHandler = next;
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      closeHandler?.();
+    },
+  };
+}
@@ -8,15 +8,24 @@
 
 import {
   STANDARD_VEHICLE,
+  StandardVehicle,
   calculateBatteryConsumption,
   calculateChargingTime,
-  CONSUMPTION_MULTIPLIERS,
+  ConsumptionProfile,
+  getConsumptionMultiplier,
   CHARGING_TARGET_PERCENT,
   MINIMUM_BATTERY_BUFFER,
   interpolateChargeCurve,
+  isStationCompatible,
+  getEffectiveChargingPower,
   PRICING,
 } from './standardVehicleModel';
-import { Station } from '@/types/navigation';
+import { getCumulativeDistances, projectOntoRoute, GeoPoint } from './routeGeometry';
+import { createSeededRandom, RandomSource } from './seededRandom';
+import { getEquivalentDistance, TerrainProfile } from './terrainModel';
+import { getTrafficMultiplier, getTravelMinutesWithTraffic } from './trafficModel';
+import { isStationAccessible, isStationOpenAt } from './stationAccess';
+import { Station } from '@/types/station';
 
 export type StrategyType = 0 | 1 | 2; // Few long, Balanced, Many short
 
@@ -34,7 +43,8 @@ export interface OptimizedStop {
   chargingTime: number;
   energyAdded: number; // kWh
   cost: number;
-  distanceFromStart: number;
+  distanceFromStart: number; // km along the route where the stop leaves the road
+  detourKm: number; // km off the route to reach the station, one way
   reasonForStop: string;
 }
 
@@ -45,6 +55,7 @@ export interface OptimizedRoute {
   totalDistance: number;
   strategy: StrategyType;
   finalBattery: number;
+  feasible: boolean; // False when no plan keeps the battery above the minimum arrival
 }
 
 /**
@@ -78,9 +89,95 @@ export function getStrategy(type: StrategyType): ChargingStrategy {
   return strategies[type];
 }
 
+/**
+ * Optional inputs for route optimization
+ */
+export interface OptimizeRouteOptions {
+  vehicle?: StandardVehicle; // Vehicle profile (default: STANDARD_VEHICLE)
+  routePolyline?: GeoPoint[]; // Route geometry used to position stations (required for stops)
+  maxDetourKm?: number; // Max straight-line distance from route to a station (default: 5km)
+  seed?: number; // Optional seed to vary station choice; omitted = fully deterministic ranking
+  terrainProfile?: TerrainProfile | null; // Elevation-aware energy along the route (default: flat)
+  consumptionProfile?: ConsumptionProfile; // Driving style (default: realistic)
+  schedule?: TripSchedule; // When set, stations closed at the projected arrival are skipped
+}
+
+/**
+ * When the trip runs, so planners can project the clock time at each station
+ */
+export interface TripSchedule {
+  departure: Date;
+  minutesPerKm: number; // Free-flow driving pace along the route (routed duration / distance)
+  trafficMultiplier?: number; // Same traffic on every leg (default: traffic when it is driven)
+}
+
+/**
+ * Station positioned on the route polyline
+ */
+export interface RouteStation {
+  station: Station;
+  distanceAlongRoute: number; // km, scaled to the routed distance
+  detourKm: number; // km off the route, one way
+}
+
+/**
+ * Minutes into the trip when a station is reached
+ * @param schedule Trip departure and pace
+ * @param elapsedMinutes Minutes into the trip when leaving the previous point
+ * @param driveKm Road km from the previous point to the station, detours included
+ */
+export function getArrivalMinutes(
+  schedule: TripSchedule,
+  elapsedMinutes: number,
+  driveKm: number
+): number {
+  const leaving = new Date(schedule.departure.getTime() + elapsedMinutes * 60_000);
+  return elapsedMinutes + getTravelMinutesWithTraffic(driveKm * schedule.minutesPerKm, leaving);
+}
+
+/**
+ * Traffic multiplier for the energy used on a leg
+ * Averaged over the clock times the leg is driven, the way getArrivalMinutes stretches its
+ * duration, so a leg that runs into rush hour uses more energy from that point on.
+ * @param schedule Trip departure and pace
+ * @param elapsedMinutes Minutes into the trip when the leg starts
+ * @param driveKm Road km of the leg (0: the traffic when it starts)
+ */
+export function getLegTrafficMultiplier(
+  schedule: TripSchedule,
+  elapsedMinutes: number,
+  driveKm: number
+): number {
+  if (schedule.trafficMultiplier !== undefined) return schedule.trafficMultiplier;
+  const leaving = new Date(schedule.departure.getTime() + elapsedMinutes * 60_000);
+  const freeFlowMinutes = driveKm * schedule.minutesPerKm;
+  return freeFlowMinutes > 0
+    ? getTravelMinutesWithTraffic(freeFlowMinutes, leaving) / freeFlowMinutes
+    : getTrafficMultiplier(leaving);
+}
+
+/**
+ * Whether a station is open when reached `arrivalMinutes` into the trip
+ * Always true without a schedule.
+ */
+export function isOpenOnArrival(
+  station: Station,
+  schedule: TripSchedule | undefined,
+  arrivalMinutes: number
+): boolean {
+  if (!schedule) return true;
+  return isStationOpenAt(station, new Date(schedule.departure.getTime() + arrivalMinutes * 60_000));
+}
+
+/**
+ * Minimum progress along the route between stops (km)
+ */
+export const MIN_STOP_PROGRESS_KM = 10;
+
 /**
  * ABRP-style route optimization
- * Considers: Vehicle specs, charge curve, station power, pricing, traffic
+ * Considers: Vehicle specs, charge curve, station power, pricing, traffic,
+ * and where each station actually sits along the route
  */
 export function optimizeRoute(
   totalDistance: number,
@@ -88,21 +185,47 @@ export function optimizeRoute(
   availableStations: Station[],
   minimumArrival: number,
   strategyType: StrategyType,
-  trafficMultiplier: number = 1.0
+  trafficMultiplier: number = 1.0,
+  options: OptimizeRouteOptions = {}
 ): OptimizedRoute {
+  const {
+    vehicle = STANDARD_VEHICLE,
+    routePolyline = [],
+    maxDetourKm = 5,
+    seed,
+    terrainProfile,
+    consumptionProfile,
+    schedule,
+  } = options;
   const strategy = getStrategy(strategyType);
   const stops: OptimizedStop[] = [];
 
+  // Only consider public stations with at least one connector this vehicle can plug into,
+  // positioned on the route and within the allowed detour
+  const compatibleStations = availableStations.filter(
+    station => isStationCompatible(station.plugTypes, vehicle) && isStationAccessible(station)
+  );
+  const routeStations = positionStationsOnRoute(
+    compatibleStations,
+    routePolyline,
+    totalDistance
+  ).filter(candidate => candidate.detourKm <= maxDetourKm);
+
   console.warn('🚗 STARTING ROUTE OPTIMIZATION:', {
+    vehicle: vehicle.name,
     totalDistance: `${totalDistance.toFixed(1)} km`,
     currentBattery: `${currentBattery}%`,
     availableStations: availableStations.length,
+    compatibleStations: compatibleStations.length,
+    stationsOnRoute: routeStations.length,
     minimumArrival: `${minimumArrival}%`,
     strategy: strategy.description,
   });
 
   let currentSoC = currentBattery;
-  let distanceCovered = 0;
+  let distanceCovered = 0; // Position along the route
+  let pendingDetourKm = 0; // Distance back to the route from the last station
+  let elapsedMinutes = 0; // Driving and charging so far, for opening hours and traffic
   let totalChargingTime = 0;
   let totalCost = 0;
   const MAX_STOPS = 10; // Safety limit to prevent infinite loops
@@ -111,168 +234,219 @@ export function optimizeRoute(
   // Track used stations to prevent duplicates
   const usedStationIds = new Set<string>();
 
-  // Apply traffic multiplier to consumption
-  const effectiveConsumption =
-    STANDARD_VEHICLE.avgConsumption * CONSUMPTION_MULTIPLIERS.demo * trafficMultiplier;
+  // Seeded variety only when explicitly requested - the same input always plans the same way
+  const random = seed === undefined ? null : createSeededRandom(seed);
+
+  // Apply driving style and traffic multipliers to consumption. With a schedule, each leg uses
+  // the traffic when it is driven; without one, trafficMultiplier applies to the whole trip.
+  const styleConsumption = vehicle.avgConsumption * getConsumptionMultiplier(consumptionProfile);
+  const consumptionOnLeg = (startMinutes: number, roadKm: number) =>
+    styleConsumption *
+    (schedule ? getLegTrafficMultiplier(schedule, startMinutes, roadKm) : trafficMultiplier);
+  const percentForDistance = (km: number, consumption: number) =>
+    ((km * consumption) / vehicle.batteryCapacity) * 100;
+  // Distances below are flat-equivalent km: climbs count extra, descents count less
+  const equivalentKm = (fromKm: number, toKm: number) =>
+    getEquivalentDistance(terrainProfile, fromKm, toKm);
+  // Road km (not flat-equivalent) from the current position to a station, for travel time
+  const roadKmTo = (candidate: RouteStation) =>
+    pendingDetourKm + (candidate.distanceAlongRoute - distanceCovered) + candidate.detourKm;
 
   while (distanceCovered < totalDistance && stopCount < MAX_STOPS) {
     // Calculate maximum range with current battery
     // IMPORTANT: Use user's minimumArrival, not strategy's minStopSoC
     // We should never let battery drop below the user's preference
     const safeMinimum = Math.max(minimumArrival, strategy.minStopSoC);
-    const availableEnergy = ((currentSoC - safeMinimum) / 100) * STANDARD_VEHICLE.batteryCapacity;
-    const maxRange = availableEnergy / effectiveConsumption;
-    const remainingDistance = totalDistance - distanceCovered;
+    const availableEnergy = ((currentSoC - safeMinimum) / 100) * vehicle.batteryCapacity;
+    // Range at the traffic as we set off; each candidate is checked at its own leg's traffic
+    const maxRange = availableEnergy / consumptionOnLeg(elapsedMinutes, 0);
+    const remainingDistance = equivalentKm(distanceCovered, totalDistance) + pendingDetourKm;
+    const destinationConsumption = consumptionOnLeg(
+      elapsedMinutes,
+      pendingDetourKm + totalDistance - distanceCovered
+    );
 
     // Calculate what battery we'd have if we drove the remaining distance
-    const energyForRemainingDistance = remainingDistance * effectiveConsumption;
-    const batteryForRemainingDistance =
-      (energyForRemainingDistance / STANDARD_VEHICLE.batteryCapacity) * 100;
-    const batteryAtDestinationIfNow = currentSoC - batteryForRemainingDistance;
+    const batteryAtDestinationIfNow =
+      currentSoC - percentForDistance(remainingDistance, destinationConsumption);
 
     // Do we need a charging stop?
     // Check if we can reach destination while maintaining minimum arrival battery
-    if (batteryAtDestinationIfNow < minimumArrival || maxRange < remainingDistance) {
-      // Yes - calculate optimal stop location
-      // ABRP strategy: Don't drain to absolute minimum, stop with buffer
-      const targetStopDistance = maxRange * 0.85; // Stop before getting too low
-
-      // Make sure we're making progress (minimum 10km per stop)
-      if (targetStopDistance < 10) {
-        console.warn('Cannot make progress - range too limited');
-        break;
-      }
-
-      const nextStopDistance = Math.min(targetStopDistance, remainingDistance);
-      const plannedStopLocation = distanceCovered + nextStopDistance;
-
-      // Calculate battery at arrival
-      const energyUsed = nextStopDistance * effectiveConsumption;
-      const batteryUsed = (energyUsed / STANDARD_VEHICLE.batteryCapacity) * 100;
-      const arrivalBattery = currentSoC - batteryUsed;
-
-      // Safety check - ensure we don't arrive below minimum
-      if (arrivalBattery < safeMinimum) {
-        console.warn(
-          'Route requires charging below safe minimum:',
-          arrivalBattery,
-          '<',
-          safeMinimum
-        );
-        break;
-      }
+    if (
+      batteryAtDestinationIfNow >= minimumArrival &&
+      availableEnergy / destinationConsumption >= remainingDistance
+    ) {
+      // No charging needed - can reach destination
+      break;
+    }
 
-      // Find best station for this strategy (excluding already used stations)
-      const station = selectBestStation(
-        availableStations,
-        plannedStopLocation,
-        strategy,
-        strategyType,
-        usedStationIds
+    // ABRP strategy: Don't drain to absolute minimum, aim to stop with buffer
+    const targetStopDistance = distanceCovered + Math.max(maxRange * 0.85 - pendingDetourKm, 0);
+
+    // Stations we can physically reach from here: ahead of us on the route and
+    // within range including the detour back to the route and out to the station
+    const reachable = routeStations.filter(candidate => {
+      if (usedStationIds.has(candidate.station.id)) return false;
+      if (candidate.distanceAlongRoute < distanceCovered + MIN_STOP_PROGRESS_KM) return false;
+      const driveKm =
+        pendingDetourKm +
+        equivalentKm(distanceCovered, candidate.distanceAlongRoute) +
+        candidate.detourKm;
+      const consumption = consumptionOnLeg(elapsedMinutes, roadKmTo(candidate));
+      if (driveKm * consumption > availableEnergy) return false;
+
+      // Skip stations that will be closed when we get there
+      return (
+        !schedule ||
+        isOpenOnArrival(
+          candidate.station,
+          schedule,
+          getArrivalMinutes(schedule, elapsedMinutes, roadKmTo(candidate))
+        )
       );
+    });
+
+    const selected = selectBestStation(
+      reachable,
+      targetStopDistance,
+      maxRange,
+      strategyType,
+      vehicle,
+      random
+    );
 
-      if (!station) {
-        console.warn('❌ No suitable station found at', plannedStopLocation, 'km');
-        console.warn('  Already used:', Array.from(usedStationIds).join(', '));
-        console.warn('  Available stations:', availableStations.length);
-        break;
-      }
-
-      // Mark this station as used to prevent selecting it again
-      usedStationIds.add(station.id);
+    if (!selected) {
       console.warn(
-        `✅ Stop ${stopCount + 1}: Selected "${station.name}" (ID: ${station.id}) at ${plannedStopLocation.toFixed(1)} km`
+        '❌ No reachable station between',
+        distanceCovered.toFixed(1),
+        'and',
+        (distanceCovered + maxRange).toFixed(1),
+        'km'
       );
+      console.warn('  Already used:', Array.from(usedStationIds).join(', '));
+      console.warn('  Stations on route:', routeStations.length);
+      break;
+    }
 
-      // Calculate optimal departure SoC
-      const remainingAfterStop = totalDistance - plannedStopLocation;
-      const energyNeededToDestination =
-        remainingAfterStop * effectiveConsumption +
-        (minimumArrival / 100) * STANDARD_VEHICLE.batteryCapacity;
-      const socNeededToDestination =
-        (energyNeededToDestination / STANDARD_VEHICLE.batteryCapacity) * 100;
-
-      // Target SoC: MUST be enough to reach destination with minimumArrival
-      // But also consider strategy preferences
-      let targetSoC: number;
-
-      // First, ensure we have enough to reach destination
-      const minimumRequired = socNeededToDestination + 5; // 5% safety buffer
-
-      if (remainingAfterStop < maxRange * 0.5) {
-        // Close to destination - charge just enough + buffer
-        targetSoC = Math.max(
-          minimumRequired,
-          Math.min(socNeededToDestination + 10, strategy.targetSoC)
-        );
-      } else {
-        // Long way to go - use strategy target, but ensure minimum requirement
-        targetSoC = Math.max(minimumRequired, strategy.targetSoC);
-      }
+    const { station } = selected;
+    const plannedStopLocation = selected.distanceAlongRoute;
+
+    // Mark this station as used to prevent selecting it again
+    usedStationIds.add(station.id);
+    console.warn(
+      `✅ Stop ${stopCount + 1}: Selected "${station.name}" (ID: ${station.id}) at ${plannedStopLocation.toFixed(1)} km (+${selected.detourKm.toFixed(1)} km detour)`
+    );
 
-      // Cap at vehicle/station limits (but never below minimum required)
-      const departureBattery = Math.min(
-        Math.max(targetSoC, minimumRequired),
-        CHARGING_TARGET_PERCENT
+    // Calculate battery at arrival (includes both detours)
+    const driveKm =
+      pendingDetourKm + equivalentKm(distanceCovered, plannedStopLocation) + selected.detourKm;
+    const arrivalBattery =
+      currentSoC -
+      percentForDistance(driveKm, consumptionOnLeg(elapsedMinutes, roadKmTo(selected)));
+    const arrivalMinutes = schedule
+      ? getArrivalMinutes(schedule, elapsedMinutes, roadKmTo(selected))
+      : elapsedMinutes;
+
+    // Calculate optimal departure SoC
+    const remainingAfterStop = totalDistance - plannedStopLocation + selected.detourKm;
+    const equivalentAfterStop =
+      equivalentKm(plannedStopLocation, totalDistance) + selected.detourKm;
+    const energyNeededToDestination =
+      equivalentAfterStop * consumptionOnLeg(arrivalMinutes, remainingAfterStop) +
+      (minimumArrival / 100) * vehicle.batteryCapacity;
+    const socNeededToDestination = (energyNeededToDestination / vehicle.batteryCapacity) * 100;
+
+    // Target SoC: MUST be enough to reach destination with minimumArrival
+    // But also consider strategy preferences
+    let targetSoC: number;
+
+    // First, ensure we have enough to reach destination
+    const minimumRequired = socNeededToDestination + 5; // 5% safety buffer
+
+    if (equivalentAfterStop < maxRange * 0.5) {
+      // Close to destination - charge just enough + buffer
+      targetSoC = Math.max(
+        minimumRequired,
+        Math.min(socNeededToDestination + 10, strategy.targetSoC)
       );
+    } else {
+      // Long way to go - use strategy target, but ensure minimum requirement
+      targetSoC = Math.max(minimumRequired, strategy.targetSoC);
+    }
 
-      // Make sure we're actually charging (minimum 5% charge)
-      if (departureBattery - arrivalBattery < 5) {
-        console.warn('Charge amount too small, adjusting target to minimum viable');
-        // Force charge to at least minimum required
-        const forcedDeparture = Math.min(minimumRequired, CHARGING_TARGET_PERCENT);
-        if (forcedDeparture - arrivalBattery < 5) {
-          console.error('Cannot charge enough to continue journey safely');
-          break;
-        }
-      }
+    // Cap at vehicle/station limits (but never below minimum required)
+    const departureBattery = Math.min(
+      Math.max(targetSoC, minimumRequired),
+      CHARGING_TARGET_PERCENT
+    );
 
-      // Calculate charging time using real charge curve
-      const stationPower = Math.min(station.powerKW || 50, STANDARD_VEHICLE.maxChargingPower);
-      const chargingTime = calculateChargingTime(arrivalBattery, departureBattery, stationPower);
+    // Make sure we're actually charging (minimum 5% charge)
+    if (departureBattery - arrivalBattery < 5) {
+      console.warn('Charge amount too small, adjusting target to minimum viable');
+      // Force charge to at least minimum required
+      const forcedDeparture = Math.min(minimumRequired, CHARGING_TARGET_PERCENT);
+      if (forcedDeparture - arrivalBattery < 5) {
+        console.error('Cannot charge enough to continue journey safely');
+        break;
+      }
+    }
 
-      // Calculate energy and cost
-      const energyAdded =
-        ((departureBattery - arrivalBattery) / 100) * STANDARD_VEHICLE.batteryCapacity;
-      const pricePerKwh = station.pricePerKwh || PRICING.defaultPricePerKwh;
-      const connectionFee = station.connectionFee || PRICING.connectionFee;
-      const energyCost = energyAdded * pricePerKwh;
-      const cost = energyCost + connectionFee;
+    // Calculate charging time using real charge curve
+    const stationPower = getEffectiveChargingPower(
+      station.powerKW || 50,
+      station.plugTypes,
+      vehicle
+    );
+    const chargingTime = calculateChargingTime(
+      arrivalBattery,
+      departureBattery,
+      stationPower,
+      vehicle
+    );
 
-      stops.push({
-        station,
+    // Calculate energy and cost
+    const energyAdded = ((departureBattery - arrivalBattery) / 100) * vehicle.batteryCapacity;
+    const pricePerKwh = station.pricePerKwh || PRICING.defaultPricePerKwh;
+    const connectionFee = station.connectionFee || PRICING.connectionFee;
+    const energyCost = energyAdded * pricePerKwh;
+    const cost = energyCost + connectionFee;
+
+    stops.push({
+      station,
+      arrivalBattery,
+      departureBattery,
+      chargingTime,
+      energyAdded,
+      cost,
+      distanceFromStart: plannedStopLocation,
+      detourKm: selected.detourKm,
+      reasonForStop: determineStopReason(
         arrivalBattery,
-        departureBattery,
-        chargingTime,
-        energyAdded,
-        cost,
-        distanceFromStart: plannedStopLocation,
-        reasonForStop: determineStopReason(
-          arrivalBattery,
-          strategy,
-          remainingAfterStop,
-          minimumArrival
-        ),
-      });
-
-      totalChargingTime += chargingTime;
-      totalCost += cost;
-
-      // Update state for next iteration
-      currentSoC = departureBattery;
-      distanceCovered = plannedStopLocation;
-      stopCount++;
-    } else {
-      // No charging needed - can reach destination
-      break;
-    }
+        strategy,
+        remainingAfterStop,
+        minimumArrival
+      ),
+    });
+
+    totalChargingTime += chargingTime;
+    totalCost += cost;
+
+    // Update state for next iteration
+    elapsedMinutes = arrivalMinutes + chargingTime;
+    currentSoC = departureBattery;
+    distanceCovered = plannedStopLocation;
+    pendingDetourKm = selected.detourKm;
+    stopCount++;
   }
 
   // Calculate final battery at destination
-  const remainingToDestination = totalDistance - distanceCovered;
-  const energyToDestination = remainingToDestination * effectiveConsumption;
-  const batteryToDestination = (energyToDestination / STANDARD_VEHICLE.batteryCapacity) * 100;
-  const finalBattery = currentSoC - batteryToDestination;
+  const remainingToDestination = equivalentKm(distanceCovered, totalDistance) + pendingDetourKm;
+  const finalBattery =
+    currentSoC -
+    percentForDistance(
+      remainingToDestination,
+      consumptionOnLeg(elapsedMinutes, pendingDetourKm + totalDistance - distanceCovered)
+    );
 
   console.warn('🏁 ROUTE OPTIMIZATION COMPLETE:', {
     totalStops: stops.length,
@@ -289,60 +463,94 @@ export function optimizeRoute(
     totalDistance,
     strategy: strategyType,
     finalBattery: Math.max(finalBattery, 0),
+    // Stops are only picked within reach, so a plan falls short at the destination, when no
+    // station was reachable or the stop limit was hit
+    feasible: finalBattery >= minimumArrival,
   };
 }
 
 /**
- * Select best station based on strategy and location
- * Now considers: distance along route, prevents duplicates, prioritizes proximity
+ * Project stations onto the route polyline
+ * Polyline length is scaled to the routed distance so positions line up with totalDistance
  */
-function selectBestStation(
+export function positionStationsOnRoute(
   stations: Station[],
+  polyline: GeoPoint[],
+  totalDistance: number
+): RouteStation[] {
+  if (polyline.length === 0) return [];
+
+  const cumulative = getCumulativeDistances(polyline);
+  const polylineLength = cumulative[cumulative.length - 1];
+  const scale = polylineLength > 0 ? totalDistance / polylineLength : 1;
+
+  const positioned: RouteStation[] = [];
+  stations.forEach(station => {
+    const position = projectOntoRoute(station, polyline, cumulative);
+    if (position) {
+      positioned.push({
+        station,
+        distanceAlongRoute: position.distanceAlongRoute * scale,
+        detourKm: position.detourKm,
+      });
+    }
+  });
+  return positioned;
+}
+
+/**
+ * Select best reachable station based on strategy and location
+ * Considers: closeness to the ideal stop point, detour, power/price per strategy, availability
+ */
+function selectBestStation(
+  candidates: RouteStation[],
   targetDistance: number,
-  strategy: ChargingStrategy,
+  maxRange: number,
   strategyType: StrategyType,
-  alreadyUsedStationIds: Set<string> = new Set()
-): Station | null {
-  if (!stations.length) return null;
-
-  // Filter out already used stations to prevent duplicates
-  const availableStations = stations.filter(s => !alreadyUsedStationIds.has(s.id));
-
-  if (!availableStations.length) {
-    console.warn('⚠️ No available stations (all already used)');
-    return null;
-  }
+  vehicle: StandardVehicle,
+  random: RandomSource | null
+): RouteStation | null {
+  if (!candidates.length) return null;
 
-  // Score each station based on strategy AND add diversity
-  const scored = availableStations.map((station, index) => {
+  const scored = candidates.map(candidate => {
+    const { station } = candidate;
     let score = 0;
-    const power = station.powerKW || 50;
-    const price = station.pricePerKwh || 30;
+    // Score on the power this vehicle can actually draw (AC-only matches are slow),
+    // relative to the most the vehicle can accept
+    const power = getEffectiveChargingPower(station.powerKW || 50, station.plugTypes, vehicle);
+    const powerScore = Math.min(power / vehicle.maxChargingPower, 1);
+    const priceScore = 30 / (station.pricePerKwh || 30);
 
     // Base score from strategy
     switch (strategyType) {
       case 0: // Few long stops - prioritize cost
-        score = (30 / price) * 0.7 + (power / 250) * 0.3;
+        score = priceScore * 0.7 + powerScore * 0.3;
         break;
       case 1: // Balanced
-        score = (power / 250) * 0.5 + (30 / price) * 0.5;
+        score = powerScore * 0.5 + priceScore * 0.5;
         break;
       case 2: // Many short stops - prioritize speed
-        score = (power / 250) * 0.8 + (30 / price) * 0.2;
+        score = powerScore * 0.8 + priceScore * 0.2;
         break;
     }
 
-    // CRITICAL: Add position-based diversity
-    // Since we don't have exact route positions, we'll use station array index
-    // as a proxy - this ensures we cycle through different stations
-    // Add strong randomization to prevent same station selection
-    const positionBonus = (index / availableStations.length) * 0.3;
-    const randomFactor = 0.7 + Math.random() * 0.6; // 0.7 to 1.3 multiplier
-    score = score * randomFactor + positionBonus;
+    // Prefer stations close to the ideal stop point (1.0 at target, 0 a full range away)
+    const offTarget = Math.abs(candidate.distanceAlongRoute - targetDistance);
+    const proximity = maxRange > 0 ? Math.max(0, 1 - offTarget / maxRange) : 0;
+
+    // Every km off the route is driven twice
+    const detourPenalty = Math.min((candidate.detourKm * 2) / 20, 1) * 0.3;
+
+    score = score + proximity - detourPenalty;
+
+    // Optional seeded variation (±10%) for callers that want alternative plans
+    if (random) {
+      score *= 0.9 + random() * 0.2;
+    }
 
     // Bonus for Tesla Superchargers (reliable, fast)
     if (station.isTeslaSupercharger) {
-      score *= 1.1; // Reduced from 1.2 to allow more variety
+      score *= 1.1;
     }
 
     // Penalty for low availability
@@ -351,17 +559,22 @@ function selectBestStation(
       score *= 0.5 + availabilityRatio * 0.5;
     }
 
-    return { station, score, stationId: station.id };
+    return { candidate, score };
   });
 
-  // Sort by score (highest first)
-  scored.sort((a, b) => b.score - a.score);
+  // Sort by score (highest first); ties go to the station further along, then by id
+  scored.sort(
+    (a, b) =>
+      b.score - a.score ||
+      b.candidate.distanceAlongRoute - a.candidate.distanceAlongRoute ||
+      a.candidate.station.id.localeCompare(b.candidate.station.id)
+  );
 
-  const selected = scored[0]?.station || null;
+  const selected = scored[0]?.candidate || null;
 
   if (selected) {
     console.warn(
-      `  ✅ Selected: ${selected.name} (ID: ${selected.id}, Power: ${selected.powerKW}kW, Price: ₱${selected.pricePerKwh}/kWh)`
+      `  ✅ Selected: ${selected.station.name} (ID: ${selected.station.id}, Power: ${selected.station.powerKW}kW, Price: ₱${selected.station.pricePerKwh}/kWh)`
     );
   } else {
     console.warn('  ❌ No station could be selected');
@@ -373,7 +586,7 @@ function selectBestStation(
 /**
  * Determine why we're stopping at this station
  */
-function determineStopReason(
+export function determineStopReason(
   arrivalBattery: number,
   strategy: ChargingStrategy,
   remainingDistance: number,
@@ -403,7 +616,8 @@ export function compareAllStrategies(
   availableStations: Station[],
   minimumArrival: number,
   drivingTimeMinutes: number,
-  trafficMultiplier: number = 1.0
+  trafficMultiplier: number = 1.0,
+  options: OptimizeRouteOptions = {}
 ): {
   fewLong: OptimizedRoute & { totalTime: number };
   balanced: OptimizedRoute & { totalTime: number };
@@ -418,7 +632,8 @@ export function compareAllStrategies(
       availableStations,
       minimumArrival,
       type,
-      trafficMultiplier
+      trafficMultiplier,
+      options
     );
     return {
       ...route,
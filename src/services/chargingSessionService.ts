@@ -0,0 +1,596 @@
+/**
+ * Charging Session Service
+ * Charging sessions over OCPP 1.6J (see ocppClient), persisted per device:
+ * - startChargingSession: Authorize → StartTransaction, then the reservation moves to
+ *   in_progress (ScanQRScreen)
+ * - while charging, the meter is read every METER_INTERVAL_MS, reported with MeterValues and
+ *   saved on the session; screens subscribe for the updates
+ * - stopChargingSession: StopTransaction, then the reservation completes with the metered cost
+ *   and its payment is settled (see billingService); if that fails, completeEndedSessions
+ *   retries it
+ *
+ * Once the battery is full the meter stops and the session counts as idle until the driver stops
+ * it and unplugs; stations with idle fees bill every minute past PRICING.idleFeeGracePeriod
+ * (see getSessionCost). The driver is notified when charging completes, before the grace period
+ * runs out, when idle fees start and when the reserved window ends (see notificationsService).
+ *
+ * Messages go to the central system at OCPP_CENTRAL_SYSTEM_URL, or to the local in-process one
+ * when it isn't set. Meter readings come from the charge point simulator until chargers report
+ * their own.
+ */
+
+import { OCPP_CENTRAL_SYSTEM_URL } from '@env';
+import {
+  ChargingSession,
+  MeterSample,
+  SessionCost,
+  SessionNotice,
+  SessionProgress,
+} from '@/types/chargingSession';
+import { MeterValue, StopReason } from '@/types/ocpp';
+import {
+  getStorageOwnerId,
+  loadChargingSessionsForDevice,
+  saveChargingSessionsForDevice,
+  subscribeToStorageScope,
+} from './deviceStore';
+import { OcppClient, createOcppClient, createWebSocketTransport } from './ocppClient';
+import {
+  SimulatedChargePoint,
+  createLocalCentralSystem,
+  createSimulatedChargePoint,
+} from './chargePointSimulator';
+import {
+  canTransition,
+  completeReservation,
+  getBookedStation,
+  getReservation,
+  startReservation,
+} from './reservationsStore';
+import { settleReservationPayment } from './billingService';
+import { addNotification } from './notificationsService';
+import { loadActiveVehicleProfile } from './vehicleProfileService';
+import {
+  CHARGING_ARRIVAL_MIN,
+  CHARGING_TARGET_PERCENT,
+  PRICING,
+  StandardVehicle,
+  calculateChargingTime,
+  calculateIdleFee,
+  getEffectiveChargingPower,
+  interpolateChargeCurve,
+} from './standardVehicleModel';
+
+const METER_INTERVAL_MS = 10 * 1000; // How often MeterValues are sent while charging
+const MAX_ID_TAG_LENGTH = 20; // CiString20 in OCPP 1.6
+
+export type ChargingSessionListener = (session: ChargingSession) => void;
+
+/**
+ * Connection and meter of a session that is charging (rebuilt after an app restart)
+ */
+interface LiveSession {
+  client: OcppClient;
+  chargePoint: SimulatedChargePoint;
+  timer: ReturnType<typeof setInterval>;
+}
+
+let sessions: ChargingSession[] = [];
+let loaded: Promise<void> | null = null;
+const live = new Map<string, LiveSession>();
+const listeners = new Set<ChargingSessionListener>();
+
+// Another driver's sessions are cached after signing in or out. Charging continues at the
+// station; metering resumes when the driver who started it signs back in.
+subscribeToStorageScope(() => {
+  live.forEach(current => {
+    clearInterval(current.timer);
+    current.client.close();
+  });
+  live.clear();
+  sessions = [];
+  loaded = null;
+});
+
+/**
+ * Load persisted sessions once and resume metering the ones still charging
+ */
+function ensureLoaded(): Promise<void> {
+  if (!loaded) {
+    loaded = (async () => {
+      try {
+        const stored = await loadChargingSessionsForDevice<ChargingSession[]>();
+        sessions = stored || [];
+        const charging = sessions.filter(session => session.status === 'charging');
+        if (charging.length > 0) {
+          const vehicle = await loadActiveVehicleProfile();
+          charging.forEach(session => attach(session, vehicle));
+        }
+      } catch (error) {
+        console.warn('Failed to load charging sessions:', error);
+      }
+    })();
+  }
+  return loaded;
+}
+
+async function persist(): Promise<void> {
+  try {
+    await saveChargingSessionsForDevice(sessions);
+  } catch (error) {
+    // Non-fatal: the in-memory copy is still correct for this app session
+    console.warn('Failed to save charging sessions:', error);
+  }
+}
+
+/**
+ * Authorize and start charging for a confirmed reservation
+ * Throws if the reservation can't start or the central system refuses the driver; nothing is
+ * recorded in that case.
+ * @param reservationId Reservation being charged
+ * @param connectorId Connector the driver plugged into (default: the reserved charger)
+ * @param startSocPercent Battery when plugging in (default: the planned arrival battery of a trip
+ *   stop, else CHARGING_ARRIVAL_MIN)
+ */
+export async function startChargingSession(
+  reservationId: string,
+  connectorId?: number,
+  startSocPercent?: number
+): Promise<ChargingSession> {
+  await ensureLoaded();
+  const reservation = await getReservation(reservationId);
+  if (!reservation || !canTransition(reservation, 'in_progress')) {
+    throw new Error('This reservation is no longer active');
+  }
+  const startSoc = startSocPercent ?? reservation.arrivalSocPercent ?? CHARGING_ARRIVAL_MIN;
+  if (!Number.isFinite(startSoc) || startSoc < 0 || startSoc > 100) {
+    throw new Error('Enter a battery level between 0 and 100%');
+  }
+
+  const station = getBookedStation(reservation);
+  const vehicle = await loadActiveVehicleProfile();
+  const idTag = (await getStorageOwnerId()).slice(0, MAX_ID_TAG_LENGTH);
+  const client = connectToCentralSystem(station.id);
+
+  try {
+    const { idTagInfo } = await client.call('Authorize', { idTag });
+    if (idTagInfo.status !== 'Accepted') {
+      throw new Error(`Charging not authorized (${idTagInfo.status})`);
+    }
+
+    const connector = connectorId ?? reservation.chargerIndex + 1;
+    const startedAt = new Date();
+    const maxPowerKW = getEffectiveChargingPower(station.powerKW, station.plugTypes, vehicle);
+    const chargePoint = createSimulatedChargePoint(station.id, connector, {
+      powerKW: maxPowerKW,
+      vehicle,
+      startSocPercent: startSoc,
+      startedAt,
+    });
+
+    const start = await client.call('StartTransaction', {
+      connectorId: connector,
+      idTag,
+      meterStart: chargePoint.meterStartWh,
+      timestamp: startedAt.toISOString(),
+    });
+    const session: ChargingSession = {
+      id: `ses-${startedAt.getTime()}-${Math.random().toString(36).slice(2, 6)}`,
+      reservationId,
+      stationId: station.id,
+      stationName: station.name,
+      chargePointId: station.id,
+      connectorId: connector,
+      idTag,
+      transactionId: start.transactionId,
+      status: 'charging',
+      pricePerKwh: station.pricePerKwh,
+      connectionFee: station.connectionFee,
+      hasIdleFee: station.hasIdleFee,
+      maxPowerKW,
+      meterStartWh: chargePoint.meterStartWh,
+      startSocPercent: startSoc,
+      startedAt: startedAt.toISOString(),
+      latest: chargePoint.readMeter(startedAt),
+      energyKwh: 0,
+      reservedUntil: reservation.scheduledEnd,
+      notices: [],
+    };
+
+    if (start.idTagInfo.status !== 'Accepted') {
+      // A charger ends a transaction the central system refused
+      await sendStopTransaction(client, session, chargePoint.readMeter(new Date()), 'DeAuthorized');
+      throw new Error(`Charging not authorized (${start.idTagInfo.status})`);
+    }
+
+    try {
+      await startReservation(reservationId, session.id);
+    } catch (error) {
+      await sendStopTransaction(client, session, chargePoint.readMeter(new Date()), 'Other');
+      throw error;
+    }
+
+    sessions.unshift(session);
+    await persist();
+    live.set(session.id, { client, chargePoint, timer: startMeterTimer(session.id) });
+    notify(session);
+    return { ...session };
+  } catch (error) {
+    client.close();
+    throw error;
+  }
+}
+
+/**
+ * Stop charging and complete the reservation with the metered cost
+ * If the central system doesn't acknowledge StopTransaction this throws and the session keeps
+ * charging, so the driver can try again; a connection the central system dropped is replaced
+ * first.
+ * @param reason OCPP stop reason (default: stopped by the driver)
+ */
+export async function stopChargingSession(
+  sessionId: string,
+  reason: StopReason = 'Local'
+): Promise<ChargingSession> {
+  await ensureLoaded();
+  const session = sessions.find(s => s.id === sessionId);
+  if (!session) {
+    throw new Error(`Charging session ${sessionId} not found`);
+  }
+  if (session.status !== 'charging') {
+    throw new Error(`Charging session ${sessionId} has already ended`);
+  }
+
+  const current = live.get(sessionId) || attach(session, await loadActiveVehicleProfile());
+  clearInterval(current.timer);
+  reconnectIfClosed(current, session);
+
+  const endedAt = new Date();
+  const sample = current.chargePoint.readMeter(endedAt);
+  try {
+    await sendStopTransaction(current.client, session, sample, reason);
+  } catch (error) {
+    current.timer = startMeterTimer(sessionId);
+    throw error;
+  }
+
+  current.client.close();
+  live.delete(sessionId);
+  applySample(session, sample);
+  Object.assign(session, {
+    status: 'completed',
+    endedAt: endedAt.toISOString(),
+    stopReason: reason,
+  });
+  await persist();
+
+  try {
+    await completeSessionReservation(session);
+  } catch (error) {
+    // Charging has stopped either way; completeEndedSessions retries the billing
+    console.warn('⚠️ Could not complete reservation, will retry:', error);
+  }
+  notify(session);
+  return { ...session };
+}
+
+/**
+ * Complete the reservations of ended sessions that are still in progress
+ * Covers a stop whose reservation update or payment failed after StopTransaction. Failures are
+ * logged and retried on the next call.
+ * @returns Number of reservations completed
+ */
+export async function completeEndedSessions(): Promise<number> {
+  await ensureLoaded();
+  let completed = 0;
+  for (const session of sessions.filter(s => s.status === 'completed')) {
+    const reservation = await getReservation(session.reservationId);
+    if (reservation?.status !== 'in_progress') continue;
+    try {
+      await completeSessionReservation(session);
+      completed++;
+    } catch (error) {
+      console.warn(`⚠️ Could not complete reservation ${session.reservationId}:`, error);
+    }
+  }
+  return completed;
+}
+
+/**
+ * Running cost: metered energy, the connection fee and any idle fee
+ * @param at Time to cost an ongoing session at (default: now; ended sessions use endedAt)
+ */
+export function getSessionCost(session: ChargingSession, at: Date = new Date()): SessionCost {
+  const energyCost = roundPeso(session.energyKwh * session.pricePerKwh);
+  const idleMinutes = getIdleMinutes(session, at);
+  const idleFee = roundPeso(calculateIdleFee(idleMinutes, session.hasIdleFee));
+
+  return {
+    energyCost,
+    connectionFee: session.connectionFee,
+    idleMinutes,
+    idleFee,
+    total: roundPeso(energyCost + session.connectionFee + idleFee),
+  };
+}
+
+/**
+ * Whole minutes a session has been idle (battery full, still plugged in)
+ */
+export function getIdleMinutes(session: ChargingSession, at: Date = new Date()): number {
+  if (!session.idleSince) return 0;
+  const end = session.endedAt ? Date.parse(session.endedAt) : at.getTime();
+  return Math.max(0, Math.floor((end - Date.parse(session.idleSince)) / 60_000));
+}
+
+/**
+ * Estimated SoC and time left, from the delivered energy and the vehicle's charge curve
+ * Used between meter readings and for chargers that don't report the vehicle's SoC.
+ */
+export function getSessionProgress(
+  session: ChargingSession,
+  vehicle: StandardVehicle,
+  at: Date = new Date()
+): SessionProgress {
+  const end = session.endedAt ? Date.parse(session.endedAt) : at.getTime();
+  const socPercent = Math.min(
+    100,
+    session.startSocPercent + (session.energyKwh / vehicle.batteryCapacity) * 100
+  );
+  const vehicleLimitKW =
+    socPercent >= 100 ? 0 : interpolateChargeCurve(vehicle.chargeCurve, socPercent);
+
+  return {
+    elapsedMinutes: Math.max(0, (end - Date.parse(session.startedAt)) / 60_000),
+    socPercent,
+    vehicleLimitKW,
+    minutesToTarget: calculateChargingTime(
+      socPercent,
+      CHARGING_TARGET_PERCENT,
+      session.maxPowerKW,
+      vehicle
+    ),
+  };
+}
+
+/**
+ * All charging sessions for this device, newest first
+ */
+export async function getChargingSessions(): Promise<ChargingSession[]> {
+  await ensureLoaded();
+  return sessions.map(session => ({ ...session }));
+}
+
+/**
+ * The session charging right now, if any
+ */
+export async function getActiveChargingSession(): Promise<ChargingSession | undefined> {
+  const all = await getChargingSessions();
+  return all.find(session => session.status === 'charging');
+}
+
+export async function getChargingSession(id: string): Promise<ChargingSession | undefined> {
+  const all = await getChargingSessions();
+  return all.find(session => session.id === id);
+}
+
+/**
+ * Session that charged (or is charging) a reservation
+ */
+export async function getReservationChargingSession(
+  reservationId: string
+): Promise<ChargingSession | undefined> {
+  const all = await getChargingSessions();
+  return all.find(session => session.reservationId === reservationId);
+}
+
+/**
+ * Subscribe to session updates (start, every meter reading, stop)
+ * @returns Unsubscribe function
+ */
+export function subscribeToChargingSessions(listener: ChargingSessionListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Bill an ended session: complete its reservation with the metered cost and settle the payment
+ */
+async function completeSessionReservation(session: ChargingSession): Promise<void> {
+  const cost = getSessionCost(session);
+  await completeReservation(session.reservationId, cost.total, undefined, cost.idleFee);
+  await settleReservationPayment(session.reservationId);
+}
+
+/**
+ * Rebuild the connection and meter of a session that is charging
+ */
+function attach(session: ChargingSession, vehicle: StandardVehicle): LiveSession {
+  const current: LiveSession = {
+    client: connectToCentralSystem(session.chargePointId),
+    chargePoint: createSimulatedChargePoint(session.chargePointId, session.connectorId, {
+      powerKW: session.maxPowerKW,
+      vehicle,
+      startSocPercent: session.startSocPercent,
+      startedAt: new Date(session.startedAt),
+    }),
+    timer: startMeterTimer(session.id),
+  };
+  live.set(session.id, current);
+  return current;
+}
+
+/**
+ * Replace a connection the central system dropped, so the next call goes over a new one
+ * The meter is kept: readings continue from the same register.
+ */
+function reconnectIfClosed(current: LiveSession, session: ChargingSession): void {
+  if (!current.client.isClosed()) return;
+  console.warn(`⚠️ OCPP connection lost (${session.chargePointId}), reconnecting`);
+  current.client = connectToCentralSystem(session.chargePointId);
+}
+
+function connectToCentralSystem(chargePointId: string): OcppClient {
+  const transport = OCPP_CENTRAL_SYSTEM_URL
+    ? createWebSocketTransport(OCPP_CENTRAL_SYSTEM_URL, chargePointId)
+    : createLocalCentralSystem();
+  return createOcppClient(chargePointId, transport);
+}
+
+function startMeterTimer(sessionId: string): ReturnType<typeof setInterval> {
+  return setInterval(() => {
+    recordMeterValues(sessionId);
+  }, METER_INTERVAL_MS);
+}
+
+/**
+ * Read the meter, save the reading and report it with MeterValues
+ * A reading the central system didn't receive is still kept: StopTransaction carries the
+ * final register, so billing doesn't depend on every MeterValues arriving.
+ */
+async function recordMeterValues(sessionId: string): Promise<void> {
+  const session = sessions.find(s => s.id === sessionId);
+  const current = live.get(sessionId);
+  if (!session || !current || session.status !== 'charging') return;
+
+  const now = new Date();
+  const sample = current.chargePoint.readMeter(now);
+  applySample(session, sample);
+  reconnectIfClosed(current, session);
+  const notices = dueNotices(session, now);
+  session.notices = [...(session.notices || []), ...notices];
+  await persist();
+  notify(session);
+  notices.forEach(notice => sendNotice(session, notice));
+
+  try {
+    await current.client.call('MeterValues', {
+      connectorId: session.connectorId,
+      transactionId: session.transactionId,
+      meterValue: [toMeterValue(sample, 'Sample.Periodic')],
+    });
+  } catch (error) {
+    console.warn(`⚠️ MeterValues not delivered (${session.chargePointId}):`, error);
+  }
+}
+
+async function sendStopTransaction(
+  client: OcppClient,
+  session: ChargingSession,
+  sample: MeterSample,
+  reason: StopReason
+): Promise<void> {
+  await client.call('StopTransaction', {
+    transactionId: session.transactionId,
+    idTag: session.idTag,
+    meterStop: sample.energyWh,
+    timestamp: sample.timestamp,
+    reason,
+    transactionData: [toMeterValue(sample, 'Transaction.End')],
+  });
+}
+
+function applySample(session: ChargingSession, sample: MeterSample): void {
+  session.latest = sample;
+  session.energyKwh = Math.max(0, (sample.energyWh - session.meterStartWh) / 1000);
+  if (sample.powerKW > 0) {
+    session.idleSince = undefined;
+  } else if (!session.idleSince) {
+    session.idleSince = sample.timestamp;
+  }
+}
+
+/**
+ * Notices that became due and haven't been sent for this session yet
+ */
+function dueNotices(session: ChargingSession, at: Date): SessionNotice[] {
+  const sent = session.notices || [];
+  const due: SessionNotice[] = [];
+  const idleMinutes = getIdleMinutes(session, at);
+
+  if (session.idleSince) {
+    due.push('charging_complete');
+  }
+  if (session.idleSince && session.hasIdleFee) {
+    if (idleMinutes > PRICING.idleFeeGracePeriod) {
+      due.push('idle_fee_started'); // No warning once it's too late to heed
+    } else if (idleMinutes >= PRICING.idleFeeGracePeriod - PRICING.idleFeeWarningMinutes) {
+      due.push('grace_ending');
+    }
+  }
+  if (session.reservedUntil && at.getTime() > Date.parse(session.reservedUntil)) {
+    due.push('window_ended');
+  }
+  return due.filter(notice => !sent.includes(notice));
+}
+
+function sendNotice(session: ChargingSession, notice: SessionNotice): void {
+  const feeTerms = `₱${PRICING.idleFeePerMinute.toFixed(2)}/min`;
+  const graceLeft = Math.max(0, PRICING.idleFeeGracePeriod - getIdleMinutes(session, new Date()));
+  const messages: Record<SessionNotice, [string, string]> = {
+    charging_complete: [
+      'Charging complete',
+      session.hasIdleFee
+        ? `Your car is charged at ${session.stationName}. Unplug within ${PRICING.idleFeeGracePeriod} min to avoid idle fees of ${feeTerms}.`
+        : `Your car is charged at ${session.stationName}. Please unplug so others can charge.`,
+    ],
+    grace_ending: [
+      'Idle fees start soon',
+      `Idle fees of ${feeTerms} start in ${graceLeft} min at ${session.stationName}. Stop the session and unplug to avoid them.`,
+    ],
+    idle_fee_started: [
+      'Idle fees are being charged',
+      `You're being charged ${feeTerms} while your car stays plugged in at ${session.stationName}.`,
+    ],
+    window_ended: [
+      'Reservation time is up',
+      `Your reserved time at ${session.stationName} has ended. Please stop charging and unplug so the next driver can charge.`,
+    ],
+  };
+
+  const [title, body] = messages[notice];
+  addNotification(title, body, session.reservationId).catch(error => {
+    console.warn('⚠️ Could not send charging notice:', error);
+  });
+}
+
+function roundPeso(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function toMeterValue(
+  sample: MeterSample,
+  context: 'Sample.Periodic' | 'Transaction.End'
+): MeterValue {
+  const sampledValue: MeterValue['sampledValue'] = [
+    {
+      value: String(sample.energyWh),
+      measurand: 'Energy.Active.Import.Register',
+      unit: 'Wh',
+      context,
+    },
+    { value: String(sample.powerKW), measurand: 'Power.Active.Import', unit: 'kW', context },
+  ];
+  if (sample.socPercent !== undefined) {
+    sampledValue.push({
+      value: String(sample.socPercent),
+      measurand: 'SoC',
+      unit: 'Percent',
+      context,
+    });
+  }
+  return { timestamp: sample.timestamp, sampledValue };
+}
+
+function notify(session: ChargingSession): void {
+  const snapshot = { ...session };
+  listeners.forEach(listener => {
+    try {
+      listener(snapshot);
+    } catch (error) {
+      console.warn('Charging session listener failed:', error);
+    }
+  });
+}
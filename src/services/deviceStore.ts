@@ -1,10 +1,29 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
-// Simple device-scoped storage. Uses a generated device id saved in AsyncStorage so
-// the same physical device gets the same stored data. This is local-only (no backend).
+// Scoped app storage. While a driver is signed in, data is stored under their user id and
+// synced to their account through the identity backend (see authService), so it follows them
+// to other devices; the local copy keeps the app working offline. While signed out, data is
+// stored under a generated device id saved in AsyncStorage. The *ForDevice names predate
+// accounts: they read and write whichever scope is active.
 
 const DEVICE_ID_KEY = 'deviceId';
 
+/**
+ * The signed-in driver's account storage (see authService)
+ */
+export interface UserDataRemote {
+  load<T>(suffix: string): Promise<T | null>;
+  save<T>(suffix: string, value: T): Promise<void>;
+}
+
+interface StorageUser {
+  userId: string;
+  remote: UserDataRemote;
+}
+
+let storageUser: StorageUser | null = null;
+const scopeListeners = new Set<() => void>();
+
 async function generateId() {
   // Simple random id; fine for local device identification
   return `dev-${Math.random().toString(36).slice(2, 10)}-${Date.now().toString(36)}`;
@@ -23,20 +42,137 @@ export async function getDeviceId(): Promise<string> {
   }
 }
 
+/**
+ * Store data for a signed-in driver, or for this device when null
+ * Listeners run when the driver changes, so stores can drop what they cached for the last one.
+ */
+export function setStorageUser(user: StorageUser | null): void {
+  const changed = storageUser?.userId !== user?.userId;
+  storageUser = user;
+  if (changed) {
+    scopeListeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Subscribe to sign-in and sign-out changing where data is stored
+ * @returns Unsubscribe function
+ */
+export function subscribeToStorageScope(listener: () => void): () => void {
+  scopeListeners.add(listener);
+  return () => {
+    scopeListeners.delete(listener);
+  };
+}
+
+/**
+ * Who the stored data belongs to: the signed-in driver's user id, else the device id
+ */
+export async function getStorageOwnerId(): Promise<string> {
+  return storageUser ? storageUser.userId : getDeviceId();
+}
+
 export async function getDeviceKey(suffix: string) {
+  if (storageUser) {
+    return `user:${storageUser.userId}:${suffix}`;
+  }
   const id = await getDeviceId();
   return `device:${id}:${suffix}`;
 }
 
 export async function saveForDevice<T>(suffix: string, value: T): Promise<void> {
+  const user = storageUser;
   const key = await getDeviceKey(suffix);
   await AsyncStorage.setItem(key, JSON.stringify(value));
+  if (user) {
+    await pushToAccount(user, key, suffix, value);
+  }
 }
 
 export async function loadForDevice<T>(suffix: string): Promise<T | null> {
+  const user = storageUser;
   const key = await getDeviceKey(suffix);
   const raw = await AsyncStorage.getItem(key);
-  return raw ? (JSON.parse(raw) as T) : null;
+  const local = raw ? (JSON.parse(raw) as T) : null;
+  if (!user) return local;
+
+  // Changes made offline win over the account's copy
+  if (local !== null && (await AsyncStorage.getItem(`${key}:unsynced`))) {
+    await pushToAccount(user, key, suffix, local);
+    return local;
+  }
+  try {
+    const remote = await user.remote.load<T>(suffix);
+    if (remote === null) {
+      if (local !== null) await pushToAccount(user, key, suffix, local);
+      return local;
+    }
+    await AsyncStorage.setItem(key, JSON.stringify(remote));
+    return remote;
+  } catch (err) {
+    console.warn(`⚠️ Could not load ${suffix} from your account, using this device's copy:`, err);
+    return local;
+  }
+}
+
+/**
+ * Move data saved on this device while signed out into the signed-in driver's account
+ * Lists of records (reservations, payments, sessions, ...) are merged by id, so bookings and
+ * payment holds made while signed out aren't lost; for other values the account's copy is
+ * kept. The device copies are removed either way, so the next driver to sign in on this
+ * device doesn't get them.
+ */
+export async function claimDeviceData(): Promise<void> {
+  if (!storageUser) return;
+  const prefix = `device:${await getDeviceId()}:`;
+  const keys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(prefix));
+  for (const key of keys) {
+    const raw = await AsyncStorage.getItem(key);
+    if (!raw) continue;
+    const suffix = key.slice(prefix.length);
+    const local = JSON.parse(raw);
+    const account = await loadForDevice<unknown>(suffix);
+    if (account === null) {
+      await saveForDevice(suffix, local);
+    } else if (Array.isArray(account) && Array.isArray(local)) {
+      const merged = mergeById(account, local);
+      if (merged.length > account.length) {
+        await saveForDevice(suffix, merged);
+      }
+    }
+  }
+  await AsyncStorage.multiRemove(keys);
+}
+
+/**
+ * The account's records followed by the device's records it doesn't have
+ * Records are matched by id, or by their whole value when they have none.
+ */
+function mergeById(account: unknown[], device: unknown[]): unknown[] {
+  const idOf = (record: unknown) =>
+    record && typeof record === 'object' && 'id' in record
+      ? String(record.id)
+      : JSON.stringify(record);
+  const known = new Set(account.map(idOf));
+  return [...account, ...device.filter(record => !known.has(idOf(record)))];
+}
+
+/**
+ * Save a value to the driver's account, flagging it for a retry if that fails (e.g. offline)
+ */
+async function pushToAccount<T>(
+  user: StorageUser,
+  key: string,
+  suffix: string,
+  value: T
+): Promise<void> {
+  try {
+    await user.remote.save(suffix, value);
+    await AsyncStorage.removeItem(`${key}:unsynced`);
+  } catch (err) {
+    console.warn(`⚠️ Could not save ${suffix} to your account; will retry:`, err);
+    await AsyncStorage.setItem(`${key}:unsynced`, '1');
+  }
 }
 
 // For compatibility with existing code that expects a global 'vehicleData' key,
@@ -52,7 +188,8 @@ export async function saveVehicleData(deviceScoped: any): Promise<void> {
 
 export async function loadVehicleData(): Promise<any | null> {
   const dev = await loadForDevice<any>('vehicleData');
-  if (dev) return dev;
+  // The global key may hold another driver's vehicle; only fall back to it while signed out
+  if (dev || storageUser) return dev;
   try {
     const raw = await AsyncStorage.getItem('vehicleData');
     return raw ? JSON.parse(raw) : null;
@@ -68,3 +205,35 @@ export async function saveReservationsForDevice<T>(reservations: T): Promise<voi
 export async function loadReservationsForDevice<T>(): Promise<T | null> {
   return await loadForDevice<T>('reservations');
 }
+
+export async function saveChargingSessionsForDevice<T>(sessions: T): Promise<void> {
+  await saveForDevice('chargingSessions', sessions);
+}
+
+export async function loadChargingSessionsForDevice<T>(): Promise<T | null> {
+  return await loadForDevice<T>('chargingSessions');
+}
+
+export async function saveNotificationsForDevice<T>(notifications: T): Promise<void> {
+  await saveForDevice('notifications', notifications);
+}
+
+export async function loadNotificationsForDevice<T>(): Promise<T | null> {
+  return await loadForDevice<T>('notifications');
+}
+
+export async function savePaymentMethodsForDevice<T>(methods: T): Promise<void> {
+  await saveForDevice('paymentMethods', methods);
+}
+
+export async function loadPaymentMethodsForDevice<T>(): Promise<T | null> {
+  return await loadForDevice<T>('paymentMethods');
+}
+
+export async function savePaymentsForDevice<T>(payments: T): Promise<void> {
+  await saveForDevice('payments', payments);
+}
+
+export async function loadPaymentsForDevice<T>(): Promise<T | null> {
+  return await loadForDevice<T>('payments');
+}
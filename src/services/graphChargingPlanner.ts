@@ -0,0 +1,376 @@
+/**
+ * Graph-Search Charging Planner
+ * Alternative to the greedy optimizer: searches every combination of stops at once.
+ * Nodes are (place, state of charge) pairs - the origin, each station positioned on the
+ * route and the destination. Drive edges spend energy, charge edges move to a higher SoC
+ * level using the vehicle's charge curve. Dijkstra then finds the plan with the lowest
+ * total time or cost that never drops below minimumArrival.
+ *
+ * With a trip schedule, each search state also carries the trip clock so stations that would
+ * be closed on arrival are skipped. The clock follows the path being extended, so this is a
+ * (very good) heuristic rather than an exact time-dependent search.
+ */
+
+import {
+  STANDARD_VEHICLE,
+  calculateChargingTime,
+  getConsumptionMultiplier,
+  CHARGING_TARGET_PERCENT,
+  isStationCompatible,
+  getEffectiveChargingPower,
+  PRICING,
+} from './standardVehicleModel';
+import {
+  OptimizedRoute,
+  OptimizedStop,
+  OptimizeRouteOptions,
+  RouteStation,
+  StrategyType,
+  getStrategy,
+  positionStationsOnRoute,
+  determineStopReason,
+  getArrivalMinutes,
+  getLegTrafficMultiplier,
+  isOpenOnArrival,
+} from './chargingOptimizer';
+import { isStationAccessible } from './stationAccess';
+import { getEquivalentDistance } from './terrainModel';
+import { Station } from '@/types/station';
+import { PlannerObjective } from '@/types/route-calculation';
+
+/**
+ * SoC levels a stop can charge to, in % (10, 15, ... CHARGING_TARGET_PERCENT)
+ */
+const SOC_STEP = 5;
+
+/**
+ * Smallest charge worth stopping for (%)
+ */
+const MIN_CHARGE_PERCENT = 5;
+
+/**
+ * Fixed time per stop for parking and plugging in (minutes)
+ * Keeps the time objective from splitting one stop into several tiny ones
+ */
+const STOP_OVERHEAD_MINUTES = 5;
+
+/**
+ * Average speed on the detour to and from a station (km/h)
+ */
+const DETOUR_SPEED_KMH = 40;
+
+/**
+ * Search state: leaving a node with a given state of charge
+ */
+interface SearchState {
+  node: number; // 0 = origin, 1..n = stations, n + 1 = destination
+  soc: number; // % when leaving the node (arrival % at the destination)
+  weight: number; // Accumulated objective value
+  arrivalSoC: number; // % when arriving at the node
+  elapsed: number; // Minutes into the trip when leaving the node
+  previous: SearchState | null;
+}
+
+/**
+ * Plan charging stops with a global search over stations and SoC levels
+ * Returns the same shape as optimizeRoute so both planners can be compared side by side.
+ * @param strategyType Only used to describe each stop; the objective decides the plan
+ * @param objective 'time' minimizes charging + detour time, 'cost' minimizes charging spend
+ */
+export function planRouteWithGraphSearch(
+  totalDistance: number,
+  currentBattery: number,
+  availableStations: Station[],
+  minimumArrival: number,
+  strategyType: StrategyType,
+  objective: PlannerObjective = 'time',
+  trafficMultiplier: number = 1.0,
+  options: OptimizeRouteOptions = {}
+): OptimizedRoute {
+  const {
+    vehicle = STANDARD_VEHICLE,
+    routePolyline = [],
+    maxDetourKm = 5,
+    terrainProfile,
+    consumptionProfile,
+    schedule,
+  } = options;
+  const strategy = getStrategy(strategyType);
+
+  const compatibleStations = availableStations.filter(
+    station => isStationCompatible(station.plugTypes, vehicle) && isStationAccessible(station)
+  );
+  const routeStations = positionStationsOnRoute(compatibleStations, routePolyline, totalDistance)
+    .filter(candidate => candidate.detourKm <= maxDetourKm)
+    .sort(
+      (a, b) =>
+        a.distanceAlongRoute - b.distanceAlongRoute || a.station.id.localeCompare(b.station.id)
+    );
+
+  console.warn('🧭 STARTING GRAPH SEARCH:', {
+    vehicle: vehicle.name,
+    totalDistance: `${totalDistance.toFixed(1)} km`,
+    currentBattery: `${currentBattery}%`,
+    stationsOnRoute: routeStations.length,
+    minimumArrival: `${minimumArrival}%`,
+    objective,
+  });
+
+  // With a schedule, each drive edge uses the traffic when it is driven (see
+  // getLegTrafficMultiplier); without one, trafficMultiplier applies to the whole trip
+  const styleConsumption = vehicle.avgConsumption * getConsumptionMultiplier(consumptionProfile);
+  const consumptionOnLeg = (startMinutes: number, roadKm: number) =>
+    styleConsumption *
+    (schedule ? getLegTrafficMultiplier(schedule, startMinutes, roadKm) : trafficMultiplier);
+  const percentForDistance = (km: number, consumption: number) =>
+    ((km * consumption) / vehicle.batteryCapacity) * 100;
+
+  // Node positions: origin, stations (sorted along the route), destination
+  const destination = routeStations.length + 1;
+  const positionOf = (node: number) =>
+    node === 0
+      ? 0
+      : node === destination
+        ? totalDistance
+        : routeStations[node - 1].distanceAlongRoute;
+  const detourOf = (node: number) =>
+    node === 0 || node === destination ? 0 : routeStations[node - 1].detourKm;
+
+  const chargeLevels: number[] = [];
+  for (let level = SOC_STEP * 2; level <= CHARGING_TARGET_PERCENT; level += SOC_STEP) {
+    chargeLevels.push(level);
+  }
+
+  // Charging time depends only on power and SoC window, so cache it across the search
+  const chargingTimeCache = new Map<string, number>();
+  const chargingMinutes = (power: number, from: number, to: number) => {
+    const key = `${power}:${Math.floor(from)}:${to}`;
+    let minutes = chargingTimeCache.get(key);
+    if (minutes === undefined) {
+      minutes = calculateChargingTime(Math.floor(from), to, power, vehicle);
+      chargingTimeCache.set(key, minutes);
+    }
+    return minutes;
+  };
+
+  // Time spent at a station: plugging in and charging
+  const stationMinutes = (routeStation: RouteStation, arrival: number, departure: number) => {
+    const { station } = routeStation;
+    const power = getEffectiveChargingPower(station.powerKW || 50, station.plugTypes, vehicle);
+    return chargingMinutes(power, arrival, departure) + STOP_OVERHEAD_MINUTES;
+  };
+
+  const stopWeight = (routeStation: RouteStation, arrival: number, departure: number) => {
+    const { station } = routeStation;
+    const minutes =
+      stationMinutes(routeStation, arrival, departure) +
+      ((routeStation.detourKm * 2) / DETOUR_SPEED_KMH) * 60;
+    if (objective === 'time') return minutes;
+
+    const energyAdded = ((departure - arrival) / 100) * vehicle.batteryCapacity;
+    const cost =
+      energyAdded * (station.pricePerKwh || PRICING.defaultPricePerKwh) +
+      (station.connectionFee || PRICING.connectionFee);
+    // Time only breaks ties between equally priced plans
+    return cost + minutes * 0.01;
+  };
+
+  // Dijkstra over (node, departure SoC); the origin's SoC is whatever the user has now
+  const best = new Map<string, number>();
+  const queue = new MinHeap<SearchState>((a, b) => a.weight - b.weight);
+  queue.push({
+    node: 0,
+    soc: currentBattery,
+    weight: 0,
+    arrivalSoC: currentBattery,
+    elapsed: 0,
+    previous: null,
+  });
+  let goal: SearchState | null = null;
+
+  while (queue.size > 0) {
+    const state = queue.pop()!;
+    if (state.node === destination) {
+      goal = state;
+      break;
+    }
+    const key = `${state.node}:${state.soc}`;
+    if ((best.get(key) ?? Infinity) < state.weight) continue;
+
+    const fromPosition = positionOf(state.node);
+    const fromDetour = detourOf(state.node);
+
+    for (let next = state.node + 1; next <= destination; next++) {
+      // A node out of reach doesn't rule out later ones: regen on a descent or lighter traffic
+      // on a longer leg can make a farther node cheaper to reach, so every node is checked
+      const legKm = fromDetour + positionOf(next) - fromPosition + detourOf(next);
+      const consumption = consumptionOnLeg(state.elapsed, legKm);
+      const driveKm =
+        fromDetour +
+        getEquivalentDistance(terrainProfile, fromPosition, positionOf(next)) +
+        detourOf(next);
+      const arrival = state.soc - percentForDistance(driveKm, consumption);
+      if (arrival < minimumArrival) continue;
+
+      if (next === destination) {
+        queue.push({
+          node: next,
+          soc: arrival,
+          weight: state.weight,
+          arrivalSoC: arrival,
+          elapsed: state.elapsed,
+          previous: state,
+        });
+        continue;
+      }
+      if (positionOf(next) <= fromPosition) continue;
+
+      const routeStation = routeStations[next - 1];
+      const arrivalMinutes = schedule ? getArrivalMinutes(schedule, state.elapsed, legKm) : 0;
+      if (!isOpenOnArrival(routeStation.station, schedule, arrivalMinutes)) continue;
+
+      chargeLevels.forEach(level => {
+        if (level - arrival < MIN_CHARGE_PERCENT) return;
+        const weight = state.weight + stopWeight(routeStation, arrival, level);
+        const nextKey = `${next}:${level}`;
+        if (weight < (best.get(nextKey) ?? Infinity)) {
+          best.set(nextKey, weight);
+          queue.push({
+            node: next,
+            soc: level,
+            weight,
+            arrivalSoC: arrival,
+            elapsed: arrivalMinutes + stationMinutes(routeStation, arrival, level),
+            previous: state,
+          });
+        }
+      });
+    }
+  }
+
+  if (!goal) {
+    console.warn(
+      '❌ Graph search found no plan that keeps the battery above',
+      `${minimumArrival}%`
+    );
+    return {
+      stops: [],
+      totalChargingTime: 0,
+      totalCost: 0,
+      totalDistance,
+      strategy: strategyType,
+      finalBattery: Math.max(
+        currentBattery -
+          percentForDistance(
+            getEquivalentDistance(terrainProfile, 0, totalDistance),
+            consumptionOnLeg(0, totalDistance)
+          ),
+        0
+      ),
+      feasible: false,
+    };
+  }
+
+  // Walk back from the destination to rebuild the stops in order
+  const path: SearchState[] = [];
+  for (let state = goal.previous; state && state.node !== 0; state = state.previous) {
+    path.unshift(state);
+  }
+
+  const stops: OptimizedStop[] = path.map(state => {
+    const routeStation = routeStations[state.node - 1];
+    const { station } = routeStation;
+    const power = getEffectiveChargingPower(station.powerKW || 50, station.plugTypes, vehicle);
+    const energyAdded = ((state.soc - state.arrivalSoC) / 100) * vehicle.batteryCapacity;
+    const remainingAfterStop =
+      totalDistance - routeStation.distanceAlongRoute + routeStation.detourKm;
+
+    return {
+      station,
+      arrivalBattery: state.arrivalSoC,
+      departureBattery: state.soc,
+      chargingTime: calculateChargingTime(state.arrivalSoC, state.soc, power, vehicle),
+      energyAdded,
+      cost:
+        energyAdded * (station.pricePerKwh || PRICING.defaultPricePerKwh) +
+        (station.connectionFee || PRICING.connectionFee),
+      distanceFromStart: routeStation.distanceAlongRoute,
+      detourKm: routeStation.detourKm,
+      reasonForStop: determineStopReason(
+        state.arrivalSoC,
+        strategy,
+        remainingAfterStop,
+        minimumArrival
+      ),
+    };
+  });
+
+  const totalChargingTime = stops.reduce((sum, stop) => sum + stop.chargingTime, 0);
+  const totalCost = stops.reduce((sum, stop) => sum + stop.cost, 0);
+
+  console.warn('🏁 GRAPH SEARCH COMPLETE:', {
+    totalStops: stops.length,
+    stations: stops.map(stop => stop.station.id),
+    totalChargingTime: `${totalChargingTime} min`,
+    totalCost: `₱${totalCost.toFixed(2)}`,
+    finalBattery: `${goal.soc.toFixed(1)}%`,
+  });
+
+  return {
+    stops,
+    totalChargingTime,
+    totalCost,
+    totalDistance,
+    strategy: strategyType,
+    finalBattery: Math.max(goal.soc, 0),
+    feasible: true,
+  };
+}
+
+/**
+ * Minimal binary heap used as the search's priority queue
+ */
+class MinHeap<T> {
+  private items: T[] = [];
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(items[index], items[parent]) >= 0) break;
+      [items[index], items[parent]] = [items[parent], items[index]];
+      index = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < items.length && this.compare(items[left], items[smallest]) < 0) smallest = left;
+        if (right < items.length && this.compare(items[right], items[smallest]) < 0) {
+          smallest = right;
+        }
+        if (smallest === index) break;
+        [items[index], items[smallest]] = [items[smallest], items[index]];
+        index = smallest;
+      }
+    }
+    return top;
+  }
+}
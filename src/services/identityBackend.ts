@@ -0,0 +1,61 @@
+/**
+ * Identity Backend
+ * Adapter between the app and the account service: it creates accounts, signs drivers in with
+ * a password or an SMS code, issues and refreshes tokens, and stores each driver's app data
+ * (reservations, payment methods, vehicle, ...) so it follows them to any device they sign in on.
+ *
+ * The local backend (see localIdentityBackend) is used until a real adapter is registered with
+ * setIdentityBackend.
+ */
+
+import { AuthSession, AuthTokens, OtpChallenge } from '@/types/auth';
+import { createLocalIdentityBackend } from './localIdentityBackend';
+
+export interface IdentityBackend {
+  /**
+   * Create an email account and sign it in
+   * Throws if the email is already registered.
+   */
+  signUp(name: string, email: string, password: string): Promise<AuthSession>;
+  /**
+   * Throws if the email or password is wrong
+   */
+  signIn(email: string, password: string): Promise<AuthSession>;
+  /**
+   * Send a one-time code by SMS to a mobile number (09XXXXXXXXX)
+   */
+  requestOtp(phone: string): Promise<OtpChallenge>;
+  /**
+   * Sign in with the code sent by SMS, creating the account on first sign-in
+   * Throws if the code is wrong or has expired.
+   */
+  verifyOtp(phone: string, code: string): Promise<AuthSession>;
+  /**
+   * New tokens for a refresh token; the old refresh token stops working
+   * Throws an AUTH_EXPIRED error if the refresh token is no longer valid.
+   */
+  refresh(refreshToken: string): Promise<AuthTokens>;
+  /**
+   * Revoke a refresh token and the access tokens issued with it
+   */
+  signOut(refreshToken: string): Promise<void>;
+  /**
+   * The signed-in driver's stored value for a key, or null
+   * Throws an AUTH_EXPIRED error if the access token has expired.
+   */
+  loadUserData<T>(accessToken: string, key: string): Promise<T | null>;
+  saveUserData<T>(accessToken: string, key: string, value: T): Promise<void>;
+}
+
+let backend: IdentityBackend = createLocalIdentityBackend();
+
+export function getIdentityBackend(): IdentityBackend {
+  return backend;
+}
+
+/**
+ * Use a different identity backend (e.g. the production account service)
+ */
+export function setIdentityBackend(next: IdentityBackend): void {
+  backend = next;
+}
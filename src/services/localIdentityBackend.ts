@@ -0,0 +1,281 @@
+/**
+ * Local Identity Backend
+ * Mock of the account service for development and demos, used while there is none to talk to.
+ * It keeps accounts, tokens and each driver's data in AsyncStorage outside any signed-in scope,
+ * the way a real service keeps them server-side, and enforces the same rules: access tokens
+ * expire after ACCESS_TOKEN_TTL_MS, refresh tokens are rotated on use and SMS codes expire, allow
+ * MAX_OTP_ATTEMPTS tries and can't be resent within OTP_RESEND_MS.
+ *
+ * It is not secure storage for real passwords: they are hashed once with SHA-256 and a salt,
+ * which is fast to brute-force. A real backend hashes them server-side with a slow KDF (bcrypt,
+ * scrypt, Argon2 or PBKDF2 with a high iteration count).
+ *
+ * It can't send SMS: the code is returned as the challenge's testCode for the sign-in screen to
+ * show, like a sandbox SMS provider's test inbox. Data only follows the driver to other devices
+ * with a real backend; locally it is shared by every account signed in on this install.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { AUTH_EXPIRED, AuthSession, AuthTokens, AuthUser, OtpChallenge } from '@/types/auth';
+import {
+  normalizeEmail,
+  OTP_LENGTH,
+  validateEmail,
+  validateMobileNumber,
+  validateName,
+  validatePassword,
+} from './authValidation';
+import { IdentityBackend } from './identityBackend';
+import { normalizePhMobileNumber } from './paymentValidation';
+
+const LOCAL_LATENCY_MS = 300; // Reply delay, so screens show their pending states
+const STATE_KEY = 'localIdentityBackend';
+const DATA_KEY_PREFIX = 'localIdentityBackend:data';
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const OTP_TTL_MS = 5 * 60 * 1000;
+const OTP_RESEND_MS = 30 * 1000;
+const MAX_OTP_ATTEMPTS = 5;
+
+interface LocalAccount {
+  user: AuthUser;
+  salt?: string; // Email accounts only
+  passwordHash?: string; // SHA-256 of salt + password (mock only, see above)
+}
+
+interface LocalChallenge {
+  code: string;
+  expiresAt: number;
+  resendAfter: number;
+  attempts: number;
+}
+
+interface LocalGrant {
+  userId: string;
+  expiresAt: number;
+  refreshToken?: string; // Access tokens: the refresh token they were issued with
+}
+
+interface LocalIdentityState {
+  accounts: Record<string, LocalAccount>; // user id → account
+  emails: Record<string, string>; // email → user id
+  phones: Record<string, string>; // phone → user id
+  challenges: Record<string, LocalChallenge>; // phone → pending SMS code
+  accessTokens: Record<string, LocalGrant>;
+  refreshTokens: Record<string, LocalGrant>;
+}
+
+/**
+ * Connection to the in-process identity backend
+ */
+export function createLocalIdentityBackend(): IdentityBackend {
+  let state: Promise<LocalIdentityState> | null = null;
+
+  const load = () => {
+    if (!state) {
+      state = AsyncStorage.getItem(STATE_KEY).then(raw =>
+        raw
+          ? (JSON.parse(raw) as LocalIdentityState)
+          : {
+              accounts: {},
+              emails: {},
+              phones: {},
+              challenges: {},
+              accessTokens: {},
+              refreshTokens: {},
+            }
+      );
+    }
+    return state;
+  };
+
+  /**
+   * Run an operation against the state after the simulated network delay, then save it
+   */
+  const respond = async <T>(operation: (current: LocalIdentityState) => Promise<T> | T) => {
+    await new Promise(resolve => setTimeout(resolve, LOCAL_LATENCY_MS));
+    const current = await load();
+    try {
+      return await operation(current);
+    } finally {
+      // Saved even when the operation fails, so OTP attempts and spent challenges stick
+      await AsyncStorage.setItem(STATE_KEY, JSON.stringify(current));
+    }
+  };
+
+  // A single fast hash, enough to keep demo passwords out of plain text; not a KDF
+  const hashPassword = (salt: string, password: string) =>
+    Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${password}`);
+
+  const issueTokens = (current: LocalIdentityState, userId: string): AuthTokens => {
+    const now = Date.now();
+    const refreshToken = `rt_local_${Crypto.randomUUID()}`;
+    const accessToken = `at_local_${Crypto.randomUUID()}`;
+    current.refreshTokens[refreshToken] = { userId, expiresAt: now + REFRESH_TOKEN_TTL_MS };
+    current.accessTokens[accessToken] = {
+      userId,
+      expiresAt: now + ACCESS_TOKEN_TTL_MS,
+      refreshToken,
+    };
+    pruneExpired(current, now);
+    return {
+      accessToken,
+      accessTokenExpiresAt: new Date(now + ACCESS_TOKEN_TTL_MS).toISOString(),
+      refreshToken,
+      refreshTokenExpiresAt: new Date(now + REFRESH_TOKEN_TTL_MS).toISOString(),
+    };
+  };
+
+  const createAccount = (current: LocalIdentityState, user: Omit<AuthUser, 'id' | 'createdAt'>) => {
+    const account: LocalAccount = {
+      user: { ...user, id: `usr_${Crypto.randomUUID()}`, createdAt: new Date().toISOString() },
+    };
+    current.accounts[account.user.id] = account;
+    return account;
+  };
+
+  const authorizedUserId = async (accessToken: string) => {
+    const grant = (await load()).accessTokens[accessToken];
+    if (!grant || grant.expiresAt <= Date.now()) {
+      throw new Error(AUTH_EXPIRED);
+    }
+    return grant.userId;
+  };
+
+  const dataKey = (userId: string, key: string) => `${DATA_KEY_PREFIX}:${userId}:${key}`;
+
+  return {
+    signUp(name, email, password) {
+      return respond<AuthSession>(async current => {
+        const invalid = validateName(name) || validateEmail(email) || validatePassword(password);
+        if (invalid) {
+          throw new Error(invalid);
+        }
+        const normalized = normalizeEmail(email);
+        if (current.emails[normalized]) {
+          throw new Error('An account with this email already exists');
+        }
+
+        const salt = Crypto.randomUUID();
+        const passwordHash = await hashPassword(salt, password);
+        const account = createAccount(current, { name: name.trim(), email: normalized });
+        account.salt = salt;
+        account.passwordHash = passwordHash;
+        current.emails[normalized] = account.user.id;
+        return { user: account.user, tokens: issueTokens(current, account.user.id) };
+      });
+    },
+    signIn(email, password) {
+      return respond<AuthSession>(async current => {
+        const account = current.accounts[current.emails[normalizeEmail(email)]];
+        const matches =
+          account?.salt && (await hashPassword(account.salt, password)) === account.passwordHash;
+        if (!account || !matches) {
+          throw new Error('Incorrect email or password');
+        }
+        return { user: account.user, tokens: issueTokens(current, account.user.id) };
+      });
+    },
+    requestOtp(phone) {
+      return respond<OtpChallenge>(current => {
+        const invalid = validateMobileNumber(phone);
+        const normalized = normalizePhMobileNumber(phone);
+        if (invalid || !normalized) {
+          throw new Error(invalid || 'Enter your mobile number');
+        }
+        const now = Date.now();
+        const pending = current.challenges[normalized];
+        if (pending && pending.resendAfter > now) {
+          const seconds = Math.ceil((pending.resendAfter - now) / 1000);
+          throw new Error(`Wait ${seconds} s before requesting another code`);
+        }
+
+        const code = Array.from(Crypto.getRandomBytes(OTP_LENGTH), byte => byte % 10).join('');
+        const challenge = {
+          code,
+          expiresAt: now + OTP_TTL_MS,
+          resendAfter: now + OTP_RESEND_MS,
+          attempts: 0,
+        };
+        current.challenges[normalized] = challenge;
+        return {
+          phone: normalized,
+          expiresAt: new Date(challenge.expiresAt).toISOString(),
+          resendAfter: new Date(challenge.resendAfter).toISOString(),
+          testCode: code,
+        };
+      });
+    },
+    verifyOtp(phone, code) {
+      return respond<AuthSession>(current => {
+        const normalized = normalizePhMobileNumber(phone) || phone;
+        const challenge = current.challenges[normalized];
+        if (!challenge || challenge.expiresAt <= Date.now()) {
+          delete current.challenges[normalized];
+          throw new Error('This code has expired. Request a new one.');
+        }
+        if (challenge.code !== code.trim()) {
+          challenge.attempts++;
+          if (challenge.attempts >= MAX_OTP_ATTEMPTS) {
+            delete current.challenges[normalized];
+            throw new Error('Too many wrong codes. Request a new one.');
+          }
+          throw new Error('That code is not right. Check the SMS and try again.');
+        }
+
+        delete current.challenges[normalized];
+        let account = current.accounts[current.phones[normalized]];
+        if (!account) {
+          account = createAccount(current, {
+            name: `Driver ${normalized.slice(-4)}`,
+            phone: normalized,
+          });
+          current.phones[normalized] = account.user.id;
+        }
+        return { user: account.user, tokens: issueTokens(current, account.user.id) };
+      });
+    },
+    refresh(refreshToken) {
+      return respond<AuthTokens>(current => {
+        const grant = current.refreshTokens[refreshToken];
+        if (!grant || grant.expiresAt <= Date.now()) {
+          throw new Error(AUTH_EXPIRED);
+        }
+        revoke(current, refreshToken);
+        return issueTokens(current, grant.userId);
+      });
+    },
+    signOut(refreshToken) {
+      return respond(current => revoke(current, refreshToken));
+    },
+    async loadUserData<T>(accessToken: string, key: string) {
+      // Data calls reply without the simulated delay, as stores save on every change
+      const userId = await authorizedUserId(accessToken);
+      const raw = await AsyncStorage.getItem(dataKey(userId, key));
+      return raw ? (JSON.parse(raw) as T) : null;
+    },
+    async saveUserData<T>(accessToken: string, key: string, value: T) {
+      const userId = await authorizedUserId(accessToken);
+      await AsyncStorage.setItem(dataKey(userId, key), JSON.stringify(value));
+    },
+  };
+}
+
+/**
+ * Remove a refresh token and the access tokens issued with it
+ */
+function revoke(state: LocalIdentityState, refreshToken: string): void {
+  delete state.refreshTokens[refreshToken];
+  Object.entries(state.accessTokens).forEach(([token, grant]) => {
+    if (grant.refreshToken === refreshToken) delete state.accessTokens[token];
+  });
+}
+
+function pruneExpired(state: LocalIdentityState, now: number): void {
+  [state.accessTokens, state.refreshTokens].forEach(grants =>
+    Object.entries(grants).forEach(([token, grant]) => {
+      if (grant.expiresAt <= now) delete grants[token];
+    })
+  );
+}
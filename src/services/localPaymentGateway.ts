@@ -0,0 +1,152 @@
+/**
+ * Local Payment Gateway
+ * In-process stand-in for a payment gateway while there is no PSP account to talk to
+ * (development and demos). It keeps its own ledger of tokens and holds, persisted per device
+ * the way a real gateway keeps them server-side, and enforces the same rules: captures and
+ * refunds can't exceed what was held or captured, and settled holds can't be reused.
+ *
+ * Test details that fail, like a sandbox gateway's:
+ * - cards ending in 0002 are declined
+ * - cards ending in 9995 have insufficient funds
+ * - wallets registered to a number ending in 0000 are declined
+ */
+
+import { CardDetails, WalletDetails } from '@/types/payment';
+import { loadForDevice, saveForDevice, subscribeToStorageScope } from './deviceStore';
+import { GatewayToken, PaymentGateway } from './paymentGateway';
+import { detectCardBrand, normalizeCardNumber } from './paymentValidation';
+
+const LOCAL_LATENCY_MS = 300; // Reply delay, so screens show their pending states
+const LEDGER_KEY = 'localPaymentGateway';
+
+type HoldStatus = 'authorized' | 'captured' | 'voided';
+
+interface LocalHold {
+  token: string;
+  amount: number;
+  status: HoldStatus;
+  captured: number;
+  refunded: number;
+}
+
+interface LocalLedger {
+  declines: Record<string, string>; // token → decline reason for test details
+  holds: Record<string, LocalHold>; // reference → hold
+}
+
+/**
+ * Connection to the in-process gateway
+ */
+export function createLocalPaymentGateway(): PaymentGateway {
+  let ledger: Promise<LocalLedger> | null = null;
+  subscribeToStorageScope(() => {
+    ledger = null;
+  });
+
+  const load = () => {
+    if (!ledger) {
+      ledger = loadForDevice<LocalLedger>(LEDGER_KEY).then(
+        stored => stored || { declines: {}, holds: {} }
+      );
+    }
+    return ledger;
+  };
+
+  /**
+   * Run an operation against the ledger after the simulated network delay, then save it
+   */
+  const respond = async <T>(operation: (state: LocalLedger) => T): Promise<T> => {
+    await new Promise(resolve => setTimeout(resolve, LOCAL_LATENCY_MS));
+    const state = await load();
+    const result = operation(state);
+    await saveForDevice(LEDGER_KEY, state);
+    return result;
+  };
+
+  const newId = (prefix: string) =>
+    `${prefix}_local_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+  const getHold = (state: LocalLedger, reference: string): LocalHold => {
+    const hold = state.holds[reference];
+    if (!hold) {
+      throw new Error(`Unknown payment ${reference}`);
+    }
+    return hold;
+  };
+
+  const checkAmount = (amount: number) => {
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error(`Invalid amount ₱${amount}`);
+    }
+  };
+
+  return {
+    tokenizeCard(card: CardDetails) {
+      return respond<GatewayToken>(state => {
+        const digits = normalizeCardNumber(card.number);
+        const token = newId('tok');
+        if (digits.endsWith('0002')) state.declines[token] = 'Your card was declined';
+        if (digits.endsWith('9995')) state.declines[token] = 'Insufficient funds';
+        return { token, brand: detectCardBrand(digits) };
+      });
+    },
+    linkWallet(wallet: WalletDetails) {
+      return respond<GatewayToken>(state => {
+        const token = newId('tok');
+        if (wallet.mobileNumber.endsWith('0000')) {
+          state.declines[token] = 'Your wallet declined the payment';
+        }
+        return { token };
+      });
+    },
+    authorize(token, amount) {
+      return respond(state => {
+        checkAmount(amount);
+        const decline = state.declines[token];
+        if (decline) {
+          throw new Error(decline);
+        }
+        const reference = newId('auth');
+        state.holds[reference] = { token, amount, status: 'authorized', captured: 0, refunded: 0 };
+        return reference;
+      });
+    },
+    capture(reference, amount) {
+      return respond(state => {
+        const hold = getHold(state, reference);
+        if (hold.status !== 'authorized') {
+          throw new Error(`Payment ${reference} is already ${hold.status}`);
+        }
+        if (amount < 0 || amount > hold.amount + 0.005) {
+          throw new Error(
+            `Cannot capture ₱${amount.toFixed(2)} of a ₱${hold.amount.toFixed(2)} hold`
+          );
+        }
+        hold.captured = amount;
+        hold.status = 'captured';
+      });
+    },
+    void(reference) {
+      return respond(state => {
+        const hold = getHold(state, reference);
+        if (hold.status !== 'authorized') {
+          throw new Error(`Payment ${reference} is already ${hold.status}`);
+        }
+        hold.status = 'voided';
+      });
+    },
+    refund(reference, amount) {
+      return respond(state => {
+        checkAmount(amount);
+        const hold = getHold(state, reference);
+        if (hold.status !== 'captured') {
+          throw new Error(`Payment ${reference} has not been captured`);
+        }
+        if (hold.refunded + amount > hold.captured + 0.005) {
+          throw new Error(`Cannot refund more than the ₱${hold.captured.toFixed(2)} captured`);
+        }
+        hold.refunded += amount;
+      });
+    },
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Manila Time
+ * Wall-clock helpers for Asia/Manila so planned times (ETAs, traffic periods, reservation
+ * windows) read the same whatever time zone the device is set to.
+ *
+ * The Philippines has no daylight saving time, so Manila is always UTC+8 and a fixed offset is
+ * exact; this also avoids relying on Intl time zone support in the JS engine.
+ */
+
+export const MANILA_TIME_ZONE = 'Asia/Manila';
+const MANILA_OFFSET_MINUTES = 8 * 60;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface ManilaClock {
+  year: number;
+  month: number; // 1-12
+  day: number; // Day of month
+  weekday: number; // 0 = Sunday, 6 = Saturday
+  hours: number; // 0-23
+  minutes: number;
+}
+
+/**
+ * Wall-clock fields of an instant in Manila
+ */
+export function getManilaClock(date: Date): ManilaClock {
+  const shifted = new Date(date.getTime() + MANILA_OFFSET_MINUTES * 60_000);
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    weekday: shifted.getUTCDay(),
+    hours: shifted.getUTCHours(),
+    minutes: shifted.getUTCMinutes(),
+  };
+}
+
+/**
+ * ISO 8601 timestamp in Manila local time with its offset, e.g. 2025-03-14T16:30:00+08:00
+ * Date.parse reads it back as the same instant.
+ */
+export function toManilaISOString(date: Date): string {
+  const shifted = new Date(date.getTime() + MANILA_OFFSET_MINUTES * 60_000);
+  return `${shifted.toISOString().slice(0, 19)}+08:00`;
+}
+
+/**
+ * Manila calendar date, e.g. 2025-03-14
+ * @param value Date or ISO string
+ */
+export function formatManilaDate(value: Date | string): string {
+  return toManilaISOString(typeof value === 'string' ? new Date(value) : value).slice(0, 10);
+}
+
+/**
+ * Midnight in Manila on a calendar date
+ * @param month 1-12; days past the end of the month roll over, and day 0 is the month's eve
+ */
+export function fromManilaDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day) - MANILA_OFFSET_MINUTES * 60_000);
+}
+
+/**
+ * Midnight in Manila at the start of the day an instant falls on
+ */
+export function startOfManilaDay(date: Date): Date {
+  const clock = getManilaClock(date);
+  return fromManilaDate(clock.year, clock.month, clock.day);
+}
+
+/**
+ * Manila clock time for display, e.g. "4:30 PM", or "Sat 4:30 PM" with the weekday
+ * @param value Date or ISO string
+ * @param withWeekday Prefix the weekday (for trips that run past midnight)
+ */
+export function formatManilaTime(value: Date | string, withWeekday: boolean = false): string {
+  const clock = getManilaClock(typeof value === 'string' ? new Date(value) : value);
+  const time = formatClockTime(clock.hours * 60 + clock.minutes);
+  return withWeekday ? `${WEEKDAYS[clock.weekday]} ${time}` : time;
+}
+
+/**
+ * 12-hour clock time for minutes after midnight, e.g. 1290 → "9:30 PM"
+ */
+export function formatClockTime(minutesAfterMidnight: number): string {
+  const hours = Math.floor(minutesAfterMidnight / 60) % 24;
+  const minutes = minutesAfterMidnight % 60;
+  const period = hours < 12 ? 'AM' : 'PM';
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${period}`;
+}
+
+/**
+ * Whether two instants fall on the same Manila calendar day
+ */
+export function isSameManilaDay(a: Date | string, b: Date | string): boolean {
+  const clockA = getManilaClock(new Date(a));
+  const clockB = getManilaClock(new Date(b));
+  return clockA.year === clockB.year && clockA.month === clockB.month && clockA.day === clockB.day;
+}
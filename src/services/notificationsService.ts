@@ -0,0 +1,106 @@
+/**
+ * Notifications Service
+ * In-app notifications, persisted per device (see deviceStore) and listed on
+ * NotificationsScreen. Services post them with addNotification; App shows each new one as an
+ * alert while the app is open.
+ */
+
+import { AppNotification } from '@/types/notification';
+import {
+  loadNotificationsForDevice,
+  saveNotificationsForDevice,
+  subscribeToStorageScope,
+} from './deviceStore';
+
+const MAX_NOTIFICATIONS = 100; // Oldest are dropped past this
+
+export type NotificationListener = (notification: AppNotification) => void;
+
+let notifications: AppNotification[] = [];
+let loaded: Promise<void> | null = null;
+const listeners = new Set<NotificationListener>();
+
+subscribeToStorageScope(() => {
+  notifications = [];
+  loaded = null;
+});
+
+function ensureLoaded(): Promise<void> {
+  if (!loaded) {
+    loaded = (async () => {
+      try {
+        const stored = await loadNotificationsForDevice<AppNotification[]>();
+        notifications = stored || [];
+      } catch (error) {
+        console.warn('Failed to load notifications:', error);
+      }
+    })();
+  }
+  return loaded;
+}
+
+async function persist(): Promise<void> {
+  try {
+    await saveNotificationsForDevice(notifications);
+  } catch (error) {
+    console.warn('Failed to save notifications:', error);
+  }
+}
+
+/**
+ * Post a notification to the driver
+ * @param reservationId Reservation it is about, if any
+ */
+export async function addNotification(
+  title: string,
+  body: string,
+  reservationId?: string
+): Promise<AppNotification> {
+  await ensureLoaded();
+  const now = new Date();
+  const notification: AppNotification = {
+    id: `ntf-${now.getTime()}-${Math.random().toString(36).slice(2, 6)}`,
+    title,
+    body,
+    createdAt: now.toISOString(),
+    read: false,
+    reservationId,
+  };
+
+  notifications = [notification, ...notifications].slice(0, MAX_NOTIFICATIONS);
+  await persist();
+  listeners.forEach(listener => {
+    try {
+      listener({ ...notification });
+    } catch (error) {
+      console.warn('Notification listener failed:', error);
+    }
+  });
+  return { ...notification };
+}
+
+/**
+ * All notifications, newest first
+ */
+export async function getNotifications(): Promise<AppNotification[]> {
+  await ensureLoaded();
+  return notifications.map(notification => ({ ...notification }));
+}
+
+export async function markAllNotificationsRead(): Promise<void> {
+  await ensureLoaded();
+  if (notifications.every(notification => notification.read)) return;
+  notifications = notifications.map(notification => ({ ...notification, read: true }));
+  await persist();
+}
+
+/**
+ * Subscribe to new notifications
+ * @returns Unsubscribe function
+ */
+export function subscribeToNotifications(listener: NotificationListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
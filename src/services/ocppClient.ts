@@ -0,0 +1,211 @@
+/**
+ * OCPP Client
+ * Central-system client for OCPP 1.6J. Charge point actions are sent as CALL frames over a
+ * transport and each resolves with its matching CALLRESULT, or rejects on CALLERROR, timeout or
+ * when the connection closes. A client whose connection closed stays closed; callers connect a
+ * new one to retry.
+ *
+ * Transports: a WebSocket to a real central system (createWebSocketTransport), or the local
+ * in-process central system used in development (see chargePointSimulator).
+ */
+
+import {
+  OCPP_SUBPROTOCOL,
+  OcppAction,
+  OcppActions,
+  OcppCall,
+  OcppCallError,
+  OcppFrame,
+  OcppMessageType,
+} from '@/types/ocpp';
+
+const CALL_TIMEOUT_MS = 30 * 1000; // OCPP-J suggests the same timeout for every CALL
+
+/**
+ * Message channel to a central system
+ */
+export interface OcppTransport {
+  send(message: string): void;
+  /**
+   * Register the handler for incoming messages (one per transport)
+   */
+  onMessage(handler: (message: string) => void): void;
+  /**
+   * Register the handler called when the connection closes or fails (one per transport)
+   */
+  onClose(handler: () => void): void;
+  close(): void;
+}
+
+export interface OcppClient {
+  chargePointId: string;
+  call<A extends OcppAction>(
+    action: A,
+    request: OcppActions[A]['request']
+  ): Promise<OcppActions[A]['response']>;
+  /**
+   * Whether the connection closed (dropped by the central system, or by close())
+   */
+  isClosed(): boolean;
+  close(): void;
+}
+
+interface PendingCall {
+  action: OcppAction;
+  resolve: (response: object) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * OCPP client for one charge point
+ * @param chargePointId Charge box identity the central system knows the charger by
+ * @param transport Connection to the central system
+ * @param timeoutMs How long to wait for each reply
+ */
+export function createOcppClient(
+  chargePointId: string,
+  transport: OcppTransport,
+  timeoutMs: number = CALL_TIMEOUT_MS
+): OcppClient {
+  const pending = new Map<string, PendingCall>();
+  let nextId = 0;
+  let closed = false;
+
+  const rejectPending = (reason: string) => {
+    pending.forEach(call => {
+      clearTimeout(call.timer);
+      call.reject(new Error(`OCPP ${call.action} ${reason}`));
+    });
+    pending.clear();
+  };
+
+  // Calls in flight won't get a reply on a dropped connection; fail them now, not at the timeout
+  transport.onClose(() => {
+    closed = true;
+    rejectPending('failed: connection closed');
+  });
+
+  transport.onMessage(message => {
+    let frame: OcppFrame;
+    try {
+      frame = JSON.parse(message);
+    } catch {
+      console.warn('⚠️ Ignoring malformed OCPP message:', message);
+      return;
+    }
+
+    if (frame[0] === OcppMessageType.CALL) {
+      // Central system commands (RemoteStopTransaction, Reset, ...) aren't handled yet
+      const reply: OcppCallError = [
+        OcppMessageType.CALLERROR,
+        frame[1],
+        'NotImplemented',
+        `${frame[2]} is not supported`,
+        {},
+      ];
+      transport.send(JSON.stringify(reply));
+      return;
+    }
+
+    const call = pending.get(frame[1]);
+    if (!call) return; // Reply to a call that already timed out
+    pending.delete(frame[1]);
+    clearTimeout(call.timer);
+
+    if (frame[0] === OcppMessageType.CALLRESULT) {
+      call.resolve(frame[2]);
+    } else {
+      call.reject(new Error(`OCPP ${call.action} failed: ${frame[2]} ${frame[3]}`.trim()));
+    }
+  });
+
+  return {
+    chargePointId,
+    call(action, request) {
+      if (closed) {
+        return Promise.reject(new Error('OCPP connection is closed'));
+      }
+      const uniqueId = `${Date.now().toString(36)}-${(nextId++).toString(36)}`;
+      const frame: OcppCall = [OcppMessageType.CALL, uniqueId, action, request];
+
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          pending.delete(uniqueId);
+          reject(new Error(`OCPP ${action} timed out`));
+        }, timeoutMs);
+        pending.set(uniqueId, {
+          action,
+          resolve: resolve as (response: object) => void,
+          reject,
+          timer,
+        });
+
+        try {
+          transport.send(JSON.stringify(frame));
+        } catch (error) {
+          pending.delete(uniqueId);
+          clearTimeout(timer);
+          reject(error instanceof Error ? error : new Error(String(error)));
+        }
+      });
+    },
+    isClosed() {
+      return closed;
+    },
+    close() {
+      closed = true;
+      rejectPending('cancelled: connection closed');
+      transport.close();
+    },
+  };
+}
+
+/**
+ * WebSocket connection to a central system
+ * Connects to `<url>/<chargePointId>` with the ocpp1.6 subprotocol, as OCPP-J specifies.
+ * Messages sent before the socket opens are queued. It doesn't reconnect: once the socket
+ * closes, the close handler runs and sends fail.
+ */
+export function createWebSocketTransport(url: string, chargePointId: string): OcppTransport {
+  const socket = new WebSocket(
+    `${url.replace(/\/+$/, '')}/${encodeURIComponent(chargePointId)}`,
+    OCPP_SUBPROTOCOL
+  );
+  const queue: string[] = [];
+  let handler: ((message: string) => void) | null = null;
+  let closeHandler: (() => void) | null = null;
+
+  socket.onopen = () => {
+    queue.splice(0).forEach(message => socket.send(message));
+  };
+  socket.onmessage = event => handler?.(String(event.data));
+  socket.onerror = () => {
+    console.warn(`⚠️ OCPP connection error (${chargePointId})`);
+  };
+  socket.onclose = () => {
+    queue.length = 0;
+    closeHandler?.();
+  };
+
+  return {
+    send(message) {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(message);
+      } else if (socket.readyState === WebSocket.CONNECTING) {
+        queue.push(message);
+      } else {
+        throw new Error('OCPP connection is closed');
+      }
+    },
+    onMessage(next) {
+      handler = next;
+    },
+    onClose(next) {
+      closeHandler = next;
+    },
+    close() {
+      socket.close();
+    },
+  };
+}
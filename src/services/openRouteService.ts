@@ -37,7 +37,9 @@ export interface RouteResult {
   geometry: RouteCoordinate[]; // Polyline coordinates for map
   bbox: number[]; // Bounding box [minLng, minLat, maxLng, maxLat]
   segments?: RouteSegment[]; // Turn-by-turn instructions
-  elevation?: number[]; // Elevation data if requested
+  elevation?: number[]; // Elevation (m) for each geometry point, if requested
+  ascent?: number; // Total climb in meters, if elevation was requested
+  descent?: number; // Total descent in meters, if elevation was requested
 }
 
 /**
@@ -97,8 +99,8 @@ export async function calculateRoute(
     const route = data.routes[0];
     const summary = route.summary;
 
-    // Decode geometry (it's encoded by default)
-    const geometry = decodePolyline(route.geometry);
+    // Decode geometry (it's encoded by default, with a third elevation value when requested)
+    const { coordinates: geometry, elevation } = decodePolyline(route.geometry, includeElevation);
 
     return {
       distance: summary.distance, // Already in km
@@ -106,7 +108,9 @@ export async function calculateRoute(
       geometry,
       bbox: route.bbox,
       segments: route.segments || undefined,
-      elevation: route.elevation || undefined,
+      elevation: includeElevation ? elevation : undefined,
+      ascent: route.ascent ?? summary.ascent,
+      descent: route.descent ?? summary.descent,
     };
   } catch (error) {
     console.error('Error calculating route:', error);
@@ -116,13 +120,19 @@ export async function calculateRoute(
 
 /**
  * Decode OpenRouteService polyline format
- * Returns array of {latitude, longitude} coordinates
+ * Returns {latitude, longitude} coordinates, plus elevations in meters when the polyline
+ * carries a third dimension (requests with elevation=true)
  */
-function decodePolyline(encoded: string): RouteCoordinate[] {
+function decodePolyline(
+  encoded: string,
+  hasElevation: boolean = false
+): { coordinates: RouteCoordinate[]; elevation: number[] } {
   const coordinates: RouteCoordinate[] = [];
+  const elevation: number[] = [];
   let index = 0;
   let lat = 0;
   let lng = 0;
+  let ele = 0;
 
   while (index < encoded.length) {
     let b;
@@ -150,13 +160,28 @@ function decodePolyline(encoded: string): RouteCoordinate[] {
     const dlng = (result & 1) !== 0 ? ~(result >> 1) : result >> 1;
     lng += dlng;
 
+    if (hasElevation) {
+      shift = 0;
+      result = 0;
+
+      do {
+        b = encoded.charCodeAt(index++) - 63;
+        result |= (b & 0x1f) << shift;
+        shift += 5;
+      } while (b >= 0x20);
+
+      const dele = (result & 1) !== 0 ? ~(result >> 1) : result >> 1;
+      ele += dele;
+      elevation.push(ele / 100);
+    }
+
     coordinates.push({
       latitude: lat / 1e5,
       longitude: lng / 1e5,
     });
   }
 
-  return coordinates;
+  return { coordinates, elevation };
 }
 
 /**
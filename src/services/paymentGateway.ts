@@ -0,0 +1,51 @@
+/**
+ * Payment Gateway
+ * Adapter between the app and a card/e-wallet payment gateway. The app tokenizes a method once,
+ * then places holds against the token (authorize) and settles them (capture, void, refund).
+ *
+ * The local gateway (see localPaymentGateway) is used until a real adapter is registered with
+ * setPaymentGateway.
+ */
+
+import { CardBrand, CardDetails, WalletDetails } from '@/types/payment';
+import { createLocalPaymentGateway } from './localPaymentGateway';
+
+/**
+ * A tokenized payment method
+ */
+export interface GatewayToken {
+  token: string;
+  brand?: CardBrand;
+}
+
+export interface PaymentGateway {
+  tokenizeCard(card: CardDetails): Promise<GatewayToken>;
+  linkWallet(wallet: WalletDetails): Promise<GatewayToken>;
+  /**
+   * Place a hold for an amount (PHP)
+   * @returns Authorization reference
+   */
+  authorize(token: string, amount: number, description: string): Promise<string>;
+  /**
+   * Settle up to the authorized amount and release the rest of the hold
+   */
+  capture(reference: string, amount: number): Promise<void>;
+  /**
+   * Release a hold without charging anything
+   */
+  void(reference: string): Promise<void>;
+  refund(reference: string, amount: number): Promise<void>;
+}
+
+let gateway: PaymentGateway = createLocalPaymentGateway();
+
+export function getPaymentGateway(): PaymentGateway {
+  return gateway;
+}
+
+/**
+ * Use a different gateway adapter (e.g. a production PSP)
+ */
+export function setPaymentGateway(next: PaymentGateway): void {
+  gateway = next;
+}
@@ -0,0 +1,189 @@
+/**
+ * Payment Methods Service
+ * The driver's saved cards and e-wallets (GCash, Maya), persisted per device (see deviceStore).
+ * Details are validated (see paymentValidation) and tokenized by the gateway before anything is
+ * saved; only the token and display details are kept. The first method added becomes the
+ * default, and another one takes over if the default is removed.
+ */
+
+import { CardDetails, PaymentMethod, WalletDetails, WalletType } from '@/types/payment';
+import {
+  loadPaymentMethodsForDevice,
+  savePaymentMethodsForDevice,
+  subscribeToStorageScope,
+} from './deviceStore';
+import { getPaymentGateway } from './paymentGateway';
+import {
+  CARD_BRAND_LABELS,
+  normalizeCardNumber,
+  normalizeExpiryYear,
+  normalizePhMobileNumber,
+  validateCard,
+  validateWallet,
+} from './paymentValidation';
+
+export const WALLET_LABELS: Record<WalletType, string> = {
+  gcash: 'GCash',
+  maya: 'Maya',
+};
+
+export type PaymentMethodsListener = (methods: PaymentMethod[]) => void;
+
+let methods: PaymentMethod[] = [];
+let loaded: Promise<void> | null = null;
+const listeners = new Set<PaymentMethodsListener>();
+
+// Methods belong to the signed-in driver; reload them after signing in or out
+subscribeToStorageScope(() => {
+  methods = [];
+  loaded = null;
+});
+
+/**
+ * Load saved methods once
+ * Entries saved before methods were tokenized (just a masked number) can't be charged and are
+ * dropped.
+ */
+function ensureLoaded(): Promise<void> {
+  if (!loaded) {
+    loaded = (async () => {
+      try {
+        const stored = await loadPaymentMethodsForDevice<PaymentMethod[]>();
+        methods = (stored || []).filter(method => !!method.token);
+        if (stored && methods.length < stored.length) {
+          console.warn('⚠️ Dropped payment methods saved without a gateway token');
+        }
+      } catch (error) {
+        console.warn('Failed to load payment methods:', error);
+      }
+    })();
+  }
+  return loaded;
+}
+
+async function persist(): Promise<void> {
+  await savePaymentMethodsForDevice(methods);
+  const snapshot = methods.map(method => ({ ...method }));
+  listeners.forEach(listener => {
+    try {
+      listener(snapshot);
+    } catch (error) {
+      console.warn('Payment methods listener failed:', error);
+    }
+  });
+}
+
+/**
+ * Validate, tokenize and save a card
+ * Throws with a message for the driver if the card is invalid or the gateway refuses it.
+ */
+export async function addCard(card: CardDetails): Promise<PaymentMethod> {
+  const error = validateCard(card);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const { token, brand = 'unknown' } = await getPaymentGateway().tokenizeCard(card);
+  const last4 = normalizeCardNumber(card.number).slice(-4);
+  return save({
+    type: 'card',
+    token,
+    label: `${CARD_BRAND_LABELS[brand]} •••• ${last4}`,
+    holderName: card.holderName.trim(),
+    brand,
+    last4,
+    expMonth: card.expMonth,
+    expYear: normalizeExpiryYear(card.expYear),
+  });
+}
+
+/**
+ * Validate, link and save a GCash or Maya wallet
+ */
+export async function addWallet(wallet: WalletDetails): Promise<PaymentMethod> {
+  const error = validateWallet(wallet);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const mobileNumber = normalizePhMobileNumber(wallet.mobileNumber) as string;
+  const { token } = await getPaymentGateway().linkWallet({ ...wallet, mobileNumber });
+  const last4 = mobileNumber.slice(-4);
+  return save({
+    type: wallet.type,
+    token,
+    label: `${WALLET_LABELS[wallet.type]} •••• ${last4}`,
+    holderName: wallet.holderName.trim(),
+    last4,
+  });
+}
+
+/**
+ * Saved methods, default first
+ */
+export async function getPaymentMethods(): Promise<PaymentMethod[]> {
+  await ensureLoaded();
+  return [...methods]
+    .sort((a, b) => Number(b.isDefault) - Number(a.isDefault))
+    .map(method => ({ ...method }));
+}
+
+export async function getPaymentMethod(id: string): Promise<PaymentMethod | undefined> {
+  await ensureLoaded();
+  const method = methods.find(m => m.id === id);
+  return method && { ...method };
+}
+
+export async function getDefaultPaymentMethod(): Promise<PaymentMethod | undefined> {
+  await ensureLoaded();
+  const method = methods.find(m => m.isDefault) || methods[0];
+  return method && { ...method };
+}
+
+export async function setDefaultPaymentMethod(id: string): Promise<void> {
+  await ensureLoaded();
+  if (!methods.some(method => method.id === id)) {
+    throw new Error(`Payment method ${id} not found`);
+  }
+  methods = methods.map(method => ({ ...method, isDefault: method.id === id }));
+  await persist();
+}
+
+export async function removePaymentMethod(id: string): Promise<void> {
+  await ensureLoaded();
+  const removed = methods.find(method => method.id === id);
+  if (!removed) return;
+
+  methods = methods.filter(method => method.id !== id);
+  if (removed.isDefault && methods.length > 0) {
+    methods[0] = { ...methods[0], isDefault: true };
+  }
+  await persist();
+}
+
+/**
+ * Subscribe to changes in the saved methods
+ * @returns Unsubscribe function
+ */
+export function subscribeToPaymentMethods(listener: PaymentMethodsListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function save(
+  details: Omit<PaymentMethod, 'id' | 'isDefault' | 'createdAt'>
+): Promise<PaymentMethod> {
+  await ensureLoaded();
+  const now = new Date();
+  const method: PaymentMethod = {
+    ...details,
+    id: `pm-${now.getTime()}-${Math.random().toString(36).slice(2, 6)}`,
+    isDefault: methods.length === 0,
+    createdAt: now.toISOString(),
+  };
+  methods.push(method);
+  await persist();
+  return { ...method };
+}
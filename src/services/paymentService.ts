@@ -0,0 +1,217 @@
+/**
+ * Payment Service
+ * Charges the driver's saved payment methods through the gateway (see paymentGateway) and keeps
+ * a record of every payment, persisted per device:
+ * - authorizePayment places a hold on a payment method
+ * - capturePayment settles the hold (up to the held amount) and releases the rest
+ * - voidPayment releases a hold without charging
+ * - refundPayment returns some or all of a captured amount
+ *
+ * One payment covers a reservation, or every stop of a trip; billingService decides how much
+ * is held and captured.
+ */
+
+import { Payment } from '@/types/payment';
+import { CostBreakdown } from '@/types/route-calculation';
+import {
+  loadPaymentsForDevice,
+  savePaymentsForDevice,
+  subscribeToStorageScope,
+} from './deviceStore';
+import { getPaymentGateway } from './paymentGateway';
+import { getDefaultPaymentMethod, getPaymentMethod } from './paymentMethodsService';
+
+let payments: Payment[] = [];
+let loaded: Promise<void> | null = null;
+
+// Payments belong to the signed-in driver
+subscribeToStorageScope(() => {
+  payments = [];
+  loaded = null;
+});
+
+function ensureLoaded(): Promise<void> {
+  if (!loaded) {
+    loaded = (async () => {
+      try {
+        const stored = await loadPaymentsForDevice<Payment[]>();
+        payments = stored || [];
+      } catch (error) {
+        console.warn('Failed to load payments:', error);
+      }
+    })();
+  }
+  return loaded;
+}
+
+async function persist(): Promise<void> {
+  try {
+    await savePaymentsForDevice(payments);
+  } catch (error) {
+    // Non-fatal: the gateway has the authoritative record
+    console.warn('Failed to save payments:', error);
+  }
+}
+
+/**
+ * Place a hold on a payment method
+ * Throws with the gateway's reason (declined, insufficient funds) if it refuses.
+ * @param reservationIds Reservations being paid for
+ * @param amount PHP
+ * @param paymentMethodId Method to charge (default: the driver's default method)
+ * @param estimate Itemized estimate behind the amount
+ * @param balanceOf Payment this one tops up, when the booking cost more than its hold
+ */
+export async function authorizePayment(
+  reservationIds: string[],
+  amount: number,
+  description: string,
+  paymentMethodId?: string,
+  estimate?: CostBreakdown,
+  balanceOf?: string
+): Promise<Payment> {
+  await ensureLoaded();
+  const method = paymentMethodId
+    ? await getPaymentMethod(paymentMethodId)
+    : await getDefaultPaymentMethod();
+  if (!method) {
+    throw new Error('Add a payment method to pay for your reservation');
+  }
+
+  const authorizedAmount = roundPeso(amount);
+  const gatewayReference = await getPaymentGateway().authorize(
+    method.token,
+    authorizedAmount,
+    description
+  );
+  const payment: Payment = {
+    id: `pay-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    reservationIds,
+    paymentMethodId: method.id,
+    paymentMethodLabel: method.label,
+    gatewayReference,
+    status: 'authorized',
+    authorizedAmount,
+    capturedAmount: 0,
+    refundedAmount: 0,
+    description,
+    balanceOf,
+    estimate,
+    createdAt: new Date().toISOString(),
+  };
+
+  payments.unshift(payment);
+  await persist();
+  return { ...payment };
+}
+
+/**
+ * Charge a held payment
+ * @param amount PHP to charge (default: the whole hold); the rest of the hold is released
+ * @param breakdown Itemized amount, kept as the receipt
+ */
+export async function capturePayment(
+  paymentId: string,
+  amount?: number,
+  breakdown?: CostBreakdown
+): Promise<Payment> {
+  const payment = await findPayment(paymentId);
+  if (payment.status !== 'authorized') {
+    throw new Error(`Payment ${paymentId} is already ${payment.status}`);
+  }
+
+  const capturedAmount = roundPeso(
+    Math.min(amount ?? payment.authorizedAmount, payment.authorizedAmount)
+  );
+  await getPaymentGateway().capture(payment.gatewayReference, capturedAmount);
+  Object.assign(payment, {
+    status: 'captured',
+    capturedAmount,
+    breakdown,
+    capturedAt: new Date().toISOString(),
+  });
+  await persist();
+  return { ...payment };
+}
+
+/**
+ * Release a held payment without charging
+ */
+export async function voidPayment(paymentId: string): Promise<Payment> {
+  const payment = await findPayment(paymentId);
+  if (payment.status !== 'authorized') {
+    throw new Error(`Payment ${paymentId} is already ${payment.status}`);
+  }
+
+  await getPaymentGateway().void(payment.gatewayReference);
+  Object.assign(payment, { status: 'voided', voidedAt: new Date().toISOString() });
+  await persist();
+  return { ...payment };
+}
+
+/**
+ * Refund a captured payment
+ * @param amount PHP to refund (default: everything not yet refunded)
+ * @param breakdown Itemized amount the driver owes after the refund, kept as the receipt
+ */
+export async function refundPayment(
+  paymentId: string,
+  amount?: number,
+  breakdown?: CostBreakdown
+): Promise<Payment> {
+  const payment = await findPayment(paymentId);
+  const refundable = roundPeso(payment.capturedAmount - payment.refundedAmount);
+  if (payment.status !== 'captured' || refundable <= 0) {
+    throw new Error(`Payment ${paymentId} has nothing to refund`);
+  }
+
+  const refund = roundPeso(Math.min(amount ?? refundable, refundable));
+  await getPaymentGateway().refund(payment.gatewayReference, refund);
+  payment.refundedAmount = roundPeso(payment.refundedAmount + refund);
+  payment.refundedAt = new Date().toISOString();
+  if (breakdown) {
+    payment.breakdown = breakdown;
+  }
+  if (payment.refundedAmount >= payment.capturedAmount) {
+    payment.status = 'refunded';
+  }
+  await persist();
+  return { ...payment };
+}
+
+export async function getPayment(id: string): Promise<Payment | undefined> {
+  await ensureLoaded();
+  const payment = payments.find(p => p.id === id);
+  return payment && { ...payment };
+}
+
+/**
+ * Payment covering a reservation (shared by every stop of a trip booking)
+ * Balance top-ups are left out: the booking's own payment holds the receipt.
+ */
+export async function getReservationPayment(reservationId: string): Promise<Payment | undefined> {
+  await ensureLoaded();
+  const payment = payments.find(p => p.reservationIds.includes(reservationId) && !p.balanceOf);
+  return payment && { ...payment };
+}
+
+/**
+ * All payments, newest first
+ */
+export async function getPayments(): Promise<Payment[]> {
+  await ensureLoaded();
+  return payments.map(payment => ({ ...payment }));
+}
+
+async function findPayment(id: string): Promise<Payment> {
+  await ensureLoaded();
+  const payment = payments.find(p => p.id === id);
+  if (!payment) {
+    throw new Error(`Payment ${id} not found`);
+  }
+  return payment;
+}
+
+function roundPeso(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,120 @@
+/**
+ * Payment Validation
+ * Checks card and e-wallet details before they are sent to the gateway: Luhn checksum, brand
+ * (from the card number prefix), expiry and PH mobile numbers for GCash/Maya. Each validator
+ * returns an error message the driver can act on, or null when the value is valid.
+ */
+
+import { CardBrand, CardDetails, WalletDetails } from '@/types/payment';
+
+/**
+ * Card number lengths each brand issues
+ */
+const BRAND_LENGTHS: Record<CardBrand, number[]> = {
+  visa: [13, 16, 19],
+  mastercard: [16],
+  amex: [15],
+  jcb: [16, 17, 18, 19],
+  unknown: [12, 13, 14, 15, 16, 17, 18, 19],
+};
+
+export const CARD_BRAND_LABELS: Record<CardBrand, string> = {
+  visa: 'Visa',
+  mastercard: 'Mastercard',
+  amex: 'American Express',
+  jcb: 'JCB',
+  unknown: 'Card',
+};
+
+/**
+ * Strip spaces and dashes from a card number as typed
+ */
+export function normalizeCardNumber(number: string): string {
+  return number.replace(/[\s-]/g, '');
+}
+
+/**
+ * Luhn (mod 10) checksum
+ */
+export function passesLuhn(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+export function detectCardBrand(number: string): CardBrand {
+  const digits = normalizeCardNumber(number);
+  if (/^4/.test(digits)) return 'visa';
+  if (/^(5[1-5]|222[1-9]|22[3-9]\d|2[3-6]\d\d|27[01]\d|2720)/.test(digits)) return 'mastercard';
+  if (/^3[47]/.test(digits)) return 'amex';
+  if (/^35(2[89]|[3-8]\d)/.test(digits)) return 'jcb';
+  return 'unknown';
+}
+
+/**
+ * Four-digit year from a two- or four-digit expiry year
+ */
+export function normalizeExpiryYear(year: number): number {
+  return year < 100 ? 2000 + year : year;
+}
+
+/**
+ * Cards are valid through the last day of their expiry month
+ */
+export function isCardExpired(expMonth: number, expYear: number, at: Date = new Date()): boolean {
+  const year = normalizeExpiryYear(expYear);
+  return year < at.getFullYear() || (year === at.getFullYear() && expMonth < at.getMonth() + 1);
+}
+
+export function validateCard(card: CardDetails, at: Date = new Date()): string | null {
+  const digits = normalizeCardNumber(card.number);
+  const brand = detectCardBrand(digits);
+  if (!/^\d+$/.test(digits) || !BRAND_LENGTHS[brand].includes(digits.length)) {
+    return 'Enter the full card number';
+  }
+  if (!passesLuhn(digits)) {
+    return 'That card number is not valid. Please check it and try again.';
+  }
+  if (!Number.isInteger(card.expMonth) || card.expMonth < 1 || card.expMonth > 12) {
+    return 'Enter the expiry date as MM/YY';
+  }
+  if (!Number.isInteger(card.expYear) || isCardExpired(card.expMonth, card.expYear, at)) {
+    return 'This card has expired';
+  }
+  const cvcLength = brand === 'amex' ? 4 : 3;
+  if (!new RegExp(`^\\d{${cvcLength}}$`).test(card.cvc)) {
+    return `Enter the ${cvcLength}-digit security code`;
+  }
+  if (!card.holderName.trim()) {
+    return 'Enter the name on the card';
+  }
+  return null;
+}
+
+/**
+ * PH mobile number as 09XXXXXXXXX, or null if it isn't one
+ * Accepts +63, 63 and 0 prefixes, with or without spaces and dashes.
+ */
+export function normalizePhMobileNumber(number: string): string | null {
+  const digits = number.replace(/[\s-]/g, '');
+  const match = digits.match(/^(?:\+?63|0)(9\d{9})$/);
+  return match ? `0${match[1]}` : null;
+}
+
+export function validateWallet(wallet: WalletDetails): string | null {
+  if (!normalizePhMobileNumber(wallet.mobileNumber)) {
+    return 'Enter the mobile number registered to your wallet (09XX XXX XXXX)';
+  }
+  if (!wallet.holderName.trim()) {
+    return 'Enter the account name';
+  }
+  return null;
+}
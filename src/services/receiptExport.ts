@@ -0,0 +1,105 @@
+/**
+ * Receipt Export
+ * Writes session history for a date range to a CSV or PDF file, or one receipt to a PDF, and
+ * opens the share sheet so drivers can attach it to an expense claim (mail, drive, chat). Files
+ * are written to the cache directory and named after the range or receipt number, e.g.
+ * charging-sessions_2025-03-01_2025-03-31.pdf.
+ */
+
+import { File, Paths } from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { SessionReceipt } from '@/types/receipt';
+import { formatManilaDate } from './manilaTime';
+import { formatReceiptsCsv, formatReceiptsHtml, getSessionReceipts } from './receiptService';
+
+export type ReceiptExportFormat = 'csv' | 'pdf';
+
+const MIME_TYPES: Record<ReceiptExportFormat, string> = {
+  csv: 'text/csv',
+  pdf: 'application/pdf',
+};
+
+const UTIS: Record<ReceiptExportFormat, string> = {
+  csv: 'public.comma-separated-values-text',
+  pdf: 'com.adobe.pdf',
+};
+
+/**
+ * Export the sessions of a date range and share the file
+ * Throws if there are no sessions in the range or the device can't share files.
+ * @param from First day (Manila time)
+ * @param to Last day, inclusive
+ * @returns Number of sessions exported
+ */
+export async function exportSessionHistory(
+  format: ReceiptExportFormat,
+  from: Date,
+  to: Date
+): Promise<number> {
+  await checkSharingAvailable();
+  const receipts = await getSessionReceipts(from, to);
+  if (receipts.length === 0) {
+    throw new Error(
+      `No completed sessions between ${formatManilaDate(from)} and ${formatManilaDate(to)}`
+    );
+  }
+
+  const file = newCacheFile(
+    `charging-sessions_${formatManilaDate(from)}_${formatManilaDate(to)}.${format}`
+  );
+  if (format === 'csv') {
+    file.create();
+    // Byte order mark, so spreadsheet apps read the ₱ and • as UTF-8
+    file.write(`\uFEFF${formatReceiptsCsv(receipts)}`);
+  } else {
+    await printToFile(formatReceiptsHtml(receipts, from, to), file);
+  }
+
+  await shareFile(file, format, 'Export charging sessions');
+  return receipts.length;
+}
+
+/**
+ * Share one session's receipt as a PDF
+ */
+export async function shareReceiptPdf(receipt: SessionReceipt): Promise<void> {
+  await checkSharingAvailable();
+  const day = new Date(receipt.startedAt);
+  const file = newCacheFile(`${receipt.receiptNumber}.pdf`);
+  await printToFile(formatReceiptsHtml([receipt], day, day), file);
+  await shareFile(file, 'pdf', `Receipt ${receipt.receiptNumber}`);
+}
+
+async function checkSharingAvailable(): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing files is not available on this device');
+  }
+}
+
+/**
+ * File in the cache directory, replacing any earlier export with the same name
+ */
+function newCacheFile(name: string): File {
+  const file = new File(Paths.cache, name);
+  if (file.exists) {
+    file.delete();
+  }
+  return file;
+}
+
+/**
+ * Render HTML to a PDF at the given file
+ */
+async function printToFile(html: string, file: File): Promise<void> {
+  const { uri } = await Print.printToFileAsync({ html });
+  new File(uri).move(file);
+}
+
+function shareFile(file: File, format: ReceiptExportFormat, dialogTitle: string): Promise<void> {
+  return Sharing.shareAsync(file.uri, {
+    mimeType: MIME_TYPES[format],
+    UTI: UTIS[format],
+    dialogTitle,
+  });
+}
@@ -0,0 +1,389 @@
+/**
+ * Receipt Service
+ * Receipts for completed charging sessions, and session history for expense claims:
+ * - getSessionReceipt itemizes one session: metered energy at the station's rate, the
+ *   connection and idle fees, and the commission, booking and service fees it was billed.
+ *   Paid reservations that ended without charging get a receipt for the late-cancellation or
+ *   no-show fee and the booking fee kept, so the receipts add up to what was captured.
+ * - getSessionReceipts lists the sessions of a date range (Manila calendar days)
+ * - formatReceiptsCsv and formatReceiptsHtml lay them out for export (see receiptExport)
+ *
+ * Amounts follow billingService: fees are only on receipts of sessions paid through the app,
+ * and a booking's flat fees are on the receipt of its first session. Prices are VAT-inclusive,
+ * so each receipt also splits its total into VATable sales and PRICING.vatRate VAT.
+ */
+
+import { CancellationKind } from '@/types/cancellation';
+import { ChargingSession } from '@/types/chargingSession';
+import { Payment } from '@/types/payment';
+import { SessionReceipt } from '@/types/receipt';
+import { Reservation } from '@/types/reservation';
+import { getChargingSessions, getIdleMinutes } from './chargingSessionService';
+import { formatManilaDate, formatManilaTime, startOfManilaDay } from './manilaTime';
+import { getPayments } from './paymentService';
+import { getBookingCost } from './billingService';
+import { getReservations } from './reservationsStore';
+import { PRICING } from './standardVehicleModel';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CANCELLATION_LABELS: Record<CancellationKind, string> = {
+  free: 'Cancelled',
+  late: 'Late cancellation',
+  no_show: 'No-show',
+};
+
+const CSV_COLUMNS: [string, (receipt: SessionReceipt) => string | number | undefined][] = [
+  ['Receipt no.', r => r.receiptNumber],
+  ['Date', r => formatManilaDate(r.startedAt)],
+  ['Start', r => formatManilaTime(r.startedAt)],
+  ['End', r => formatManilaTime(r.endedAt)],
+  ['Station', r => r.stationName],
+  ['Address', r => r.stationAddress],
+  ['Vehicle', r => r.vehicleName],
+  ['Connector', r => r.connector ?? ''],
+  ['Energy (kWh)', r => r.energyKwh?.toFixed(2)],
+  ['Rate (PHP/kWh)', r => r.ratePerKwh?.toFixed(2)],
+  ['Energy (PHP)', r => r.energyCost.toFixed(2)],
+  ['Connection fee (PHP)', r => r.connectionFee.toFixed(2)],
+  ['Idle fee (PHP)', r => r.idleFee.toFixed(2)],
+  ['Commission (PHP)', r => r.commissionFee.toFixed(2)],
+  ['Booking fee (PHP)', r => r.bookingFee.toFixed(2)],
+  ['Service fee (PHP)', r => r.serviceFee.toFixed(2)],
+  ['Cancellation', r => (r.cancellation ? CANCELLATION_LABELS[r.cancellation] : '')],
+  ['Cancellation fee (PHP)', r => r.cancellationFee.toFixed(2)],
+  ['Total incl. VAT (PHP)', r => r.total.toFixed(2)],
+  ['VATable sales (PHP)', r => r.vatableSales.toFixed(2)],
+  ['VAT (PHP)', r => r.vat.toFixed(2)],
+  ['Payment method', r => r.paymentMethodLabel],
+  ['Payment reference', r => r.paymentReference],
+];
+
+/**
+ * Receipts for sessions that started within a range of Manila calendar days, newest first
+ * @param from First day (any time on it)
+ * @param to Last day, inclusive (any time on it)
+ */
+export async function getSessionReceipts(from: Date, to: Date): Promise<SessionReceipt[]> {
+  const start = startOfManilaDay(from).getTime();
+  const end = startOfManilaDay(to).getTime() + DAY_MS;
+  const receipts = await buildReceipts();
+  return receipts
+    .filter(receipt => {
+      const startedAt = Date.parse(receipt.startedAt);
+      return startedAt >= start && startedAt < end;
+    })
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+/**
+ * Receipt for a completed reservation, or for the fees of a cancelled or no-show one
+ */
+export async function getSessionReceipt(
+  reservationId: string
+): Promise<SessionReceipt | undefined> {
+  const receipts = await buildReceipts();
+  return receipts.find(receipt => receipt.reservationId === reservationId);
+}
+
+/**
+ * Split a VAT-inclusive amount into VATable sales and VAT
+ */
+export function splitVat(
+  total: number,
+  vatRate: number = PRICING.vatRate
+): { vatableSales: number; vat: number } {
+  const vat = roundPeso((total * vatRate) / (1 + vatRate));
+  return { vatableSales: roundPeso(total - vat), vat };
+}
+
+/**
+ * Receipts as CSV, one row per session, with a header row
+ */
+export function formatReceiptsCsv(receipts: SessionReceipt[]): string {
+  const rows = [
+    CSV_COLUMNS.map(([header]) => header),
+    ...receipts.map(receipt => CSV_COLUMNS.map(([, value]) => value(receipt) ?? '')),
+  ];
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Receipts as a printable HTML statement: a summary table, then each receipt itemized
+ * @param from First day of the range
+ * @param to Last day of the range
+ */
+export function formatReceiptsHtml(receipts: SessionReceipt[], from: Date, to: Date): string {
+  const sum = (value: (receipt: SessionReceipt) => number) =>
+    roundPeso(receipts.reduce((total, receipt) => total + value(receipt), 0));
+  const energyKwh = sum(r => r.energyKwh ?? 0);
+  const vatPercent = Math.round(PRICING.vatRate * 100);
+
+  const summaryRows = receipts
+    .map(
+      r => `<tr>
+        <td>${formatManilaDate(r.startedAt)}</td>
+        <td>${escapeHtml(r.stationName)}</td>
+        <td class="num">${r.energyKwh?.toFixed(2) ?? '—'}</td>
+        <td class="num">${r.total.toFixed(2)}</td>
+        <td class="num">${r.vat.toFixed(2)}</td>
+      </tr>`
+    )
+    .join('');
+
+  const details = receipts
+    .map(r => {
+      const lines: [string, number][] = [
+        [
+          r.energyKwh != null && r.ratePerKwh != null
+            ? `Energy ${r.energyKwh.toFixed(2)} kWh × ₱${r.ratePerKwh.toFixed(2)}`
+            : 'Energy',
+          r.energyCost,
+        ],
+        ['Connection fee', r.connectionFee],
+        [`Idle fee (${r.idleMinutes} min idle)`, r.idleFee],
+        ['Commission', r.commissionFee],
+        ['Booking fee', r.bookingFee],
+        ['Service fee', r.serviceFee],
+        [
+          `${r.cancellation ? CANCELLATION_LABELS[r.cancellation] : 'Cancellation'} fee`,
+          r.cancellationFee,
+        ],
+      ];
+      return `<div class="receipt">
+        <h3>${escapeHtml(r.receiptNumber)} · ${escapeHtml(r.stationName)}</h3>
+        <p>${escapeHtml(r.stationAddress)}<br/>
+          ${formatManilaDate(r.startedAt)} ${formatManilaTime(r.startedAt)} –
+          ${formatManilaTime(r.endedAt)} · ${escapeHtml(r.vehicleName)}${
+            r.connector ? ` · ${escapeHtml(r.connector)}` : ''
+          }</p>
+        <table>
+          ${lines
+            .filter(([, amount], index) => (index === 0 && !r.cancellation) || amount > 0)
+            .map(
+              ([label, amount]) =>
+                `<tr><td>${escapeHtml(label)}</td><td class="num">₱${amount.toFixed(2)}</td></tr>`
+            )
+            .join('')}
+          <tr class="total"><td>Total (VAT-inclusive)</td><td class="num">₱${r.total.toFixed(2)}</td></tr>
+          <tr><td>VATable sales</td><td class="num">₱${r.vatableSales.toFixed(2)}</td></tr>
+          <tr><td>VAT (${vatPercent}%)</td><td class="num">₱${r.vat.toFixed(2)}</td></tr>
+        </table>
+        ${
+          r.paymentMethodLabel
+            ? `<p class="muted">Paid with ${escapeHtml(r.paymentMethodLabel)}${
+                r.paymentReference ? ` · Ref. ${escapeHtml(r.paymentReference)}` : ''
+              }</p>`
+            : ''
+        }
+      </div>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #111827; font-size: 12px; margin: 32px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 24px 0 8px; }
+  h3 { font-size: 13px; margin: 0 0 4px; }
+  table { width: 100%; border-collapse: collapse; }
+  td, th { padding: 4px 6px; border-bottom: 1px solid #E5E7EB; text-align: left; }
+  .num { text-align: right; }
+  .total td { font-weight: 700; }
+  .muted { color: #6B7280; }
+  .receipt { margin-top: 16px; page-break-inside: avoid; }
+</style>
+</head>
+<body>
+  <h1>Charging session history</h1>
+  <p class="muted">${formatManilaDate(from)} to ${formatManilaDate(to)} · ${receipts.length} ${
+    receipts.length === 1 ? 'session' : 'sessions'
+  } · All amounts in PHP, VAT-inclusive (${vatPercent}%)</p>
+  <table>
+    <tr><th>Date</th><th>Station</th><th class="num">kWh</th><th class="num">Total</th><th class="num">VAT</th></tr>
+    ${summaryRows}
+    <tr class="total">
+      <td colspan="2">Total</td>
+      <td class="num">${energyKwh.toFixed(2)}</td>
+      <td class="num">${sum(r => r.total).toFixed(2)}</td>
+      <td class="num">${sum(r => r.vat).toFixed(2)}</td>
+    </tr>
+  </table>
+  <h2>Receipts</h2>
+  ${details}
+</body>
+</html>`;
+}
+
+/**
+ * Receipts for every completed reservation, and for paid ones that ended without charging but
+ * were billed a fee
+ */
+async function buildReceipts(): Promise<SessionReceipt[]> {
+  const [reservations, sessions, payments] = await Promise.all([
+    getReservations(),
+    getChargingSessions(),
+    getPayments(),
+  ]);
+  const completed = reservations.filter(r => r.status === 'completed');
+  const paymentOf = (reservation: Reservation) =>
+    payments.find(
+      p => p.reservationIds.includes(reservation.id) && p.status !== 'voided' && !p.balanceOf
+    );
+
+  const sessionReceipts = completed.map(reservation => {
+    const session = sessions.find(s => s.reservationId === reservation.id);
+    const payment = paymentOf(reservation);
+    // A booking's flat fees go on the receipt of its first session
+    const firstSession = payment
+      ? completed
+          .filter(r => payment.reservationIds.includes(r.id))
+          .sort((a, b) => a.scheduledStart.localeCompare(b.scheduledStart))[0]
+      : undefined;
+    return buildReceipt(reservation, session, payment, firstSession?.id === reservation.id);
+  });
+
+  const feeReceipts = reservations
+    .filter(r => r.status === 'cancelled' || r.status === 'expired')
+    .flatMap(reservation => {
+      const payment = paymentOf(reservation);
+      if (!payment) return [];
+      const booking = reservations
+        .filter(r => payment.reservationIds.includes(r.id))
+        .sort((a, b) => a.scheduledStart.localeCompare(b.scheduledStart));
+      // A booking that never charged keeps part of its booking fee (see getBookingCost); it
+      // goes on the receipt of its first reservation
+      const bookingFee =
+        booking[0].id === reservation.id && !booking.some(r => r.status === 'completed')
+          ? getBookingCost(booking).bookingFee
+          : 0;
+      const receipt = buildFeeReceipt(reservation, payment, bookingFee);
+      return receipt.total > 0 ? [receipt] : [];
+    });
+
+  return [...sessionReceipts, ...feeReceipts];
+}
+
+/**
+ * Itemize a completed reservation
+ * @param session Session that metered it; older reservations completed without one
+ * @param payment Payment covering its booking, if it was paid through the app
+ * @param withBookingFees Whether the booking's flat fees go on this receipt
+ */
+function buildReceipt(
+  reservation: Reservation,
+  session: ChargingSession | undefined,
+  payment: Payment | undefined,
+  withBookingFees: boolean
+): SessionReceipt {
+  const idleFee = reservation.idleFee || 0;
+  const chargingCost = (reservation.finalCost ?? reservation.estimatedCost) - idleFee;
+  const connectionFee = session
+    ? session.connectionFee
+    : Math.min(PRICING.connectionFee, chargingCost);
+  const commissionFee = payment ? roundPeso(chargingCost * PRICING.commissionFeeRate) : 0;
+  const bookingFee = payment && withBookingFees ? PRICING.bookingFee : 0;
+  const serviceFee = payment && withBookingFees ? PRICING.serviceFee : 0;
+  const total = roundPeso(chargingCost + idleFee + commissionFee + bookingFee + serviceFee);
+  const startedAt = reservation.startedAt || reservation.scheduledStart;
+  const endedAt = reservation.endedAt || reservation.scheduledEnd;
+
+  return {
+    receiptNumber: `EVR-${formatManilaDate(endedAt).replace(/-/g, '')}-${reservation.id
+      .slice(-4)
+      .toUpperCase()}`,
+    reservationId: reservation.id,
+    tripId: reservation.tripId,
+    stationName: reservation.stationName,
+    stationAddress: reservation.stationAddress,
+    vehicleName: reservation.vehicleName,
+    connector: reservation.connector,
+    startedAt,
+    endedAt,
+    energyKwh: session && roundKwh(session.energyKwh),
+    ratePerKwh: session?.pricePerKwh,
+    energyCost: roundPeso(chargingCost - connectionFee),
+    connectionFee,
+    idleMinutes: session ? getIdleMinutes(session) : 0,
+    idleFee,
+    commissionFee,
+    bookingFee,
+    serviceFee,
+    cancellationFee: 0,
+    total,
+    vatRate: PRICING.vatRate,
+    ...splitVat(total),
+    paymentMethodLabel: payment?.paymentMethodLabel,
+    paymentReference: payment?.gatewayReference,
+  };
+}
+
+/**
+ * Receipt for a paid reservation that was cancelled or never scanned
+ * @param bookingFee Part of the booking fee kept, on the first reservation of a booking that
+ *   never charged
+ */
+function buildFeeReceipt(
+  reservation: Reservation,
+  payment: Payment,
+  bookingFee: number
+): SessionReceipt {
+  const cancellationFee = reservation.cancellationFee || 0;
+  const total = roundPeso(bookingFee + cancellationFee);
+  const endedAt = reservation.endedAt || reservation.scheduledEnd;
+
+  return {
+    receiptNumber: `EVR-${formatManilaDate(endedAt).replace(/-/g, '')}-${reservation.id
+      .slice(-4)
+      .toUpperCase()}`,
+    reservationId: reservation.id,
+    tripId: reservation.tripId,
+    stationName: reservation.stationName,
+    stationAddress: reservation.stationAddress,
+    vehicleName: reservation.vehicleName,
+    connector: reservation.connector,
+    startedAt: reservation.scheduledStart,
+    endedAt,
+    energyCost: 0,
+    connectionFee: 0,
+    idleMinutes: 0,
+    idleFee: 0,
+    commissionFee: 0,
+    bookingFee,
+    serviceFee: 0,
+    cancellation: reservation.cancellation,
+    cancellationFee,
+    total,
+    vatRate: PRICING.vatRate,
+    ...splitVat(total),
+    paymentMethodLabel: payment.paymentMethodLabel,
+    paymentReference: payment.gatewayReference,
+  };
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break
+ */
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function roundPeso(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function roundKwh(energy: number): number {
+  return Math.round(energy * 100) / 100;
+}
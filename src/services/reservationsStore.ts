@@ -1,109 +1,625 @@
-// Simple in-memory reservations store. In a production app you'd persist via AsyncStorage or backend.
-import { loadReservationsForDevice, saveReservationsForDevice } from './deviceStore';
+/**
+ * Reservations Store
+ * Reservation state machine, persisted per device (see deviceStore). Screens drive the
+ * transitions:
+ * - ReserveStationScreen → createReservation (pending_payment)
+ * - TripRouteScreen → createTripReservations (pending_payment, one per charging stop)
+ * - ConfirmPaymentScreen → confirmReservation (confirmed)
+ * - chargingSessionService → startReservation (in_progress) and completeReservation (completed)
+ *   with the metered cost, including any idle fee
+ * - RatingScreen → rateReservation
+ * - cancelReservation from any screen before charging starts, recording the late-cancellation
+ *   terms of the reservation's policy (see cancellationPolicy)
+ * Reservations that were never paid expire on read, and so do confirmed ones not scanned within
+ * their policy's no-show grace period (a no-show); either way the charger is released.
+ *
+ * Each reservation holds one of the station's chargers (see slotAvailability); creating one
+ * fails when no charger is free for the window. The pending_payment status is the temporary
+ * hold while the driver pays, released after PAYMENT_HOLD_MS.
+ *
+ * Trip bookings are all-or-nothing: every charging stop of a trip is held, paid and cancelled
+ * together, and nothing is held if any stop has no free charger.
+ */
 
-export interface ReservationSession {
+import { Reservation, ReservationStatus } from '@/types/reservation';
+import { Station } from '@/types/station';
+import { DetailedRoute } from '@/types/route-calculation';
+import {
+  loadReservationsForDevice,
+  saveReservationsForDevice,
+  loadVehicleData,
+  subscribeToStorageScope,
+} from './deviceStore';
+import { getVehicleId, resolveVehicleProfile, SavedVehicleData } from './vehicleProfileService';
+import {
+  AC_PLUGS,
+  ChargingPlug,
+  StandardVehicle,
+  calculateChargingCost,
+  getCompatiblePlugs,
+  getEffectiveChargingPower,
+} from './standardVehicleModel';
+import { getAvailableSlots, getFreeChargers, ReservationSlot } from './slotAvailability';
+import { getKnownStation } from './openChargeMapService';
+import { createPlaceholderStation } from './stationNormalizer';
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  getCancellationPolicy,
+  getCancellationTerms,
+  getNoShowDeadline,
+} from './cancellationPolicy';
+
+const PAYMENT_HOLD_MS = 15 * 60 * 1000; // Unpaid holds are released after 15 min
+const MAX_SESSION_CHARGE_FRACTION = 0.8; // A session charges at most ~10% → 90%
+const TRIP_ARRIVAL_SLACK_MINUTES = 15; // Trip stops keep the charger a little longer for late arrivals
+const NO_FREE_CHARGER = 'No charger free at'; // Start of the error when a hold finds no charger
+
+/**
+ * Allowed transitions; completed, cancelled and expired are terminal
+ */
+const TRANSITIONS: Record<ReservationStatus, ReservationStatus[]> = {
+  pending_payment: ['confirmed', 'cancelled', 'expired'],
+  confirmed: ['in_progress', 'cancelled', 'expired'],
+  in_progress: ['completed'],
+  completed: [],
+  cancelled: [],
+  expired: [],
+};
+
+export const RESERVATION_STATUS_LABELS: Record<ReservationStatus, string> = {
+  pending_payment: 'Awaiting payment',
+  confirmed: 'Confirmed',
+  in_progress: 'Charging',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+};
+
+const LEGACY_MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+/**
+ * Reservation as saved before the lifecycle, times in the device's local time
+ */
+interface LegacyReservation {
   id: string;
   station: string;
-  hostName: string;
   vehicle: string;
-  date: string; // human-readable date
+  date: string; // e.g. "September 30, 2025"
   timeRange: string; // e.g. "3:00 PM - 4:00 PM"
-  minutesLeft: number; // >0 means active
-}
-
-// Seed with existing mock sessions (old static list) – latest (active) will be unshifted when added.
-let reservations: ReservationSession[] = [
-  {
-    id: '1',
-    station: 'BF Homes, Paranaque City',
-    hostName: 'Mark Joseph Ilagan',
-    vehicle: 'Tesla Model 3',
-    date: 'September 30, 2025',
-    timeRange: '3:00 PM - 4:00 PM',
-    minutesLeft: 53,
-  },
-  {
-    id: '2',
-    station: 'Katipunan, Quezon City',
-    hostName: 'Ma. Regina Rosel Galfo',
-    vehicle: 'Tesla Model 3',
-    date: 'September 23, 2025',
-    timeRange: '2:00 PM - 4:00 PM',
-    minutesLeft: 0,
-  },
-  {
-    id: '3',
-    station: 'Timog Avenue, Quezon City',
-    hostName: 'Juan Dela Cruz III',
-    vehicle: 'Tesla Model 3',
-    date: 'September 13, 2025',
-    timeRange: '3:00 PM - 4:00 PM',
-    minutesLeft: 0,
-  },
-  {
-    id: '4',
-    station: 'BF Homes, Paranaque City',
-    hostName: 'Mark Joseph Ilagan',
-    vehicle: 'Tesla Model 3',
-    date: 'September 3, 2025',
-    timeRange: '4:00 PM - 5:00 PM',
-    minutesLeft: 0,
-  },
-];
+}
 
-// Load persisted reservations (if any) on module init. This is async but we keep an in-memory
-// copy for quick synchronous reads when needed. Consumers should prefer the async getters.
-(async () => {
-  try {
-    const stored = await loadReservationsForDevice<ReservationSession[]>();
-    if (stored && Array.isArray(stored) && stored.length > 0) {
-      reservations = stored.concat(reservations);
-    }
-  } catch (e) {
-    // ignore
+export interface CreateReservationParams {
+  station: Station;
+  scheduledStart: Date;
+  durationMinutes: number;
+  estimatedCost: number;
+  arrivalSocPercent?: number; // Planned battery on arrival (getTripStopBookings)
+}
+
+let reservations: Reservation[] = [];
+let loaded: Promise<void> | null = null;
+
+// Signing in or out switches whose reservations are stored; reload on next use
+subscribeToStorageScope(() => {
+  reservations = [];
+  loaded = null;
+});
+
+/**
+ * Load persisted reservations once; every public function awaits this
+ */
+function ensureLoaded(): Promise<void> {
+  if (!loaded) {
+    loaded = (async () => {
+      try {
+        const stored = await loadReservationsForDevice<(Reservation | LegacyReservation)[]>();
+        reservations = (stored || []).map(reservation =>
+          'status' in reservation ? reservation : migrateLegacyReservation(reservation)
+        );
+      } catch (error) {
+        console.warn('Failed to load reservations:', error);
+      }
+    })();
   }
-})();
+  return loaded;
+}
 
-export async function addActiveReservation(stationTitle: string, durationMinutes = 60) {
-  const now = new Date();
-  const end = new Date(now.getTime() + durationMinutes * 60_000);
-  const fmt = (d: Date) => d.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
-  const monthName = now.toLocaleString('en-US', { month: 'long' });
-  const dateStr = `${monthName} ${now.getDate()}, ${now.getFullYear()}`;
-  const session: ReservationSession = {
-    id: String(Date.now()),
-    station: stationTitle,
-    hostName: 'Mark Ilagan', // Use real test user instead of generic 'You'
-    vehicle: 'Tesla Model 3', // Placeholder – choose active vehicle later
-    date: dateStr,
-    timeRange: `${fmt(now)} - ${fmt(end)}`,
-    minutesLeft: durationMinutes,
-  };
-  // Insert at front so it's treated as active reservation (index 0)
-  reservations.unshift(session);
-  // persist per-device
+async function persist(): Promise<void> {
   try {
     await saveReservationsForDevice(reservations);
-  } catch (e) {
-    // non-fatal
+  } catch (error) {
+    // Non-fatal: the in-memory copy is still correct for this app session
+    console.warn('Failed to save reservations:', error);
   }
-  return session;
 }
 
-export async function getReservations(): Promise<ReservationSession[]> {
-  // Return a copy
-  return reservations.slice();
+/**
+ * Estimate the cost of a reserved session
+ * Assumes the vehicle charges at the best power it can draw from the station for the whole
+ * window, capped at one 10% → 90% charge, plus the connection fee.
+ */
+export function estimateReservationCost(
+  station: Station,
+  vehicle: StandardVehicle,
+  durationMinutes: number
+): number {
+  const powerKW = getEffectiveChargingPower(station.powerKW, station.plugTypes, vehicle);
+  const energyKwh = Math.min(
+    powerKW * (durationMinutes / 60),
+    vehicle.batteryCapacity * MAX_SESSION_CHARGE_FRACTION
+  );
+  return Math.round(calculateChargingCost(energyKwh, station.pricePerKwh) * 100) / 100;
 }
 
-// Optional: tick down active reservation minutes (could be driven by an interval elsewhere)
-export async function decrementActiveReservationMinute() {
-  const active = reservations[0];
-  if (active && active.minutesLeft > 0) {
-    active.minutesLeft = Math.max(active.minutesLeft - 1, 0);
-    try {
-      await saveReservationsForDevice(reservations);
-    } catch (e) {
-      // ignore
+/**
+ * Station a reservation was booked at, with the price, fees and power it was booked under
+ * Station details come from the last map search while it is loaded (not after an app restart),
+ * else from the reservation.
+ */
+export function getBookedStation(reservation: Reservation): Station {
+  const station = getKnownStation(reservation.stationId) || {
+    ...createPlaceholderStation(reservation.stationId),
+    name: reservation.stationName,
+    address: reservation.stationAddress,
+  };
+  return {
+    ...station,
+    pricePerKwh: reservation.pricePerKwh ?? station.pricePerKwh,
+    connectionFee: reservation.connectionFee ?? station.connectionFee,
+    hasIdleFee: reservation.hasIdleFee ?? station.hasIdleFee,
+    powerKW: reservation.powerKW ?? station.powerKW,
+    plugTypes: reservation.plugTypes ?? station.plugTypes,
+  };
+}
+
+/**
+ * Free reservation slots at a station for a vehicle, earliest first
+ * @param station Station to book
+ * @param vehicle Vehicle that will charge (decides the connector)
+ * @param durationMinutes Length of the session
+ */
+export async function getStationSlots(
+  station: Station,
+  vehicle: StandardVehicle,
+  durationMinutes: number
+): Promise<ReservationSlot[]> {
+  await expireReservations();
+  return getAvailableSlots(station, reservations, durationMinutes, pickConnector(station, vehicle));
+}
+
+/**
+ * Create a reservation for the active vehicle, holding a charger while payment is pending
+ * Throws if no charger is free for the whole window.
+ */
+export async function createReservation(params: CreateReservationParams): Promise<Reservation> {
+  const vehicleData = (await loadVehicleData()) as SavedVehicleData | null;
+  await expireReservations();
+
+  // No awaits between the availability check and the insert, so two bookings can't both
+  // claim the last charger
+  const reservation = holdCharger(params, vehicleData, reservations);
+
+  reservations.unshift(reservation);
+  await persist();
+  return reservation;
+}
+
+/**
+ * Reservation windows for every charging stop of a planned trip
+ * A window opens at the stop's planned arrival (from the trip departure, including traffic and
+ * earlier charging) and covers the charging time plus TRIP_ARRIVAL_SLACK_MINUTES. The planned
+ * battery on arrival is kept for the charging session to start from.
+ * @param route Route from calculateDetailedRoute
+ */
+export function getTripStopBookings(route: DetailedRoute): CreateReservationParams[] {
+  return route.chargingStops.map(stop => ({
+    station: stop.station,
+    scheduledStart: new Date(stop.arrivalTime),
+    durationMinutes: Math.ceil(stop.chargingDuration) + TRIP_ARRIVAL_SLACK_MINUTES,
+    estimatedCost: stop.cost,
+    arrivalSocPercent: Math.round(stop.arrivalBattery),
+  }));
+}
+
+/**
+ * Reserve every charging stop of a trip in one action, all-or-nothing
+ * Each stop is checked against existing reservations and the stops already held for this trip;
+ * if any stop has no free charger, nothing is held and the error names that stop.
+ * @param stops Stop windows, in trip order (see getTripStopBookings)
+ * @returns Reservations in trip order, sharing one tripId
+ */
+export async function createTripReservations(
+  stops: CreateReservationParams[]
+): Promise<Reservation[]> {
+  if (stops.length === 0) {
+    throw new Error('This trip has no charging stops to reserve');
+  }
+
+  const vehicleData = (await loadVehicleData()) as SavedVehicleData | null;
+  await expireReservations();
+
+  // Same rule as createReservation: check and insert without awaiting in between
+  const tripId = `trip-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+  const held: Reservation[] = [];
+  for (const stop of stops) {
+    const reservation = holdCharger(stop, vehicleData, [...reservations, ...held]);
+    held.push({ ...reservation, tripId });
+  }
+
+  reservations.unshift(...held);
+  await persist();
+  return held.map(reservation => ({ ...reservation }));
+}
+
+/**
+ * Payment succeeded: hold the slot
+ * @param paymentId Payment that paid for it (see paymentService)
+ */
+export async function confirmReservation(id: string, paymentId?: string): Promise<Reservation> {
+  return transition(id, 'confirmed', { confirmedAt: new Date().toISOString(), paymentId });
+}
+
+/**
+ * Charger QR scanned: charging has started
+ * @param sessionId Charging session metering it
+ */
+export async function startReservation(id: string, sessionId?: string): Promise<Reservation> {
+  return transition(id, 'in_progress', { startedAt: new Date().toISOString(), sessionId });
+}
+
+/**
+ * Charging session finished
+ * @param finalCost Metered cost; defaults to the booking estimate
+ * @param rating Optional 1-5 rating from RatingScreen
+ */
+export async function completeReservation(
+  id: string,
+  finalCost?: number,
+  rating?: number,
+  idleFee?: number
+): Promise<Reservation> {
+  const reservation = await getReservation(id);
+  return transition(id, 'completed', {
+    endedAt: new Date().toISOString(),
+    finalCost: finalCost ?? reservation?.estimatedCost,
+    rating,
+    idleFee,
+  });
+}
+
+/**
+ * Record the driver's 1-5 rating of a completed session
+ */
+export async function rateReservation(id: string, rating: number): Promise<Reservation> {
+  await ensureLoaded();
+  const reservation = reservations.find(r => r.id === id);
+  if (!reservation) {
+    throw new Error(`Reservation ${id} not found`);
+  }
+  if (reservation.status !== 'completed') {
+    throw new Error(`Reservation ${id} cannot be rated while ${reservation.status}`);
+  }
+
+  reservation.rating = rating;
+  await persist();
+  return { ...reservation };
+}
+
+/**
+ * Cancel a reservation that hasn't started charging
+ * Records what the reservation's policy charges for cancelling now (see getCancellationTerms);
+ * billingService collects it when the booking is settled.
+ */
+export async function cancelReservation(id: string): Promise<Reservation> {
+  const reservation = await getReservation(id);
+  const now = new Date();
+  return transition(id, 'cancelled', {
+    endedAt: now.toISOString(),
+    ...(reservation && getCancellationChanges(reservation, now)),
+  });
+}
+
+/**
+ * Payment for a whole trip succeeded: confirm every stop
+ * If any stop's hold has lapsed, the rest of the trip is released and this throws, so a trip is
+ * never left partly booked.
+ */
+export async function confirmTripReservations(
+  tripId: string,
+  paymentId?: string
+): Promise<Reservation[]> {
+  const trip = await findTripReservations(tripId);
+  if (trip.length === 0) {
+    throw new Error(`Trip ${tripId} not found`);
+  }
+
+  const now = new Date().toISOString();
+  if (trip.some(reservation => !canTransition(reservation, 'confirmed'))) {
+    // Not the driver's doing: released without a cancellation fee
+    trip
+      .filter(reservation => canTransition(reservation, 'cancelled'))
+      .forEach(reservation =>
+        Object.assign(reservation, { status: 'cancelled', endedAt: now, cancellation: 'free' })
+      );
+    await persist();
+    throw new Error(`Trip ${tripId} could not be confirmed; its chargers were released`);
+  }
+
+  trip.forEach(reservation =>
+    Object.assign(reservation, { status: 'confirmed', confirmedAt: now, paymentId })
+  );
+  await persist();
+  return trip.map(reservation => ({ ...reservation }));
+}
+
+/**
+ * Cancel every stop of a trip that hasn't started charging
+ * Each stop is charged under its own reservation's policy, as with cancelReservation.
+ * @returns Number of reservations cancelled
+ */
+export async function cancelTripReservations(tripId: string): Promise<number> {
+  const pending = (await findTripReservations(tripId)).filter(reservation =>
+    canTransition(reservation, 'cancelled')
+  );
+  const now = new Date();
+  pending.forEach(reservation =>
+    Object.assign(reservation, {
+      status: 'cancelled',
+      endedAt: now.toISOString(),
+      ...getCancellationChanges(reservation, now),
+    })
+  );
+  if (pending.length > 0) {
+    await persist();
+  }
+  return pending.length;
+}
+
+/**
+ * Whether an error from createReservation or createTripReservations means the slot was taken
+ * (every charger already held for the window), rather than a storage or vehicle problem
+ */
+export function isSlotTakenError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith(NO_FREE_CHARGER);
+}
+
+/**
+ * Whether a reservation can move to the given status
+ */
+export function canTransition(reservation: Reservation, status: ReservationStatus): boolean {
+  return TRANSITIONS[reservation.status].includes(status);
+}
+
+/**
+ * All reservations for this device, newest first
+ */
+export async function getReservations(): Promise<Reservation[]> {
+  await ensureLoaded();
+  await expireReservations();
+  return reservations.map(reservation => ({ ...reservation }));
+}
+
+/**
+ * Reservations of a trip booking, in trip order
+ */
+export async function getTripReservations(tripId: string): Promise<Reservation[]> {
+  const trip = await findTripReservations(tripId);
+  return trip.map(reservation => ({ ...reservation }));
+}
+
+export async function getReservation(id: string): Promise<Reservation | undefined> {
+  const all = await getReservations();
+  return all.find(reservation => reservation.id === id);
+}
+
+/**
+ * The reservation currently charging, or else the next confirmed one
+ */
+export async function getActiveReservation(): Promise<Reservation | undefined> {
+  const all = await getReservations();
+  return (
+    all.find(reservation => reservation.status === 'in_progress') ||
+    all
+      .filter(reservation => reservation.status === 'confirmed')
+      .sort((a, b) => a.scheduledStart.localeCompare(b.scheduledStart))[0]
+  );
+}
+
+/**
+ * Expire unpaid holds past holdExpiresAt, and confirmed reservations not scanned by their
+ * no-show deadline (see getNoShowDeadline), which are charged the policy's no-show fee
+ * @param now Reference time (default: now)
+ * @returns Number of reservations expired
+ */
+export async function expireReservations(now: Date = new Date()): Promise<number> {
+  await ensureLoaded();
+  const nowMs = now.getTime();
+  let expired = 0;
+
+  reservations.forEach(reservation => {
+    const isAbandoned =
+      reservation.status === 'pending_payment' && nowMs > getHoldExpiry(reservation);
+    const isNoShow = reservation.status === 'confirmed' && nowMs > getNoShowDeadline(reservation);
+    if (isAbandoned || isNoShow) {
+      reservation.status = 'expired';
+      reservation.endedAt = now.toISOString();
+      if (isNoShow) {
+        reservation.cancellation = 'no_show';
+        reservation.cancellationFee = getCancellationPolicy(
+          reservation.cancellationPolicy
+        ).noShowFee;
+      }
+      expired++;
     }
+  });
+
+  if (expired > 0) {
+    await persist();
+  }
+  return expired;
+}
+
+/**
+ * Apply a transition, throwing if the current status doesn't allow it
+ */
+async function transition(
+  id: string,
+  status: ReservationStatus,
+  changes: Partial<Reservation>
+): Promise<Reservation> {
+  await ensureLoaded();
+  await expireReservations();
+
+  const reservation = reservations.find(r => r.id === id);
+  if (!reservation) {
+    throw new Error(`Reservation ${id} not found`);
   }
-}
\ No newline at end of file
+  if (!canTransition(reservation, status)) {
+    throw new Error(`Reservation ${id} cannot go from ${reservation.status} to ${status}`);
+  }
+
+  Object.assign(reservation, changes, { status });
+  await persist();
+  return { ...reservation };
+}
+
+/**
+ * Live (mutable) reservations of a trip, in trip order
+ */
+async function findTripReservations(tripId: string): Promise<Reservation[]> {
+  await ensureLoaded();
+  await expireReservations();
+  return reservations
+    .filter(reservation => reservation.tripId === tripId)
+    .sort((a, b) => a.scheduledStart.localeCompare(b.scheduledStart));
+}
+
+/**
+ * Build a pending_payment reservation on a charger that is free for the window
+ * Throws if there is none. Synchronous, so callers can check and insert atomically.
+ * @param held Reservations to check against
+ */
+function holdCharger(
+  params: CreateReservationParams,
+  vehicleData: SavedVehicleData | null,
+  held: Reservation[]
+): Reservation {
+  const { station, scheduledStart, durationMinutes, estimatedCost, arrivalSocPercent } = params;
+  const vehicle = resolveVehicleProfile(vehicleData);
+  const connector = pickConnector(station, vehicle);
+
+  const scheduledEnd = new Date(scheduledStart.getTime() + durationMinutes * 60_000);
+  const [chargerIndex] = getFreeChargers(station, held, scheduledStart, scheduledEnd, connector);
+  if (chargerIndex === undefined) {
+    throw new Error(`${NO_FREE_CHARGER} ${station.name} for the selected time`);
+  }
+
+  const now = new Date();
+  return {
+    id: `res-${now.getTime()}-${Math.random().toString(36).slice(2, 6)}`,
+    stationId: station.id,
+    stationName: station.name,
+    stationAddress: station.address,
+    connector,
+    chargerIndex,
+    vehicleId: getVehicleId(vehicleData),
+    vehicleName: vehicle.name,
+    status: 'pending_payment',
+    scheduledStart: scheduledStart.toISOString(),
+    scheduledEnd: scheduledEnd.toISOString(),
+    createdAt: now.toISOString(),
+    holdExpiresAt: new Date(now.getTime() + PAYMENT_HOLD_MS).toISOString(),
+    cancellationPolicy: station.cancellationPolicy || DEFAULT_CANCELLATION_POLICY,
+    estimatedCost,
+    arrivalSocPercent,
+    pricePerKwh: station.pricePerKwh,
+    connectionFee: station.connectionFee,
+    hasIdleFee: station.hasIdleFee,
+    powerKW: station.powerKW,
+    plugTypes: station.plugTypes,
+  };
+}
+
+/**
+ * Cancellation fields to record when a reservation is cancelled at the given time
+ */
+/**
+ * Bring a reservation saved before the lifecycle into it: past ones are completed, upcoming
+ * ones confirmed. They were never paid through the app.
+ */
+function migrateLegacyReservation(legacy: LegacyReservation): Reservation {
+  const [from, to] = legacy.timeRange.split('-').map(time => parseLegacyTime(legacy.date, time));
+  // Unreadable times are placed long in the past so they don't hold a charger
+  const start = from && !Number.isNaN(from.getTime()) ? from : new Date(0);
+  const end = to && to > start ? to : start;
+  const scheduledStart = start.toISOString();
+  const scheduledEnd = end.toISOString();
+  return {
+    id: legacy.id,
+    stationId: '',
+    stationName: legacy.station,
+    stationAddress: legacy.station,
+    connector: null,
+    chargerIndex: 0,
+    vehicleId: '',
+    vehicleName: legacy.vehicle,
+    status: end.getTime() < Date.now() ? 'completed' : 'confirmed',
+    scheduledStart,
+    scheduledEnd,
+    createdAt: scheduledStart,
+    holdExpiresAt: scheduledStart,
+    confirmedAt: scheduledStart,
+    estimatedCost: 0,
+  };
+}
+
+/**
+ * Local date and time of a legacy reservation, e.g. "September 30, 2025" and "3:00 PM"
+ * Parsed by hand, as JS engines differ in which non-ISO dates Date.parse reads.
+ */
+function parseLegacyTime(date: string, time: string): Date {
+  const [, month, day, year] = date.match(/^(\w+) (\d+), (\d+)$/) || [];
+  const [, hour, minute, meridiem] = time.trim().match(/^(\d+):(\d+)\s*([AP]M)$/i) || [];
+  const monthIndex = LEGACY_MONTHS.indexOf(month);
+  if (monthIndex < 0 || !hour) return new Date(NaN);
+  const hours = (Number(hour) % 12) + (meridiem?.toUpperCase() === 'PM' ? 12 : 0);
+  return new Date(Number(year), monthIndex, Number(day), hours, Number(minute));
+}
+
+function getCancellationChanges(reservation: Reservation, at: Date): Partial<Reservation> {
+  const terms = getCancellationTerms(reservation, at);
+  return { cancellation: terms.kind, cancellationFee: terms.fee };
+}
+
+function getHoldExpiry(reservation: Reservation): number {
+  // Reservations saved before holds were tracked only have createdAt
+  return reservation.holdExpiresAt
+    ? Date.parse(reservation.holdExpiresAt)
+    : Date.parse(reservation.createdAt) + PAYMENT_HOLD_MS;
+}
+
+/**
+ * Connector to reserve: a compatible DC plug if the station has one, else a compatible AC plug
+ */
+function pickConnector(station: Station, vehicle: StandardVehicle): ChargingPlug | null {
+  const compatible = getCompatiblePlugs(station.plugTypes, vehicle);
+  return (
+    compatible.find(plug => !AC_PLUGS.includes(plug)) ||
+    compatible[0] ||
+    station.plugTypes[0] ||
+    null
+  );
+}
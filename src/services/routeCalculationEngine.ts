@@ -7,22 +7,37 @@ import { searchPlaces } from './geocodingService';
 import { calculateRoute as calculateOpenRoute, RouteResult } from './openRouteService';
 import { searchStationsAlongRoute } from './openChargeMapService';
 import {
-  getStandardVehicle,
+  StandardVehicle,
   calculateBatteryConsumption,
   needsCharging,
   calculateChargingTime,
   calculateChargingCost,
-  getPricePerKwh,
-  getChargingSpeedCategory,
+  isStationCompatible,
   MINIMUM_BATTERY_BUFFER,
   CHARGING_ARRIVAL_MIN,
   CHARGING_TARGET_PERCENT,
-  PRICING,
-  CONSUMPTION_MULTIPLIERS,
+  DEFAULT_CONSUMPTION_PROFILE,
+  ConsumptionProfile,
+  getConsumptionMultiplier,
 } from './standardVehicleModel';
-import { optimizeRoute, StrategyType } from './chargingOptimizer';
+import {
+  getLegTrafficMultiplier,
+  optimizeRoute,
+  StrategyType,
+  TripSchedule,
+} from './chargingOptimizer';
+import { planRouteWithGraphSearch } from './graphChargingPlanner';
+import { loadActiveVehicleProfile } from './vehicleProfileService';
+import { buildTerrainProfile, getTerrainMultiplier, TerrainProfile } from './terrainModel';
+import { getTrafficMultiplier, getTravelMinutesWithTraffic } from './trafficModel';
+import { formatManilaTime, toManilaISOString } from './manilaTime';
+import { isStationOpenAt } from './stationAccess';
+import { getStationsWithAvailability } from './availabilityService';
+import { buildCostBreakdown } from './billingService';
 import {
   DetailedRoute,
+  PlannerObjective,
+  PlannerType,
   RouteSegment,
   ChargingStop,
   CostBreakdown,
@@ -30,7 +45,7 @@ import {
   RouteCalculationResult,
   TurnInstruction,
 } from '@/types/route-calculation';
-import { Station } from '@/types/navigation';
+import { Station } from '@/types/station';
 
 /**
  * Main function to calculate a detailed route with all segments and charging stops
@@ -47,9 +62,16 @@ export async function calculateDetailedRoute(
       maxDetourKm = 5,
       minimumArrivalBattery = MINIMUM_BATTERY_BUFFER,
       chargingStrategy = 1, // Default to balanced
-      trafficMultiplier = 1.0, // Default no traffic impact
+      departureTime = new Date(),
+      seed,
+      planner = 'greedy',
+      plannerObjective = 'time',
+      consumptionProfile = DEFAULT_CONSUMPTION_PROFILE,
     } = options;
 
+    // Resolve the vehicle profile (explicit option wins over the device's saved vehicle)
+    const vehicle = options.vehicle || (await loadActiveVehicleProfile());
+
     // Step 1: Geocode addresses to coordinates
     const [fromResults, toResults] = await Promise.all([searchPlaces(from), searchPlaces(to)]);
 
@@ -69,47 +91,77 @@ export async function calculateDetailedRoute(
       longitude: parseFloat(toResults[0].lon),
     };
 
-    // Step 2: Calculate base route using OpenRouteService
-    const routeData: RouteResult = await calculateOpenRoute(fromCoords, toCoords, true, false);
+    // Step 2: Calculate base route (with elevation) using OpenRouteService
+    const routeData: RouteResult = await calculateOpenRoute(fromCoords, toCoords, true, true);
+
+    // Climbs cost energy and descents recover some through regen; flat road without elevation
+    const terrainProfile = buildTerrainProfile(
+      routeData.geometry,
+      routeData.elevation,
+      routeData.distance,
+      vehicle
+    );
+    const routeTerrainMultiplier = getTerrainMultiplier(terrainProfile, 0, routeData.distance);
 
-    // Step 3: Check if charging is needed
-    // Using DEMO mode with aggressive battery degradation for presentation
-    const vehicle = getStandardVehicle();
+    // Step 3: Check if charging is needed for the selected driving style
     const requiresCharging = needsCharging(
       currentBatteryPercent,
       routeData.distance,
-      CONSUMPTION_MULTIPLIERS.demo,
-      minimumArrivalBattery
+      routeTerrainMultiplier,
+      minimumArrivalBattery,
+      vehicle,
+      consumptionProfile
     );
 
     // Debug logging
     const batteryUsed = calculateBatteryConsumption(
       routeData.distance,
-      CONSUMPTION_MULTIPLIERS.demo
+      routeTerrainMultiplier,
+      vehicle,
+      consumptionProfile
     );
     const batteryAtDestination = currentBatteryPercent - batteryUsed;
     console.warn('🔋 Battery Calculation:', {
+      vehicle: vehicle.name,
+      consumptionProfile,
       currentBattery: `${currentBatteryPercent}%`,
       distance: `${routeData.distance.toFixed(2)} km`,
       batteryUsed: `${batteryUsed.toFixed(2)}%`,
       batteryAtDestination: `${batteryAtDestination.toFixed(2)}%`,
       minimumRequired: `${minimumArrivalBattery}%`,
+      elevation: terrainProfile
+        ? `+${Math.round(terrainProfile.elevationGain)} m / -${Math.round(terrainProfile.elevationLoss)} m`
+        : 'unavailable',
+      terrainMultiplier: routeTerrainMultiplier.toFixed(2),
       requiresCharging,
     });
 
     // Step 4: Find charging stations if needed
+    // The optimizer drops stations whose connectors can't serve this vehicle
+    const warnings: string[] = [];
     let chargingStations: Station[] = [];
     if (requiresCharging) {
-      const rawStations = await searchStationsAlongRoute(routeData.geometry, maxDetourKm);
-      console.warn(`🔍 Found ${rawStations.length} raw charging stations`);
-      // REMOVED FILTERS - Accept ALL stations for better proximity and variety
-      // This prevents the algorithm from getting stuck with no options
-      console.warn(`✅ Using all ${rawStations.length} charging stations (no filters)`);
-      chargingStations = convertStationsToAppFormat(rawStations);
+      // Same live charger counts the map shows
+      chargingStations = await getStationsWithAvailability(
+        await searchStationsAlongRoute(routeData.geometry, maxDetourKm)
+      );
+      console.warn(`🔍 Found ${chargingStations.length} charging stations`);
+
+      const compatibleCount = chargingStations.filter(station =>
+        isStationCompatible(station.plugTypes, vehicle)
+      ).length;
+      console.warn(
+        `🔌 ${compatibleCount}/${chargingStations.length} stations compatible with ${vehicle.supportedPlugs.join(', ')}`
+      );
+      if (chargingStations.length > 0 && compatibleCount === 0) {
+        warnings.push(
+          `No stations along this route have a connector compatible with your ${vehicle.name}.`
+        );
+      }
     }
 
     // Step 5: Plan optimal charging stops using ABRP optimizer
-    const { segments, chargingStops } = planRouteSegments(
+    const { segments, chargingStops, feasible } = planRouteSegments(
       from,
       to,
       fromCoords,
@@ -119,25 +171,59 @@ export async function calculateDetailedRoute(
       chargingStations,
       minimumArrivalBattery,
       chargingStrategy as StrategyType,
-      trafficMultiplier
+      options.trafficMultiplier,
+      vehicle,
+      maxDetourKm,
+      seed,
+      planner,
+      plannerObjective,
+      terrainProfile,
+      consumptionProfile,
+      departureTime
     );
+    if (!feasible) {
+      warnings.push(
+        `This trip can't be completed above ${minimumArrivalBattery}% battery: no reachable ` +
+          'charging stops cover it. Charge more before leaving or allow a longer detour.'
+      );
+    }
+
+    // Planners skip stations closed on arrival, but the segment ETAs include traffic the
+    // planners only estimate; flag any stop that ends up outside its opening hours
+    chargingStops
+      .filter(stop => !isStationOpenAt(stop.station, new Date(stop.arrivalTime)))
+      .forEach(stop =>
+        warnings.push(
+          `${stop.station.name} may be closed when you arrive at ${formatManilaTime(stop.arrivalTime)}.`
+        )
+      );
 
     // Step 6: Calculate costs
     const costBreakdown = calculateCosts(chargingStops);
 
     // Step 7: Build detailed route object
-    // Using aggressive demo consumption multiplier
     const totalChargingTime = chargingStops.reduce((sum, stop) => sum + stop.chargingDuration, 0);
+    const totalTravelTime = segments
+      .filter(segment => segment.type === 'travel')
+      .reduce((sum, segment) => sum + segment.durationFromPrevious, 0);
     const totalEnergyCharged = chargingStops.reduce((sum, stop) => sum + stop.energyCharged, 0);
     const totalEnergyUsed =
-      ((routeData.distance * vehicle.avgConsumption * CONSUMPTION_MULTIPLIERS.demo) /
+      ((routeData.distance *
+        vehicle.avgConsumption *
+        getConsumptionMultiplier(consumptionProfile) *
+        routeTerrainMultiplier) /
         vehicle.batteryCapacity) *
       100;
 
     const finalBattery =
       currentBatteryPercent +
       chargingStops.reduce((sum, stop) => sum + (stop.departureBattery - stop.arrivalBattery), 0) -
-      calculateBatteryConsumption(routeData.distance, CONSUMPTION_MULTIPLIERS.demo);
+      calculateBatteryConsumption(
+        routeData.distance,
+        routeTerrainMultiplier,
+        vehicle,
+        consumptionProfile
+      );
 
     const detailedRoute: DetailedRoute = {
       id: `route-${Date.now()}`,
@@ -147,20 +233,26 @@ export async function calculateDetailedRoute(
       chargingStops,
       polyline: routeData.geometry,
       totalDistance: Math.round(routeData.distance),
-      totalTravelTime: Math.round(routeData.duration),
+      totalTravelTime: Math.round(totalTravelTime),
       totalChargingTime,
-      totalDuration: Math.round(routeData.duration + totalChargingTime),
+      totalDuration: Math.round(totalTravelTime + totalChargingTime),
       costBreakdown,
+      vehicleName: vehicle.name,
+      consumptionProfile,
+      planner,
       initialBattery: currentBatteryPercent,
       finalBattery: Math.max(finalBattery, 0),
       totalEnergyUsed,
       totalEnergyCharged,
+      departureTime,
+      arrivalTime: segments[segments.length - 1].arrivalTime,
       createdAt: new Date(),
     };
 
     return {
       success: true,
       route: detailedRoute,
+      warnings: warnings.length > 0 ? warnings : undefined,
     };
   } catch (error) {
     console.error('Route calculation error:', error);
@@ -173,6 +265,10 @@ export async function calculateDetailedRoute(
 
 /**
  * Plan route segments with battery tracking and charging stops using ABRP optimizer
+ * Travel durations and consumption include time-of-day traffic at the clock time each segment
+ * is driven, counted from departure and including earlier charging. A set trafficMultiplier
+ * overrides the traffic for consumption on every leg. feasible is false when the planner found
+ * no plan that keeps the battery above the minimum (the segments then show the shortfall).
  */
 function planRouteSegments(
   from: string,
@@ -184,11 +280,29 @@ function planRouteSegments(
   availableStations: Station[],
   minimumArrivalBattery: number,
   chargingStrategy: StrategyType,
-  trafficMultiplier: number
-): { segments: RouteSegment[]; chargingStops: ChargingStop[] } {
+  trafficMultiplier: number | undefined,
+  vehicle: StandardVehicle,
+  maxDetourKm: number,
+  seed: number | undefined,
+  planner: PlannerType,
+  plannerObjective: PlannerObjective,
+  terrainProfile: TerrainProfile | null,
+  consumptionProfile: ConsumptionProfile,
+  departure: Date
+): { segments: RouteSegment[]; chargingStops: ChargingStop[]; feasible: boolean } {
   const segments: RouteSegment[] = [];
   const chargingStops: ChargingStop[] = [];
-  const vehicle = getStandardVehicle();
+
+  // Wall-clock time (Manila) `minutes` into the trip
+  const clockAt = (minutes: number) =>
+    toManilaISOString(new Date(departure.getTime() + minutes * 60_000));
+
+  // Driving time with traffic for a leg starting `startMinutes` into the trip
+  const withTraffic = (freeFlowMinutes: number, startMinutes: number) =>
+    getTravelMinutesWithTraffic(
+      freeFlowMinutes,
+      new Date(departure.getTime() + startMinutes * 60_000)
+    );
 
   // Step 1: Starting point segment
   segments.push({
@@ -201,19 +315,49 @@ function planRouteSegments(
     durationFromPrevious: 0,
     cumulativeDistance: 0,
     cumulativeDuration: 0,
+    arrivalTime: clockAt(0),
+    departureTime: clockAt(0),
     batteryAtArrival: initialBattery,
     batteryAtDeparture: initialBattery,
   });
 
-  // Step 2: Use ABRP optimizer to find optimal charging stops
-  const optimizedRoute = optimizeRoute(
-    routeData.distance,
-    initialBattery,
-    availableStations,
-    minimumArrivalBattery,
-    chargingStrategy,
-    trafficMultiplier
-  );
+  // Step 2: Find charging stops with the ABRP optimizer or the graph-search planner
+  const schedule: TripSchedule = {
+    departure,
+    minutesPerKm: routeData.distance > 0 ? routeData.duration / routeData.distance : 0,
+    trafficMultiplier,
+  };
+  const departureTraffic = trafficMultiplier ?? getTrafficMultiplier(departure);
+  const optimizerOptions = {
+    vehicle,
+    routePolyline: routeData.geometry,
+    maxDetourKm,
+    seed,
+    terrainProfile,
+    consumptionProfile,
+    schedule,
+  };
+  const optimizedRoute =
+    planner === 'graph'
+      ? planRouteWithGraphSearch(
+          routeData.distance,
+          initialBattery,
+          availableStations,
+          minimumArrivalBattery,
+          chargingStrategy,
+          plannerObjective,
+          departureTraffic,
+          optimizerOptions
+        )
+      : optimizeRoute(
+          routeData.distance,
+          initialBattery,
+          availableStations,
+          minimumArrivalBattery,
+          chargingStrategy,
+          departureTraffic,
+          optimizerOptions
+        );
 
   let cumulativeDistance = 0;
   let cumulativeDuration = 0;
@@ -225,11 +369,15 @@ function planRouteSegments(
     // No charging needed - direct route
     const batteryConsumed = calculateBatteryConsumption(
       routeData.distance,
-      CONSUMPTION_MULTIPLIERS.demo * trafficMultiplier
+      getLegTrafficMultiplier(schedule, 0, routeData.distance) *
+        getTerrainMultiplier(terrainProfile, 0, routeData.distance),
+      vehicle,
+      consumptionProfile
     );
     const finalBattery = initialBattery - batteryConsumed;
 
     const travelInstructions = extractTravelInstructions(routeData);
+    const travelDuration = withTraffic(routeData.duration, 0);
 
     segments.push({
       id: `segment-${segmentOrder}`,
@@ -238,28 +386,35 @@ function planRouteSegments(
       location: `Traveling to ${to}`,
       coordinates: toCoords,
       distanceFromPrevious: routeData.distance,
-      durationFromPrevious: routeData.duration,
+      durationFromPrevious: travelDuration,
       cumulativeDistance: routeData.distance,
-      cumulativeDuration: routeData.duration,
+      cumulativeDuration: travelDuration,
+      arrivalTime: clockAt(travelDuration),
       batteryAtArrival: Math.max(finalBattery, 0),
       instructions: travelInstructions,
     });
 
     segmentOrder++;
     cumulativeDistance = routeData.distance;
-    cumulativeDuration = routeData.duration;
+    cumulativeDuration = travelDuration;
   } else {
     // Process each optimized charging stop
     for (let i = 0; i < optimizedRoute.stops.length; i++) {
       const stop = optimizedRoute.stops[i];
 
       // Calculate distance and duration to this stop
+      // Includes the detour back to the route from the previous station and out to this one
+      const previousStop = i === 0 ? null : optimizedRoute.stops[i - 1];
       const distanceToStop =
-        i === 0
-          ? stop.distanceFromStart
-          : stop.distanceFromStart - optimizedRoute.stops[i - 1].distanceFromStart;
-
-      const durationToStop = (distanceToStop / routeData.distance) * routeData.duration;
+        stop.distanceFromStart -
+        (previousStop ? previousStop.distanceFromStart : 0) +
+        (previousStop ? previousStop.detourKm : 0) +
+        stop.detourKm;
+
+      const durationToStop = withTraffic(
+        (distanceToStop / routeData.distance) * routeData.duration,
+        cumulativeDuration
+      );
 
       cumulativeDistance += distanceToStop;
       cumulativeDuration += durationToStop;
@@ -280,6 +435,7 @@ function planRouteSegments(
         durationFromPrevious: durationToStop,
         cumulativeDistance,
         cumulativeDuration,
+        arrivalTime: clockAt(cumulativeDuration),
         batteryAtArrival: Math.max(stop.arrivalBattery, CHARGING_ARRIVAL_MIN),
         instructions: extractTravelInstructions(
           routeData,
@@ -291,20 +447,9 @@ function planRouteSegments(
       segmentOrder++;
 
       // Charging stop segment
+      const arrivalTime = clockAt(cumulativeDuration);
       cumulativeDuration += stop.chargingTime;
-
-      // Update station with calculated pricing
-      const stationPowerKW = Math.min(
-        stop.station.powerKW || vehicle.fastChargingPower,
-        vehicle.maxChargingPower
-      );
-      const dynamicPricePerKwh = getPricePerKwh(
-        stationPowerKW,
-        stop.station.isTeslaSupercharger || false,
-        stop.station.pricePerKwh
-      );
-      stop.station.pricePerKwh = dynamicPricePerKwh;
-      stop.station.chargingSpeed = getChargingSpeedCategory(stationPowerKW);
+      const departureTime = clockAt(cumulativeDuration);
 
       segments.push({
         id: `segment-${segmentOrder}`,
@@ -316,6 +461,8 @@ function planRouteSegments(
         durationFromPrevious: 0,
         cumulativeDistance,
         cumulativeDuration,
+        arrivalTime,
+        departureTime,
         batteryAtArrival: Math.max(stop.arrivalBattery, CHARGING_ARRIVAL_MIN),
         batteryAtDeparture: stop.departureBattery,
         chargingStation: stop.station,
@@ -335,6 +482,8 @@ function planRouteSegments(
         cost: stop.cost,
         distanceFromStart: cumulativeDistance,
         reasonForStop: stop.reasonForStop,
+        arrivalTime,
+        departureTime,
       });
 
       currentBattery = stop.departureBattery;
@@ -342,8 +491,11 @@ function planRouteSegments(
 
     // Final travel segment to destination
     const lastStop = optimizedRoute.stops[optimizedRoute.stops.length - 1];
-    const finalDistance = routeData.distance - lastStop.distanceFromStart;
-    const finalDuration = (finalDistance / routeData.distance) * routeData.duration;
+    const finalDistance = routeData.distance - lastStop.distanceFromStart + lastStop.detourKm;
+    const finalDuration = withTraffic(
+      (finalDistance / routeData.distance) * routeData.duration,
+      cumulativeDuration
+    );
 
     cumulativeDistance += finalDistance;
     cumulativeDuration += finalDuration;
@@ -358,6 +510,7 @@ function planRouteSegments(
       durationFromPrevious: finalDuration,
       cumulativeDistance,
       cumulativeDuration,
+      arrivalTime: clockAt(cumulativeDuration),
       batteryAtArrival: Math.max(optimizedRoute.finalBattery, 0),
       instructions: extractTravelInstructions(
         routeData,
@@ -380,13 +533,14 @@ function planRouteSegments(
     durationFromPrevious: 0,
     cumulativeDistance,
     cumulativeDuration,
+    arrivalTime: clockAt(cumulativeDuration),
     batteryAtArrival: Math.max(
       optimizedRoute.stops.length > 0 ? optimizedRoute.finalBattery : currentBattery,
       0
     ),
   });
 
-  return { segments, chargingStops };
+  return { segments, chargingStops, feasible: optimizedRoute.feasible };
 }
 
 /**
@@ -533,48 +687,12 @@ function toRad(degrees: number): number {
 
 /**
  * Calculate total costs for the trip
+ * Itemized like the final bill (see billingService), so the plan and the receipt agree.
  */
 function calculateCosts(chargingStops: ChargingStop[]): CostBreakdown {
   const chargingCost = chargingStops.reduce((sum, stop) => sum + stop.cost, 0);
-  const bookingFee = PRICING.bookingFee; // Flat PHP 30 booking fee
-  const commissionFee = chargingCost * PRICING.commissionFeeRate; // 2% commission
-  const totalCost = chargingCost + bookingFee + commissionFee;
-
-  return {
-    chargingCost: Math.round(chargingCost * 100) / 100,
-    bookingFee: Math.round(bookingFee * 100) / 100,
-    commissionFee: Math.round(commissionFee * 100) / 100,
-    serviceFee: 0, // No service fee for presentation
-    totalCost: Math.round(totalCost * 100) / 100,
-  };
-}
-
-/**
- * Convert OpenChargeMap stations to app format
- */
-function convertStationsToAppFormat(stations: any[]): Station[] {
-  return stations.map(station => {
-    const powerKW = station.powerKW || (station.isFastCharger ? 50 : 22);
-    const isTeslaSupercharger = station.isTeslaSupercharger || false;
-
-    // Calculate dynamic pricing based on station power
-    const pricePerKwh = getPricePerKwh(powerKW, isTeslaSupercharger);
-
-    return {
-      id: station.id.toString(),
-      name: station.name,
-      address: station.address,
-      latitude: station.latitude,
-      longitude: station.longitude,
-      availableChargers: station.isAvailable ? Math.max(1, station.numberOfPoints - 1) : 0,
-      totalChargers: station.numberOfPoints || 2,
-      chargingSpeed: station.isFastCharger ? `Fast (${powerKW}kW)` : 'Standard (22kW)',
-      pricePerKwh,
-      connectionFee: PRICING.connectionFee,
-      amenities: ['Restroom', 'WiFi'],
-      rating: 4.0,
-      powerKW,
-      isTeslaSupercharger,
-    };
-  });
+  // The plan leaves each stop as soon as charging finishes, so no idle fees are expected; the
+  // stops that would bill idle time are counted so the plan can warn about them
+  const idleFeeStops = chargingStops.filter(stop => stop.station.hasIdleFee).length;
+  return buildCostBreakdown(chargingCost, 0, idleFeeStops);
 }
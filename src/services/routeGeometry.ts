@@ -0,0 +1,109 @@
+/**
+ * Route Geometry Helpers
+ * Projects points (e.g. charging stations) onto a route polyline so planning can reason about
+ * where along the route a station sits and how far off the road it is.
+ */
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Position of a point relative to a route polyline
+ */
+export interface RoutePosition {
+  distanceAlongRoute: number; // km from route start to the closest point on the route
+  detourKm: number; // km (straight line) from the route to the point, one way
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+function toRad(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+/**
+ * Great-circle distance between two coordinates (Haversine formula)
+ * @returns Distance in km
+ */
+export function haversineDistance(point1: GeoPoint, point2: GeoPoint): number {
+  const dLat = toRad(point2.latitude - point1.latitude);
+  const dLon = toRad(point2.longitude - point1.longitude);
+  const lat1 = toRad(point1.latitude);
+  const lat2 = toRad(point2.latitude);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.sin(dLon / 2) * Math.sin(dLon / 2) * Math.cos(lat1) * Math.cos(lat2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_KM * c;
+}
+
+/**
+ * Cumulative distance (km) at each polyline vertex, starting at 0
+ */
+export function getCumulativeDistances(polyline: GeoPoint[]): number[] {
+  const cumulative: number[] = [];
+  let total = 0;
+  for (let i = 0; i < polyline.length; i++) {
+    if (i > 0) {
+      total += haversineDistance(polyline[i - 1], polyline[i]);
+    }
+    cumulative.push(total);
+  }
+  return cumulative;
+}
+
+/**
+ * Project a point onto a route polyline
+ * Uses a local equirectangular approximation per segment, which is accurate to well under
+ * 1% at the segment lengths returned by OpenRouteService.
+ * @param point Point to project
+ * @param polyline Route polyline
+ * @param cumulative Precomputed cumulative distances (see getCumulativeDistances)
+ * @returns Position along the route, or null if the polyline is empty
+ */
+export function projectOntoRoute(
+  point: GeoPoint,
+  polyline: GeoPoint[],
+  cumulative: number[] = getCumulativeDistances(polyline)
+): RoutePosition | null {
+  if (polyline.length === 0) return null;
+  if (polyline.length === 1) {
+    return { distanceAlongRoute: 0, detourKm: haversineDistance(point, polyline[0]) };
+  }
+
+  let best: RoutePosition | null = null;
+
+  for (let i = 0; i < polyline.length - 1; i++) {
+    const start = polyline[i];
+    const end = polyline[i + 1];
+    const kmPerDegLon = (Math.PI / 180) * EARTH_RADIUS_KM * Math.cos(toRad(start.latitude));
+    const kmPerDegLat = (Math.PI / 180) * EARTH_RADIUS_KM;
+
+    // Segment and point in km relative to the segment start
+    const segX = (end.longitude - start.longitude) * kmPerDegLon;
+    const segY = (end.latitude - start.latitude) * kmPerDegLat;
+    const ptX = (point.longitude - start.longitude) * kmPerDegLon;
+    const ptY = (point.latitude - start.latitude) * kmPerDegLat;
+
+    const segLengthSq = segX * segX + segY * segY;
+    const t =
+      segLengthSq > 0 ? Math.max(0, Math.min(1, (ptX * segX + ptY * segY) / segLengthSq)) : 0;
+
+    const dx = ptX - t * segX;
+    const dy = ptY - t * segY;
+    const lateral = Math.sqrt(dx * dx + dy * dy);
+
+    if (!best || lateral < best.detourKm) {
+      const segmentLength = cumulative[i + 1] - cumulative[i];
+      best = {
+        distanceAlongRoute: cumulative[i] + t * segmentLength,
+        detourKm: lateral,
+      };
+    }
+  }
+
+  return best;
+}
@@ -1,5 +1,5 @@
-import { Station, Route } from '@/types/navigation';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Route } from '@/types/navigation';
+import { Station } from '@/types/station';
 import {
   needsCharging,
   estimateBatteryConsumption,
@@ -10,83 +10,101 @@ import {
   searchStationsAlongRoute,
   searchStationsNearPoint,
   filterStations,
-  ChargingStation,
+  getKnownStation,
 } from './openChargeMapService';
 import { searchPlaces } from './geocodingService';
+import { loadVehicleData } from './deviceStore';
+import { OpenChargeMapPOI } from './stationCache';
+import { normalizeStations } from './stationNormalizer';
 
 /**
  * RouteService handles route calculation and charging station optimization
  * Integrates OpenRouteService for routing and OpenChargeMap for stations
  */
 
-// Fallback mock stations (only used if APIs fail)
-const FALLBACK_STATIONS: Station[] = [
+// Fallback mock stations (only used if APIs fail), normalized like any other OpenChargeMap POI
+const FALLBACK_POIS: OpenChargeMapPOI[] = [
   {
-    id: '1',
-    name: 'SM Mall of Asia EV Charging',
-    address: 'SM Mall of Asia Complex, Pasay City',
-    latitude: 14.5357,
-    longitude: 120.9819,
-    availableChargers: 3,
-    totalChargers: 4,
-    chargingSpeed: 'Fast (50kW)',
-    pricePerKwh: 15.5,
-    amenities: ['Restaurant', 'Shopping', 'Restroom', 'WiFi'],
-    rating: 4.5,
+    ID: 1,
+    AddressInfo: {
+      Title: 'SM Mall of Asia EV Charging',
+      AddressLine1: 'SM Mall of Asia Complex',
+      Town: 'Pasay City',
+      StateOrProvince: 'Metro Manila',
+      Latitude: 14.5357,
+      Longitude: 120.9819,
+    },
+    Connections: [
+      { PowerKW: 50, ConnectionType: { Title: 'CCS (Type 2)' } },
+      { PowerKW: 50, ConnectionType: { Title: 'Type 2 (Socket Only)' } },
+    ],
+    NumberOfPoints: 4,
+    StatusType: { Title: 'Operational' },
   },
   {
-    id: '2',
-    name: 'Bonifacio Global City Charging Hub',
-    address: '26th St, Bonifacio Global City, Taguig',
-    latitude: 14.5547,
-    longitude: 121.0484,
-    availableChargers: 2,
-    totalChargers: 6,
-    chargingSpeed: 'Ultra Fast (150kW)',
-    pricePerKwh: 18.0,
-    amenities: ['Restaurant', 'Shopping', 'Restroom', 'Security'],
-    rating: 4.8,
+    ID: 2,
+    AddressInfo: {
+      Title: 'Bonifacio Global City Charging Hub',
+      AddressLine1: '26th St, Bonifacio Global City',
+      Town: 'Taguig',
+      StateOrProvince: 'Metro Manila',
+      Latitude: 14.5547,
+      Longitude: 121.0484,
+    },
+    Connections: [{ PowerKW: 150, ConnectionType: { Title: 'CCS (Type 2)' } }],
+    NumberOfPoints: 6,
+    StatusType: { Title: 'Operational' },
   },
   {
-    id: '3',
-    name: 'Quezon City Circle Charging Point',
-    address: 'Quezon Memorial Circle, Quezon City',
-    latitude: 14.6542,
-    longitude: 121.05,
-    availableChargers: 4,
-    totalChargers: 4,
-    chargingSpeed: 'Fast (50kW)',
-    pricePerKwh: 14.0,
-    amenities: ['Park', 'Restroom', 'Food Court'],
-    rating: 4.2,
+    ID: 3,
+    AddressInfo: {
+      Title: 'Quezon City Circle Charging Point',
+      AddressLine1: 'Quezon Memorial Circle',
+      Town: 'Quezon City',
+      StateOrProvince: 'Metro Manila',
+      Latitude: 14.6542,
+      Longitude: 121.05,
+    },
+    Connections: [
+      { PowerKW: 50, ConnectionType: { Title: 'CCS (Type 2)' } },
+      { PowerKW: 50, ConnectionType: { Title: 'CHAdeMO' } },
+    ],
+    NumberOfPoints: 4,
+    StatusType: { Title: 'Operational' },
   },
   {
-    id: '4',
-    name: 'Makati Central Business District Station',
-    address: 'Ayala Avenue, Makati City',
-    latitude: 14.5547,
-    longitude: 121.0244,
-    availableChargers: 5,
-    totalChargers: 8,
-    chargingSpeed: 'Fast (50kW)',
-    pricePerKwh: 16.5,
-    amenities: ['Shopping', 'Restaurant', 'WiFi', 'Security'],
-    rating: 4.6,
+    ID: 4,
+    AddressInfo: {
+      Title: 'Makati Central Business District Station',
+      AddressLine1: 'Ayala Avenue',
+      Town: 'Makati City',
+      StateOrProvince: 'Metro Manila',
+      Latitude: 14.5547,
+      Longitude: 121.0244,
+    },
+    Connections: [
+      { PowerKW: 50, ConnectionType: { Title: 'CCS (Type 2)' } },
+      { PowerKW: 50, ConnectionType: { Title: 'Type 2 (Socket Only)' } },
+    ],
+    NumberOfPoints: 8,
+    StatusType: { Title: 'Operational' },
   },
   {
-    id: '5',
-    name: 'Manila Bay Area Charging',
-    address: 'Roxas Boulevard, Manila',
-    latitude: 14.5764,
-    longitude: 120.9822,
-    availableChargers: 2,
-    totalChargers: 3,
-    chargingSpeed: 'Standard (22kW)',
-    pricePerKwh: 12.0,
-    amenities: ['Scenic View', 'Restroom'],
-    rating: 4.0,
+    ID: 5,
+    AddressInfo: {
+      Title: 'Manila Bay Area Charging',
+      AddressLine1: 'Roxas Boulevard',
+      Town: 'Manila',
+      StateOrProvince: 'Metro Manila',
+      Latitude: 14.5764,
+      Longitude: 120.9822,
+    },
+    Connections: [{ PowerKW: 22, ConnectionType: { Title: 'Type 2 (Socket Only)' } }],
+    NumberOfPoints: 3,
+    StatusType: { Title: 'Operational' },
   },
 ];
+const FALLBACK_STATIONS: Station[] = normalizeStations(FALLBACK_POIS);
 
 interface RouteCalculationParams {
   from: string;
@@ -103,11 +121,10 @@ export async function calculateRoute(params: RouteCalculationParams): Promise<Ro
   const { from, to } = params;
 
   try {
-    // Get vehicle data from storage
+    // Get the driver's vehicle from storage
     let vehicleData = null;
     try {
-      const stored = await AsyncStorage.getItem('vehicleData');
-      vehicleData = stored ? JSON.parse(stored) : null;
+      vehicleData = await loadVehicleData();
     } catch (error) {
       console.error('Error loading vehicle data:', error);
     }
@@ -173,8 +190,8 @@ export async function calculateRoute(params: RouteCalculationParams): Promise<Ro
         minPowerKW: 22, // At least Level 2 charging
       });
 
-      // Convert to our Station format and take top 3
-      suggestedStations = filteredStations.slice(0, 3).map(convertToStation);
+      // Take top 3
+      suggestedStations = filteredStations.slice(0, 3);
 
       if (__DEV__) {
         console.warn(`Found ${filteredStations.length} suitable charging stations`);
@@ -208,41 +225,6 @@ export async function calculateRoute(params: RouteCalculationParams): Promise<Ro
   }
 }
 
-/**
- * Convert OpenChargeMap station to our Station format
- */
-function convertToStation(ocmStation: ChargingStation): Station {
-  // Determine charging speed category
-  let chargingSpeed = 'Standard (22kW)';
-  if (ocmStation.powerKW) {
-    if (ocmStation.powerKW >= 150) {
-      chargingSpeed = `Ultra Fast (${ocmStation.powerKW}kW)`;
-    } else if (ocmStation.powerKW >= 50) {
-      chargingSpeed = `Fast (${ocmStation.powerKW}kW)`;
-    } else {
-      chargingSpeed = `Standard (${ocmStation.powerKW}kW)`;
-    }
-  }
-
-  // Estimate available/total chargers
-  const totalChargers = ocmStation.numberOfPoints || 2;
-  const availableChargers = ocmStation.isAvailable ? Math.max(1, Math.floor(totalChargers / 2)) : 0;
-
-  return {
-    id: ocmStation.id.toString(),
-    name: ocmStation.name,
-    address: ocmStation.address,
-    latitude: ocmStation.latitude,
-    longitude: ocmStation.longitude,
-    availableChargers,
-    totalChargers,
-    chargingSpeed,
-    pricePerKwh: 15.0, // Default price - OpenChargeMap doesn't always have this
-    amenities: ['Restroom', 'WiFi'], // Generic amenities
-    rating: 4.0, // Default rating
-  };
-}
-
 /**
  * Get nearby charging stations using OpenChargeMap
  */
@@ -252,8 +234,7 @@ export async function getNearbyChargingStations(
   radiusKm: number = 10
 ): Promise<Station[]> {
   try {
-    const stations = await searchStationsNearPoint(latitude, longitude, radiusKm, 20);
-    return stations.map(convertToStation);
+    return await searchStationsNearPoint(latitude, longitude, radiusKm, 20);
   } catch (error) {
     console.error('Error fetching nearby stations:', error);
     return FALLBACK_STATIONS;
@@ -264,12 +245,14 @@ export async function getNearbyChargingStations(
  * Get station details by ID (searches OpenChargeMap)
  */
 export async function getStationById(stationId: string): Promise<Station | undefined> {
+  const known = getKnownStation(stationId);
+  if (known) return known;
+
   try {
     // For now, search near Manila and filter by ID
     // In production, you'd want a direct station lookup endpoint
     const stations = await searchStationsNearPoint(14.5995, 120.9842, 50, 100);
-    const found = stations.find(s => s.id.toString() === stationId);
-    return found ? convertToStation(found) : undefined;
+    return stations.find(s => s.id === stationId);
   } catch (error) {
     console.error('Error fetching station:', error);
     return FALLBACK_STATIONS.find(s => s.id === stationId);
@@ -0,0 +1,50 @@
+/**
+ * Secure Session Store
+ * Keeps the signed-in session (tokens and the driver's profile) in the platform keystore
+ * (iOS Keychain, Android Keystore) through expo-secure-store, never in AsyncStorage. Where
+ * there is no keystore (web), the session is only kept in memory and the driver signs in again
+ * after a restart.
+ */
+
+import * as SecureStore from 'expo-secure-store';
+import { AuthSession } from '@/types/auth';
+
+const SESSION_KEY = 'authSession';
+
+let memorySession: AuthSession | null = null;
+let available: Promise<boolean> | null = null;
+
+function isKeystoreAvailable(): Promise<boolean> {
+  if (!available) {
+    available = SecureStore.isAvailableAsync().catch(() => false);
+  }
+  return available;
+}
+
+export async function saveAuthSession(session: AuthSession): Promise<void> {
+  memorySession = session;
+  if (await isKeystoreAvailable()) {
+    await SecureStore.setItemAsync(SESSION_KEY, JSON.stringify(session), {
+      keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+    });
+  }
+}
+
+export async function loadAuthSession(): Promise<AuthSession | null> {
+  if (!(await isKeystoreAvailable())) return memorySession;
+  try {
+    const raw = await SecureStore.getItemAsync(SESSION_KEY);
+    return raw ? (JSON.parse(raw) as AuthSession) : null;
+  } catch (error) {
+    // Unreadable (e.g. restored from a backup onto another device): sign in again
+    console.warn('⚠️ Could not read the saved session:', error);
+    return null;
+  }
+}
+
+export async function clearAuthSession(): Promise<void> {
+  memorySession = null;
+  if (await isKeystoreAvailable()) {
+    await SecureStore.deleteItemAsync(SESSION_KEY);
+  }
+}
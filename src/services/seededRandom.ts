@@ -0,0 +1,35 @@
+/**
+ * Seeded pseudo-random numbers
+ * Planning code must be reproducible for a given input, so anything that needs "random"
+ * variety (demo stations, optional plan variation) draws from a seeded generator instead of
+ * Math.random.
+ */
+
+export type RandomSource = () => number; // Returns a float in [0, 1)
+
+/**
+ * Create a seeded generator (mulberry32)
+ * @param seed Any integer; the same seed always yields the same sequence
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Derive a numeric seed from a string (FNV-1a)
+ */
+export function seedFromString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,150 @@
+/**
+ * Slot Availability
+ * Per-station reservation calendar built from the station's charger count and the
+ * reservations already holding its chargers, so a charger can never be booked twice.
+ *
+ * Every reservation holds one specific charger (chargerIndex) for its whole window.
+ * OpenChargeMap doesn't say which charger carries which connector, so chargers are modelled
+ * as multi-standard posts offering every connector the station lists: a connector is
+ * bookable when the station lists it and some charger is free for the window.
+ *
+ * Slot times are Manila time, within BOOKING_HOURS and the station's opening hours.
+ *
+ * Pure functions; reservationsStore supplies the reservations.
+ */
+
+import { Reservation, ReservationStatus } from '@/types/reservation';
+import { Station } from '@/types/station';
+import { ChargingPlug } from './standardVehicleModel';
+import { fromManilaDate, getManilaClock } from './manilaTime';
+import { isStationOpenAt } from './stationAccess';
+
+export const SLOT_MINUTES = 30; // Reservation windows start on the half hour
+export const BOOKING_HOURS = { open: 6, close: 22 }; // Window offered by the slot picker (Manila)
+
+/**
+ * Statuses that hold a charger (pending_payment is the temporary hold during payment)
+ */
+const HOLDING_STATUSES: ReservationStatus[] = ['pending_payment', 'confirmed', 'in_progress'];
+
+export interface ReservationSlot {
+  start: Date;
+  end: Date;
+  freeChargers: number;
+}
+
+/**
+ * Whether a reservation currently holds its charger
+ */
+export function isHoldingCharger(reservation: Reservation): boolean {
+  return HOLDING_STATUSES.includes(reservation.status);
+}
+
+/**
+ * Whether a station offers a connector (stations without connector data accept any)
+ */
+export function stationOffersConnector(station: Station, connector: ChargingPlug | null): boolean {
+  return !connector || station.plugTypes.length === 0 || station.plugTypes.includes(connector);
+}
+
+/**
+ * Indices of the station's chargers that are free for the whole window
+ * @param station Station to check
+ * @param reservations All known reservations (any station, any status)
+ * @param start Window start
+ * @param end Window end
+ * @param connector Connector the vehicle needs (null = any)
+ */
+export function getFreeChargers(
+  station: Station,
+  reservations: Reservation[],
+  start: Date,
+  end: Date,
+  connector: ChargingPlug | null = null
+): number[] {
+  if (!stationOffersConnector(station, connector)) return [];
+
+  const busy = new Set(
+    reservations
+      .filter(
+        reservation =>
+          reservation.stationId === station.id &&
+          isHoldingCharger(reservation) &&
+          overlaps(reservation, start, end)
+      )
+      .map(reservation => reservation.chargerIndex ?? 0)
+  );
+
+  const free: number[] = [];
+  for (let index = 0; index < Math.max(station.totalChargers, 1); index++) {
+    if (!busy.has(index)) free.push(index);
+  }
+  return free;
+}
+
+/**
+ * Free reservation slots for a station, earliest first
+ * Slots start every SLOT_MINUTES within BOOKING_HOURS (Manila time) and are only offered when
+ * the station is open and a charger is free for the whole duration.
+ * @param station Station to book
+ * @param reservations All known reservations
+ * @param durationMinutes Length of the session
+ * @param connector Connector the vehicle needs (null = any)
+ * @param from Earliest start (default: now)
+ * @param days Number of calendar days to cover, starting with today (default: 2)
+ */
+export function getAvailableSlots(
+  station: Station,
+  reservations: Reservation[],
+  durationMinutes: number,
+  connector: ChargingPlug | null = null,
+  from: Date = new Date(),
+  days: number = 2
+): ReservationSlot[] {
+  const slots: ReservationSlot[] = [];
+  const today = getManilaClock(from);
+
+  for (let day = 0; day < days; day++) {
+    const midnight = fromManilaDate(today.year, today.month, today.day + day).getTime();
+    const dayStart = new Date(midnight + BOOKING_HOURS.open * 60 * 60_000);
+    const dayClose = new Date(midnight + BOOKING_HOURS.close * 60 * 60_000);
+
+    for (
+      let start = dayStart;
+      start.getTime() + durationMinutes * 60_000 <= dayClose.getTime();
+      start = new Date(start.getTime() + SLOT_MINUTES * 60_000)
+    ) {
+      if (start.getTime() < from.getTime()) continue;
+      const end = new Date(start.getTime() + durationMinutes * 60_000);
+      if (!isOpenThroughout(station, start, end)) continue;
+      const free = getFreeChargers(station, reservations, start, end, connector);
+      if (free.length > 0) {
+        slots.push({ start, end, freeChargers: free.length });
+      }
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Whether a station is open from start until end, checked every SLOT_MINUTES and in the last
+ * minute of the window
+ */
+function isOpenThroughout(station: Station, start: Date, end: Date): boolean {
+  for (let at = start.getTime(); at < end.getTime(); at += SLOT_MINUTES * 60_000) {
+    if (!isStationOpenAt(station, new Date(at))) return false;
+  }
+  return isStationOpenAt(station, new Date(end.getTime() - 60_000));
+}
+
+/**
+ * A session still charging past its window (overstay) keeps the charger until it stops
+ */
+function overlaps(reservation: Reservation, start: Date, end: Date): boolean {
+  const heldUntil =
+    reservation.status === 'in_progress'
+      ? Math.max(Date.parse(reservation.scheduledEnd), Date.now())
+      : Date.parse(reservation.scheduledEnd);
+  return Date.parse(reservation.scheduledStart) < end.getTime() && start.getTime() < heldUntil;
+}
@@ -1,6 +1,8 @@
 /**
  * Standard Base Vehicle Model
- * Used for all route calculations when real vehicle API is not connected
+ * Defines the vehicle profile shape and the energy/charging helpers used by route planning.
+ * STANDARD_VEHICLE is the fallback profile when the user has not registered a vehicle
+ * (see vehicleProfileService for per-vehicle profiles).
  *
  * Baseline: Tesla Model 3 Long Range (2023)
  * - Industry-standard vehicle for EV infrastructure compatibility
@@ -21,6 +23,7 @@ export interface StandardVehicle {
   supportedPlugs: ChargingPlug[]; // Compatible connector types
   maxChargingPower: number; // kW (absolute maximum the vehicle can accept)
   chargeCurve: ChargeCurvePoint[]; // Realistic charging curve (power vs SoC)
+  massKg?: number; // Curb weight plus typical load (default: ELEVATION_MODEL.defaultMassKg)
 }
 
 /**
@@ -41,12 +44,18 @@ export enum ChargingPlug {
   TYPE_1 = 'Type 1', // J1772, North American standard
 
   // DC Fast Charging
+  CCS1 = 'CCS1', // Combined Charging System (Type 1 + DC pins), US-spec imports
   CCS2 = 'CCS2', // Combined Charging System (Type 2 + DC pins)
   CHADEMO = 'CHAdeMO', // Japanese standard (Nissan, older EVs)
   GB_T = 'GB/T', // Chinese standard
   TESLA = 'Tesla Supercharger', // Tesla proprietary (with adapter)
 }
 
+/**
+ * AC connectors - charging through these is limited by the vehicle's onboard charger
+ */
+export const AC_PLUGS: ChargingPlug[] = [ChargingPlug.TYPE_1, ChargingPlug.TYPE_2];
+
 /**
  * Charging speed categories
  */
@@ -93,6 +102,7 @@ export const STANDARD_VEHICLE: StandardVehicle = {
     ChargingPlug.TESLA, // Tesla Supercharger network
   ],
   maxChargingPower: 250, // kW (vehicle's maximum charging capability)
+  massKg: 1920, // kg (1,844 kg curb weight + driver and luggage)
 
   // Realistic charging curve based on Tesla Model 3 LR field data
   // Source: Real-world charging tests, Tesla specs, and ABRP data
@@ -118,11 +128,54 @@ export const STANDARD_VEHICLE: StandardVehicle = {
 export const CONSUMPTION_MULTIPLIERS = {
   city: 1.0, // Base consumption (lots of stops, lower speed)
   highway: 1.15, // Higher consumption at highway speeds
-  uphill: 1.25, // Significant increase when climbing
-  downhill: 0.85, // Regenerative braking benefit
   withAC: 1.08, // Air conditioning usage (future)
   coldWeather: 1.12, // Battery efficiency loss in cold (future)
-  demo: 2.8, // Aggressive consumption for demo/presentation purposes to showcase charging needs
+};
+
+/**
+ * Consumption profiles - driving style selected per trip
+ * - realistic: typical mixed Philippine driving (default)
+ * - eco: gentle acceleration, moderate highway speeds
+ * - aggressive: fast highway driving, hard acceleration, A/C on high
+ * - demo: exaggerated consumption for presentations that need to showcase charging stops
+ */
+export type ConsumptionProfile = 'realistic' | 'eco' | 'aggressive' | 'demo';
+
+export const CONSUMPTION_PROFILES: Record<
+  ConsumptionProfile,
+  { multiplier: number; label: string; description: string }
+> = {
+  realistic: { multiplier: 1.0, label: 'Normal', description: 'Typical mixed driving' },
+  eco: { multiplier: 0.88, label: 'Eco', description: 'Gentle acceleration, moderate speeds' },
+  aggressive: {
+    multiplier: 1.25,
+    label: 'Sporty',
+    description: 'Fast highway driving and hard acceleration',
+  },
+  demo: { multiplier: 2.8, label: 'Demo', description: 'Exaggerated use to showcase charging' },
+};
+
+export const DEFAULT_CONSUMPTION_PROFILE: ConsumptionProfile = 'realistic';
+
+/**
+ * Get the consumption multiplier for a driving profile
+ */
+export function getConsumptionMultiplier(
+  profile: ConsumptionProfile = DEFAULT_CONSUMPTION_PROFILE
+): number {
+  return (CONSUMPTION_PROFILES[profile] || CONSUMPTION_PROFILES[DEFAULT_CONSUMPTION_PROFILE])
+    .multiplier;
+}
+
+/**
+ * Elevation model used to turn a route's elevation profile into energy
+ * (see terrainModel). Climbing costs the potential energy gained divided by drivetrain
+ * efficiency; descending recovers part of it through regenerative braking.
+ */
+export const ELEVATION_MODEL = {
+  defaultMassKg: 2000, // kg, typical loaded EV when the profile has no mass
+  drivetrainEfficiency: 0.9, // Battery-to-wheel efficiency when climbing
+  regenEfficiency: 0.6, // Share of potential energy recovered when descending
 };
 
 /**
@@ -158,10 +211,12 @@ export const PRICING = {
   bookingFee: 30.0, // Flat ₱30 booking fee per trip
   commissionFeeRate: 0.02, // 2% commission on charging cost
   serviceFee: 0.0, // Removed per trip service fee
+  vatRate: 0.12, // PH VAT; every price above already includes it
 
-  // Idle fees (future implementation)
+  // Idle fees (stations with hasIdleFee; see calculateIdleFee)
   idleFeePerMinute: 2.0, // ₱2/min after grace period
   idleFeeGracePeriod: 60, // 60 minutes before idle fees apply
+  idleFeeWarningMinutes: 10, // Warn the driver this long before the grace period ends
 
   // Fallback pricing
   defaultPricePerKwh: 30.0, // ₱30/kWh if station doesn't specify (market average)
@@ -217,36 +272,138 @@ export function getPricePerKwh(
   }
 }
 
+/**
+ * Normalize a connector title onto the ChargingPlug enum
+ * Accepts OpenChargeMap ConnectionType titles ("CCS (Type 2)", "Type 2 (Socket Only)",
+ * "GB-T DC - GB/T 20234.3") as well as our own labels ("CCS2", "Type 2")
+ * @param title Connector title
+ * @returns Matching plug, or null for connectors no EV profile uses (domestic sockets, etc.)
+ */
+export function normalizePlugType(title: string): ChargingPlug | null {
+  const value = title.toLowerCase();
+
+  // Order matters: CCS titles also mention their Type 1/Type 2 base connector
+  if (value.includes('chademo')) return ChargingPlug.CHADEMO;
+  if (value.includes('tesla') || value.includes('nacs')) return ChargingPlug.TESLA;
+  if (value.includes('ccs') || value.includes('combo')) {
+    const isType1Combo =
+      value.includes('ccs1') || value.includes('type 1') || value.includes('j1772');
+    // Bare "CCS" is assumed to be CCS2, the PH/ASEAN standard
+    return isType1Combo ? ChargingPlug.CCS1 : ChargingPlug.CCS2;
+  }
+  if (value.includes('gb-t') || value.includes('gb/t') || value.includes('gbt')) {
+    return ChargingPlug.GB_T;
+  }
+  if (value.includes('type 2') || value.includes('mennekes') || value.includes('62196-2')) {
+    return ChargingPlug.TYPE_2;
+  }
+  if (value.includes('type 1') || value.includes('j1772')) return ChargingPlug.TYPE_1;
+
+  return null;
+}
+
+/**
+ * Normalize a list of connector titles, dropping unknown connectors and duplicates
+ */
+export function normalizePlugTypes(titles: string[]): ChargingPlug[] {
+  const plugs: ChargingPlug[] = [];
+  titles.forEach(title => {
+    const plug = normalizePlugType(title);
+    if (plug && !plugs.includes(plug)) {
+      plugs.push(plug);
+    }
+  });
+  return plugs;
+}
+
 /**
  * Check if vehicle is compatible with charging plug type
- * @param plugType Charging station plug type
+ * @param plugType Charging station plug type (raw OpenChargeMap title or ChargingPlug value)
+ * @param vehicle Vehicle profile to check against (default: STANDARD_VEHICLE)
  * @returns True if vehicle supports this plug
  */
-export function isPlugCompatible(plugType: string): boolean {
-  const supportedPlugStrings = STANDARD_VEHICLE.supportedPlugs.map(plug => plug.toString());
-  return supportedPlugStrings.includes(plugType);
+export function isPlugCompatible(
+  plugType: string,
+  vehicle: StandardVehicle = STANDARD_VEHICLE
+): boolean {
+  const plug = normalizePlugType(plugType);
+  return plug !== null && vehicle.supportedPlugs.includes(plug);
+}
+
+/**
+ * Get the station plugs a vehicle can actually use
+ * @param plugTypes Station plug types (raw titles or ChargingPlug values)
+ * @param vehicle Vehicle profile (default: STANDARD_VEHICLE)
+ */
+export function getCompatiblePlugs(
+  plugTypes: string[],
+  vehicle: StandardVehicle = STANDARD_VEHICLE
+): ChargingPlug[] {
+  return normalizePlugTypes(plugTypes).filter(plug => vehicle.supportedPlugs.includes(plug));
+}
+
+/**
+ * Check if a station can serve a vehicle
+ * Stations without connector data are treated as incompatible - we can't promise a plug fits
+ * @param plugTypes Station plug types (raw titles or ChargingPlug values)
+ * @param vehicle Vehicle profile (default: STANDARD_VEHICLE)
+ */
+export function isStationCompatible(
+  plugTypes: string[] | undefined,
+  vehicle: StandardVehicle = STANDARD_VEHICLE
+): boolean {
+  return getCompatiblePlugs(plugTypes || [], vehicle).length > 0;
+}
+
+/**
+ * Get the power a vehicle can draw from a station through its compatible plugs
+ * AC-only matches are capped by the onboard charger, DC matches by the vehicle's max power
+ * @param stationPowerKW Station power in kW
+ * @param plugTypes Station plug types (raw titles or ChargingPlug values)
+ * @param vehicle Vehicle profile (default: STANDARD_VEHICLE)
+ */
+export function getEffectiveChargingPower(
+  stationPowerKW: number,
+  plugTypes: string[] | undefined,
+  vehicle: StandardVehicle = STANDARD_VEHICLE
+): number {
+  const compatible = getCompatiblePlugs(plugTypes || [], vehicle);
+  const hasDcMatch = compatible.some(plug => !AC_PLUGS.includes(plug));
+
+  if (compatible.length > 0 && !hasDcMatch) {
+    return Math.min(stationPowerKW, vehicle.standardChargingPower);
+  }
+  return Math.min(stationPowerKW, vehicle.maxChargingPower);
 }
 
 /**
  * Calculate remaining range based on current battery percentage
  */
-export function calculateRemainingRange(batteryPercent: number): number {
-  return (STANDARD_VEHICLE.maxRange * batteryPercent) / 100;
+export function calculateRemainingRange(
+  batteryPercent: number,
+  vehicle: StandardVehicle = STANDARD_VEHICLE
+): number {
+  return (vehicle.maxRange * batteryPercent) / 100;
 }
 
 /**
  * Calculate battery consumption for a given distance
  * @param distanceKm Distance in kilometers
- * @param terrainMultiplier Terrain factor (1.0 = flat, 1.25 = uphill, 0.85 = downhill)
+ * @param terrainMultiplier Consumption factor (1.0 = flat road; see terrainModel for elevation)
+ * @param vehicle Vehicle profile (default: STANDARD_VEHICLE)
+ * @param profile Driving style (default: realistic)
  * @returns Battery percentage consumed
  */
 export function calculateBatteryConsumption(
   distanceKm: number,
-  terrainMultiplier: number = 1.0
+  terrainMultiplier: number = 1.0,
+  vehicle: StandardVehicle = STANDARD_VEHICLE,
+  profile: ConsumptionProfile = DEFAULT_CONSUMPTION_PROFILE
 ): number {
-  const consumption = STANDARD_VEHICLE.avgConsumption * terrainMultiplier;
+  const consumption =
+    vehicle.avgConsumption * terrainMultiplier * getConsumptionMultiplier(profile);
   const kwhUsed = distanceKm * consumption;
-  const percentUsed = (kwhUsed / STANDARD_VEHICLE.batteryCapacity) * 100;
+  const percentUsed = (kwhUsed / vehicle.batteryCapacity) * 100;
   return Math.min(percentUsed, 100);
 }
 
@@ -254,17 +411,26 @@ export function calculateBatteryConsumption(
  * Check if charging is needed for a trip
  * @param currentBatteryPercent Current battery level (%)
  * @param tripDistanceKm Trip distance in kilometers
- * @param terrainMultiplier Consumption multiplier (default: demo mode)
+ * @param terrainMultiplier Terrain/traffic consumption factor (1.0 = flat road)
  * @param minimumArrivalBattery Minimum battery required at destination (%)
+ * @param vehicle Vehicle profile (default: STANDARD_VEHICLE)
+ * @param profile Driving style (default: realistic)
  */
 export function needsCharging(
   currentBatteryPercent: number,
   tripDistanceKm: number,
-  terrainMultiplier: number = CONSUMPTION_MULTIPLIERS.demo,
-  minimumArrivalBattery: number = MINIMUM_BATTERY_BUFFER
+  terrainMultiplier: number = 1.0,
+  minimumArrivalBattery: number = MINIMUM_BATTERY_BUFFER,
+  vehicle: StandardVehicle = STANDARD_VEHICLE,
+  profile: ConsumptionProfile = DEFAULT_CONSUMPTION_PROFILE
 ): boolean {
-  // Calculate battery consumption using the specified multiplier
-  const batteryUsed = calculateBatteryConsumption(tripDistanceKm, terrainMultiplier);
+  // Calculate battery consumption using the specified multiplier and driving style
+  const batteryUsed = calculateBatteryConsumption(
+    tripDistanceKm,
+    terrainMultiplier,
+    vehicle,
+    profile
+  );
   const batteryAtDestination = currentBatteryPercent - batteryUsed;
 
   // Check if we'll have enough battery at destination
@@ -277,14 +443,14 @@ export function needsCharging(
  * @param currentPercent Current battery percentage
  * @param targetPercent Target battery percentage after charging
  * @param stationPowerKW Charging station power in kW (will be limited by vehicle curve)
- * @param chargeCurve Vehicle's charging curve (optional, uses STANDARD_VEHICLE if not provided)
+ * @param vehicle Vehicle profile providing the charge curve and battery capacity
  * @returns Charging time in minutes
  */
 export function calculateChargingTime(
   currentPercent: number,
   targetPercent: number,
   stationPowerKW: number,
-  chargeCurve: ChargeCurvePoint[] = STANDARD_VEHICLE.chargeCurve
+  vehicle: StandardVehicle = STANDARD_VEHICLE
 ): number {
   if (currentPercent >= targetPercent) return 0;
 
@@ -294,13 +460,13 @@ export function calculateChargingTime(
   // Integrate over the charge curve
   for (let soc = currentPercent; soc < targetPercent; soc += stepSize) {
     // Get maximum vehicle charging power at this SoC level
-    const vehicleMaxPower = interpolateChargeCurve(chargeCurve, soc);
+    const vehicleMaxPower = interpolateChargeCurve(vehicle.chargeCurve, soc);
 
     // Actual charging power is limited by both station and vehicle
     const actualPower = Math.min(vehicleMaxPower, stationPowerKW);
 
     // Energy needed for this 1% step
-    const kwhFor1Percent = (stepSize / 100) * STANDARD_VEHICLE.batteryCapacity;
+    const kwhFor1Percent = (stepSize / 100) * vehicle.batteryCapacity;
 
     // Time for this step (in hours, then convert to minutes)
     const hoursForStep = kwhFor1Percent / actualPower;
@@ -355,17 +521,23 @@ export function interpolateChargeCurve(
  * @param currentPercent Current battery percentage
  * @param distanceToNextStop Distance to next charging stop (or destination) in km
  * @param minimumArrival Minimum battery to arrive with
+ * @param vehicle Vehicle profile (default: STANDARD_VEHICLE)
+ * @param profile Driving style (default: realistic)
  * @returns Optimal target percentage to charge to
  */
 export function getOptimalChargingTarget(
   currentPercent: number,
   distanceToNextStop: number,
-  minimumArrival: number = MINIMUM_BATTERY_BUFFER
+  minimumArrival: number = MINIMUM_BATTERY_BUFFER,
+  vehicle: StandardVehicle = STANDARD_VEHICLE,
+  profile: ConsumptionProfile = DEFAULT_CONSUMPTION_PROFILE
 ): number {
   // Calculate battery needed for the distance
   const consumptionForDistance = calculateBatteryConsumption(
     distanceToNextStop,
-    CONSUMPTION_MULTIPLIERS.demo
+    1.0,
+    vehicle,
+    profile
   );
   const batteryNeeded = consumptionForDistance + minimumArrival;
 
@@ -398,6 +570,18 @@ export function calculateChargingCost(
   return energyCost + connectionFee;
 }
 
+/**
+ * Calculate the idle fee for time spent plugged in after charging finished
+ * @param idleMinutes Minutes idle at the charger
+ * @param hasIdleFee Whether the station charges idle fees
+ * @returns Idle fee in PHP (0 within the grace period)
+ */
+export function calculateIdleFee(idleMinutes: number, hasIdleFee: boolean = true): number {
+  if (!hasIdleFee) return 0;
+  const billedMinutes = Math.max(0, Math.floor(idleMinutes) - PRICING.idleFeeGracePeriod);
+  return billedMinutes * PRICING.idleFeePerMinute;
+}
+
 /**
  * Get the standard vehicle instance
  */
@@ -0,0 +1,205 @@
+/**
+ * Station Access
+ * Who may use a station and when it is open, parsed from OpenChargeMap data:
+ * - Access comes from the POI's UsageType (public, membership, customers, private)
+ * - Opening hours come from the free-text AccessComments ("10:00-22:00", "Mon-Sat 8am-9pm",
+ *   "24/7"). Mall chargers without published hours are assumed to follow mall hours.
+ *
+ * Planners use isStationUsableAt to skip stations that are restricted or closed at the
+ * projected arrival time. Hours are Manila time.
+ */
+
+import { OpeningHours, Station, StationAccess } from '@/types/station';
+import { OpenChargeMapPOI } from './stationCache';
+import { formatClockTime, getManilaClock } from './manilaTime';
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Typical Philippine mall hours, used when a mall charger has no published hours
+ */
+export const MALL_HOURS: OpeningHours = { days: ALL_DAYS, open: 10 * 60, close: 22 * 60 };
+
+const MALL_KEYWORDS = [
+  'mall',
+  'sm city',
+  'robinsons place',
+  'robinsons galleria',
+  'glorietta',
+  'greenbelt',
+  'trinoma',
+  'festival supermall',
+];
+
+/**
+ * Access levels a trip can be planned through without arrangements
+ */
+const ROUTABLE_ACCESS: StationAccess[] = ['public'];
+
+export const STATION_ACCESS_LABELS: Record<StationAccess, string> = {
+  public: 'Public',
+  members_only: 'Members only',
+  customers_only: 'Customers only',
+  private: 'Private',
+};
+
+/**
+ * Station access from the POI's OpenChargeMap UsageType
+ * Unknown usage types are treated as public (OpenChargeMap's default for most listings).
+ */
+export function parseStationAccess(usageType: OpenChargeMapPOI['UsageType']): StationAccess {
+  if (!usageType) return 'public';
+
+  // OpenChargeMap UsageType IDs
+  switch (usageType.ID) {
+    case 2: // Private - Restricted Access
+    case 3: // Privately Owned - Notice Required
+      return 'private';
+    case 4: // Public - Membership Required
+      return 'members_only';
+    case 6: // Private - For Staff, Visitors or Customers
+      return 'customers_only';
+  }
+  if (usageType.IsMembershipRequired || usageType.IsAccessKeyRequired) return 'members_only';
+
+  const title = (usageType.Title || '').toLowerCase();
+  if (title.includes('customers') || title.includes('visitors')) return 'customers_only';
+  if (title.includes('membership')) return 'members_only';
+  if (title.startsWith('private')) return 'private';
+  return 'public';
+}
+
+/**
+ * Opening hours for a POI
+ * @returns Hours, or null when the station is open 24/7 or publishes no hours
+ */
+export function parseOpeningHours(poi: OpenChargeMapPOI): OpeningHours | null {
+  const comments = poi.AddressInfo?.AccessComments || '';
+  if (/24\s*\/\s*7|24\s*h(ou)?rs?|open 24/i.test(comments)) return null;
+
+  const parsed = parseHoursText(comments);
+  if (parsed) return parsed;
+
+  const name = `${poi.AddressInfo?.Title || ''} ${poi.AddressInfo?.AddressLine1 || ''}`;
+  const isMall = MALL_KEYWORDS.some(keyword => name.toLowerCase().includes(keyword));
+  return isMall ? MALL_HOURS : null;
+}
+
+/**
+ * Whether a station is open at a given time (Manila time)
+ */
+export function isStationOpenAt(station: Station, date: Date): boolean {
+  const hours = station.openingHours;
+  if (!hours) return true;
+
+  const clock = getManilaClock(date);
+  const minutes = clock.hours * 60 + clock.minutes;
+  if (hours.close > hours.open) {
+    return hours.days.includes(clock.weekday) && minutes >= hours.open && minutes < hours.close;
+  }
+  // Hours run past midnight: open late on an open day, or early the morning after one
+  const previousDay = (clock.weekday + 6) % 7;
+  return (
+    (hours.days.includes(clock.weekday) && minutes >= hours.open) ||
+    (hours.days.includes(previousDay) && minutes < hours.close)
+  );
+}
+
+/**
+ * Whether anyone can charge at a station without arrangements
+ */
+export function isStationAccessible(station: Station): boolean {
+  return ROUTABLE_ACCESS.includes(station.access);
+}
+
+/**
+ * Whether a trip can use a station when arriving at a given time
+ */
+export function isStationUsableAt(station: Station, date: Date): boolean {
+  return isStationAccessible(station) && isStationOpenAt(station, date);
+}
+
+/**
+ * Opening hours for display, e.g. "10:00 AM – 10:00 PM" or "Mon–Fri 8:00 AM – 5:00 PM"
+ */
+export function formatOpeningHours(hours: OpeningHours | null): string {
+  if (!hours) return 'Open 24 hours';
+
+  const range = `${formatClockTime(hours.open)} – ${formatClockTime(hours.close)}`;
+  if (hours.days.length === 7) return range;
+
+  const first = DAY_NAMES[hours.days[0]];
+  const last = DAY_NAMES[hours.days[hours.days.length - 1]];
+  const capitalize = (day: string) => day[0].toUpperCase() + day.slice(1);
+  return `${capitalize(first)}–${capitalize(last)} ${range}`;
+}
+
+/**
+ * Parse hours like "10:00-22:00", "8am - 9pm", "Mon-Sat 10:00 AM to 9:00 PM"
+ */
+function parseHoursText(text: string): OpeningHours | null {
+  const ranges = text.matchAll(
+    /(\d{1,2})(?:[:.](\d{2}))?\s*([ap])?\.?m?\.?\s*(?:-|–|to)\s*(\d{1,2})(?:[:.](\d{2}))?\s*([ap])?\.?m?\.?/gi
+  );
+  for (const match of ranges) {
+    const hours = parseTimeRange(match);
+    if (hours) return { days: parseDays(text), ...hours };
+  }
+  return null;
+}
+
+/**
+ * Open/close minutes from one regex match of a time range
+ */
+function parseTimeRange(match: RegExpMatchArray): { open: number; close: number } | null {
+  const [, startHour, startMinute, startPeriod, endHour, endMinute, endPeriod] = match;
+  // Without minutes or AM/PM it's more likely a count ("2-3 bays") than a time range
+  if (!startMinute && !endMinute && !startPeriod && !endPeriod) return null;
+
+  let openPeriod = startPeriod?.toLowerCase();
+  const closePeriod = endPeriod?.toLowerCase();
+  if (!openPeriod && closePeriod) {
+    // "1-5pm" is afternoon, "10-9pm" starts in the morning
+    openPeriod = closePeriod === 'p' && Number(startHour) % 12 < Number(endHour) % 12 ? 'p' : 'a';
+  }
+
+  const open = toMinutes(Number(startHour), Number(startMinute || 0), openPeriod);
+  const close = toMinutes(Number(endHour), Number(endMinute || 0), closePeriod);
+  if (open === null || close === null || open === close) return null;
+
+  return { open, close };
+}
+
+function toMinutes(hour: number, minute: number, period?: string): number | null {
+  if (minute > 59) return null;
+  if (period) {
+    if (hour < 1 || hour > 12) return null;
+    return ((hour % 12) + (period === 'p' ? 12 : 0)) * 60 + minute;
+  }
+  if (hour > 24) return null;
+  return (hour % 24) * 60 + minute;
+}
+
+/**
+ * Weekdays named in the text ("Mon-Sat", "weekdays"), in order; all days when none are given
+ */
+function parseDays(text: string): number[] {
+  const lower = text.toLowerCase();
+  if (/weekdays?/.test(lower)) return [1, 2, 3, 4, 5];
+  if (/weekends?/.test(lower)) return [0, 6];
+
+  const range = lower.match(
+    /\b(sun|mon|tue|wed|thu|fri|sat)[a-z]*\s*(?:-|–|to)\s*(sun|mon|tue|wed|thu|fri|sat)/
+  );
+  if (!range) return ALL_DAYS;
+
+  const days: number[] = [];
+  const start = DAY_NAMES.indexOf(range[1]);
+  const end = DAY_NAMES.indexOf(range[2]);
+  for (let day = start; ; day = (day + 1) % 7) {
+    days.push(day);
+    if (day === end) break;
+  }
+  return days;
+}
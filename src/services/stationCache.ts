@@ -0,0 +1,266 @@
+/**
+ * Station Cache - offline-capable OpenChargeMap repository
+ * Raw OpenChargeMap POIs are stored in AsyncStorage in 1° bounding-box tiles so the map and
+ * route planner keep working without connectivity (common on provincial highways) and stay
+ * within the 100 requests/day free quota.
+ *
+ * - Fresh tiles (synced < STATION_CACHE_TTL.freshMs ago) are served without any request
+ * - Stale tiles are refreshed incrementally with OpenChargeMap's `modifiedsince`
+ * - Tiles older than STATION_CACHE_TTL.fullRefreshMs are re-downloaded to drop removed POIs
+ * - If the network fails, whatever is cached is returned (throws only with nothing cached)
+ *
+ * Missing and stale tiles are each fetched as one bounding box, so a lookup costs at most two
+ * requests no matter how many tiles it spans.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { OPENCHARGEMAP_API_KEY } from '@env';
+
+const API_KEY = OPENCHARGEMAP_API_KEY || '';
+const BASE_URL = 'https://api.openchargemap.io/v3/poi';
+
+const TILE_SIZE_DEG = 1;
+const TILE_KEY_PREFIX = 'stationCache:tile:';
+const MAX_RESULTS = 5000; // Per request; the Philippines has far fewer POIs than this
+
+export const STATION_CACHE_TTL = {
+  freshMs: 12 * 60 * 60 * 1000, // Serve from cache without syncing for 12 hours
+  fullRefreshMs: 7 * 24 * 60 * 60 * 1000, // Re-download a tile weekly
+};
+
+/**
+ * OpenChargeMap POI (non-compact response), limited to the fields the app reads
+ */
+export interface OpenChargeMapPOI {
+  ID: number;
+  AddressInfo?: {
+    Title?: string;
+    AddressLine1?: string;
+    Town?: string;
+    StateOrProvince?: string;
+    Postcode?: string;
+    AccessComments?: string; // Free text; often carries opening hours
+    Latitude: number;
+    Longitude: number;
+    Distance?: number;
+  };
+  Connections?: Array<{
+    PowerKW?: number;
+    ConnectionType?: { Title?: string };
+  }>;
+  NumberOfPoints?: number;
+  StatusType?: { Title?: string };
+  UsageType?: {
+    ID?: number;
+    Title?: string;
+    IsMembershipRequired?: boolean;
+    IsAccessKeyRequired?: boolean;
+  };
+  OperatorInfo?: { Title?: string };
+  DateLastStatusUpdate?: string;
+}
+
+export interface BoundingBox {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+}
+
+interface CachedTile {
+  fetchedAt: number; // Last full download (ms)
+  syncedAt: number; // Last full or incremental sync (ms)
+  pois: OpenChargeMapPOI[];
+}
+
+/**
+ * Get OpenChargeMap POIs inside a bounding box, syncing cached tiles as needed
+ * @param bbox Area to return POIs for
+ * @param forceRefresh Re-download every tile regardless of TTL
+ */
+export async function getPOIsInBoundingBox(
+  bbox: BoundingBox,
+  forceRefresh: boolean = false
+): Promise<OpenChargeMapPOI[]> {
+  const tileKeys = getTileKeys(bbox);
+  const tiles = await loadTiles(tileKeys);
+  const now = Date.now();
+
+  const missing = tileKeys.filter(key => {
+    const tile = tiles.get(key);
+    return forceRefresh || !tile || now - tile.fetchedAt > STATION_CACHE_TTL.fullRefreshMs;
+  });
+  const stale = tileKeys.filter(
+    key => !missing.includes(key) && now - tiles.get(key)!.syncedAt > STATION_CACHE_TTL.freshMs
+  );
+
+  const changed = new Set<string>();
+  try {
+    if (missing.length > 0) {
+      const pois = await fetchPOIs(getTilesBoundingBox(missing));
+      missing.forEach(key => {
+        tiles.set(key, { fetchedAt: now, syncedAt: now, pois: [] });
+        changed.add(key);
+      });
+      pois.forEach(poi => {
+        const key = getTileKeyForPOI(poi);
+        if (key && missing.includes(key)) tiles.get(key)!.pois.push(poi);
+      });
+    }
+
+    if (stale.length > 0) {
+      const since = Math.min(...stale.map(key => tiles.get(key)!.syncedAt));
+      const updated = await fetchPOIs(getTilesBoundingBox(stale), new Date(since));
+      mergeUpdatedPOIs(tiles, stale, updated);
+      stale.forEach(key => {
+        tiles.get(key)!.syncedAt = now;
+        changed.add(key);
+      });
+    }
+  } catch (error) {
+    const cachedCount = tileKeys.filter(key => tiles.has(key)).length;
+    if (cachedCount === 0) throw error;
+    console.warn(
+      `📴 Station sync failed, using ${cachedCount}/${tileKeys.length} cached tile(s):`,
+      error
+    );
+  }
+
+  // Persist whatever synced, even if a later request failed
+  if (changed.size > 0) {
+    await saveTiles(tiles, Array.from(changed));
+    console.warn(`🗂️ Station cache updated ${changed.size} tile(s)`);
+  }
+
+  // Collect POIs inside the requested box (tiles overhang it), without duplicates
+  const seen = new Set<number>();
+  const result: OpenChargeMapPOI[] = [];
+  tileKeys.forEach(key => {
+    tiles.get(key)?.pois.forEach(poi => {
+      const address = poi.AddressInfo;
+      if (!address || seen.has(poi.ID)) return;
+      if (
+        address.Latitude < bbox.minLat ||
+        address.Latitude > bbox.maxLat ||
+        address.Longitude < bbox.minLng ||
+        address.Longitude > bbox.maxLng
+      ) {
+        return;
+      }
+      seen.add(poi.ID);
+      result.push(poi);
+    });
+  });
+  return result;
+}
+
+/**
+ * Remove every cached tile (e.g. from a settings screen or after a data reset)
+ */
+export async function clearStationCache(): Promise<void> {
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(TILE_KEY_PREFIX)));
+}
+
+/**
+ * Fetch POIs from OpenChargeMap
+ * @param bbox Area to fetch
+ * @param modifiedSince Only return POIs changed after this date (incremental sync)
+ */
+async function fetchPOIs(bbox: BoundingBox, modifiedSince?: Date): Promise<OpenChargeMapPOI[]> {
+  const params = new URLSearchParams({
+    output: 'json',
+    boundingbox: `(${bbox.minLat},${bbox.minLng}),(${bbox.maxLat},${bbox.maxLng})`,
+    maxresults: MAX_RESULTS.toString(),
+    verbose: 'false',
+    key: API_KEY,
+  });
+  if (modifiedSince) {
+    params.set('modifiedsince', modifiedSince.toISOString());
+  }
+
+  const response = await fetch(`${BASE_URL}?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`OpenChargeMap error: ${response.status} ${response.statusText}`);
+  }
+  const data = await response.json();
+  return Array.isArray(data) ? data : [];
+}
+
+/**
+ * Replace updated POIs in the stale tiles (a POI may have moved between tiles)
+ */
+function mergeUpdatedPOIs(
+  tiles: Map<string, CachedTile>,
+  staleKeys: string[],
+  updated: OpenChargeMapPOI[]
+): void {
+  const updatedIds = new Set(updated.map(poi => poi.ID));
+  staleKeys.forEach(key => {
+    const tile = tiles.get(key)!;
+    tile.pois = tile.pois.filter(poi => !updatedIds.has(poi.ID));
+  });
+  updated.forEach(poi => {
+    const key = getTileKeyForPOI(poi);
+    if (key && staleKeys.includes(key)) tiles.get(key)!.pois.push(poi);
+  });
+}
+
+function getTileIndex(value: number): number {
+  return Math.floor(value / TILE_SIZE_DEG);
+}
+
+function getTileKeys(bbox: BoundingBox): string[] {
+  const keys: string[] = [];
+  for (let lat = getTileIndex(bbox.minLat); lat <= getTileIndex(bbox.maxLat); lat++) {
+    for (let lng = getTileIndex(bbox.minLng); lng <= getTileIndex(bbox.maxLng); lng++) {
+      keys.push(`${lat}:${lng}`);
+    }
+  }
+  return keys;
+}
+
+function getTileKeyForPOI(poi: OpenChargeMapPOI): string | null {
+  const address = poi.AddressInfo;
+  if (!address || address.Latitude == null || address.Longitude == null) return null;
+  return `${getTileIndex(address.Latitude)}:${getTileIndex(address.Longitude)}`;
+}
+
+/**
+ * Smallest bounding box covering all the given tiles
+ */
+function getTilesBoundingBox(keys: string[]): BoundingBox {
+  const indices = keys.map(key => key.split(':').map(Number));
+  const lats = indices.map(([lat]) => lat);
+  const lngs = indices.map(([, lng]) => lng);
+  return {
+    minLat: Math.min(...lats) * TILE_SIZE_DEG,
+    minLng: Math.min(...lngs) * TILE_SIZE_DEG,
+    maxLat: (Math.max(...lats) + 1) * TILE_SIZE_DEG,
+    maxLng: (Math.max(...lngs) + 1) * TILE_SIZE_DEG,
+  };
+}
+
+async function loadTiles(keys: string[]): Promise<Map<string, CachedTile>> {
+  const tiles = new Map<string, CachedTile>();
+  try {
+    const entries = await AsyncStorage.multiGet(keys.map(key => TILE_KEY_PREFIX + key));
+    entries.forEach(([storageKey, raw]) => {
+      if (raw) tiles.set(storageKey.slice(TILE_KEY_PREFIX.length), JSON.parse(raw));
+    });
+  } catch (error) {
+    console.warn('Failed to read station cache:', error);
+  }
+  return tiles;
+}
+
+async function saveTiles(tiles: Map<string, CachedTile>, keys: string[]): Promise<void> {
+  try {
+    await AsyncStorage.multiSet(
+      keys.map(key => [TILE_KEY_PREFIX + key, JSON.stringify(tiles.get(key))])
+    );
+  } catch (error) {
+    // A failed write only costs a re-download next time
+    console.warn('Failed to write station cache:', error);
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Station Normalizer
+ * The one pipeline from raw OpenChargeMap POIs to the canonical Station model, so power,
+ * plugs, pricing and availability are identical on the map, in the trip planner and in
+ * reservation flows.
+ *
+ * OpenChargeMap has no ratings or amenities. Until real data exists those fields are
+ * synthesized from a generator seeded by the station ID, so a station always shows the same
+ * values wherever it appears. Live charger counts come from availabilityService; a freshly
+ * normalized station reports every charger as available.
+ */
+
+import { Station } from '@/types/station';
+import { OpenChargeMapPOI } from './stationCache';
+import { GeoPoint, haversineDistance } from './routeGeometry';
+import { createSeededRandom, seedFromString } from './seededRandom';
+import { parseOpeningHours, parseStationAccess } from './stationAccess';
+import {
+  ChargingPlug,
+  PRICING,
+  getChargingSpeedCategory,
+  getPricePerKwh,
+  normalizePlugTypes,
+} from './standardVehicleModel';
+
+const DEFAULT_POWER_KW = 22; // OpenChargeMap often omits power; assume AC Level 2
+const CITY_DRIVE_SPEED_KMH = 30; // For drive-time estimates from the user
+
+/**
+ * Normalize one OpenChargeMap POI
+ * @param poi Raw POI (must have AddressInfo coordinates)
+ * @param origin Optional user/search location used to fill distanceKm and driveMinutes
+ * @returns Station, or null when the POI has no usable location
+ */
+export function normalizeStation(poi: OpenChargeMapPOI, origin?: GeoPoint): Station | null {
+  const address = poi.AddressInfo;
+  if (!address || address.Latitude == null || address.Longitude == null) return null;
+
+  const connections = poi.Connections || [];
+  const maxPowerKW = connections.reduce((max, conn) => Math.max(max, conn.PowerKW || 0), 0);
+  const powerKW = maxPowerKW > 0 ? maxPowerKW : DEFAULT_POWER_KW;
+  const plugTypes = normalizePlugTypes(
+    connections.map(conn => conn.ConnectionType?.Title || '').filter(Boolean)
+  );
+  const operator = poi.OperatorInfo?.Title || 'Unknown Operator';
+  const isTeslaSupercharger =
+    plugTypes.includes(ChargingPlug.TESLA) || operator.toLowerCase().includes('tesla');
+
+  // Synthetic fields, stable per station
+  const random = createSeededRandom(seedFromString(`station:${poi.ID}`));
+  const totalChargers = poi.NumberOfPoints || connections.length || 1;
+  const rating = +(random() * 1.5 + 3.5).toFixed(1);
+  const amenities = {
+    wifi: random() > 0.5,
+    bathroom: random() > 0.4,
+    pwdFriendly: random() > 0.6,
+    waitingLounge: random() > 0.3,
+  };
+
+  const station: Station = {
+    id: String(poi.ID),
+    name: address.Title || address.AddressLine1 || `Charging Station ${poi.ID}`,
+    address: formatAddress(address),
+    region: address.StateOrProvince || '',
+    latitude: address.Latitude,
+    longitude: address.Longitude,
+    operator,
+    status: poi.StatusType?.Title || 'Unknown',
+    totalChargers,
+    availableChargers: totalChargers,
+    powerKW,
+    chargingSpeed: getChargingSpeedCategory(powerKW),
+    plugTypes,
+    pricePerKwh: getPricePerKwh(powerKW, isTeslaSupercharger),
+    connectionFee: PRICING.connectionFee,
+    hasIdleFee: true,
+    isTeslaSupercharger,
+    rating,
+    amenities,
+    access: parseStationAccess(poi.UsageType),
+    openingHours: parseOpeningHours(poi),
+  };
+
+  return origin ? withDistanceFrom(station, origin) : station;
+}
+
+/**
+ * Normalize a list of POIs, dropping ones without a location and duplicate IDs
+ */
+export function normalizeStations(pois: OpenChargeMapPOI[], origin?: GeoPoint): Station[] {
+  const seen = new Set<string>();
+  const stations: Station[] = [];
+  pois.forEach(poi => {
+    const station = normalizeStation(poi, origin);
+    if (station && !seen.has(station.id)) {
+      seen.add(station.id);
+      stations.push(station);
+    }
+  });
+  return stations;
+}
+
+/**
+ * Copy of a station with distance and drive time from a location
+ */
+export function withDistanceFrom(station: Station, origin: GeoPoint): Station {
+  const distanceKm = haversineDistance(origin, station);
+  return {
+    ...station,
+    distanceKm,
+    driveMinutes: (distanceKm / CITY_DRIVE_SPEED_KMH) * 60,
+  };
+}
+
+/**
+ * Stand-in for a station we only know by ID (e.g. a reservation made before the station
+ * data was loaded). Uses neutral values rather than synthesized ones.
+ */
+export function createPlaceholderStation(id: string): Station {
+  return {
+    id,
+    name: 'Charging Station',
+    address: 'Address not available',
+    region: '',
+    latitude: 0,
+    longitude: 0,
+    operator: 'Unknown Operator',
+    status: 'Unknown',
+    totalChargers: 1,
+    availableChargers: 1,
+    powerKW: DEFAULT_POWER_KW,
+    chargingSpeed: getChargingSpeedCategory(DEFAULT_POWER_KW),
+    plugTypes: [],
+    pricePerKwh: PRICING.defaultPricePerKwh,
+    connectionFee: PRICING.connectionFee,
+    hasIdleFee: true,
+    isTeslaSupercharger: false,
+    rating: 0,
+    amenities: { wifi: false, bathroom: false, pwdFriendly: false, waitingLounge: false },
+    access: 'public',
+    openingHours: null,
+  };
+}
+
+/**
+ * Format address from OpenChargeMap address info
+ */
+function formatAddress(addressInfo: NonNullable<OpenChargeMapPOI['AddressInfo']>): string {
+  const parts = [
+    addressInfo.AddressLine1,
+    addressInfo.Town,
+    addressInfo.StateOrProvince,
+    addressInfo.Postcode,
+  ].filter(Boolean);
+
+  return parts.join(', ') || 'Address not available';
+}
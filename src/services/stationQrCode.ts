@@ -0,0 +1,127 @@
+/**
+ * Station QR Codes
+ * Versioned payload printed as a QR code on each charger connector:
+ *
+ *   EVQR:1:<stationId>:<connectorId>:<operator>:<checksum>
+ *
+ * Text fields are percent-encoded so they can't contain the ':' separator. The checksum is the
+ * CRC-32 (hex) of everything before it, so damaged or hand-edited codes are rejected. It is not
+ * a signature: the central system still authorizes every session (see chargingSessionService).
+ *
+ * Station hosts print codes from createStationQrCodes; ScanQRScreen parses a scanned code and
+ * checks it belongs to the reservation being started.
+ */
+
+import { StationQrPayload } from '@/types/stationQr';
+import { Reservation } from '@/types/reservation';
+import { Station } from '@/types/station';
+
+const QR_PREFIX = 'EVQR';
+export const STATION_QR_VERSION = 1; // Version new codes are printed with
+const FIELD_COUNT = 6; // Prefix, version, station, connector, operator, checksum
+
+/**
+ * Payload text for one connector of a station
+ * @param connectorId 1-based connector (chargerIndex + 1)
+ */
+export function createStationQrPayload(station: Station, connectorId: number): string {
+  if (!Number.isInteger(connectorId) || connectorId < 1) {
+    throw new Error(`Invalid connector ${connectorId}`);
+  }
+
+  const body = [
+    QR_PREFIX,
+    STATION_QR_VERSION,
+    encodeURIComponent(station.id),
+    connectorId,
+    encodeURIComponent(station.operator),
+  ].join(':');
+  return `${body}:${crc32(body)}`;
+}
+
+/**
+ * Payloads for every connector of a station, in connector order (for printing)
+ */
+export function createStationQrCodes(station: Station): string[] {
+  return Array.from({ length: station.totalChargers }, (_, index) =>
+    createStationQrPayload(station, index + 1)
+  );
+}
+
+/**
+ * Parse and verify scanned QR text
+ * Throws with a message the driver can act on if the code isn't a valid station code.
+ */
+export function parseStationQrPayload(text: string): StationQrPayload {
+  const fields = text.trim().split(':');
+  if (fields[0] !== QR_PREFIX) {
+    throw new Error("This isn't a charging station QR code");
+  }
+
+  const version = Number(fields[1]);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error('This QR code is damaged or incomplete');
+  }
+  if (version > STATION_QR_VERSION) {
+    throw new Error('This QR code needs a newer version of the app');
+  }
+
+  if (fields.length !== FIELD_COUNT) {
+    throw new Error('This QR code is damaged or incomplete');
+  }
+  const [, , stationId, connector, operator, checksum] = fields;
+  const body = fields.slice(0, -1).join(':');
+  if (checksum.toUpperCase() !== crc32(body)) {
+    throw new Error('This QR code is damaged or incomplete');
+  }
+
+  const connectorId = Number(connector);
+  if (!Number.isInteger(connectorId) || connectorId < 1 || !stationId) {
+    throw new Error('This QR code is damaged or incomplete');
+  }
+
+  try {
+    return {
+      version,
+      stationId: decodeURIComponent(stationId),
+      connectorId,
+      operator: decodeURIComponent(operator),
+    };
+  } catch {
+    // Malformed percent-encoding
+    throw new Error('This QR code is damaged or incomplete');
+  }
+}
+
+/**
+ * Check a scanned code is for the charger a reservation holds
+ * Throws if it's for another station or another connector.
+ */
+export function validateQrForReservation(
+  payload: StationQrPayload,
+  reservation: Reservation
+): void {
+  if (payload.stationId !== reservation.stationId) {
+    throw new Error(`This QR code is for a different station than ${reservation.stationName}`);
+  }
+  const reservedConnector = reservation.chargerIndex + 1;
+  if (payload.connectorId !== reservedConnector) {
+    throw new Error(
+      `Your reservation is for connector ${reservedConnector}; this code is for connector ${payload.connectorId}`
+    );
+  }
+}
+
+/**
+ * CRC-32 (IEEE) of an ASCII string as 8 uppercase hex digits
+ */
+function crc32(text: string): string {
+  let crc = 0xffffffff;
+  for (let i = 0; i < text.length; i++) {
+    crc ^= text.charCodeAt(i) & 0xff;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
+  }
+  return ((crc ^ 0xffffffff) >>> 0).toString(16).toUpperCase().padStart(8, '0');
+}
@@ -0,0 +1,126 @@
+/**
+ * Terrain Model
+ * Turns a route's elevation profile into energy so planning can tell a flat coastal drive
+ * from a mountain climb like Manila → Baguio.
+ *
+ * Each polyline segment is converted into "flat-equivalent km": the distance a vehicle could
+ * drive on flat road with the same energy. Climbs add the potential energy gained (divided by
+ * drivetrain efficiency), descents subtract what regenerative braking recovers. Existing
+ * distance-based helpers keep working by driving the equivalent distance instead of the
+ * road distance.
+ */
+
+import { StandardVehicle, ELEVATION_MODEL } from './standardVehicleModel';
+import { getCumulativeDistances, GeoPoint } from './routeGeometry';
+
+const GRAVITY = 9.81; // m/s²
+const JOULES_PER_KWH = 3.6e6;
+
+export interface TerrainProfile {
+  distances: number[]; // km along the route at each vertex (scaled to the routed distance)
+  equivalentKm: number[]; // Cumulative flat-equivalent km at each vertex
+  elevationGain: number; // m climbed over the whole route
+  elevationLoss: number; // m descended over the whole route
+}
+
+/**
+ * Build a terrain profile from the route polyline and its elevations
+ * @param polyline Route geometry
+ * @param elevation Elevation (m) for each polyline vertex
+ * @param totalDistance Routed distance in km (polyline length is scaled to match)
+ * @param vehicle Vehicle profile (avgConsumption and massKg)
+ * @returns Profile, or null when elevation data is missing or doesn't match the polyline
+ */
+export function buildTerrainProfile(
+  polyline: GeoPoint[],
+  elevation: number[] | undefined,
+  totalDistance: number,
+  vehicle: StandardVehicle
+): TerrainProfile | null {
+  if (!elevation || elevation.length !== polyline.length || polyline.length < 2) {
+    return null;
+  }
+
+  const cumulative = getCumulativeDistances(polyline);
+  const polylineLength = cumulative[cumulative.length - 1];
+  const scale = polylineLength > 0 ? totalDistance / polylineLength : 1;
+  const massKg = vehicle.massKg || ELEVATION_MODEL.defaultMassKg;
+
+  const distances = cumulative.map(km => km * scale);
+  const equivalentKm = [0];
+  let elevationGain = 0;
+  let elevationLoss = 0;
+
+  for (let i = 1; i < polyline.length; i++) {
+    const segmentKm = distances[i] - distances[i - 1];
+    const climbM = elevation[i] - elevation[i - 1];
+    const potentialKwh = (massKg * GRAVITY * Math.abs(climbM)) / JOULES_PER_KWH;
+
+    let terrainKwh: number;
+    if (climbM >= 0) {
+      terrainKwh = potentialKwh / ELEVATION_MODEL.drivetrainEfficiency;
+      elevationGain += climbM;
+    } else {
+      terrainKwh = -potentialKwh * ELEVATION_MODEL.regenEfficiency;
+      elevationLoss -= climbM;
+    }
+
+    equivalentKm.push(equivalentKm[i - 1] + segmentKm + terrainKwh / vehicle.avgConsumption);
+  }
+
+  return { distances, equivalentKm, elevationGain, elevationLoss };
+}
+
+/**
+ * Flat-equivalent km between two positions along the route
+ * Falls back to the road distance when there is no terrain profile.
+ * @param profile Terrain profile (or null/undefined for flat road)
+ * @param fromKm km along the route where the drive starts
+ * @param toKm km along the route where the drive ends
+ */
+export function getEquivalentDistance(
+  profile: TerrainProfile | null | undefined,
+  fromKm: number,
+  toKm: number
+): number {
+  if (!profile) return toKm - fromKm;
+  return equivalentKmAt(profile, toKm) - equivalentKmAt(profile, fromKm);
+}
+
+/**
+ * Terrain consumption multiplier between two positions along the route
+ * 1.0 = flat; above 1 when the stretch climbs overall, below 1 (or negative) when it descends.
+ * Use as the terrainMultiplier for calculateBatteryConsumption/needsCharging.
+ */
+export function getTerrainMultiplier(
+  profile: TerrainProfile | null | undefined,
+  fromKm: number,
+  toKm: number
+): number {
+  const roadKm = toKm - fromKm;
+  if (!profile || roadKm <= 0) return 1.0;
+  return getEquivalentDistance(profile, fromKm, toKm) / roadKm;
+}
+
+/**
+ * Interpolate cumulative flat-equivalent km at a position along the route
+ */
+function equivalentKmAt(profile: TerrainProfile, km: number): number {
+  const { distances, equivalentKm } = profile;
+  const last = distances.length - 1;
+  if (km <= 0) return km;
+  if (km >= distances[last]) return equivalentKm[last] + (km - distances[last]);
+
+  // Binary search for the segment containing km
+  let low = 0;
+  let high = last;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (distances[mid] <= km) low = mid;
+    else high = mid;
+  }
+
+  const segmentKm = distances[high] - distances[low];
+  const t = segmentKm > 0 ? (km - distances[low]) / segmentKm : 0;
+  return equivalentKm[low] + t * (equivalentKm[high] - equivalentKm[low]);
+}
@@ -0,0 +1,77 @@
+/**
+ * Traffic Model
+ * Time-of-day traffic for Metro Manila style congestion, shared by trip planning screens and
+ * the route calculation engine.
+ *
+ * OpenRouteService durations are free-flow. A multiplier ≥ 1 stretches them for the traffic
+ * expected at a given clock time; the engine applies it per travel segment at the time the car
+ * is projected to be on that segment (after earlier driving and charging), so a trip that runs
+ * into the evening rush is slowed only from that point on. Periods use Manila clock time.
+ */
+
+import { getManilaClock } from './manilaTime';
+
+export type TrafficLevel = 'light' | 'moderate' | 'heavy';
+
+export const TRAFFIC_MULTIPLIERS: Record<TrafficLevel, number> = {
+  light: 1.0, // Late night / early morning
+  moderate: 1.15,
+  heavy: 1.3, // Weekday rush hours
+};
+
+const WEEKEND_MODERATE = 1.1; // Weekend daytime (malls, provincial trips)
+const TRAFFIC_STEP_MINUTES = 15; // Resolution when a drive crosses traffic periods
+
+/**
+ * Expected traffic multiplier at a clock time
+ * @param date Time on the road (read as Manila time)
+ * @returns Factor applied to free-flow durations (1.0 = no congestion)
+ */
+export function getTrafficMultiplier(date: Date): number {
+  const { hours: hour, weekday: day } = getManilaClock(date); // day: 0 = Sunday, 6 = Saturday
+
+  // Weekend traffic (lighter)
+  if (day === 0 || day === 6) {
+    if (hour >= 10 && hour <= 20) return WEEKEND_MODERATE;
+    return TRAFFIC_MULTIPLIERS.light;
+  }
+
+  // Weekday traffic patterns
+  if ((hour >= 7 && hour <= 9) || (hour >= 17 && hour <= 19)) {
+    return TRAFFIC_MULTIPLIERS.heavy;
+  } else if ((hour >= 10 && hour <= 16) || (hour >= 20 && hour <= 22)) {
+    return TRAFFIC_MULTIPLIERS.moderate;
+  }
+  return TRAFFIC_MULTIPLIERS.light;
+}
+
+/**
+ * Traffic level for display
+ */
+export function getTrafficLevel(multiplier: number): TrafficLevel {
+  if (multiplier >= 1.25) return 'heavy';
+  if (multiplier >= 1.1) return 'moderate';
+  return 'light';
+}
+
+/**
+ * Driving time with traffic for a leg that starts at a given clock time
+ * Free-flow driving is consumed in TRAFFIC_STEP_MINUTES steps, each slowed by the traffic at
+ * the clock time it is actually driven, so legs that cross into or out of rush hour are handled.
+ * @param freeFlowMinutes Duration without traffic
+ * @param start When the car starts the leg
+ * @returns Minutes with traffic
+ */
+export function getTravelMinutesWithTraffic(freeFlowMinutes: number, start: Date): number {
+  let remaining = freeFlowMinutes;
+  let elapsed = 0;
+
+  while (remaining > 0) {
+    const step = Math.min(remaining, TRAFFIC_STEP_MINUTES);
+    const multiplier = getTrafficMultiplier(new Date(start.getTime() + elapsed * 60_000));
+    elapsed += step * multiplier;
+    remaining -= step;
+  }
+
+  return elapsed;
+}
@@ -3,30 +3,149 @@
  * Data is approximate and based on manufacturer specs
  */
 
+import { ChargingPlug } from './standardVehicleModel';
+
 export interface VehicleSpec {
   make: string;
   model: string;
   batteryCapacity: number; // kWh
   range: number; // km on full charge
   chargingSpeed: string; // Fast/Standard
+  maxDcChargingPower: number; // kW peak DC fast charging (0 = AC only)
+  maxAcChargingPower: number; // kW onboard charger limit
+  plugs: ChargingPlug[]; // Inlets fitted to PH-market units
 }
 
+const CCS2_TYPE2 = [ChargingPlug.CCS2, ChargingPlug.TYPE_2];
+const TESLA_PLUGS = [ChargingPlug.CCS2, ChargingPlug.TYPE_2, ChargingPlug.TESLA];
+
 // Common EV models available in Philippines and internationally
 export const EV_DATABASE: VehicleSpec[] = [
   // Tesla
-  { make: 'Tesla', model: 'Model 3', batteryCapacity: 60, range: 430, chargingSpeed: 'Fast' },
-  { make: 'Tesla', model: 'Model S', batteryCapacity: 100, range: 652, chargingSpeed: 'Fast' },
-  { make: 'Tesla', model: 'Model X', batteryCapacity: 100, range: 536, chargingSpeed: 'Fast' },
-  { make: 'Tesla', model: 'Model Y', batteryCapacity: 75, range: 525, chargingSpeed: 'Fast' },
+  {
+    make: 'Tesla',
+    model: 'Model 3',
+    batteryCapacity: 60,
+    range: 430,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 170,
+    maxAcChargingPower: 11,
+    plugs: TESLA_PLUGS,
+  },
+  {
+    make: 'Tesla',
+    model: 'Model S',
+    batteryCapacity: 100,
+    range: 652,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 250,
+    maxAcChargingPower: 11,
+    plugs: TESLA_PLUGS,
+  },
+  {
+    make: 'Tesla',
+    model: 'Model X',
+    batteryCapacity: 100,
+    range: 536,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 250,
+    maxAcChargingPower: 11,
+    plugs: TESLA_PLUGS,
+  },
+  {
+    make: 'Tesla',
+    model: 'Model Y',
+    batteryCapacity: 75,
+    range: 525,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 250,
+    maxAcChargingPower: 11,
+    plugs: TESLA_PLUGS,
+  },
 
   // BYD (Popular in Philippines)
-  { make: 'BYD', model: 'Atto 3', batteryCapacity: 60, range: 420, chargingSpeed: 'Fast' },
-  { make: 'BYD', model: 'Seal', batteryCapacity: 82, range: 570, chargingSpeed: 'Fast' },
-  { make: 'BYD', model: 'Dolphin', batteryCapacity: 44, range: 340, chargingSpeed: 'Standard' },
+  {
+    make: 'BYD',
+    model: 'Seagull',
+    batteryCapacity: 38,
+    range: 305,
+    chargingSpeed: 'Standard',
+    maxDcChargingPower: 40,
+    maxAcChargingPower: 7,
+    plugs: CCS2_TYPE2,
+  },
+  {
+    make: 'BYD',
+    model: 'Dolphin',
+    batteryCapacity: 44,
+    range: 340,
+    chargingSpeed: 'Standard',
+    maxDcChargingPower: 60,
+    maxAcChargingPower: 7,
+    plugs: CCS2_TYPE2,
+  },
+  {
+    make: 'BYD',
+    model: 'Atto 3',
+    batteryCapacity: 60,
+    range: 420,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 88,
+    maxAcChargingPower: 7,
+    plugs: CCS2_TYPE2,
+  },
+  {
+    make: 'BYD',
+    model: 'Seal',
+    batteryCapacity: 82,
+    range: 570,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 150,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
+  },
+  {
+    make: 'BYD',
+    model: 'Han',
+    batteryCapacity: 85,
+    range: 521,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 120,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
+  },
+  {
+    make: 'BYD',
+    model: 'Tang',
+    batteryCapacity: 108,
+    range: 530,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 170,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
+  },
 
   // Nissan
-  { make: 'Nissan', model: 'Leaf', batteryCapacity: 40, range: 270, chargingSpeed: 'Standard' },
-  { make: 'Nissan', model: 'Ariya', batteryCapacity: 87, range: 500, chargingSpeed: 'Fast' },
+  {
+    make: 'Nissan',
+    model: 'Leaf',
+    batteryCapacity: 40,
+    range: 270,
+    chargingSpeed: 'Standard',
+    maxDcChargingPower: 50,
+    maxAcChargingPower: 6.6,
+    plugs: [ChargingPlug.CHADEMO, ChargingPlug.TYPE_2],
+  },
+  {
+    make: 'Nissan',
+    model: 'Ariya',
+    batteryCapacity: 87,
+    range: 500,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 130,
+    maxAcChargingPower: 7.4,
+    plugs: CCS2_TYPE2,
+  },
 
   // Hyundai
   {
@@ -35,55 +154,304 @@ export const EV_DATABASE: VehicleSpec[] = [
     batteryCapacity: 64,
     range: 484,
     chargingSpeed: 'Fast',
+    maxDcChargingPower: 77,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
+  },
+  {
+    make: 'Hyundai',
+    model: 'Ioniq 5',
+    batteryCapacity: 77,
+    range: 481,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 235,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
+  },
+  {
+    make: 'Hyundai',
+    model: 'Ioniq 6',
+    batteryCapacity: 77,
+    range: 614,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 235,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
   },
-
-  { make: 'Hyundai', model: 'Ioniq 5', batteryCapacity: 77, range: 481, chargingSpeed: 'Fast' },
-  { make: 'Hyundai', model: 'Ioniq 6', batteryCapacity: 77, range: 614, chargingSpeed: 'Fast' },
 
   // Kia
-  { make: 'Kia', model: 'EV6', batteryCapacity: 77, range: 528, chargingSpeed: 'Fast' },
-  { make: 'Kia', model: 'Niro EV', batteryCapacity: 64, range: 463, chargingSpeed: 'Fast' },
+  {
+    make: 'Kia',
+    model: 'EV6',
+    batteryCapacity: 77,
+    range: 528,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 233,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
+  },
+  {
+    make: 'Kia',
+    model: 'Niro EV',
+    batteryCapacity: 64,
+    range: 463,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 85,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
+  },
 
   // MG (Popular in Philippines)
-  { make: 'MG', model: 'ZS EV', batteryCapacity: 51, range: 320, chargingSpeed: 'Standard' },
-  { make: 'MG', model: 'MG4', batteryCapacity: 64, range: 450, chargingSpeed: 'Fast' },
+  {
+    make: 'MG',
+    model: 'ZS EV',
+    batteryCapacity: 51,
+    range: 320,
+    chargingSpeed: 'Standard',
+    maxDcChargingPower: 76,
+    maxAcChargingPower: 7,
+    plugs: CCS2_TYPE2,
+  },
+  {
+    make: 'MG',
+    model: 'MG4',
+    batteryCapacity: 64,
+    range: 450,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 135,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
+  },
+
+  // Porsche
+  {
+    make: 'Porsche',
+    model: 'Taycan',
+    batteryCapacity: 93,
+    range: 450,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 270,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
+  },
+
+  // Jaguar
+  {
+    make: 'Jaguar',
+    model: 'I-Pace',
+    batteryCapacity: 90,
+    range: 470,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 100,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
+  },
+
+  // VinFast
+  {
+    make: 'VinFast',
+    model: 'VF 3',
+    batteryCapacity: 19,
+    range: 210,
+    chargingSpeed: 'Standard',
+    maxDcChargingPower: 30,
+    maxAcChargingPower: 7,
+    plugs: CCS2_TYPE2,
+  },
+  {
+    make: 'VinFast',
+    model: 'VF 5',
+    batteryCapacity: 37,
+    range: 326,
+    chargingSpeed: 'Standard',
+    maxDcChargingPower: 50,
+    maxAcChargingPower: 7,
+    plugs: CCS2_TYPE2,
+  },
+  {
+    make: 'VinFast',
+    model: 'VF 7',
+    batteryCapacity: 75,
+    range: 431,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 150,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
+  },
+  {
+    make: 'VinFast',
+    model: 'VF 9',
+    batteryCapacity: 123,
+    range: 594,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 150,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
+  },
+
+  // Other Chinese brands sold locally
+  {
+    make: 'WM Motor',
+    model: 'W5',
+    batteryCapacity: 69,
+    range: 440,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 50,
+    maxAcChargingPower: 6.6,
+    plugs: CCS2_TYPE2,
+  },
+  {
+    make: 'JAECOO',
+    model: 'EJ6',
+    batteryCapacity: 66,
+    range: 426,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 80,
+    maxAcChargingPower: 6.6,
+    plugs: CCS2_TYPE2,
+  },
+  {
+    make: 'Jetour',
+    model: 'Ice Cream EV',
+    batteryCapacity: 29,
+    range: 205,
+    chargingSpeed: 'Standard',
+    maxDcChargingPower: 0,
+    maxAcChargingPower: 6.6,
+    plugs: [ChargingPlug.TYPE_2],
+  },
 
   // Chevrolet
-  { make: 'Chevrolet', model: 'Bolt EV', batteryCapacity: 66, range: 417, chargingSpeed: 'Fast' },
+  {
+    make: 'Chevrolet',
+    model: 'Bolt EV',
+    batteryCapacity: 66,
+    range: 417,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 55,
+    maxAcChargingPower: 7.2,
+    plugs: [ChargingPlug.CCS1, ChargingPlug.TYPE_1],
+  },
 
   // Ford
-  { make: 'Ford', model: 'Mustang Mach-E', batteryCapacity: 88, range: 491, chargingSpeed: 'Fast' },
+  {
+    make: 'Ford',
+    model: 'Mustang Mach-E',
+    batteryCapacity: 88,
+    range: 491,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 150,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
+  },
 
   // Volkswagen
-  { make: 'Volkswagen', model: 'ID.4', batteryCapacity: 82, range: 418, chargingSpeed: 'Fast' },
+  {
+    make: 'Volkswagen',
+    model: 'ID.4',
+    batteryCapacity: 82,
+    range: 418,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 135,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
+  },
 
   // BMW
-  { make: 'BMW', model: 'i3', batteryCapacity: 42, range: 260, chargingSpeed: 'Standard' },
-  { make: 'BMW', model: 'iX', batteryCapacity: 111, range: 630, chargingSpeed: 'Fast' },
+  {
+    make: 'BMW',
+    model: 'i3',
+    batteryCapacity: 42,
+    range: 260,
+    chargingSpeed: 'Standard',
+    maxDcChargingPower: 50,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
+  },
+  {
+    make: 'BMW',
+    model: 'iX',
+    batteryCapacity: 111,
+    range: 630,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 195,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
+  },
 
   // Mercedes-Benz
-  { make: 'Mercedes-Benz', model: 'EQS', batteryCapacity: 107, range: 770, chargingSpeed: 'Fast' },
-  { make: 'Mercedes-Benz', model: 'EQE', batteryCapacity: 90, range: 639, chargingSpeed: 'Fast' },
+  {
+    make: 'Mercedes-Benz',
+    model: 'EQS',
+    batteryCapacity: 107,
+    range: 770,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 200,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
+  },
+  {
+    make: 'Mercedes-Benz',
+    model: 'EQE',
+    batteryCapacity: 90,
+    range: 639,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 170,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
+  },
 
   // Audi
-  { make: 'Audi', model: 'e-tron', batteryCapacity: 95, range: 436, chargingSpeed: 'Fast' },
+  {
+    make: 'Audi',
+    model: 'e-tron',
+    batteryCapacity: 95,
+    range: 436,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 150,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
+  },
 
   // Polestar
-  { make: 'Polestar', model: '2', batteryCapacity: 78, range: 540, chargingSpeed: 'Fast' },
+  {
+    make: 'Polestar',
+    model: '2',
+    batteryCapacity: 78,
+    range: 540,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 155,
+    maxAcChargingPower: 11,
+    plugs: CCS2_TYPE2,
+  },
 
   // Rivian
-  { make: 'Rivian', model: 'R1T', batteryCapacity: 135, range: 505, chargingSpeed: 'Fast' },
+  {
+    make: 'Rivian',
+    model: 'R1T',
+    batteryCapacity: 135,
+    range: 505,
+    chargingSpeed: 'Fast',
+    maxDcChargingPower: 220,
+    maxAcChargingPower: 11,
+    plugs: [ChargingPlug.CCS1, ChargingPlug.TYPE_1],
+  },
 ];
 
 /**
  * Find vehicle specs by make and model
  */
 export function findVehicleSpecs(make: string, model: string): VehicleSpec | null {
-  const normalized = EV_DATABASE.find(
-    ev =>
-      ev.make.toLowerCase() === make.toLowerCase() &&
-      ev.model.toLowerCase().includes(model.toLowerCase())
-  );
+  // Compare alphanumerics only so picker labels like "MG 4 EV" still match "MG4"
+  const key = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const wantedModel = key(model);
+  if (!wantedModel) return null;
+
+  const normalized = EV_DATABASE.find(ev => {
+    if (key(ev.make) !== key(make)) return false;
+    const candidate = key(ev.model);
+    return candidate.includes(wantedModel) || wantedModel.includes(candidate);
+  });
   return normalized || null;
 }
 
@@ -97,6 +465,9 @@ export function getDefaultVehicleSpecs(): VehicleSpec {
     batteryCapacity: 60, // Average EV battery
     range: 400, // Average range in km
     chargingSpeed: 'Fast',
+    maxDcChargingPower: 100, // Typical mid-range DC peak
+    maxAcChargingPower: 7,
+    plugs: [ChargingPlug.CCS2, ChargingPlug.TYPE_2], // PH/ASEAN default inlets
   };
 }
 
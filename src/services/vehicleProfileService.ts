@@ -0,0 +1,171 @@
+/**
+ * Vehicle Profile Service
+ * Resolves the vehicle saved by AddVehicleScreen into a full StandardVehicle-shaped profile
+ * (battery, consumption, charge curve, plugs, max DC power) for route planning.
+ * Falls back to STANDARD_VEHICLE when no vehicle has been registered on this device.
+ */
+
+import { loadVehicleData } from './deviceStore';
+import {
+  STANDARD_VEHICLE,
+  StandardVehicle,
+  ChargeCurvePoint,
+  ChargingPlug,
+} from './standardVehicleModel';
+import { findVehicleSpecs, getDefaultVehicleSpecs, VehicleSpec } from './vehicleDatabase';
+
+/**
+ * Shape persisted by AddVehicleScreen under the 'vehicleData' key
+ */
+export interface SavedVehicleData {
+  licensePlate?: string;
+  brand?: string;
+  model?: string;
+  plug?: string | null; // Plug id from AddVehicleScreen (e.g. 'ccs2', 'chademo')
+  createdAt?: number;
+}
+
+/**
+ * Model year used for database profiles (the database does not track years)
+ */
+const DEFAULT_MODEL_YEAR = 2024;
+
+/**
+ * Maps AddVehicleScreen plug ids onto the ChargingPlug enum
+ */
+const PLUG_ID_MAP: Record<string, ChargingPlug> = {
+  type1: ChargingPlug.TYPE_1,
+  type2: ChargingPlug.TYPE_2,
+  gbt: ChargingPlug.GB_T,
+  chademo: ChargingPlug.CHADEMO,
+  ccs1: ChargingPlug.CCS1,
+  ccs2: ChargingPlug.CCS2,
+};
+
+/**
+ * Generic DC charge curve shape as a fraction of peak power per SoC
+ * Approximates the taper seen on most NMC/LFP packs: flat to ~40%, then tapering hard past 80%
+ */
+const GENERIC_CURVE_SHAPE: ChargeCurvePoint[] = [
+  { socPercent: 0, chargingPowerKW: 0.85 },
+  { socPercent: 10, chargingPowerKW: 1.0 },
+  { socPercent: 20, chargingPowerKW: 1.0 },
+  { socPercent: 30, chargingPowerKW: 1.0 },
+  { socPercent: 40, chargingPowerKW: 0.95 },
+  { socPercent: 50, chargingPowerKW: 0.85 },
+  { socPercent: 60, chargingPowerKW: 0.7 },
+  { socPercent: 70, chargingPowerKW: 0.55 },
+  { socPercent: 80, chargingPowerKW: 0.4 },
+  { socPercent: 90, chargingPowerKW: 0.22 },
+  { socPercent: 95, chargingPowerKW: 0.14 },
+  { socPercent: 100, chargingPowerKW: 0.08 },
+];
+
+/**
+ * Map a plug id saved by AddVehicleScreen to a ChargingPlug
+ */
+export function plugFromId(plugId: string | null | undefined): ChargingPlug | null {
+  if (!plugId) return null;
+  return PLUG_ID_MAP[plugId.toLowerCase()] || null;
+}
+
+/**
+ * Build a charge curve scaled to a vehicle's peak charging power
+ * @param peakPowerKW Maximum power the vehicle accepts (kW)
+ */
+export function buildChargeCurve(peakPowerKW: number): ChargeCurvePoint[] {
+  return GENERIC_CURVE_SHAPE.map(point => ({
+    socPercent: point.socPercent,
+    // Never drop below a trickle so charging-time integration stays finite
+    chargingPowerKW: Math.max(Math.round(point.chargingPowerKW * peakPowerKW * 10) / 10, 1),
+  }));
+}
+
+/**
+ * Convert a database spec into a full vehicle profile
+ * @param spec Vehicle database entry
+ * @param extraPlugs Additional plugs the owner reported (e.g. adapter or regional variant)
+ */
+export function buildVehicleProfile(
+  spec: VehicleSpec,
+  extraPlugs: ChargingPlug[] = []
+): StandardVehicle {
+  const maxChargingPower = Math.max(spec.maxDcChargingPower, spec.maxAcChargingPower);
+  const supportedPlugs = [...spec.plugs];
+  extraPlugs.forEach(plug => {
+    if (!supportedPlugs.includes(plug)) {
+      supportedPlugs.push(plug);
+    }
+  });
+
+  return {
+    name: `${spec.make} ${spec.model}`,
+    make: spec.make,
+    model: spec.model,
+    year: DEFAULT_MODEL_YEAR,
+    batteryCapacity: spec.batteryCapacity,
+    maxRange: spec.range,
+    avgConsumption: spec.batteryCapacity / spec.range,
+    fastChargingPower: spec.maxDcChargingPower,
+    standardChargingPower: spec.maxAcChargingPower,
+    supportedPlugs,
+    maxChargingPower,
+    chargeCurve: buildChargeCurve(maxChargingPower),
+  };
+}
+
+/**
+ * Resolve saved vehicle data into a vehicle profile
+ * - Known make/model: database specs plus the plug the owner selected
+ * - Unknown make/model: average EV specs with the owner's make/model/plug
+ * - Nothing saved: STANDARD_VEHICLE
+ */
+export function resolveVehicleProfile(
+  vehicleData: SavedVehicleData | null | undefined
+): StandardVehicle {
+  if (!vehicleData || (!vehicleData.brand && !vehicleData.model)) {
+    return STANDARD_VEHICLE;
+  }
+
+  const selectedPlug = plugFromId(vehicleData.plug);
+  const extraPlugs = selectedPlug ? [selectedPlug] : [];
+  const spec = findVehicleSpecs(vehicleData.brand || '', vehicleData.model || '');
+
+  if (spec) {
+    return buildVehicleProfile(spec, extraPlugs);
+  }
+
+  const fallback = getDefaultVehicleSpecs();
+  return buildVehicleProfile(
+    {
+      ...fallback,
+      make: vehicleData.brand || fallback.make,
+      model: vehicleData.model || fallback.model,
+      // If the owner told us their plug, trust it over the generic default inlets
+      plugs: selectedPlug ? [selectedPlug] : fallback.plugs,
+    },
+    []
+  );
+}
+
+/**
+ * Stable ID for a saved vehicle (its license plate), used to tie reservations to a vehicle
+ * Returns 'standard' when no vehicle has been registered (STANDARD_VEHICLE is used)
+ */
+export function getVehicleId(vehicleData: SavedVehicleData | null | undefined): string {
+  const plate = vehicleData?.licensePlate?.replace(/\s+/g, '').toUpperCase();
+  return plate || 'standard';
+}
+
+/**
+ * Load the active vehicle profile for this device
+ */
+export async function loadActiveVehicleProfile(): Promise<StandardVehicle> {
+  try {
+    const vehicleData = (await loadVehicleData()) as SavedVehicleData | null;
+    return resolveVehicleProfile(vehicleData);
+  } catch (error) {
+    console.error('Error loading vehicle profile:', error);
+    return STANDARD_VEHICLE;
+  }
+}
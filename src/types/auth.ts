@@ -0,0 +1,41 @@
+/**
+ * Accounts and sign-in sessions
+ * A driver signs in with email and password, or with a one-time code sent by SMS to their
+ * mobile number. The identity backend (see identityBackend) issues a short-lived access token
+ * and a longer-lived refresh token; only authService keeps them, in secure storage.
+ */
+
+/**
+ * Message of errors thrown when a token is no longer valid (as opposed to network failures)
+ */
+export const AUTH_EXPIRED = 'Your session has expired. Please sign in again.';
+
+export interface AuthUser {
+  id: string; // Stable across devices; the driver's data is stored under it
+  name: string;
+  email?: string; // Set for email accounts
+  phone?: string; // Set for SMS accounts, 09XXXXXXXXX
+  createdAt: string; // ISO
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  accessTokenExpiresAt: string; // ISO
+  refreshToken: string; // Rotated on every refresh
+  refreshTokenExpiresAt: string; // ISO; the driver has to sign in again after this
+}
+
+export interface AuthSession {
+  user: AuthUser;
+  tokens: AuthTokens;
+}
+
+/**
+ * One-time code sent by SMS
+ */
+export interface OtpChallenge {
+  phone: string; // Normalized, 09XXXXXXXXX
+  expiresAt: string; // ISO
+  resendAfter: string; // ISO; a new code can't be requested before this
+  testCode?: string; // Only from backends that can't send SMS (the local backend)
+}
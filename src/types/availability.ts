@@ -0,0 +1,28 @@
+/**
+ * Charger availability, modelled on OCPP 1.6 StatusNotification
+ * Each of a station's chargers is one connector (connectorId = chargerIndex + 1), matching the
+ * multi-standard charger model used for reservations (see slotAvailability).
+ */
+
+export type ConnectorStatus =
+  | 'Available'
+  | 'Preparing' // Plugged in or authorized, not charging yet
+  | 'Charging'
+  | 'SuspendedEV' // Vehicle paused charging
+  | 'SuspendedEVSE' // Charger paused charging
+  | 'Finishing' // Session over, cable still plugged in
+  | 'Reserved'
+  | 'Unavailable' // Taken out of service
+  | 'Faulted';
+
+export interface ConnectorAvailability {
+  connectorId: number; // 1-based, as in OCPP
+  status: ConnectorStatus;
+}
+
+export interface StationAvailability {
+  stationId: string;
+  connectors: ConnectorAvailability[];
+  updatedAt: string; // ISO
+  source: string; // Backend that reported it (e.g. 'simulator')
+}
@@ -0,0 +1,35 @@
+/**
+ * Cancellation policies
+ * Every reservation is booked under one policy (the station host's choice, or the default),
+ * kept on the reservation so the rules can't change after booking. See cancellationPolicy.
+ */
+
+export type CancellationPolicyId = 'flexible' | 'standard' | 'strict';
+
+export interface CancellationPolicy {
+  id: CancellationPolicyId;
+  label: string;
+  freeCancellationMinutes: number; // Free until this long before the window starts
+  bookingFeeRetention: number; // Share of the booking fee kept on a late cancellation (0-1)
+  lateCancellationFee: number; // PHP, on top of the retained booking fee
+  noShowGraceMinutes: number; // Not scanned this long after the window opens = no-show
+  noShowFee: number; // PHP, on top of the whole booking fee
+}
+
+/**
+ * How a reservation ended without charging
+ */
+export type CancellationKind =
+  | 'free' // Cancelled in time; nothing is charged
+  | 'late' // Cancelled inside the free window; part of the booking fee is kept
+  | 'no_show'; // The window opened and the charger was never scanned
+
+/**
+ * What cancelling a reservation now would cost
+ */
+export interface CancellationTerms {
+  kind: CancellationKind;
+  fee: number; // PHP, flat late-cancellation or no-show fee
+  bookingFeeRetained: number; // PHP
+  freeUntil: string; // ISO; last moment to cancel for free
+}
@@ -0,0 +1,74 @@
+import { StopReason } from './ocpp';
+
+/**
+ * Charging session lifecycle: charging ─► completed
+ * A session only exists once the central system accepted StartTransaction, and completes once
+ * it acknowledged StopTransaction; a rejected start leaves the reservation untouched.
+ */
+export type ChargingSessionStatus = 'charging' | 'completed';
+
+/**
+ * One meter reading reported with MeterValues
+ */
+export interface MeterSample {
+  timestamp: string; // ISO
+  energyWh: number; // Meter register (not relative to the session start)
+  powerKW: number;
+  socPercent?: number; // Reported by DC chargers that read the vehicle's battery
+}
+
+/**
+ * Driver notices sent once per session (see chargingSessionService)
+ */
+export type SessionNotice =
+  | 'charging_complete' // Battery full; idle time starts
+  | 'grace_ending' // Idle fees start in PRICING.idleFeeWarningMinutes
+  | 'idle_fee_started' // Grace period over; idle fees accruing
+  | 'window_ended'; // Still plugged in after the reserved window (overstay)
+
+export interface ChargingSession {
+  id: string;
+  reservationId: string;
+  stationId: string;
+  stationName: string;
+  chargePointId: string; // OCPP charge box identity
+  connectorId: number; // 1-based (chargerIndex + 1)
+  idTag: string;
+  transactionId: number; // Assigned by the central system
+  status: ChargingSessionStatus;
+  pricePerKwh: number; // PHP, station price when charging started
+  connectionFee: number; // PHP
+  hasIdleFee: boolean; // Station bills idle time once the grace period is over
+  maxPowerKW: number; // Most the charger can deliver to this vehicle
+  meterStartWh: number;
+  startSocPercent: number; // Battery when charging started
+  startedAt: string; // ISO
+  latest: MeterSample; // Most recent reading
+  energyKwh: number; // Delivered so far
+  reservedUntil?: string; // ISO; end of the reserved window
+  idleSince?: string; // ISO; charging completed (meter stopped) while still plugged in
+  endedAt?: string; // ISO; session stopped and the car unplugged
+  stopReason?: StopReason;
+  notices?: SessionNotice[]; // Notices already sent
+}
+
+/**
+ * What a session costs so far (PHP)
+ */
+export interface SessionCost {
+  energyCost: number; // Metered kWh × station price
+  connectionFee: number;
+  idleMinutes: number; // Plugged in after charging finished
+  idleFee: number; // Billed idle minutes past the grace period
+  total: number;
+}
+
+/**
+ * Live estimate of a session's progress
+ */
+export interface SessionProgress {
+  elapsedMinutes: number;
+  socPercent: number; // Estimated from delivered energy
+  vehicleLimitKW: number; // What the vehicle's charge curve accepts at this SoC
+  minutesToTarget: number; // Until CHARGING_TARGET_PERCENT; 0 once reached
+}
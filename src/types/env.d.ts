@@ -4,4 +4,5 @@ declare module '@env' {
   export const OPENROUTE_SERVICE_API_KEY: string;
   export const API_BASE_URL: string;
   export const STRIPE_PUBLISHABLE_KEY: string;
+  export const OCPP_CENTRAL_SYSTEM_URL: string;
 }
@@ -1,8 +1,18 @@
+import { NavigatorScreenParams } from '@react-navigation/native';
+import { ConsumptionProfile } from '@/services/standardVehicleModel';
+import { PlannerObjective, PlannerType } from './route-calculation';
+import { Station } from './station';
+
 export type RootStackParamList = {
   Registration: undefined;
+  SignIn: undefined;
+  SignUp: undefined;
+  PhoneSignIn: undefined;
   AddVehicle: undefined;
   AddPayment: undefined;
   Notifications: undefined;
+  SessionReceipt: { reservationId: string };
+  ExportSessions: undefined;
   Privacy: undefined;
   HelpSupport: undefined;
   MainTabs: undefined;
@@ -10,7 +20,7 @@ export type RootStackParamList = {
 };
 
 export type MainTabsParamList = {
-  Map: undefined;
+  Map: NavigatorScreenParams<MapStackParamList> | undefined;
   Profile: undefined;
   Reservations: undefined;
   Data: undefined;
@@ -18,8 +28,8 @@ export type MainTabsParamList = {
 
 export type MapStackParamList = {
   MapHome: undefined;
-  NearbyStations: { stations: EnrichedStation[] };
-  StationProfile: { station: EnrichedStation };
+  NearbyStations: { stations: Station[] };
+  StationProfile: { station: Station };
   ReserveStation: { stationId: string };
   ConfirmPayment: { stationId: string; reservationDetails: ReservationDetails };
   PlanTrip: undefined;
@@ -29,63 +39,32 @@ export type MapStackParamList = {
     currentBatteryPercent?: number;
     minimumArrivalBattery?: number;
     chargingStrategy?: number; // 0 = Few long, 1 = Balanced, 2 = Many short
+    planner?: PlannerType; // 'greedy' (default) or 'graph'
+    plannerObjective?: PlannerObjective; // Graph planner objective: 'time' or 'cost'
+    consumptionProfile?: ConsumptionProfile; // Driving style (default: 'realistic')
     departureTime?: string; // ISO string for custom departure time
   };
-  ReservationDetails: { routeId: string; stations: EnrichedStation[] };
+  ReservationDetails: {
+    routeId: string;
+    stations: Station[];
+    reservationId?: string;
+    tripId?: string; // Trip booking; stations are its stops in trip order
+  };
   ScanQR: { reservationId: string };
+  ChargingSession: { sessionId: string };
   Rating: { stationId: string; reservationId: string };
 };
 
-export interface EnrichedStation {
-  id: string; // OpenChargeMap ID (stringified)
-  title: string;
-  address: string;
-  latitude: number;
-  longitude: number;
-  totalPlugs: number;
-  plugsInUse: number;
-  availablePlugs: number;
-  plugTypes: string[];
-  powerKW: number; // aggregate or max power in kW
-  distanceKm: number;
-  driveMinutes: number;
-  rating: number; // synthetic rating 1-5
-  pricePerKWh: number; // synthetic price
-  amenities: {
-    wifi: boolean;
-    bathroom: boolean;
-    pwdFriendly: boolean;
-    waitingLounge: boolean;
-  };
-  state: string;
-}
-
-export interface Station {
-  id: string;
-  name: string;
-  address: string;
-  latitude: number;
-  longitude: number;
-  availableChargers: number;
-  totalChargers: number;
-  chargingSpeed: string; // 'Slow', 'Fast', 'Ultra Fast'
-  pricePerKwh: number;
-  amenities: string[];
-  rating: number;
-  powerKW?: number; // Charging power in kW
-  plugTypes?: string[]; // Array of available plug types (CCS2, Type 2, CHAdeMO, etc.)
-  operator?: string; // Station operator (Shell, Tesla, ACMobility, etc.)
-  isTeslaSupercharger?: boolean; // Flag for Tesla Supercharger pricing
-  connectionFee?: number; // Per-session connection fee
-  hasIdleFee?: boolean; // Whether station charges idle fees
-}
-
 export interface ReservationDetails {
+  reservationId: string; // Reservation in reservationsStore
   stationId: string;
   date: string;
   time: string;
   duration: number;
   estimatedCost: number;
+  holdExpiresAt?: string; // ISO; the slot is held until then while payment is pending
+  tripId?: string; // Set when paying for every charging stop of a trip at once
+  stopCount?: number; // Number of stops in the trip booking
 }
 
 export interface Vehicle {
@@ -0,0 +1,11 @@
+/**
+ * In-app notification shown on NotificationsScreen (see notificationsService)
+ */
+export interface AppNotification {
+  id: string;
+  title: string;
+  body: string;
+  createdAt: string; // ISO
+  read: boolean;
+  reservationId?: string; // Reservation it is about, if any
+}
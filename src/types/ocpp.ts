@@ -0,0 +1,122 @@
+/**
+ * OCPP 1.6J (JSON over WebSocket) messages used for charging sessions
+ * Only the charge point → central system actions a session needs are modelled: Authorize,
+ * StartTransaction, MeterValues and StopTransaction.
+ */
+
+export const OCPP_SUBPROTOCOL = 'ocpp1.6';
+
+/**
+ * RPC frame message type IDs
+ */
+export enum OcppMessageType {
+  CALL = 2,
+  CALLRESULT = 3,
+  CALLERROR = 4,
+}
+
+export type OcppCall = [OcppMessageType.CALL, string, OcppAction, object];
+export type OcppCallResult = [OcppMessageType.CALLRESULT, string, object];
+export type OcppCallError = [OcppMessageType.CALLERROR, string, OcppErrorCode, string, object];
+export type OcppFrame = OcppCall | OcppCallResult | OcppCallError;
+
+export type OcppErrorCode =
+  | 'NotImplemented'
+  | 'NotSupported'
+  | 'InternalError'
+  | 'ProtocolError'
+  | 'SecurityError'
+  | 'FormationViolation'
+  | 'PropertyConstraintViolation'
+  | 'OccurenceConstraintViolation' // Sic, as spelled in the spec
+  | 'TypeConstraintViolation'
+  | 'GenericError';
+
+export type AuthorizationStatus = 'Accepted' | 'Blocked' | 'Expired' | 'Invalid' | 'ConcurrentTx';
+
+export interface IdTagInfo {
+  status: AuthorizationStatus;
+  expiryDate?: string; // ISO
+  parentIdTag?: string;
+}
+
+export interface AuthorizeRequest {
+  idTag: string; // Max 20 characters
+}
+
+export interface AuthorizeResponse {
+  idTagInfo: IdTagInfo;
+}
+
+export interface StartTransactionRequest {
+  connectorId: number; // 1-based
+  idTag: string;
+  meterStart: number; // Wh
+  timestamp: string; // ISO
+  reservationId?: number;
+}
+
+export interface StartTransactionResponse {
+  transactionId: number;
+  idTagInfo: IdTagInfo;
+}
+
+export type Measurand = 'Energy.Active.Import.Register' | 'Power.Active.Import' | 'SoC';
+
+export interface SampledValue {
+  value: string; // Numbers are sent as strings
+  measurand?: Measurand; // Energy.Active.Import.Register when omitted
+  unit?: 'Wh' | 'kWh' | 'W' | 'kW' | 'Percent';
+  context?: 'Transaction.Begin' | 'Sample.Periodic' | 'Transaction.End';
+}
+
+export interface MeterValue {
+  timestamp: string; // ISO
+  sampledValue: SampledValue[];
+}
+
+export interface MeterValuesRequest {
+  connectorId: number;
+  transactionId?: number;
+  meterValue: MeterValue[];
+}
+
+export type MeterValuesResponse = Record<string, never>;
+
+export type StopReason =
+  | 'EmergencyStop'
+  | 'EVDisconnected'
+  | 'HardReset'
+  | 'Local'
+  | 'Other'
+  | 'PowerLoss'
+  | 'Reboot'
+  | 'Remote'
+  | 'SoftReset'
+  | 'UnlockCommand'
+  | 'DeAuthorized';
+
+export interface StopTransactionRequest {
+  transactionId: number;
+  meterStop: number; // Wh
+  timestamp: string; // ISO
+  idTag?: string;
+  reason?: StopReason;
+  transactionData?: MeterValue[];
+}
+
+export interface StopTransactionResponse {
+  idTagInfo?: IdTagInfo;
+}
+
+/**
+ * Request and response payloads per action
+ */
+export interface OcppActions {
+  Authorize: { request: AuthorizeRequest; response: AuthorizeResponse };
+  StartTransaction: { request: StartTransactionRequest; response: StartTransactionResponse };
+  MeterValues: { request: MeterValuesRequest; response: MeterValuesResponse };
+  StopTransaction: { request: StopTransactionRequest; response: StopTransactionResponse };
+}
+
+export type OcppAction = keyof OcppActions;
@@ -0,0 +1,79 @@
+import { CostBreakdown } from './route-calculation';
+
+/**
+ * Payment methods and payments
+ * Card numbers never leave the gateway: a saved method only keeps the gateway's token and what
+ * the driver needs to recognise it (brand, last 4 digits, expiry or masked mobile number).
+ */
+
+export type PaymentMethodType = 'card' | 'gcash' | 'maya';
+
+export type WalletType = Exclude<PaymentMethodType, 'card'>;
+
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'jcb' | 'unknown';
+
+export interface PaymentMethod {
+  id: string;
+  type: PaymentMethodType;
+  token: string; // Gateway token; charges are made against this
+  label: string; // e.g. "Visa •••• 4242" or "GCash •••• 4567"
+  holderName: string;
+  brand?: CardBrand; // Cards only
+  last4: string; // Card number or mobile number
+  expMonth?: number; // Cards only, 1-12
+  expYear?: number; // Cards only, four digits
+  isDefault: boolean;
+  createdAt: string; // ISO
+}
+
+/**
+ * Card entered by the driver; only passed to the gateway to tokenize
+ */
+export interface CardDetails {
+  number: string;
+  expMonth: number;
+  expYear: number; // Two or four digits
+  cvc: string;
+  holderName: string;
+}
+
+/**
+ * E-wallet account to link (GCash or Maya)
+ */
+export interface WalletDetails {
+  type: WalletType;
+  mobileNumber: string; // PH mobile, 09XXXXXXXXX or +639XXXXXXXXX
+  holderName: string;
+}
+
+/**
+ * Payment lifecycle
+ *
+ *   authorized ─► captured ─► refunded
+ *        │
+ *        └──► voided
+ *
+ * A capture can be for less than the authorized amount; the rest of the hold is released.
+ * Refunds can be partial; the payment counts as refunded once nothing captured is left.
+ */
+export type PaymentStatus = 'authorized' | 'captured' | 'voided' | 'refunded';
+
+export interface Payment {
+  id: string;
+  reservationIds: string[]; // One reservation, or every stop of a trip booking
+  paymentMethodId: string;
+  paymentMethodLabel: string; // As shown when paying, for receipts
+  gatewayReference: string; // Authorization reference at the gateway
+  status: PaymentStatus;
+  authorizedAmount: number; // PHP
+  capturedAmount: number; // PHP
+  refundedAmount: number; // PHP
+  description: string;
+  balanceOf?: string; // Set on a top-up: the booking's payment whose hold fell short
+  estimate?: CostBreakdown; // Itemized estimate the hold was placed for
+  breakdown?: CostBreakdown; // Itemized metered cost, once captured (the receipt)
+  createdAt: string; // ISO
+  capturedAt?: string; // ISO
+  voidedAt?: string; // ISO
+  refundedAt?: string; // ISO; most recent refund
+}
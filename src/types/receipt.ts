@@ -0,0 +1,36 @@
+import { CancellationKind } from './cancellation';
+
+/**
+ * Receipt for one completed charging session, or for what a paid reservation that ended
+ * without charging was billed (see receiptService)
+ * Prices are VAT-inclusive, as in the Philippines: the VAT lines break the total down, they are
+ * not added to it.
+ */
+export interface SessionReceipt {
+  receiptNumber: string; // e.g. "EVR-20261019-A1B2"
+  reservationId: string;
+  tripId?: string; // Trip booking the session was a stop of
+  stationName: string;
+  stationAddress: string;
+  vehicleName: string;
+  connector: string | null;
+  startedAt: string; // ISO; charging started (or the reserved start, for older sessions)
+  endedAt: string; // ISO
+  energyKwh?: number; // Metered energy; unknown for sessions without a meter record
+  ratePerKwh?: number; // PHP, station price when charging started
+  energyCost: number; // PHP
+  connectionFee: number; // PHP
+  idleMinutes: number;
+  idleFee: number; // PHP
+  commissionFee: number; // PHP
+  bookingFee: number; // PHP; on the first session of a booking only
+  serviceFee: number; // PHP; on the first session of a booking only
+  cancellation?: CancellationKind; // Set when the reservation was cancelled or a no-show
+  cancellationFee: number; // PHP, late-cancellation or no-show fee
+  total: number; // PHP, VAT-inclusive
+  vatRate: number; // e.g. 0.12
+  vatableSales: number; // PHP, total less VAT
+  vat: number; // PHP, VAT included in the total
+  paymentMethodLabel?: string; // Method the booking was paid with
+  paymentReference?: string; // Gateway reference, for expense claims
+}
@@ -0,0 +1,59 @@
+import { ChargingPlug } from '@/services/standardVehicleModel';
+import { CancellationKind, CancellationPolicyId } from './cancellation';
+
+/**
+ * Reservation lifecycle
+ *
+ *   pending_payment ─► confirmed ─► in_progress ─► completed
+ *         │               │
+ *         └───────────────┴──► cancelled | expired
+ *
+ * A confirmed reservation that isn't scanned within its policy's no-show grace period expires
+ * as a no-show (see cancellationPolicy).
+ *
+ * Transitions are enforced by reservationsStore.
+ */
+export type ReservationStatus =
+  | 'pending_payment' // Slot held while waiting for payment (ReserveStation)
+  | 'confirmed' // Paid, waiting for the driver to plug in (ConfirmPayment)
+  | 'in_progress' // Charging started by scanning the charger QR (ScanQR)
+  | 'completed' // Session finished (Rating)
+  | 'cancelled' // Cancelled by the driver before charging started
+  | 'expired'; // Never paid, or never scanned (no-show)
+
+export interface Reservation {
+  id: string;
+  stationId: string;
+  stationName: string;
+  stationAddress: string;
+  connector: ChargingPlug | null; // Connector reserved for the vehicle, null if unknown
+  chargerIndex: number; // Which of the station's chargers is held (0-based)
+  vehicleId: string;
+  vehicleName: string;
+  tripId?: string; // Set when booked with the rest of a trip's charging stops (TripRouteScreen)
+  status: ReservationStatus;
+  scheduledStart: string; // ISO; start of the reserved window
+  scheduledEnd: string; // ISO; end of the reserved window
+  createdAt: string; // ISO
+  holdExpiresAt: string; // ISO; an unpaid reservation releases its charger after this
+  confirmedAt?: string; // ISO
+  paymentId?: string; // Payment that paid for it (see paymentService)
+  startedAt?: string; // ISO; charging actually started
+  sessionId?: string; // Charging session that metered it (see chargingSessionService)
+  endedAt?: string; // ISO; completed, cancelled or expired
+  cancellationPolicy?: CancellationPolicyId; // Policy booked under (older bookings: the default)
+  cancellation?: CancellationKind; // Set when cancelled, or expired as a no-show
+  cancellationFee?: number; // PHP, late-cancellation or no-show fee
+  estimatedCost: number; // PHP, quoted at booking
+  arrivalSocPercent?: number; // Planned battery when the driver arrives (trip stops)
+  // Station terms when booked, charged by the session (older bookings: the station's current
+  // terms, see getBookedStation)
+  pricePerKwh?: number; // PHP
+  connectionFee?: number; // PHP
+  hasIdleFee?: boolean;
+  powerKW?: number;
+  plugTypes?: ChargingPlug[];
+  finalCost?: number; // PHP, once the session is completed
+  idleFee?: number; // PHP, part of finalCost billed for idling past the grace period
+  rating?: number; // 1-5 from RatingScreen
+}
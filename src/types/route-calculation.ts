@@ -2,13 +2,26 @@
  * Type definitions for enhanced route calculation system
  */
 
-import { Station } from './navigation';
+import { Station } from './station';
+import { ConsumptionProfile, StandardVehicle } from '@/services/standardVehicleModel';
 
 /**
  * Types of route segments
  */
 export type SegmentType = 'start' | 'travel' | 'charging_station' | 'destination';
 
+/**
+ * Charging stop planners
+ * - greedy: ABRP-style step-by-step optimizer driven by the charging strategy
+ * - graph: global search over stations and state of charge (see graphChargingPlanner)
+ */
+export type PlannerType = 'greedy' | 'graph';
+
+/**
+ * What the graph planner minimizes
+ */
+export type PlannerObjective = 'time' | 'cost';
+
 /**
  * Turn instruction types from OpenRouteService
  */
@@ -59,12 +72,16 @@ export interface RouteSegment {
 
   // Distance and time from previous segment
   distanceFromPrevious: number; // km
-  durationFromPrevious: number; // minutes
+  durationFromPrevious: number; // minutes, including traffic at the time it is driven
 
   // Cumulative totals
   cumulativeDistance: number; // Total km from start
   cumulativeDuration: number; // Total minutes from start (including charging)
 
+  // Planned wall-clock times from the trip departure, ISO 8601 in Manila time (+08:00)
+  arrivalTime: string; // When the car reaches this point (start: departure time)
+  departureTime?: string; // When it leaves (start and charging stops)
+
   // Battery state
   batteryAtArrival: number; // Battery % when arriving at this point
   batteryAtDeparture?: number; // Battery % when leaving (for charging stops)
@@ -92,6 +109,8 @@ export interface ChargingStop {
   cost: number; // PHP
   distanceFromStart: number; // km
   reasonForStop: string; // e.g., "Low battery", "Optimal stop point"
+  arrivalTime: string; // ISO, Manila time (+08:00); planned arrival at the station
+  departureTime: string; // ISO, Manila time (+08:00); arrival plus charging time
 }
 
 /**
@@ -102,6 +121,9 @@ export interface CostBreakdown {
   bookingFee: number; // Flat PHP 30 booking fee
   commissionFee: number; // 2% commission on charging cost
   serviceFee: number; // Flat service fee (currently 0)
+  idleFees: number; // Idle fees expected at the stops (0 when leaving once charged)
+  idleFeeStops: number; // Stops whose station bills idle time (on receipts: stops billed for it)
+  cancellationFees: number; // Late-cancellation and no-show fees (receipts only; 0 when planning)
   totalCost: number; // Sum of all costs
 }
 
@@ -132,12 +154,17 @@ export interface DetailedRoute {
   costBreakdown: CostBreakdown;
 
   // Battery information
+  vehicleName: string; // Vehicle profile used for the energy model
+  consumptionProfile: ConsumptionProfile; // Driving style used for energy estimates
+  planner: PlannerType; // Planner that chose the charging stops
   initialBattery: number; // % at start
   finalBattery: number; // % at destination
   totalEnergyUsed: number; // kWh consumed
   totalEnergyCharged: number; // kWh charged at stations
 
   // Timestamps
+  departureTime: Date; // Trip start; segment durations include traffic from this time
+  arrivalTime: string; // ISO, Manila time (+08:00); planned arrival at the destination
   createdAt: Date;
 }
 
@@ -152,7 +179,13 @@ export interface RouteCalculationOptions {
   maxDetourKm?: number; // Max detour for charging stations (default: 5km)
   minimumArrivalBattery?: number; // Min battery % at destination (default: 15%)
   chargingStrategy?: number; // 0 = Few long, 1 = Balanced, 2 = Many short (default: 1)
-  trafficMultiplier?: number; // Traffic impact on consumption (default: 1.0)
+  departureTime?: Date; // Trip start for time-of-day traffic (default: now)
+  trafficMultiplier?: number; // Traffic impact on consumption (default: traffic when each leg is driven)
+  vehicle?: StandardVehicle; // Vehicle profile (default: the device's saved vehicle)
+  seed?: number; // Optional seed for alternative station choices (default: deterministic)
+  planner?: PlannerType; // Charging stop planner (default: 'greedy')
+  plannerObjective?: PlannerObjective; // Graph planner objective (default: 'time')
+  consumptionProfile?: ConsumptionProfile; // Driving style (default: 'realistic')
 }
 
 /**
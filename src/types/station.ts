@@ -0,0 +1,60 @@
+import { ChargingPlug, ChargingSpeed } from '@/services/standardVehicleModel';
+import { CancellationPolicyId } from './cancellation';
+
+/**
+ * Canonical charging station model
+ * Every station the app shows or plans with - map, nearby list, trip planner, reservations -
+ * has this shape and is produced by stationNormalizer from a raw OpenChargeMap POI.
+ */
+
+export interface StationAmenities {
+  wifi: boolean;
+  bathroom: boolean;
+  pwdFriendly: boolean;
+  waitingLounge: boolean;
+}
+
+/**
+ * Who may use a station (from OpenChargeMap UsageType)
+ */
+export type StationAccess =
+  | 'public' // Anyone
+  | 'members_only' // Public, but needs a network membership or access card
+  | 'customers_only' // Staff, visitors or customers of the site (malls, hotels, dealers)
+  | 'private'; // Restricted or by arrangement with the owner
+
+/**
+ * Weekly opening hours, in Manila time
+ */
+export interface OpeningHours {
+  days: number[]; // Weekdays open, 0 = Sunday
+  open: number; // Minutes after midnight
+  close: number; // Minutes after midnight; earlier than open when the hours run past midnight
+}
+
+export interface Station {
+  id: string; // OpenChargeMap ID (stringified); negative IDs are demo stations
+  name: string;
+  address: string;
+  region: string; // Province/region (OpenChargeMap StateOrProvince)
+  latitude: number;
+  longitude: number;
+  operator: string; // Station operator (Shell, Tesla, ACMobility, etc.)
+  status: string; // OpenChargeMap status ('Operational', 'Planned', ...)
+  totalChargers: number;
+  availableChargers: number;
+  powerKW: number; // Highest connector power in kW
+  chargingSpeed: ChargingSpeed;
+  plugTypes: ChargingPlug[]; // Normalized connector types
+  pricePerKwh: number; // PHP
+  connectionFee: number; // Per-session connection fee (PHP)
+  hasIdleFee: boolean; // Whether the station charges idle fees
+  isTeslaSupercharger: boolean; // Tesla Supercharger pricing applies
+  rating: number; // 1-5
+  amenities: StationAmenities;
+  access: StationAccess;
+  openingHours: OpeningHours | null; // null = open 24/7 (or hours not published)
+  cancellationPolicy?: CancellationPolicyId; // Set by the host; DEFAULT_CANCELLATION_POLICY otherwise
+  distanceKm?: number; // From the user or search point, when known
+  driveMinutes?: number; // Estimated drive from the user, when known
+}
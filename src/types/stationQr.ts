@@ -0,0 +1,10 @@
+/**
+ * Contents of the QR code printed on a charger
+ * Identifies one connector of a station; see stationQrCode for the encoding.
+ */
+export interface StationQrPayload {
+  version: number; // Format version the code was printed with
+  stationId: string;
+  connectorId: number; // 1-based, as in OCPP (chargerIndex + 1)
+  operator: string; // Shown to the driver; not used for matching
+}